@@ -0,0 +1,392 @@
+import { parseArgs } from 'node:util';
+import { openAsBlob } from 'node:fs';
+import { readFile, readdir, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createLineParser, createPartialResult, mergePartialResults, buildSummary, getParseCoverage, LOW_COVERAGE, DEFAULT_DURATION_UNITS, ParserOptions } from '../src/logCore';
+import { compactRecordStore } from '../src/recordStore';
+import { aggregateByteStream } from '../src/lineStream';
+import { openDecompressedStream, decompressStream } from '../src/compressedInput';
+import { toUploadEntries, isLogFileName, UploadEntry } from '../src/fileSources';
+import { readUploadSample, detectLogFormat, orderByFirstTimestamp, BUILTIN_TYPES } from '../src/formatDetection';
+import { CustomFormat, CustomFormatError, CUSTOM_TYPE_PREFIX, DURATION_UNITS } from '../src/customFormats';
+import { DEFAULT_ROUTE_CONFIG, RouteConfig } from '../src/routeTemplates';
+import { DEFAULT_ANALYSIS_SETTINGS, AnalysisSettings, parseBucketEdges, formatDurationMs } from '../src/analysisSettings';
+import { topSlowRecords } from '../src/detailRows';
+import { REPORT_TOP_N, getDataSpan, buildJsonReport, buildMarkdownReport, buildCsvReport } from '../src/reportExport';
+import { LOCAL_TIME_ZONE, formatInstant } from '../src/timestamps';
+import { SLO_OBJECTIVES, evaluateSlos, normalizeSlo, validateSlo } from '../src/slo';
+
+// --- Headless CLI ---
+// 웹 앱과 같은 파서/집계 코드(logCore, lineStream)로 서버의 로그를 분석합니다. (cron, CI 파이프라인용)
+// 결과는 웹 앱의 리포트 내보내기와 같은 JSON/Markdown, 또는 엔드포인트별 CSV로 출력하고,
+// 한도(--max-p95 등)를 넘거나 SLO(--slo)를 지키지 못하면 종료 코드 1로 끝납니다.
+
+const EXIT_OK = 0;
+const EXIT_LIMIT_EXCEEDED = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `사용법: log-analyzer [옵션] [파일|폴더|glob ...]
+
+파일을 지정하지 않거나 '-'를 주면 표준 입력을 읽습니다. (.gz, .zip도 그대로 읽습니다)
+
+입력
+  -t, --type <타입>          로그 타입: ${BUILTIN_TYPES.map(t => t.id).join(', ')} (생략하면 앞부분 샘플로 자동 감지)
+      --duration-unit <단위>  응답 시간 단위: ${DURATION_UNITS.map(u => u.key).join(', ')} (생략하면 자동 감지)
+      --custom-format <파일>  사용자 정의 포맷 JSON (포맷 하나 또는 배열). --type custom:<id>로 고르거나 자동 감지
+      --routes <파일>         경로 템플릿 설정 JSON ({ "autoTemplate": true, "templates": ["/users/{id}"] })
+
+집계 설정 (웹 앱의 분석 설정과 같음)
+      --slow <ms>             지연 기준 (기본 ${DEFAULT_ANALYSIS_SETTINGS.slowThresholdMs})
+      --buckets <ms,...>      응답 시간 구간 경계 (기본 ${DEFAULT_ANALYSIS_SETTINGS.bucketEdgesMs.join(',')})
+      --interval <분>         히트맵 집계 주기 (기본 ${DEFAULT_ANALYSIS_SETTINGS.intervalMinutes})
+      --tz <시간대>           표시/구간 정렬 시간대 (IANA 이름, 기본 시스템 시간대)
+
+출력
+  -f, --format <형식>        json | csv | markdown (기본 json)
+  -o, --output <파일>        출력 파일 (기본 표준 출력)
+
+한도 (넘으면 종료 코드 1, 위반 내역은 표준 에러로)
+      --max-p95 <ms>          전체 p95 응답 시간
+      --max-p99 <ms>          전체 p99 응답 시간
+      --max-avg <ms>          전체 평균 응답 시간
+      --max-error-rate <%>    에러율 (4xx/5xx)
+      --min-coverage <%>      해석률 하한 (빈 줄을 뺀 줄 중 해석한 비율)
+      --slo <파일>            SLO 정의 JSON 배열. 리포트에 준수율을 넣고, 목표를 못 지키거나 대상 요청이 없으면 종료 코드 1
+                              ([{ "name": "결제", "pattern": "/api/pay/**", "latencyMs": 500, "latencyTarget": 99, "availabilityTarget": 99.9 }])
+                              csv에는 엔드포인트 표 뒤에 빈 줄을 두고 SLO 표를 붙입니다.
+
+종료 코드: 0 정상, 1 한도 초과, 2 사용법/입력 오류
+`;
+
+class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+const STDIN_SOURCE = 'stdin';
+const GLOB_CHARS = /[*?[]/;
+const STDIN_PEEK_BYTES = 1024 * 256;
+
+const parseNumberOption = (name: string, value: string | undefined) => {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0) throw new CliUsageError(`--${name} 값이 올바르지 않습니다: ${value}`);
+  return n;
+};
+
+const readJsonOption = async (name: string, file: string | undefined) => {
+  if (!file) return undefined;
+  try {
+    return JSON.parse(await readFile(file, 'utf8'));
+  } catch (e) {
+    throw new CliUsageError(`--${name} 파일을 읽지 못했습니다 (${file}): ${e.message}`);
+  }
+};
+
+// --- Input Collection ---
+
+// `logs/**/*.log` → 고정 경로 부분(logs)과 나머지 패턴의 정규식
+const compileGlob = (pattern: string) => {
+  const parts = pattern.split('/');
+  const firstGlob = parts.findIndex(p => GLOB_CHARS.test(p));
+  const base = parts.slice(0, firstGlob).join('/') || (pattern.startsWith('/') ? '/' : '.');
+  const source = parts.slice(firstGlob).join('/')
+    .replace(/[.+^${}()|\\]/g, '\\$&')
+    .replace(/\*\*\//g, '\u0000')
+    .replace(/\*\*/g, '.*')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\?/g, '[^/]')
+    .replace(/\u0000/g, '(?:.*/)?');
+  return { base, regex: new RegExp(`^${source}$`) };
+};
+
+const walkDir = async (dir: string, out: string[]) => {
+  for (const dirent of await readdir(dir, { withFileTypes: true })) {
+    const full = path.join(dir, dirent.name);
+    if (dirent.isDirectory()) await walkDir(full, out);
+    else if (dirent.isFile()) out.push(full);
+  }
+};
+
+// 인자 하나를 파일 목록으로 펼칩니다. 폴더와 glob은 웹 앱의 폴더 업로드처럼 로그 파일만 모읍니다.
+const expandArg = async (arg: string) => {
+  if (GLOB_CHARS.test(arg)) {
+    const { base, regex } = compileGlob(arg);
+    const all: string[] = [];
+    await walkDir(base, all).catch(() => {});
+    return all.filter(f => regex.test(path.relative(base, f).split(path.sep).join('/'))).sort();
+  }
+  const info = await stat(arg).catch(() => null);
+  if (!info) throw new CliUsageError(`파일을 찾을 수 없습니다: ${arg}`);
+  if (!info.isDirectory()) return [arg];
+  const all: string[] = [];
+  await walkDir(arg, all);
+  return all.filter(f => isLogFileName(path.basename(f))).sort();
+};
+
+// 디스크의 파일을 File로 감쌉니다. openAsBlob은 내용을 메모리에 올리지 않고 필요한 구간만 읽습니다.
+const toFile = async (filePath: string) => {
+  const info = await stat(filePath);
+  const blob = await openAsBlob(filePath);
+  return new File([blob], path.basename(filePath), { lastModified: info.mtimeMs });
+};
+
+// 표준 입력의 앞부분을 미리 읽어 두고, 그 부분부터 다시 흘려보내는 스트림을 돌려줍니다.
+const peekStream = async (stream: ReadableStream<Uint8Array>, minBytes: number) => {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let ended = false;
+  while (size < minBytes) {
+    const { done, value } = await reader.read();
+    if (done) { ended = true; break; }
+    chunks.push(value);
+    size += value.byteLength;
+  }
+  const head = new Uint8Array(size);
+  chunks.reduce((offset, chunk) => { head.set(chunk, offset); return offset + chunk.byteLength; }, 0);
+
+  const replay = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (size > 0) controller.enqueue(head);
+      if (ended) controller.close();
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel(reason) { return reader.cancel(reason); }
+  });
+  return { head, ended, stream: replay };
+};
+
+// 표준 입력을 읽는 만큼만 당겨 오는 웹 스트림 (Buffer는 Uint8Array입니다)
+const readStdin = () => {
+  const chunks: AsyncIterator<Buffer> = process.stdin[Symbol.asyncIterator]();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await chunks.next();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel() { process.stdin.destroy(); }
+  });
+};
+
+const openStdin = async () => {
+  let stream = readStdin();
+  let peeked = await peekStream(stream, 2);
+  if (peeked.head[0] === 0x1f && peeked.head[1] === 0x8b) {
+    stream = decompressStream(peeked.stream, 'gzip');
+  } else {
+    stream = peeked.stream;
+  }
+  peeked = await peekStream(stream, STDIN_PEEK_BYTES);
+  const lines = new TextDecoder().decode(peeked.head).split(/\r?\n/);
+  if (!peeked.ended) lines.pop(); // 잘린 마지막 줄 제외
+  return { stream: peeked.stream, sampleLines: lines.filter(l => l.trim()).slice(0, 500) };
+};
+
+// --- Parser Options ---
+
+const resolveParserOptions = (sampleLines: string[], values, customFormats: CustomFormat[], routeConfig: RouteConfig): ParserOptions => {
+  const candidates = detectLogFormat(sampleLines, customFormats, values.type || '');
+  let logType: string = values.type;
+  let detectedUnit: string | null = null;
+  if (logType) {
+    detectedUnit = candidates.find(c => c.logType === logType)?.durationUnit ?? null;
+  } else {
+    const best = candidates[0];
+    if (!best || best.matched === 0) throw new CliUsageError('로그 포맷을 감지하지 못했습니다. --type으로 지정해 주세요.');
+    logType = best.logType;
+    detectedUnit = best.durationUnit;
+  }
+
+  const customFormat = logType.startsWith(CUSTOM_TYPE_PREFIX)
+    ? customFormats.find(f => CUSTOM_TYPE_PREFIX + f.id === logType)
+    : null;
+  if (customFormat === undefined) throw new CliUsageError(`사용자 정의 포맷을 찾을 수 없습니다: ${logType}`);
+  if (!customFormat && !(logType in DEFAULT_DURATION_UNITS) && logType !== 'sql_logback') {
+    throw new CliUsageError(`알 수 없는 로그 타입입니다: ${logType}`);
+  }
+  return { logType, customFormat, durationUnit: values['duration-unit'] || detectedUnit, routeConfig };
+};
+
+const getTypeLabel = (logType: string, customFormats: CustomFormat[]) =>
+  BUILTIN_TYPES.find(t => t.id === logType)?.label || customFormats.find(f => CUSTOM_TYPE_PREFIX + f.id === logType)?.name || '사용자 정의';
+
+// --- Limits ---
+
+// 웹 앱 화면과 같은 값으로 비교합니다. (에러율은 화면에 표시되는 소수 둘째 자리 값)
+const checkLimits = (stats, limits) => [
+  { key: 'max-p95', label: 'p95 응답 시간', limit: limits.p95, actual: stats.latency.p95 * 1000, unit: 'ms' },
+  { key: 'max-p99', label: 'p99 응답 시간', limit: limits.p99, actual: stats.latency.p99 * 1000, unit: 'ms' },
+  { key: 'max-avg', label: '평균 응답 시간', limit: limits.avg, actual: stats.avgResponseTime === 'N/A' ? null : Number(stats.avgResponseTime) * 1000, unit: 'ms' },
+  { key: 'max-error-rate', label: '에러율', limit: limits.errorRate, actual: Number(stats.errorRate), unit: '%' },
+  // 해석률은 하한입니다. (낮으면 위반)
+  { key: 'min-coverage', label: '해석률', limit: limits.coverage, actual: getParseCoverage(stats.diagnostics) * 100, unit: '%', isMinimum: true },
+].filter(c => c.limit !== undefined && c.actual !== null);
+
+const formatLimitValue = (value: number, unit: string) => unit === 'ms' ? formatDurationMs(+value.toFixed(1)) : `${value.toFixed(2)}%`;
+
+// --- Main ---
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      type: { type: 'string', short: 't' },
+      'duration-unit': { type: 'string' },
+      'custom-format': { type: 'string' },
+      routes: { type: 'string' },
+      slow: { type: 'string' },
+      buckets: { type: 'string' },
+      interval: { type: 'string' },
+      tz: { type: 'string' },
+      format: { type: 'string', short: 'f', default: 'json' },
+      output: { type: 'string', short: 'o' },
+      'max-p95': { type: 'string' },
+      'max-p99': { type: 'string' },
+      'max-avg': { type: 'string' },
+      'max-error-rate': { type: 'string' },
+      'min-coverage': { type: 'string' },
+      slo: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    }
+  });
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return EXIT_OK;
+  }
+  if (!['json', 'csv', 'markdown'].includes(values.format)) throw new CliUsageError(`지원하지 않는 출력 형식입니다: ${values.format}`);
+  if (values['duration-unit'] && !DURATION_UNITS.some(u => u.key === values['duration-unit'])) {
+    throw new CliUsageError(`지원하지 않는 응답 시간 단위입니다: ${values['duration-unit']}`);
+  }
+
+  const bucketEdgesMs = values.buckets === undefined ? DEFAULT_ANALYSIS_SETTINGS.bucketEdgesMs : parseBucketEdges(values.buckets);
+  if (!bucketEdgesMs) throw new CliUsageError(`--buckets 값이 올바르지 않습니다: ${values.buckets}`);
+  const timeZone = values.tz || LOCAL_TIME_ZONE;
+  try {
+    formatInstant(0, timeZone);
+  } catch (e) {
+    throw new CliUsageError(`알 수 없는 시간대입니다: ${timeZone}`);
+  }
+  const settings: AnalysisSettings = {
+    slowThresholdMs: parseNumberOption('slow', values.slow) ?? DEFAULT_ANALYSIS_SETTINGS.slowThresholdMs,
+    bucketEdgesMs,
+    intervalMinutes: parseNumberOption('interval', values.interval) || DEFAULT_ANALYSIS_SETTINGS.intervalMinutes,
+    timeZone
+  };
+  const limits = {
+    p95: parseNumberOption('max-p95', values['max-p95']),
+    p99: parseNumberOption('max-p99', values['max-p99']),
+    avg: parseNumberOption('max-avg', values['max-avg']),
+    errorRate: parseNumberOption('max-error-rate', values['max-error-rate']),
+    coverage: parseNumberOption('min-coverage', values['min-coverage']),
+  };
+
+  const customFormatJson = await readJsonOption('custom-format', values['custom-format']);
+  const customFormats: CustomFormat[] = customFormatJson ? [].concat(customFormatJson) : [];
+  const routeConfig: RouteConfig = { ...DEFAULT_ROUTE_CONFIG, ...await readJsonOption('routes', values.routes) };
+  const sloJson = await readJsonOption('slo', values.slo);
+  const slos = sloJson ? [].concat(sloJson).map(normalizeSlo) : [];
+  for (const slo of slos) {
+    const error = validateSlo(slo);
+    if (error) throw new CliUsageError(`--slo ${slo.name || slo.id}: ${error}`);
+  }
+
+  // 웹 앱의 작업 분할과 같은 순서(엔트리 순서)로 부분 결과를 만들어 병합합니다.
+  const partials = [];
+  let entries: UploadEntry[] = [];
+  let parserOptions: ParserOptions;
+  const readsStdin = positionals.length === 0 || positionals.includes('-');
+
+  if (readsStdin) {
+    if (positionals.length > 1) throw new CliUsageError("표준 입력('-')은 파일과 함께 지정할 수 없습니다.");
+    const { stream, sampleLines } = await openStdin();
+    parserOptions = resolveParserOptions(sampleLines, values, customFormats, routeConfig);
+    const acc = createPartialResult();
+    await aggregateByteStream(stream, createLineParser(parserOptions), acc, STDIN_SOURCE, 0);
+    partials.push({ ...acc, records: compactRecordStore(acc.records) });
+  } else {
+    const filePaths = [...new Set((await Promise.all(positionals.map(expandArg))).flat())];
+    if (filePaths.length === 0) throw new CliUsageError(`분석할 로그 파일이 없습니다: ${positionals.join(' ')}`);
+    const files = await Promise.all(filePaths.map(async p => ({ file: await toFile(p), path: path.relative('.', p) || p })));
+    const uploaded = await toUploadEntries(files);
+    parserOptions = resolveParserOptions(await readUploadSample(uploaded), values, customFormats, routeConfig);
+    entries = await orderByFirstTimestamp(uploaded, parserOptions);
+    for (const [entryIndex, entry] of entries.entries()) {
+      const acc = createPartialResult();
+      await aggregateByteStream(openDecompressedStream(entry), createLineParser(parserOptions), acc, entry.source, entryIndex);
+      partials.push({ ...acc, records: compactRecordStore(acc.records) });
+    }
+  }
+
+  const result = mergePartialResults(partials);
+  if (result.totalRequests === 0) throw new CliUsageError(`해석한 요청이 없습니다. 로그 타입(${parserOptions.logType})을 확인해 주세요.`);
+  const stats = buildSummary(result, settings);
+  const sloResults = slos.length > 0 ? evaluateSlos(result.records, slos, settings) : [];
+
+  const { logType } = parserOptions;
+  const label = readsStdin ? STDIN_SOURCE : entries.length > 1 ? `${entries[0].path} 외 ${entries.length - 1}개` : entries[0].path;
+  const input = {
+    meta: {
+      generatedAt: Date.now(),
+      label,
+      files: entries.map(e => ({ name: e.path, size: e.end - e.start })),
+      logType,
+      logTypeLabel: getTypeLabel(logType, customFormats),
+      rateLabel: logType === 'sql_logback' ? 'QPS' : 'TPS',
+      timeZone: settings.timeZone,
+      range: null,
+      dataSpan: getDataSpan(stats.tpsData),
+      slowThresholdMs: settings.slowThresholdMs,
+      bucketEdgesMs: settings.bucketEdgesMs,
+      intervalMinutes: settings.intervalMinutes,
+      routeView: 'template'
+    },
+    stats,
+    apiView: stats,
+    topSlow: topSlowRecords(result.records, REPORT_TOP_N),
+    slo: sloResults
+  };
+
+  const output = values.format === 'csv' ? buildCsvReport(input)
+    : values.format === 'markdown' ? buildMarkdownReport(input)
+    : buildJsonReport(input);
+  if (values.output) await writeFile(values.output, output + '\n');
+  else process.stdout.write(output + '\n');
+
+  const coverage = getParseCoverage(stats.diagnostics);
+  if (coverage < LOW_COVERAGE) {
+    process.stderr.write(`경고: 빈 줄을 뺀 ${stats.diagnostics.lines.toLocaleString()}줄 중 ${(coverage * 100).toFixed(1)}%만 해석했습니다. 로그 타입을 확인해 주세요.\n`);
+  }
+  const violations = checkLimits(stats, limits).filter(c => c.isMinimum ? c.actual < c.limit : c.actual > c.limit);
+  for (const v of violations) {
+    process.stderr.write(`한도 초과: ${v.label} ${formatLimitValue(v.actual, v.unit)} ${v.isMinimum ? '<' : '>'} ${formatLimitValue(v.limit, v.unit)} (--${v.key})\n`);
+  }
+  const missedSlos = sloResults.flatMap(r => r.objectives.filter(o => !o.isMet).map(o => ({ r, o })));
+  for (const { r, o } of missedSlos) {
+    if (o.status === 'noData') {
+      // 패턴 오타로 아무 요청도 맞지 않은 SLO를 통과로 보지 않습니다.
+      process.stderr.write(`SLO 데이터 없음: ${r.slo.name} ${SLO_OBJECTIVES[o.kind].label} - ${r.matched === 0 ? `패턴(${r.slo.pattern || '*'})에 맞는 요청이 없습니다.` : '응답 시간이 있는 요청이 없습니다.'}\n`);
+    } else {
+      process.stderr.write(`SLO 위반: ${r.slo.name} ${SLO_OBJECTIVES[o.kind].label} ${(o.compliance * 100).toFixed(3)}% < ${(o.target * 100).toFixed(2)}% (에러 예산 ${(o.budgetUsed * 100).toFixed(1)}% 사용)\n`);
+    }
+  }
+  return violations.length > 0 || missedSlos.length > 0 ? EXIT_LIMIT_EXCEEDED : EXIT_OK;
+};
+
+main()
+  .then(code => { process.exitCode = code; })
+  .catch(e => {
+    if (e instanceof CliUsageError || e instanceof CustomFormatError || e?.code === 'ERR_PARSE_ARGS_UNKNOWN_OPTION' || e?.code === 'ERR_PARSE_ARGS_INVALID_OPTION_VALUE') {
+      process.stderr.write(`${e.message}\n(도움말: log-analyzer --help)\n`);
+    } else {
+      process.stderr.write(`분석 중 오류가 발생했습니다: ${e.stack || e.message}\n`);
+    }
+    process.exitCode = EXIT_USAGE;
+  });
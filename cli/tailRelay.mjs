@@ -0,0 +1,111 @@
+import { parseArgs } from 'node:util';
+import { createServer } from 'node:http';
+import { open, stat } from 'node:fs/promises';
+import { StringDecoder } from 'node:string_decoder';
+
+// --- Tail Relay ---
+// 로컬 로그 파일을 tail -F처럼 따라 읽어 새로 붙은 줄을 Server-Sent Events로 보냅니다. (웹 앱의 실시간 모드용)
+// 의존성 없이 node로 바로 실행합니다: npm run relay -- /var/log/nginx/access.log
+// 파일이 잘리거나(truncate) 로테이션으로 바뀌면 처음부터 다시 읽습니다.
+
+const USAGE = `사용법: npm run relay -- [옵션] <로그 파일>
+
+옵션
+  -p, --port <포트>     SSE 포트 (기본 8787)
+      --from-start      파일 처음부터 보냄 (기본은 연결 이후 새로 붙은 줄만)
+`;
+
+const POLL_MS = 250;
+const PING_MS = 15000;
+const MAX_LINES_PER_EVENT = 1000;
+const READ_CHUNK_BYTES = 1024 * 1024;
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    port: { type: 'string', short: 'p', default: '8787' },
+    'from-start': { type: 'boolean', default: false },
+    help: { type: 'boolean', short: 'h', default: false }
+  }
+});
+
+if (values.help || positionals.length !== 1) {
+  process.stderr.write(USAGE);
+  process.exit(values.help ? 0 : 2);
+}
+
+const file = positionals[0];
+const port = Number(values.port);
+const clients = new Set();
+
+// SSE는 data: 줄 하나가 한 줄이고, 여러 data: 줄은 개행으로 이어진 메시지 하나가 됩니다.
+const broadcast = (lines) => {
+  for (let i = 0; i < lines.length; i += MAX_LINES_PER_EVENT) {
+    const event = lines.slice(i, i + MAX_LINES_PER_EVENT).map(line => `data: ${line}\n`).join('') + '\n';
+    for (const res of clients) res.write(event);
+  }
+};
+
+// --- File Follower ---
+let position = -1; // 다음에 읽을 위치. -1이면 아직 파일을 열지 않음
+let inode = null;
+let leftover = ''; // 개행으로 끝나지 않은 마지막 조각
+let decoder = new StringDecoder('utf8'); // 읽기 단위 경계에서 잘린 멀티바이트 문자의 앞부분을 다음 읽기까지 들고 있습니다
+
+const poll = async () => {
+  const info = await stat(file).catch(() => null);
+  if (!info) return;
+  if (position < 0 || info.ino !== inode || info.size < position) {
+    const isFirst = position < 0;
+    position = isFirst && !values['from-start'] ? info.size : 0;
+    inode = info.ino;
+    leftover = '';
+    decoder = new StringDecoder('utf8');
+    if (!isFirst) process.stderr.write(`파일이 바뀌어 처음부터 다시 읽습니다: ${file}\n`);
+  }
+  if (info.size === position) return;
+
+  const handle = await open(file, 'r');
+  try {
+    const buffer = Buffer.alloc(READ_CHUNK_BYTES);
+    while (position < info.size) {
+      const { bytesRead } = await handle.read(buffer, 0, Math.min(READ_CHUNK_BYTES, info.size - position), position);
+      if (bytesRead === 0) break;
+      position += bytesRead;
+      const parts = (leftover + decoder.write(buffer.subarray(0, bytesRead))).split('\n');
+      leftover = parts.pop();
+      const lines = parts.map(line => line.endsWith('\r') ? line.slice(0, -1) : line).filter(line => line);
+      if (lines.length > 0 && clients.size > 0) broadcast(lines);
+    }
+  } finally {
+    await handle.close();
+  }
+};
+
+let isPolling = false;
+setInterval(() => {
+  if (isPolling) return;
+  isPolling = true;
+  poll()
+    .catch(e => process.stderr.write(`읽기 오류: ${e.message}\n`))
+    .finally(() => { isPolling = false; });
+}, POLL_MS);
+
+// 프록시가 유휴 연결을 끊지 않도록 주석 줄을 보냅니다.
+setInterval(() => {
+  for (const res of clients) res.write(': ping\n\n');
+}, PING_MS);
+
+createServer((req, res) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'Access-Control-Allow-Origin': '*'
+  });
+  res.write(': connected\n\n');
+  clients.add(res);
+  req.on('close', () => clients.delete(res));
+}).listen(port, () => {
+  process.stderr.write(`${file} → http://localhost:${port} (SSE)\n`);
+});
@@ -0,0 +1,197 @@
+import { RecordStore, pickRecords, estimateRecordBytes, isDetailRecord } from './recordStore';
+import { AnalysisSettings } from './analysisSettings';
+
+// --- Analysis History ---
+// 완료된 분석을 브라우저 IndexedDB에 저장해 새로고침 후에도 파일을 다시 읽지 않고 열 수 있게 합니다.
+// 목록용 메타데이터(runs)와 본문(payloads: 요약 통계 + 레코드)을 나눠 목록은 가볍게 읽습니다.
+// 서버로는 아무것도 보내지 않으며, 데이터는 이 브라우저 저장소에만 남습니다.
+
+const DB_NAME = 'logAnalyzer';
+const DB_VERSION = 1;
+const RUNS = 'runs';
+const PAYLOADS = 'payloads';
+
+const MAX_HISTORY_RUNS = 20;
+// 전체 레코드가 이보다 크면 상세 목록(지연/실패) 요청만 남긴 스냅샷으로 저장합니다.
+const MAX_FULL_RECORD_BYTES = 128 * 1024 * 1024;
+// 브라우저가 허용한 할당량 중 이 비율까지만 쓰고, 넘으면 오래된 분석부터 지웁니다.
+const QUOTA_BUDGET_RATIO = 0.8;
+const HASH_SAMPLE_BYTES = 1024 * 1024;
+
+export class HistoryStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoryStorageError';
+  }
+}
+
+export type HistoryFile = { name: string; size: number; hash: string | null };
+
+export type HistoryRun = {
+  id: string;
+  label: string;
+  createdAt: number;
+  logType: string;
+  files: HistoryFile[];
+  settings: AnalysisSettings;
+  totalRequests: number;
+  detailCount: number;
+  recordsComplete: boolean; // false면 상세 목록 요청만 저장된 스냅샷 (설정 변경/시간 범위 선택 불가)
+  byteSize: number;
+};
+
+export type HistoryPayload = { id: string; summaryStats; records: RecordStore };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new HistoryStorageError('이 브라우저는 IndexedDB를 지원하지 않아 분석 기록을 저장할 수 없습니다.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RUNS)) db.createObjectStore(RUNS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(PAYLOADS)) db.createObjectStore(PAYLOADS, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// 두 저장소에 걸친 트랜잭션 하나를 실행하고, 커밋이 끝나면 fn이 돌려준 요청의 결과로 resolve합니다.
+const withStores = async <T,>(mode: IDBTransactionMode, fn: (runs: IDBObjectStore, payloads: IDBObjectStore) => IDBRequest<T> | void) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction([RUNS, PAYLOADS], mode);
+    const request = fn(tx.objectStore(RUNS), tx.objectStore(PAYLOADS));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const listRuns = async () => {
+  const runs = await withStores<HistoryRun[]>('readonly', (runs) => runs.getAll());
+  return runs.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const loadRun = async (id: string) => {
+  const payload = await withStores<HistoryPayload | undefined>('readonly', (_, payloads) => payloads.get(id));
+  if (!payload) throw new HistoryStorageError('저장된 분석을 찾을 수 없습니다. 브라우저가 저장소를 정리했을 수 있습니다.');
+  return payload;
+};
+
+export const renameRun = (id: string, label: string) => withStores('readwrite', (runs) => {
+  const request = runs.get(id);
+  request.onsuccess = () => {
+    if (request.result) runs.put({ ...request.result, label });
+  };
+});
+
+export const deleteRun = (id: string) => withStores('readwrite', (runs, payloads) => {
+  runs.delete(id);
+  payloads.delete(id);
+});
+
+export const getStorageEstimate = async () => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+// 큰 파일도 빨리 구하도록 크기와 앞/가운데/끝 1MB만으로 SHA-256을 계산합니다. (같은 파일 재업로드 감지용)
+export const hashFile = async (file: File) => {
+  if (!globalThis.crypto?.subtle) return null;
+  const parts: BlobPart[] = [String(file.size)];
+  if (file.size <= HASH_SAMPLE_BYTES * 3) {
+    parts.push(file);
+  } else {
+    const mid = Math.floor((file.size - HASH_SAMPLE_BYTES) / 2);
+    parts.push(file.slice(0, HASH_SAMPLE_BYTES), file.slice(mid, mid + HASH_SAMPLE_BYTES), file.slice(file.size - HASH_SAMPLE_BYTES));
+  }
+  const digest = await crypto.subtle.digest('SHA-256', await new Blob(parts).arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// 업로드 엔트리가 담긴 실제 파일 목록 (zip 안의 여러 엔트리는 zip 파일 하나로 셉니다)
+export const describeFiles = (entries: { file: File }[]): Promise<HistoryFile[]> => {
+  const files = [...new Set(entries.map(e => e.file))];
+  return Promise.all(files.map(async file => ({ name: file.name, size: file.size, hash: await hashFile(file) })));
+};
+
+const filesKey = (files: HistoryFile[]) => files.map(f => `${f.name}:${f.size}:${f.hash}`).sort().join('|');
+
+// 같은 파일 묶음으로 저장된 가장 최근 분석. hash를 구하지 못한 파일이 있으면 비교하지 않습니다.
+export const findRunForFiles = (runs: HistoryRun[], files: HistoryFile[]) => {
+  if (files.length === 0 || !files.every(f => f.hash)) return null;
+  const key = filesKey(files);
+  return runs.find(run => filesKey(run.files) === key) || null;
+};
+
+// 목록(최신순)의 마지막, 즉 가장 오래된 분석을 지웁니다. 지울 분석이 없으면 false.
+const evictOldest = async (runs: HistoryRun[]) => {
+  const oldest = runs.pop();
+  if (!oldest) return false;
+  await deleteRun(oldest.id);
+  return true;
+};
+
+const isQuotaError = (e) => e?.name === 'QuotaExceededError';
+
+export const saveRun = async ({ label, logType, entries, settings, summaryStats, records }: {
+  label: string; logType: string; entries: { file: File }[]; settings: AnalysisSettings; summaryStats; records: RecordStore;
+}) => {
+  const recordsComplete = estimateRecordBytes(records) <= MAX_FULL_RECORD_BYTES;
+  const slowThreshold = settings.slowThresholdMs / 1000;
+  const savedRecords = recordsComplete ? records : pickRecords(records, i => isDetailRecord(records, i, slowThreshold));
+  const run: HistoryRun = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    label,
+    createdAt: Date.now(),
+    logType,
+    files: await describeFiles(entries),
+    settings,
+    totalRequests: summaryStats.totalRequests,
+    detailCount: summaryStats.detailCount,
+    recordsComplete,
+    byteSize: estimateRecordBytes(savedRecords) + JSON.stringify(summaryStats).length * 2
+  };
+
+  // 브라우저가 저장 공간이 부족할 때 임의로 지우지 않도록 영구 저장을 요청합니다. (거절돼도 저장은 진행)
+  if (navigator.storage?.persist && !(await navigator.storage.persisted())) await navigator.storage.persist().catch(() => false);
+
+  // 개수 제한과 할당량 예산을 넘지 않도록 오래된 분석부터 정리합니다.
+  const runs = await listRuns();
+  while (runs.length >= MAX_HISTORY_RUNS) await evictOldest(runs);
+  const estimate = await getStorageEstimate();
+  if (estimate && estimate.quota > 0) {
+    const budget = estimate.quota * QUOTA_BUDGET_RATIO;
+    if (run.byteSize > budget) throw new HistoryStorageError('분석 결과가 브라우저 저장 공간 한도보다 커서 기록에 저장하지 않았습니다.');
+    let usage = estimate.usage;
+    while (usage + run.byteSize > budget && runs.length > 0) {
+      usage -= runs[runs.length - 1].byteSize;
+      await evictOldest(runs);
+    }
+  }
+
+  // 추정보다 공간이 부족하면(QuotaExceededError) 오래된 분석을 하나씩 더 지우며 다시 시도합니다.
+  while (true) {
+    try {
+      await withStores('readwrite', (runStore, payloads) => {
+        runStore.put(run);
+        payloads.put({ id: run.id, summaryStats, records: savedRecords });
+      });
+      return run;
+    } catch (e) {
+      if (!isQuotaError(e)) throw e;
+      if (!(await evictOldest(runs))) throw new HistoryStorageError('브라우저 저장 공간이 부족해 분석을 기록에 저장하지 못했습니다.');
+    }
+  }
+};
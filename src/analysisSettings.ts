@@ -0,0 +1,86 @@
+import { LOCAL_TIME_ZONE } from './timestamps';
+
+// --- Analysis Settings ---
+// 지연 기준(threshold), 응답 시간 구간 경계, 히트맵 집계 주기, 표시 시간대는 분석 후에도 UI에서 바꿀 수 있습니다.
+// 바꾸면 파일을 다시 읽지 않고 메모리에 보관한 레코드 저장소(recordStore)로 다시 집계합니다.
+
+export type AnalysisSettings = {
+  slowThresholdMs: number;
+  bucketEdgesMs: number[];
+  intervalMinutes: number;
+  timeZone: string; // 표시/구간 정렬 기준 시간대 (IANA 이름 또는 'local')
+};
+
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  slowThresholdMs: 200,
+  bucketEdgesMs: [10, 100, 500, 1000, 5000, 10000],
+  intervalMinutes: 5,
+  timeZone: LOCAL_TIME_ZONE
+};
+
+export const INTERVAL_OPTIONS = [
+  { minutes: 1, label: '1분' },
+  { minutes: 5, label: '5분' },
+  { minutes: 15, label: '15분' },
+  { minutes: 60, label: '1시간' }
+];
+
+export const getIntervalLabel = (minutes: number) => INTERVAL_OPTIONS.find(o => o.minutes === minutes)?.label || `${minutes}분`;
+
+// 빠른 구간 → 느린 구간 순서의 색상. 구간 개수가 달라지면 고르게 골라 씁니다.
+const BUCKET_COLORS = [
+  'bg-emerald-50 text-emerald-700',
+  'bg-blue-50 text-blue-700',
+  'bg-indigo-50 text-indigo-700',
+  'bg-amber-50 text-amber-700 font-semibold',
+  'bg-orange-100 text-orange-800 font-bold',
+  'bg-red-100 text-red-800 font-bold',
+  'bg-rose-500 text-white font-black',
+];
+
+export type BucketDef = { key: string; label: string; color: string; min: number; max: number };
+
+// 10 → "10ms", 1000 → "1s", 1500 → "1.5s"
+export const formatDurationMs = (ms: number) => ms >= 1000 ? `${+(ms / 1000).toFixed(2)}s` : `${ms}ms`;
+
+const rangeLabel = (fromMs: number, toMs: number) => fromMs >= 1000
+  ? `${+(fromMs / 1000).toFixed(2)}-${+(toMs / 1000).toFixed(2)}s`
+  : `${fromMs}-${toMs}ms`;
+
+// 경계 [10, 100, 500] → "< 10ms", "10-100ms", "100-500ms", "> 500ms" 네 구간 (min/max는 초 단위)
+export const buildBucketConfig = (edgesMs: number[]): BucketDef[] => {
+  const count = edgesMs.length + 1;
+  return Array.from({ length: count }, (_, i) => {
+    const from = i === 0 ? 0 : edgesMs[i - 1];
+    const to = i === edgesMs.length ? Infinity : edgesMs[i];
+    const label = i === 0 ? `< ${formatDurationMs(to)}` : to === Infinity ? `> ${formatDurationMs(from)}` : rangeLabel(from, to);
+    const color = BUCKET_COLORS[count === 1 ? 0 : Math.round((i * (BUCKET_COLORS.length - 1)) / (count - 1))];
+    return { key: `b${i}`, label, color, min: from / 1000, max: to / 1000 };
+  });
+};
+
+export const getBucketIndex = (buckets: BucketDef[], timeInSec: number) => {
+  for (let i = 0; i < buckets.length - 1; i++) if (timeInSec < buckets[i].max) return i;
+  return buckets.length - 1;
+};
+
+// "10, 100, 500" → [10, 100, 500]. 양수가 아니거나 숫자가 아닌 값이 있으면 null
+export const parseBucketEdges = (text: string) => {
+  const values = text.split(/[,\s]+/).filter(Boolean).map(Number);
+  if (values.length === 0 || values.some(v => !Number.isFinite(v) || v <= 0)) return null;
+  return [...new Set(values)].sort((a, b) => a - b);
+};
+
+// --- Local Persistence ---
+const STORAGE_KEY = 'logAnalyzer.analysisSettings';
+
+export const loadAnalysisSettings = (): AnalysisSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_ANALYSIS_SETTINGS, ...JSON.parse(raw) } : DEFAULT_ANALYSIS_SETTINGS;
+  } catch (e) { return DEFAULT_ANALYSIS_SETTINGS; }
+};
+
+export const saveAnalysisSettings = (settings: AnalysisSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
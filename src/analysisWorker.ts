@@ -0,0 +1,26 @@
+import { createLineParser, createPartialResult } from './logCore';
+import { compactRecordStore, getRecordTransferables } from './recordStore';
+import { openDecompressedStream } from './compressedInput';
+import { aggregateFileSlice, aggregateByteStream } from './lineStream';
+
+// --- Analysis Worker ---
+// 작업(task) 하나는 파일 하나의 [start, end) 바이트 구간이며, 그 구간에서 "시작하는" 줄만 집계합니다.
+// 구간 경계에 걸친 줄은 시작 바이트를 가진 워커가 끝까지 읽어 처리합니다.
+// 압축 엔트리(gzip, zip)는 중간부터 읽을 수 없으므로 구간 전체를 스트리밍으로 해제하며 집계합니다.
+// 각 요청에는 원본 줄의 (해제 후) 바이트 위치를 함께 기록해 상세 보기에서 원문을 다시 읽을 수 있게 합니다.
+
+self.onmessage = async (event: MessageEvent) => {
+  const { taskId, options, ...task } = event.data;
+  const parser = createLineParser(options);
+  const acc = createPartialResult();
+  const onProgress = (bytesRead: number) => self.postMessage({ type: 'progress', taskId, bytesRead });
+
+  try {
+    if (task.encoding === 'none') await aggregateFileSlice(task, parser, acc, onProgress);
+    else await aggregateByteStream(openDecompressedStream(task, onProgress), parser, acc, task.source, task.entryIndex);
+    const result = { ...acc, records: compactRecordStore(acc.records) };
+    self.postMessage({ type: 'done', taskId, result }, { transfer: getRecordTransferables(result.records) });
+  } catch (e) {
+    self.postMessage({ type: 'error', taskId, message: `${task.path || task.file.name}: ${e.message}` });
+  }
+};
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { sliceRecords } from './recordStore';
+import { detectAnomalies, findAnomalyAt } from './anomalyDetection';
+import { buildRecordStore, BASE_TIME, MINUTE, TEST_SETTINGS, TestRecord } from './testRecords';
+
+// minute분에 url 요청 n건 (0.5초 간격)
+const requests = (minute: number, url: string, n: number, responseTime: number): TestRecord[] =>
+  Array.from({ length: n }, (_, j) => ({ url, responseTime, at: minute * MINUTE + j * 500 }));
+
+// 분마다 /a, /b 10건씩. 12분에 /b 급증, 15~16분 중단, 20분에 /a 지연 증가
+const buildStore = () => {
+  const records: TestRecord[] = [];
+  for (let minute = 0; minute <= 20; minute++) {
+    if (minute === 15 || minute === 16) continue;
+    records.push(...requests(minute, '/a', 10, minute === 20 ? 2 : 0.05));
+    records.push(...requests(minute, '/b', minute === 12 ? 90 : 10, 0.05));
+  }
+  return buildRecordStore(records);
+};
+
+describe('detectAnomalies', () => {
+  const store = buildStore();
+  const stats = sliceRecords(store, TEST_SETTINGS);
+  const anomalies = detectAnomalies(stats, store);
+
+  it('finds surges, stalls and latency shifts against the preceding intervals', () => {
+    expect(anomalies.map(a => [a.kind, (a.from - BASE_TIME) / MINUTE, a.intervals, a.value, a.baseline])).toEqual([
+      ['surge', 12, 1, 100, 20],
+      ['stall', 15, 2, 0, 20],
+      ['latencyShift', 20, 1, 0.5, 0],
+    ]);
+    expect(findAnomalyAt(anomalies, BASE_TIME + 16 * MINUTE + 30000)?.kind).toBe('stall');
+    expect(findAnomalyAt(anomalies, BASE_TIME + 17 * MINUTE)).toBeNull();
+  });
+
+  it('names the endpoints that moved the most', () => {
+    expect(anomalies[0].contributors.map(c => [c.name, c.count, c.expected])).toEqual([['/b', 90, 10]]);
+    expect(anomalies[1].contributors.map(c => c.name)).toEqual(['/b', '/a']);
+    expect(anomalies[2].contributors.map(c => [c.name, c.count, c.expected])).toEqual([['/a', 10, 0]]);
+  });
+
+  it('leaves contributors empty without records', () => {
+    expect(detectAnomalies(stats, null).every(a => a.contributors.length === 0)).toBe(true);
+  });
+
+  it('counts slow requests by the same custom buckets in the series and the contributors', () => {
+    // 500ms~2s 구간은 1s를 걸쳐 있어 느린 요청이 아니고, 정확히 2s인 요청부터 느린 요청입니다.
+    const records: TestRecord[] = [];
+    for (let minute = 0; minute <= 12; minute++) {
+      records.push(...requests(minute, '/a', 10, minute === 12 ? 1.999 : 0.05));
+      records.push(...requests(minute, '/b', 10, minute === 12 ? 2 : 0.05));
+    }
+    const custom = buildRecordStore(records);
+    const [shift] = detectAnomalies(sliceRecords(custom, { ...TEST_SETTINGS, bucketEdgesMs: [500, 2000] }), custom);
+    expect([shift.kind, (shift.from - BASE_TIME) / MINUTE, shift.value]).toEqual(['latencyShift', 12, 0.5]);
+    expect(shift.contributors.map(c => [c.name, c.count])).toEqual([['/b', 10]]);
+  });
+});
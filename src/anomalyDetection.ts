@@ -0,0 +1,182 @@
+import { RecordStore, sliceRecords } from './recordStore';
+import { BucketDef, getBucketIndex } from './analysisSettings';
+import { floorToInterval } from './timestamps';
+
+// --- Anomaly Detection ---
+// 집계 주기(히트맵과 같은 구간)마다 요청 수와 느린 요청(1s 이상) 비율을 직전 구간들의 중앙값과 비교해
+// 트래픽 중단, 트래픽 급증, 지연 증가 구간을 찾습니다. 기준선은 파일 자체의 직전 BASELINE_INTERVALS 구간입니다.
+// 중앙값/MAD(중앙 절대 편차)를 써서 기준선 안에 섞인 튀는 구간 몇 개에는 흔들리지 않습니다.
+// 연속한 같은 종류의 구간은 하나로 묶고, 각 묶음에 대해 기준선 대비 변화가 큰 엔드포인트를 레코드에서 다시 셉니다.
+
+export type AnomalyKind = 'stall' | 'surge' | 'latencyShift';
+
+export type AnomalyContributor = { name: string; count: number; expected: number; delta: number };
+
+export type Anomaly = {
+  kind: AnomalyKind;
+  from: number; // 첫 구간 시작 (epoch ms)
+  to: number; // 마지막 구간 끝
+  intervals: number;
+  value: number; // stall/surge: 구간당 요청 수의 최저/최고, latencyShift: 느린 요청 비율의 최고 (0~1)
+  baseline: number; // 첫 구간 직전 기준선의 중앙값 (같은 단위)
+  contributors: AnomalyContributor[];
+};
+
+export const ANOMALY_KINDS: Record<AnomalyKind, { label: string; color: string }> = {
+  stall: { label: '트래픽 중단', color: '#64748b' },
+  surge: { label: '트래픽 급증', color: '#f59e0b' },
+  latencyShift: { label: '지연 증가', color: '#ef4444' },
+};
+
+const BASELINE_INTERVALS = 12;
+const MIN_BASELINE_INTERVALS = 4;
+const SLOW_SHIFT_SEC = 1; // 히트맵의 1s 이상 구간을 "느린 요청"으로 봅니다
+const STALL_MIN_BASELINE = 10; // 평소 구간당 요청이 이보다 적으면 중단을 판단하지 않습니다
+const STALL_RATIO = 0.1; // 평소의 10% 이하로 떨어지면 중단
+const SURGE_MIN_RATIO = 1.5; // 평소의 1.5배 이상이면서
+const SURGE_Z = 4; // 편차가 4σ 이상이면 급증
+const SHIFT_MIN_DELTA = 0.05; // 느린 요청 비율이 평소보다 5%p 이상,
+const SHIFT_Z = 4; // 그리고 4σ 이상 높고
+const SHIFT_MIN_SLOW = 5; // 느린 요청이 5건 이상이면 지연 증가
+const TOP_CONTRIBUTORS = 5;
+const CONTRIBUTOR_MIN_SHARE = 0.1;
+
+// 감지에 쓰는 요약 항목 (buildSummary 결과나 스냅샷의 summaryStats)
+type AnomalyStats = Pick<ReturnType<typeof sliceRecords>, 'bucketConfig' | 'distributionStats' | 'statusTimeline' | 'intervalMinutes' | 'timeZone'>;
+type IntervalPoint = { time: number; count: number; timed: number; slow: number; share: number };
+
+// 시작이 SLOW_SHIFT_SEC 이상인 히트맵 구간. 추이와 기여 엔드포인트 모두 이 구간에 든 요청을 느린 요청으로 셉니다.
+const getSlowBuckets = (bucketConfig: BucketDef[]) => bucketConfig.filter(b => b.min >= SLOW_SHIFT_SEC);
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// 중앙값과 정규분포 기준으로 환산한 MAD
+const robustSpread = (values: number[]) => {
+  const med = median(values);
+  return { med, sigma: 1.4826 * median(values.map(v => Math.abs(v - med))) };
+};
+
+// 구간별 요청 수, 응답 시간이 있는 요청 수, 느린 요청 수
+const buildIntervalSeries = (stats: AnomalyStats): IntervalPoint[] => {
+  const slowKeys = getSlowBuckets(stats.bucketConfig).map(b => b.key);
+  return stats.statusTimeline.map((row, idx) => {
+    const dist = stats.distributionStats[idx];
+    const timed = stats.bucketConfig.reduce((acc, b) => acc + dist[b.key], 0);
+    const slow = slowKeys.reduce((acc, key) => acc + dist[key], 0);
+    const count = Object.values(row.codes).reduce((acc, n) => acc + n, 0);
+    return { time: row.time, count, timed, slow, share: timed > 0 ? slow / timed : 0 };
+  });
+};
+
+const classify = (series: IntervalPoint[], idx: number) => {
+  const start = Math.max(0, idx - BASELINE_INTERVALS);
+  if (idx - start < MIN_BASELINE_INTERVALS) return null;
+  const window = series.slice(start, idx);
+  const point = series[idx];
+
+  const counts = robustSpread(window.map(p => p.count));
+  // 요청 수는 포아송 잡음(√n)보다 작은 편차를 믿지 않습니다.
+  const countSigma = Math.max(counts.sigma, Math.sqrt(counts.med), 1);
+  if (counts.med >= STALL_MIN_BASELINE && point.count <= counts.med * STALL_RATIO) {
+    return { kind: 'stall' as AnomalyKind, value: point.count, baseline: counts.med };
+  }
+  if (point.count >= counts.med * SURGE_MIN_RATIO && point.count - counts.med >= SURGE_Z * countSigma) {
+    return { kind: 'surge' as AnomalyKind, value: point.count, baseline: counts.med };
+  }
+
+  const timedWindow = window.filter(p => p.timed > 0);
+  if (timedWindow.length >= MIN_BASELINE_INTERVALS && point.slow >= SHIFT_MIN_SLOW) {
+    const shares = robustSpread(timedWindow.map(p => p.share));
+    const shareSigma = Math.max(shares.sigma, Math.sqrt(Math.max(shares.med * (1 - shares.med), 0.0001) / point.timed));
+    if (point.share - shares.med >= Math.max(SHIFT_MIN_DELTA, SHIFT_Z * shareSigma)) {
+      return { kind: 'latencyShift' as AnomalyKind, value: point.share, baseline: shares.med };
+    }
+  }
+  return null;
+};
+
+// 이상 구간마다 구간 안과 직전 기준선 구간의 엔드포인트별 건수(지연 증가는 느린 요청 건수)를 세어
+// 기준선에서 기대되는 건수와의 차이가 큰 순으로 고릅니다. (중단은 줄어든 쪽, 나머지는 늘어난 쪽)
+const findContributors = (anomalies: (Anomaly & { baselineFrom: number })[], series: IntervalPoint[], records: RecordStore, bucketConfig: BucketDef[], intervalMs: number, timeZone: string) => {
+  // 구간 시작 시각 → 그 구간을 세는 (이상 구간 번호, 안/기준선) 목록
+  const roles = new Map<number, { idx: number; inside: boolean }[]>();
+  anomalies.forEach((a, idx) => {
+    for (const { time } of series) {
+      if (time < a.baselineFrom || time >= a.to) continue;
+      if (!roles.has(time)) roles.set(time, []);
+      roles.get(time).push({ idx, inside: time >= a.from });
+    }
+  });
+  const tallies = anomalies.map(() => ({ inside: new Map<number, number>(), before: new Map<number, number>() }));
+  const intervalKeys = records.timeValues.map(t => Number.isNaN(t) ? NaN : floorToInterval(t, intervalMs, timeZone));
+  const slowIndexes = new Set(getSlowBuckets(bucketConfig).map(b => bucketConfig.indexOf(b)));
+
+  for (let i = 0; i < records.length; i++) {
+    const timeId = records.columns.time[i];
+    const targets = timeId < 0 ? undefined : roles.get(intervalKeys[timeId]);
+    if (!targets) continue;
+    const urlId = records.columns.url[i];
+    const rt = records.responseTime[i];
+    const isSlow = !Number.isNaN(rt) && slowIndexes.has(getBucketIndex(bucketConfig, rt));
+    for (const { idx, inside } of targets) {
+      if (anomalies[idx].kind === 'latencyShift' && !isSlow) continue;
+      const tally = inside ? tallies[idx].inside : tallies[idx].before;
+      tally.set(urlId, (tally.get(urlId) || 0) + 1);
+    }
+  }
+
+  anomalies.forEach((a, idx) => {
+    const { inside, before } = tallies[idx];
+    const scale = (a.to - a.from) / (a.from - a.baselineFrom);
+    const urlIds = new Set([...inside.keys(), ...before.keys()]);
+    const direction = a.kind === 'stall' ? -1 : 1;
+    const ranked = [...urlIds]
+      .map(urlId => {
+        const count = inside.get(urlId) || 0;
+        const expected = (before.get(urlId) || 0) * scale;
+        return { name: records.dictionaries.url[urlId], count, expected, delta: count - expected };
+      })
+      .filter(r => r.delta * direction > 0)
+      .sort((x, y) => (y.delta - x.delta) * direction);
+    // 가장 큰 변화의 일부에도 못 미치는 잡음 수준의 엔드포인트는 뺍니다.
+    const minDelta = ranked.length > 0 ? Math.abs(ranked[0].delta) * CONTRIBUTOR_MIN_SHARE : 0;
+    a.contributors = ranked.filter(r => Math.abs(r.delta) >= minDelta).slice(0, TOP_CONTRIBUTORS);
+  });
+};
+
+// stats는 전체 기간 요약(buildSummary 결과)입니다. records가 없으면(스냅샷 기록) 기여 엔드포인트는 비워 둡니다.
+export const detectAnomalies = (stats: AnomalyStats, records: RecordStore | null): Anomaly[] => {
+  const intervalMs = stats.intervalMinutes * 60000;
+  const series = buildIntervalSeries(stats);
+  const anomalies: (Anomaly & { baselineFrom: number })[] = [];
+
+  series.forEach((point, idx) => {
+    const hit = classify(series, idx);
+    if (!hit) return;
+    const last = anomalies[anomalies.length - 1];
+    // 빈 구간을 채우지 않은 긴 타임라인에서는 이웃한 항목이라도 실제로 이어진 구간일 때만 묶습니다.
+    if (last && last.kind === hit.kind && last.to === point.time) {
+      last.to = point.time + intervalMs;
+      last.intervals++;
+      last.value = hit.kind === 'stall' ? Math.min(last.value, hit.value) : Math.max(last.value, hit.value);
+      return;
+    }
+    anomalies.push({
+      ...hit,
+      from: point.time,
+      to: point.time + intervalMs,
+      intervals: 1,
+      contributors: [],
+      baselineFrom: series[Math.max(0, idx - BASELINE_INTERVALS)].time
+    });
+  });
+
+  if (records && anomalies.length > 0) findContributors(anomalies, series, records, stats.bucketConfig, intervalMs, stats.timeZone);
+  return anomalies.map(({ baselineFrom, ...a }) => a);
+};
+
+export const findAnomalyAt = (anomalies: Anomaly[], time: number) => anomalies.find(a => time >= a.from && time < a.to) || null;
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { classifyUserAgent, parseCidrGroups, createIpGrouper, summarizeClientTraffic, formatBytes, INTERNAL_GROUP, EXTERNAL_GROUP } from './clientTraffic';
+import { buildRecordStore, BASE_TIME, MINUTE, TEST_SETTINGS } from './testRecords';
+
+const CHROME = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/130.0 Safari/537.36';
+
+describe('classifyUserAgent', () => {
+  it('separates bots, API clients, browsers and the rest', () => {
+    expect(classifyUserAgent('Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)')).toBe('bot');
+    expect(classifyUserAgent('curl/8.4.0')).toBe('apiClient');
+    expect(classifyUserAgent('okhttp/4.12.0')).toBe('apiClient');
+    expect(classifyUserAgent(CHROME)).toBe('browser');
+    expect(classifyUserAgent('MyApp/3.1 (iOS 18)')).toBe('other');
+    expect(classifyUserAgent(undefined)).toBe('unknown');
+  });
+});
+
+describe('CIDR groups', () => {
+  it('parses one group per line and reports bad lines', () => {
+    const { groups, errors } = parseCidrGroups('# 파트너\nPartner A 203.0.113.0/24 198.51.100.7\n\nbroken\nOffice 10.1.0.0/33');
+    expect(groups).toEqual([{ name: 'Partner A', cidrs: ['203.0.113.0/24', '198.51.100.7'] }]);
+    expect(errors).toEqual(['4번째 줄: "이름 CIDR" 형식이 아닙니다.', '5번째 줄: 잘못된 CIDR 10.1.0.0/33']);
+  });
+
+  it('checks user groups first, then private ranges', () => {
+    const toGroup = createIpGrouper([{ name: 'Office', cidrs: ['10.1.0.0/16'] }]);
+    expect(toGroup('10.1.2.3')).toBe('Office');
+    expect(toGroup('10.2.0.1:51234')).toBe(INTERNAL_GROUP);
+    expect(toGroup('::ffff:192.168.0.5')).toBe(INTERNAL_GROUP);
+    expect(toGroup('203.0.113.9, 10.0.0.1')).toBe(EXTERNAL_GROUP);
+    expect(toGroup('2001:db8::1')).toBe(EXTERNAL_GROUP);
+    expect(toGroup('-')).toBe('IP 아님');
+  });
+});
+
+describe('summarizeClientTraffic', () => {
+  const store = buildRecordStore([
+    { at: 0, ip: '203.0.113.10', url: '/download', bytes: 5000, userAgent: 'curl/8.4.0' },
+    { at: 0, ip: '203.0.113.11', url: '/download', bytes: 5000, userAgent: 'curl/8.4.0' },
+    { at: 0, ip: '203.0.113.10', url: '/api/items', status: 404, bytes: 100, userAgent: 'curl/8.4.0' },
+    { at: MINUTE, ip: '10.0.0.5', url: '/api/items', bytes: 300, userAgent: CHROME, referer: 'https://example.com/list?page=2' },
+    { at: MINUTE, ip: '10.0.0.5', url: '/api/items', bytes: 300, userAgent: CHROME, referer: 'https://example.com/list?page=3' },
+  ]);
+  const summary = summarizeClientTraffic(store, TEST_SETTINGS, null, []);
+
+  it('ranks clients by requests and by bytes', () => {
+    expect(summary).toMatchObject({ totalRequests: 5, totalBytes: 10700, uniqueIps: 3, noReferer: 3 });
+    expect(summary.topClientsByRequests[0]).toMatchObject({ ip: '203.0.113.10', requests: 2, bytes: 5100, errorRate: 50, endpoints: 2, clientClass: 'apiClient', group: EXTERNAL_GROUP });
+    expect(summary.topClientsByBytes.map(c => c.ip)).toEqual(['203.0.113.10', '203.0.113.11', '10.0.0.5']);
+  });
+
+  it('groups by network, client class, referer and interval', () => {
+    expect(summary.groups).toEqual([
+      { name: EXTERNAL_GROUP, requests: 3, bytes: 10100, ips: 2 },
+      { name: INTERNAL_GROUP, requests: 2, bytes: 600, ips: 1 },
+    ]);
+    expect(summary.topNetworks).toEqual([{ name: '203.0.113.0/24', requests: 3, bytes: 10100, ips: 2 }]);
+    expect(summary.clientClasses.map(c => [c.clientClass, c.requests, c.agents])).toEqual([['apiClient', 3, 1], ['browser', 2, 1]]);
+    expect(summary.topReferers).toEqual([{ name: 'https://example.com/list', requests: 2, bytes: 600 }]);
+    expect(summary.bytesTimeline).toEqual([{ time: BASE_TIME, bytes: 10100, requests: 3 }, { time: BASE_TIME + MINUTE, bytes: 600, requests: 2 }]);
+  });
+
+  it('only counts requests inside the range', () => {
+    const ranged = summarizeClientTraffic(store, TEST_SETTINGS, { from: BASE_TIME + MINUTE, to: BASE_TIME + 2 * MINUTE }, []);
+    expect(ranged.totalRequests).toBe(2);
+    expect(ranged.topClientsByRequests.map(c => [c.ip, c.endpoints])).toEqual([['10.0.0.5', 1]]);
+  });
+
+  it('counts 400 as the first error status and keeps CIDR groups to their edges', () => {
+    const edges = summarizeClientTraffic(buildRecordStore([
+      { ip: '198.51.100.0', status: 399 },
+      { ip: '198.51.100.255', status: 400 },
+      { ip: '198.51.101.0', status: 200 },
+    ]), TEST_SETTINGS, null, [{ name: 'Partner', cidrs: ['198.51.100.0/24'] }]);
+    expect(edges.groups).toEqual([
+      { name: 'Partner', requests: 2, bytes: 0, ips: 2 },
+      { name: EXTERNAL_GROUP, requests: 1, bytes: 0, ips: 1 },
+    ]);
+    expect(edges.topClientsByRequests.map(c => [c.ip, c.errorRate])).toEqual([['198.51.100.0', 0], ['198.51.100.255', 100], ['198.51.101.0', 0]]);
+  });
+});
+
+describe('formatBytes', () => {
+  it('scales to the largest unit below 1024', () => {
+    expect(formatBytes(512)).toBe('512B');
+    expect(formatBytes(1536)).toBe('1.5KB');
+    expect(formatBytes(300 * 1024 * 1024)).toBe('300MB');
+  });
+});
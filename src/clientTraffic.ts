@@ -0,0 +1,293 @@
+import { RecordStore, isInRange, TimeRange } from './recordStore';
+import { AnalysisSettings } from './analysisSettings';
+import { floorToInterval } from './timestamps';
+
+// --- Client Traffic ---
+// access 로그의 IP, User-Agent, Referer, 응답 크기로 누가 얼마나 요청하고 내려받았는지 집계합니다.
+// (스크래퍼나 과도하게 호출하는 연동 시스템 찾기용)
+// - User-Agent는 봇/크롤러, 브라우저, API 클라이언트(curl, SDK, HTTP 라이브러리), 기타로 나눕니다.
+// - IP는 외부 조회 없이 CIDR 대역으로 묶습니다. 사용자가 등록한 그룹이 먼저, 그다음 사설/루프백 대역은 내부, 나머지는 외부입니다.
+
+export type ClientClass = 'bot' | 'browser' | 'apiClient' | 'other' | 'unknown';
+
+export const CLIENT_CLASSES: Record<ClientClass, { label: string; color: string }> = {
+  bot: { label: '봇 / 크롤러', color: '#f59e0b' },
+  browser: { label: '브라우저', color: '#3b82f6' },
+  apiClient: { label: 'API 클라이언트', color: '#8b5cf6' },
+  other: { label: '기타 (앱 등)', color: '#10b981' },
+  unknown: { label: 'UA 없음', color: '#94a3b8' },
+};
+
+const BOT_UA = /bot\b|bot\/|crawl|spider|slurp|scrap|headless|phantomjs|lighthouse|pingdom|uptime|monitor|facebookexternalhit|feedfetcher|mediapartners|archiver|preview/i;
+const API_CLIENT_UA = /^(curl|wget|python-|python\/|aiohttp|httpx|okhttp|axios|node-fetch|node\/|undici|got\b|go-http-client|java\/|apache-httpclient|jakarta|reactor-netty|resttemplate|feign|grpc|postmanruntime|insomnia|httpie|libwww-perl|guzzle|ruby|faraday|dart|k6\/|apache-jmeter|gatling|locust|vegeta|hey\/|apachebench)/i;
+const BROWSER_UA = /^Mozilla\/[45]\.0 \(|^Opera\//;
+
+export const classifyUserAgent = (userAgent: string | undefined): ClientClass => {
+  if (!userAgent) return 'unknown';
+  if (BOT_UA.test(userAgent)) return 'bot';
+  if (API_CLIENT_UA.test(userAgent)) return 'apiClient';
+  if (BROWSER_UA.test(userAgent)) return 'browser';
+  return 'other';
+};
+
+// --- CIDR Groups ---
+
+export type CidrGroup = { name: string; cidrs: string[] };
+
+export const INTERNAL_GROUP = '내부 (사설망)';
+export const EXTERNAL_GROUP = '외부';
+const UNKNOWN_GROUP = 'IP 아님';
+
+const IPV4 = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+const parseIpv4 = (ip: string) => {
+  const m = ip.match(IPV4);
+  if (!m || m.slice(1).some(part => Number(part) > 255)) return null;
+  return ((Number(m[1]) << 24) | (Number(m[2]) << 16) | (Number(m[3]) << 8) | Number(m[4])) >>> 0;
+};
+
+// "203.0.113.0/24" 또는 단일 IP → { base, mask }. IPv4만 지원합니다.
+const parseCidr = (cidr: string) => {
+  const [address, bitsText] = cidr.split('/');
+  const base = parseIpv4(address);
+  const bits = bitsText === undefined ? 32 : Number(bitsText);
+  if (base === null || !Number.isInteger(bits) || bits < 0 || bits > 32) return null;
+  const mask = bits === 0 ? 0 : (0xffffffff << (32 - bits)) >>> 0;
+  return { base: (base & mask) >>> 0, mask };
+};
+
+const PRIVATE_RANGES = ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', '127.0.0.0/8', '169.254.0.0/16', '100.64.0.0/10'].map(parseCidr);
+const PRIVATE_IPV6 = /^(::1$|f[cd]|fe[89ab])/i;
+
+const inRange = (value: number, range: { base: number; mask: number }) => ((value & range.mask) >>> 0) === range.base;
+
+// X-Forwarded-For("a, b")는 첫 주소, "IPv4:port"는 포트를 뗍니다. IPv4에 매핑된 IPv6(::ffff:a.b.c.d)도 IPv4로 봅니다.
+const normalizeIp = (raw: string) => {
+  const first = raw.split(/[,\s]/)[0].replace(/^::ffff:/i, '');
+  return /^[\d.]+:\d+$/.test(first) ? first.split(':')[0] : first;
+};
+
+// 한 줄에 "이름 CIDR [CIDR ...]". 잘못된 줄은 errors에 줄 번호와 함께 담습니다.
+export const parseCidrGroups = (text: string) => {
+  const groups: CidrGroup[] = [];
+  const errors: string[] = [];
+  text.split('\n').forEach((line, idx) => {
+    const tokens = line.trim().split(/\s+/).filter(Boolean);
+    if (tokens.length === 0 || tokens[0].startsWith('#')) return;
+    let split = tokens.length;
+    while (split > 0 && /^[\d.]+(\/\d+)?$/.test(tokens[split - 1])) split--;
+    const cidrs = tokens.slice(split);
+    const name = tokens.slice(0, split).join(' ');
+    const invalid = cidrs.filter(c => !parseCidr(c));
+    if (!name || cidrs.length === 0) errors.push(`${idx + 1}번째 줄: "이름 CIDR" 형식이 아닙니다.`);
+    else if (invalid.length > 0) errors.push(`${idx + 1}번째 줄: 잘못된 CIDR ${invalid.join(', ')}`);
+    else groups.push({ name, cidrs });
+  });
+  return { groups, errors };
+};
+
+export const formatCidrGroups = (groups: CidrGroup[]) => groups.map(g => `${g.name} ${g.cidrs.join(' ')}`).join('\n');
+
+export const createIpGrouper = (groups: CidrGroup[]) => {
+  const compiled = groups.map(g => ({ name: g.name, ranges: g.cidrs.map(parseCidr).filter(Boolean) }));
+  return (raw: string) => {
+    const ip = normalizeIp(raw);
+    const value = parseIpv4(ip);
+    if (value === null) {
+      if (!ip.includes(':')) return UNKNOWN_GROUP;
+      return PRIVATE_IPV6.test(ip) ? INTERNAL_GROUP : EXTERNAL_GROUP;
+    }
+    for (const g of compiled) if (g.ranges.some(r => inRange(value, r))) return g.name;
+    return PRIVATE_RANGES.some(r => inRange(value, r)) ? INTERNAL_GROUP : EXTERNAL_GROUP;
+  };
+};
+
+// IPv4의 /24 대역 (IP를 바꿔 가며 긁는 스크래퍼를 묶어 보기 위함). IPv4가 아니면 null
+const networkOf = (raw: string) => {
+  const ip = normalizeIp(raw);
+  return parseIpv4(ip) === null ? null : `${ip.split('.').slice(0, 3).join('.')}.0/24`;
+};
+
+// --- Summary ---
+
+const TOP_CLIENTS = 15;
+const TOP_ROWS = 10;
+
+// 리퍼러는 쿼리 문자열/프래그먼트를 떼고 셉니다.
+const normalizeReferer = (referer: string) => referer.split(/[?#]/)[0];
+
+const topIndexes = (values: Float64Array, n: number) => {
+  const ids: number[] = [];
+  for (let id = 0; id < values.length; id++) if (values[id] > 0) ids.push(id);
+  return ids.sort((a, b) => values[b] - values[a]).slice(0, n);
+};
+
+type Tally = { requests: number; bytes: number };
+
+const addTally = <K, T extends Tally>(map: Map<K, T>, key: K, bytes: number, init?: Omit<T, keyof Tally>) => {
+  let entry = map.get(key);
+  if (!entry) map.set(key, entry = { requests: 0, bytes: 0, ...init } as T);
+  entry.requests++;
+  entry.bytes += bytes;
+  return entry;
+};
+
+const sortedTallies = <T extends Tally>(map: Map<string, T>, key: 'requests' | 'bytes' = 'requests') =>
+  [...map.entries()].map(([name, t]) => ({ name, ...t })).sort((a, b) => b[key] - a[key]);
+
+// range가 있으면 그 시간 범위 안의 요청만 봅니다. 전송량 추이는 히트맵과 같은 집계 주기로 나눕니다.
+export const summarizeClientTraffic = (store: RecordStore, settings: AnalysisSettings, range: TimeRange | null, cidrGroups: CidrGroup[]) => {
+  const { dictionaries, columns } = store;
+  const ipDict = dictionaries.ip;
+  const urlDict = dictionaries.url;
+  const uaDict = dictionaries.userAgent || [];
+  const bytesColumn = store.bytes;
+  const uaColumn = columns.userAgent;
+  const refererColumn = columns.referer;
+
+  const toGroup = createIpGrouper(cidrGroups);
+  const ipGroups = ipDict.map(toGroup);
+  const ipNetworks = ipDict.map(networkOf);
+  const uaClasses = uaDict.map(classifyUserAgent);
+  const refererNames = (dictionaries.referer || []).map(normalizeReferer);
+  const intervalMs = settings.intervalMinutes * 60000;
+  const intervalKeys = store.timeValues.map(t => Number.isNaN(t) ? NaN : floorToInterval(t, intervalMs, settings.timeZone));
+
+  const ipRequests = new Float64Array(ipDict.length);
+  const ipBytes = new Float64Array(ipDict.length);
+  const ipErrors = new Float64Array(ipDict.length);
+  const urlRequests = new Float64Array(urlDict.length);
+  const urlBytes = new Float64Array(urlDict.length);
+  const urlSized = new Float64Array(urlDict.length); // 크기를 아는 요청 수 (평균 크기용)
+  const uaRequests = new Float64Array(uaDict.length);
+  const uaBytes = new Float64Array(uaDict.length);
+  const groups = new Map<string, Tally & { ips: Set<number> }>();
+  const networks = new Map<string, Tally & { ips: Set<number> }>();
+  const classes = new Map<string, Tally & { agents: Set<number> }>();
+  const referers = new Map<string, Tally>();
+  const timeline = new Map<number, Tally>();
+  let total = 0;
+  let totalBytes = 0;
+  let sized = 0;
+  let noReferer = 0;
+
+  for (let i = 0; i < store.length; i++) {
+    const timeId = columns.time[i];
+    if (range && !(timeId >= 0 && isInRange(store.timeValues[timeId], range))) continue;
+    const rawBytes = bytesColumn ? bytesColumn[i] : NaN;
+    const hasBytes = !Number.isNaN(rawBytes);
+    const bytes = hasBytes ? rawBytes : 0;
+    total++;
+    totalBytes += bytes;
+    if (hasBytes) sized++;
+
+    const ipId = columns.ip[i];
+    if (ipId >= 0) {
+      ipRequests[ipId]++;
+      ipBytes[ipId] += bytes;
+      if (store.status[i] >= 400) ipErrors[ipId]++;
+      addTally(groups, ipGroups[ipId], bytes, { ips: new Set() }).ips.add(ipId);
+      if (ipNetworks[ipId]) addTally(networks, ipNetworks[ipId], bytes, { ips: new Set() }).ips.add(ipId);
+    }
+    const urlId = columns.url[i];
+    if (urlId >= 0) {
+      urlRequests[urlId]++;
+      urlBytes[urlId] += bytes;
+      if (hasBytes) urlSized[urlId]++;
+    }
+    const uaId = uaColumn ? uaColumn[i] : -1;
+    if (uaId >= 0) {
+      uaRequests[uaId]++;
+      uaBytes[uaId] += bytes;
+    }
+    const entry = addTally(classes, uaId >= 0 ? uaClasses[uaId] : 'unknown', bytes, { agents: new Set() });
+    if (uaId >= 0) entry.agents.add(uaId);
+    const refererId = refererColumn ? refererColumn[i] : -1;
+    if (refererId >= 0) addTally(referers, refererNames[refererId], bytes);
+    else noReferer++;
+    const key = timeId < 0 ? NaN : intervalKeys[timeId];
+    if (!Number.isNaN(key)) addTally(timeline, key, bytes);
+  }
+
+  // 상위 IP만 다시 훑어 호출한 엔드포인트 수와 가장 많이 쓴 User-Agent를 셉니다.
+  const topByRequests = topIndexes(ipRequests, TOP_CLIENTS);
+  const topByBytes = sized > 0 ? topIndexes(ipBytes, TOP_CLIENTS) : [];
+  const detailIds = new Set([...topByRequests, ...topByBytes]);
+  const endpointSets = new Map<number, Set<number>>([...detailIds].map(id => [id, new Set<number>()]));
+  const agentCounts = new Map<number, Map<number, number>>([...detailIds].map(id => [id, new Map<number, number>()]));
+  if (detailIds.size > 0) {
+    for (let i = 0; i < store.length; i++) {
+      const ipId = columns.ip[i];
+      if (!detailIds.has(ipId)) continue;
+      const timeId = columns.time[i];
+      if (range && !(timeId >= 0 && isInRange(store.timeValues[timeId], range))) continue;
+      endpointSets.get(ipId).add(columns.url[i]);
+      const uaId = uaColumn ? uaColumn[i] : -1;
+      const counts = agentCounts.get(ipId);
+      counts.set(uaId, (counts.get(uaId) || 0) + 1);
+    }
+  }
+  const toClientRow = (ipId: number) => {
+    let mainAgent = -1;
+    let mainCount = 0;
+    for (const [uaId, count] of agentCounts.get(ipId)) if (count > mainCount) { mainAgent = uaId; mainCount = count; }
+    return {
+      ip: ipDict[ipId],
+      group: ipGroups[ipId],
+      requests: ipRequests[ipId],
+      bytes: ipBytes[ipId],
+      errorRate: (ipErrors[ipId] / ipRequests[ipId]) * 100,
+      endpoints: endpointSets.get(ipId).size,
+      userAgent: mainAgent >= 0 ? uaDict[mainAgent] : null,
+      clientClass: mainAgent >= 0 ? uaClasses[mainAgent] : 'unknown' as ClientClass,
+      agentCount: agentCounts.get(ipId).size
+    };
+  };
+
+  return {
+    totalRequests: total,
+    totalBytes,
+    hasBytes: sized > 0,
+    hasUserAgent: uaDict.length > 0,
+    hasReferer: referers.size > 0,
+    noReferer,
+    uniqueIps: ipRequests.reduce((acc, n) => acc + (n > 0 ? 1 : 0), 0),
+    topClientsByRequests: topByRequests.map(toClientRow),
+    topClientsByBytes: topByBytes.map(toClientRow),
+    groups: sortedTallies(groups).map(({ ips, ...g }) => ({ ...g, ips: ips.size })),
+    topNetworks: sortedTallies(networks).filter(n => n.ips.size > 1).slice(0, TOP_ROWS).map(({ ips, ...n }) => ({ ...n, ips: ips.size })),
+    clientClasses: sortedTallies(classes).map(({ name, agents, ...c }) => ({ clientClass: name as ClientClass, ...c, agents: agents.size })),
+    topUserAgents: topIndexes(uaRequests, TOP_ROWS).map(id => ({ userAgent: uaDict[id], clientClass: uaClasses[id], requests: uaRequests[id], bytes: uaBytes[id] })),
+    topReferers: sortedTallies(referers).slice(0, TOP_ROWS),
+    topEndpointsByBytes: topIndexes(urlBytes, TOP_ROWS).map(id => ({
+      name: urlDict[id], requests: urlRequests[id], bytes: urlBytes[id], avgBytes: urlSized[id] > 0 ? urlBytes[id] / urlSized[id] : 0
+    })),
+    bytesTimeline: [...timeline.entries()].sort((a, b) => a[0] - b[0]).map(([time, t]) => ({ time, bytes: t.bytes, requests: t.requests }))
+  };
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${Math.round(bytes)}B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value >= 100 ? 0 : 1)}${units[unit]}`;
+};
+
+// --- Local Persistence ---
+const STORAGE_KEY = 'logAnalyzer.cidrGroups';
+
+export const loadCidrGroups = (): CidrGroup[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) { return []; }
+};
+
+export const saveCidrGroups = (groups: CidrGroup[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(groups));
+};
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { diffApis, overlayTps } from './comparison';
+
+const summary = (apis: [string, number, number, number, number][]) => ({
+  apiTrafficStats: apis.map(([name, count, errorCount]) => ({ name, count, errorCount })),
+  apiLatencyStats: apis.map(([name, , , avgTime, p99]) => ({ name, avgTime, p99 }))
+});
+
+describe('diffApis', () => {
+  it('ranks busy latency regressions above rare ones', () => {
+    const base = summary([['/api/pay', 1000, 0, 0.1, 0.3], ['/api/rare', 10, 0, 0.1, 0.3], ['/api/old', 50, 0, 0.1, 0.2]]);
+    const cur = summary([['/api/pay', 1000, 0, 0.2, 0.6], ['/api/rare', 10, 0, 0.2, 0.6], ['/api/new', 20, 0, 0.1, 0.2]]);
+    const diffs = diffApis(base, cur);
+    expect(diffs.map(d => d.name)).toEqual(['/api/pay', '/api/rare', '/api/new', '/api/old']);
+    expect(diffs[0].severity).toBeGreaterThan(diffs[1].severity);
+    expect(diffs.find(d => d.name === '/api/new').status).toBe('new');
+    expect(diffs.find(d => d.name === '/api/old')).toMatchObject({ status: 'removed', curCount: 0, severity: 0 });
+  });
+
+  it('ignores latency changes with too few samples but still scores new errors', () => {
+    const diffs = diffApis(summary([['/a', 2, 0, 0.1, 0.1]]), summary([['/a', 2, 1, 5, 5]]));
+    expect(diffs[0].curErrorRate).toBe(50);
+    expect(diffs[0].severity).toBeCloseTo(5 * Math.log10(3));
+  });
+});
+
+describe('overlayTps', () => {
+  it('aligns two days by clock minute and keeps the peak per minute', () => {
+    const day1 = Date.UTC(2026, 9, 1, 10, 0, 0);
+    const day2 = Date.UTC(2026, 9, 8, 10, 0, 0);
+    const rows = overlayTps(
+      { tpsData: [{ time: day1, tps: 3 }, { time: day1 + 1000, tps: 7 }] },
+      { tpsData: [{ time: day2 + 30000, tps: 5 }, { time: day2 + 60000, tps: 2 }] },
+      'UTC'
+    );
+    expect(rows).toEqual([
+      { time: '10:00', baseline: 7, current: 5 },
+      { time: '10:01', baseline: null, current: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+import { formatInstant } from './timestamps';
+
+// --- Baseline Comparison ---
+// 배포 전(기준선)과 배포 후(현재) 분석 결과를 API/매퍼 단위로 비교해 성능 회귀를 찾습니다.
+// 두 로그는 보통 서로 다른 날짜이므로 시계열은 "시:분" 기준으로 겹쳐 그립니다.
+// 표본이 이보다 적은 쪽이 있으면 지연 시간 회귀 점수를 매기지 않습니다. (노이즈 방지)
+const MIN_SAMPLES = 5;
+
+export type ApiDiff = {
+  name: string;
+  status: 'new' | 'removed' | 'both';
+  baseCount: number;
+  curCount: number;
+  baseAvg: number | null;
+  curAvg: number | null;
+  baseP99: number | null;
+  curP99: number | null;
+  baseErrorRate: number;
+  curErrorRate: number;
+  severity: number;
+};
+
+const relativeIncrease = (base: number | null, cur: number | null) => {
+  if (base === null || cur === null || base <= 0) return 0;
+  return Math.max(0, (cur - base) / base);
+};
+
+// 회귀 심각도: (평균/p99 중 큰 상대 증가율 + 에러율 증가 10%p당 1점) × log10(1 + 현재 호출 수)
+// 호출이 많은 엔드포인트의 회귀가 드물게 불리는 엔드포인트보다 위로 오게 합니다.
+const scoreDiff = (diff: Omit<ApiDiff, 'severity'>) => {
+  const enoughSamples = diff.baseCount >= MIN_SAMPLES && diff.curCount >= MIN_SAMPLES;
+  const latency = enoughSamples ? Math.max(relativeIncrease(diff.baseAvg, diff.curAvg), relativeIncrease(diff.baseP99, diff.curP99)) : 0;
+  const errors = Math.max(0, diff.curErrorRate - diff.baseErrorRate) / 10;
+  return (latency + errors) * Math.log10(1 + diff.curCount);
+};
+
+const indexApis = (summary) => {
+  const latency = Object.fromEntries(summary.apiLatencyStats.map(s => [s.name, s]));
+  const traffic = Object.fromEntries(summary.apiTrafficStats.map(s => [s.name, s]));
+  return { latency, traffic };
+};
+
+export const diffApis = (baseline, current): ApiDiff[] => {
+  const base = indexApis(baseline);
+  const cur = indexApis(current);
+  const names = new Set([...Object.keys(base.traffic), ...Object.keys(cur.traffic)]);
+
+  return [...names].map(name => {
+    const b = base.traffic[name];
+    const c = cur.traffic[name];
+    const diff = {
+      name,
+      status: (b && c ? 'both' : c ? 'new' : 'removed') as ApiDiff['status'],
+      baseCount: b?.count || 0,
+      curCount: c?.count || 0,
+      baseAvg: base.latency[name]?.avgTime ?? null,
+      curAvg: cur.latency[name]?.avgTime ?? null,
+      baseP99: base.latency[name]?.p99 ?? null,
+      curP99: cur.latency[name]?.p99 ?? null,
+      baseErrorRate: b ? (b.errorCount / b.count) * 100 : 0,
+      curErrorRate: c ? (c.errorCount / c.count) * 100 : 0
+    };
+    return { ...diff, severity: scoreDiff(diff) };
+  }).sort((a, b) => b.severity - a.severity || b.curCount - a.curCount);
+};
+
+// 초당 TPS를 분 단위 최고값으로 줄여 두 로그를 같은 축에 겹쳐 그립니다.
+// 날짜가 다른 두 로그를 비교하므로 표시 시간대의 시각("HH:mm")끼리 맞춥니다.
+export const overlayTps = (baseline, current, timeZone: string) => {
+  const byMinute: Record<string, { time: string; baseline: number | null; current: number | null }> = {};
+  const add = (tpsData, side: 'baseline' | 'current') => {
+    for (const { time, tps } of tpsData) {
+      const minute = formatInstant(time, timeZone, 'clock');
+      if (!byMinute[minute]) byMinute[minute] = { time: minute, baseline: null, current: null };
+      byMinute[minute][side] = Math.max(byMinute[minute][side] ?? 0, tps);
+    }
+  };
+  add(baseline.tpsData, 'baseline');
+  add(current.tpsData, 'current');
+  return Object.values(byMinute).sort((a, b) => a.time.localeCompare(b.time));
+};
+
+// 집계 주기 구간별 응답 시간 분포를 비율(%)로 바꿔 기준선과 현재를 나란히 놓습니다.
+// 두 결과는 같은 설정으로 집계되어 있어야 하며(구간 정의가 같아야 함), 여러 날에 걸친 로그는 같은 시각의 구간끼리 합칩니다.
+export const overlayDistribution = (baseline, current, timeZone: string) => {
+  const buckets = current.bucketConfig;
+  const bySlot: Record<string, { time: string; baseline: Record<string, number> | null; current: Record<string, number> | null }> = {};
+  const add = (rows, side: 'baseline' | 'current') => {
+    for (const row of rows) {
+      // 요청이 없어 0으로 채운 구간은 비교 대상에서 뺍니다.
+      if (buckets.every(b => !row[b.key])) continue;
+      const slot = formatInstant(row.time, timeZone, 'clock');
+      if (!bySlot[slot]) bySlot[slot] = { time: slot, baseline: null, current: null };
+      const counts = bySlot[slot][side] || (bySlot[slot][side] = {});
+      for (const b of buckets) counts[b.key] = (counts[b.key] || 0) + row[b.key];
+    }
+  };
+  add(baseline.distributionStats, 'baseline');
+  add(current.distributionStats, 'current');
+
+  const toShares = (counts: Record<string, number> | null) => {
+    if (!counts) return null;
+    const total = buckets.reduce((acc, b) => acc + counts[b.key], 0);
+    return { total, shares: Object.fromEntries(buckets.map(b => [b.key, total > 0 ? (counts[b.key] / total) * 100 : 0])) };
+  };
+  return Object.values(bySlot)
+    .sort((a, b) => a.time.localeCompare(b.time))
+    .map(({ time, baseline, current }) => ({ time, baseline: toShares(baseline), current: toShares(current) }));
+};
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal, RotateCcw } from 'lucide-react';
+import { AnalysisSettings, DEFAULT_ANALYSIS_SETTINGS, INTERVAL_OPTIONS, parseBucketEdges } from '../analysisSettings';
+import { TIME_ZONE_OPTIONS } from '../timestamps';
+
+// 지연 기준 / 응답 시간 구간 경계 / 집계 주기 / 표시 시간대 편집. 입력을 마치면(Enter 또는 포커스 이동) 바로 다시 집계합니다.
+const AnalysisSettingsBar = ({ settings, onChange }: { settings: AnalysisSettings; onChange: (settings: AnalysisSettings) => void }) => {
+  const [thresholdText, setThresholdText] = useState(String(settings.slowThresholdMs));
+  const [edgesText, setEdgesText] = useState(settings.bucketEdgesMs.join(', '));
+
+  useEffect(() => {
+    setThresholdText(String(settings.slowThresholdMs));
+    setEdgesText(settings.bucketEdgesMs.join(', '));
+  }, [settings]);
+
+  const threshold = Number(thresholdText);
+  const thresholdValid = Number.isFinite(threshold) && threshold >= 0;
+  const edges = parseBucketEdges(edgesText);
+
+  const commit = () => {
+    if (!thresholdValid || !edges) return;
+    const sameEdges = edges.join(',') === settings.bucketEdgesMs.join(',');
+    if (threshold === settings.slowThresholdMs && sameEdges) return;
+    onChange({ ...settings, slowThresholdMs: threshold, bucketEdgesMs: edges });
+  };
+
+  const handleKeyDown = (e) => {
+    if (e.key === 'Enter') commit();
+  };
+
+  return (
+    <div className="bg-white px-5 py-3 rounded-2xl shadow-sm border border-slate-200 flex flex-wrap items-center gap-4 text-xs">
+      <span className="flex items-center gap-2 font-black text-slate-500 uppercase tracking-widest text-[10px]">
+        <SlidersHorizontal size={14} className="text-blue-500" /> 분석 기준
+      </span>
+      <label className="flex items-center gap-2">
+        <span className="text-slate-400 font-bold">지연 기준</span>
+        <input
+          className={`w-20 px-2 py-1.5 border rounded-lg font-mono text-right outline-none focus:ring-2 focus:ring-blue-500 ${thresholdValid ? 'border-slate-200' : 'border-red-400'}`}
+          value={thresholdText} onChange={(e) => setThresholdText(e.target.value)} onBlur={commit} onKeyDown={handleKeyDown}
+        />
+        <span className="text-slate-400">ms</span>
+      </label>
+      <label className="flex items-center gap-2 flex-1 min-w-[260px]">
+        <span className="text-slate-400 font-bold whitespace-nowrap">구간 경계</span>
+        <input
+          className={`flex-1 px-2 py-1.5 border rounded-lg font-mono outline-none focus:ring-2 focus:ring-blue-500 ${edges ? 'border-slate-200' : 'border-red-400'}`}
+          placeholder="10, 100, 500, 1000, 5000, 10000"
+          value={edgesText} onChange={(e) => setEdgesText(e.target.value)} onBlur={commit} onKeyDown={handleKeyDown}
+        />
+        <span className="text-slate-400">ms</span>
+      </label>
+      <label className="flex items-center gap-2">
+        <span className="text-slate-400 font-bold">집계 주기</span>
+        <select
+          className="px-2 py-1.5 border border-slate-200 rounded-lg bg-white outline-none focus:ring-2 focus:ring-blue-500"
+          value={settings.intervalMinutes} onChange={(e) => onChange({ ...settings, intervalMinutes: Number(e.target.value) })}
+        >
+          {INTERVAL_OPTIONS.map(o => <option key={o.minutes} value={o.minutes}>{o.label}</option>)}
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        <span className="text-slate-400 font-bold">시간대</span>
+        <select
+          className="px-2 py-1.5 border border-slate-200 rounded-lg bg-white outline-none focus:ring-2 focus:ring-blue-500"
+          value={settings.timeZone} onChange={(e) => onChange({ ...settings, timeZone: e.target.value })}
+        >
+          {TIME_ZONE_OPTIONS.map(o => <option key={o.key} value={o.key}>{o.label}</option>)}
+        </select>
+      </label>
+      <button
+        onClick={() => onChange(DEFAULT_ANALYSIS_SETTINGS)}
+        className="p-1.5 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-blue-600 transition-all"
+        title="기본값으로"
+      >
+        <RotateCcw size={14} />
+      </button>
+    </div>
+  );
+};
+
+export default AnalysisSettingsBar;
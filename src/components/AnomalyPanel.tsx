@@ -0,0 +1,82 @@
+import React from 'react';
+import { Radar, TrendingDown, TrendingUp, Snail, ZoomIn } from 'lucide-react';
+import { ANOMALY_KINDS } from '../anomalyDetection';
+import { formatInstant } from '../timestamps';
+
+const KIND_ICONS = {
+  stall: <TrendingDown size={14} />,
+  surge: <TrendingUp size={14} />,
+  latencyShift: <Snail size={14} />,
+};
+
+const formatCount = (n: number) => Math.round(n).toLocaleString();
+const formatShare = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+const describe = (a, intervalLabel: string) => a.kind === 'latencyShift'
+  ? `1s 이상 요청 비율 평소 ${formatShare(a.baseline)} → 최고 ${formatShare(a.value)}`
+  : `${intervalLabel}당 요청 평소 ${formatCount(a.baseline)}건 → ${a.kind === 'stall' ? '최저' : '최고'} ${formatCount(a.value)}건`;
+
+// 자동으로 찾은 이상 구간 목록. 구간마다 기준선 대비 가장 크게 늘거나 줄어든 엔드포인트를 함께 보여주고,
+// 클릭하면 그 시간 범위로 좁힙니다.
+const AnomalyPanel = ({ anomalies, intervalLabel, timeZone, hasContributors, onSelect }) => (
+  <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200">
+    <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+      <h3 className="text-lg font-bold flex items-center gap-2">
+        <Radar className="text-rose-500" />
+        이상 구간 (Anomalies)
+        <span className="text-xs font-medium text-slate-400">{anomalies.length}건 • 직전 구간들의 중앙값을 기준선으로 비교</span>
+      </h3>
+      <div className="flex gap-2">
+        {Object.entries(ANOMALY_KINDS).map(([kind, { label, color }]) => (
+          <span key={kind} className="flex items-center gap-1 text-[10px] font-bold text-slate-500">
+            <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: color }} /> {label}
+          </span>
+        ))}
+      </div>
+    </div>
+
+    {anomalies.length === 0 ? (
+      <p className="text-xs text-slate-400 italic py-2">트래픽 중단, 급증, 지연 증가로 보이는 구간이 없습니다.</p>
+    ) : (
+      <div className="divide-y divide-slate-100 max-h-[420px] overflow-y-auto">
+        {anomalies.map(a => {
+          const { label, color } = ANOMALY_KINDS[a.kind];
+          return (
+            <div key={`${a.kind}-${a.from}`} className="py-3 flex flex-col lg:flex-row lg:items-center gap-3">
+              <button
+                onClick={() => onSelect(a)}
+                disabled={!onSelect}
+                className="flex items-center gap-3 text-left min-w-0 lg:w-[420px] shrink-0 group disabled:pointer-events-none"
+                title="이 구간으로 좁히기"
+              >
+                <span className="inline-flex items-center gap-1.5 px-2 py-1 rounded-lg text-[11px] font-bold text-white shrink-0" style={{ backgroundColor: color }}>
+                  {KIND_ICONS[a.kind]} {label}
+                </span>
+                <span className="min-w-0">
+                  <span className="block font-mono text-xs font-bold text-slate-700 group-hover:text-blue-600">
+                    {formatInstant(a.from, timeZone, 'minute')} ~ {formatInstant(a.to, timeZone, 'clock')}
+                    {onSelect && <ZoomIn size={12} className="inline ml-1 opacity-0 group-hover:opacity-100" />}
+                  </span>
+                  <span className="block text-[11px] text-slate-400">{describe(a, intervalLabel)}</span>
+                </span>
+              </button>
+              <div className="flex flex-wrap gap-1.5 min-w-0">
+                {a.contributors.map(c => (
+                  <span key={c.name} className="inline-flex items-center gap-1 max-w-[280px] text-[11px] bg-slate-50 border border-slate-100 px-2 py-1 rounded-lg" title={`${c.name}: ${a.kind === 'latencyShift' ? '1s 이상 ' : ''}${formatCount(c.count)}건 (평소라면 ${formatCount(c.expected)}건)`}>
+                    <span className="font-bold text-slate-600 truncate">{c.name}</span>
+                    <span className={`font-mono font-bold shrink-0 ${c.delta > 0 ? 'text-rose-600' : 'text-slate-500'}`}>
+                      {c.delta > 0 ? '+' : '−'}{formatCount(Math.abs(c.delta))}
+                    </span>
+                  </span>
+                ))}
+                {!hasContributors && <span className="text-[11px] text-slate-400 italic">스냅샷 기록에는 전체 요청이 없어 엔드포인트별 기여도를 계산하지 않습니다.</span>}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    )}
+  </div>
+);
+
+export default AnomalyPanel;
@@ -0,0 +1,90 @@
+import React, { useMemo, useState } from 'react';
+import { Gauge } from 'lucide-react';
+
+const MAX_ROWS = 100;
+
+const COLUMNS = [
+  { key: 'name', label: 'Target (API/SQL)', align: 'text-left' },
+  { key: 'count', label: 'Count', align: 'text-right' },
+  { key: 'avgTime', label: 'Avg', align: 'text-right' },
+  { key: 'p50', label: 'p50', align: 'text-right' },
+  { key: 'p90', label: 'p90', align: 'text-right' },
+  { key: 'p95', label: 'p95', align: 'text-right' },
+  { key: 'p99', label: 'p99', align: 'text-right' },
+  { key: 'max', label: 'Max', align: 'text-right' },
+  { key: 'errorRate', label: 'Error %', align: 'text-right' },
+];
+
+const formatMs = (sec) => `${(sec * 1000).toLocaleString(undefined, { maximumFractionDigits: 1 })}ms`;
+
+// API/Mapper별 지연 시간 백분위 테이블 (헤더 클릭으로 정렬, onSelect가 있으면 행 클릭 → 엔드포인트 상세)
+const ApiLatencyTable = ({ stats, onSelect = null }) => {
+  const [sortConfig, setSortConfig] = useState({ key: 'p99', direction: 'desc' });
+
+  const handleSort = (key) => {
+    setSortConfig(prev => ({ key, direction: prev.key === key && prev.direction === 'desc' ? 'asc' : 'desc' }));
+  };
+
+  const rows = useMemo(() => {
+    const sorted = [...stats].sort((a, b) => {
+      const aVal = a[sortConfig.key];
+      const bVal = b[sortConfig.key];
+      if (aVal < bVal) return sortConfig.direction === 'asc' ? -1 : 1;
+      if (aVal > bVal) return sortConfig.direction === 'asc' ? 1 : -1;
+      return 0;
+    });
+    return sorted.slice(0, MAX_ROWS);
+  }, [stats, sortConfig]);
+
+  return (
+    <div className="bg-white rounded-3xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 flex items-center justify-between gap-4 bg-slate-50/50">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-indigo-100 rounded-lg"><Gauge className="text-indigo-600" size={18} /></div>
+          <div>
+            <h3 className="font-bold text-slate-800">API별 지연 시간 백분위 (Tail Latency)</h3>
+            <p className="text-[10px] text-slate-500 font-medium">
+              전체 {stats.length.toLocaleString()}건 중 상위 {Math.min(stats.length, MAX_ROWS)}건 • 백분위는 상대 오차 1% 이내 근사값
+            </p>
+          </div>
+        </div>
+      </div>
+      <div className="overflow-x-auto max-h-[500px]">
+        <table className="w-full text-sm border-separate border-spacing-0">
+          <thead className="bg-slate-50 sticky top-0 shadow-sm z-10">
+            <tr className="text-slate-500 font-bold text-xs uppercase tracking-tighter">
+              {COLUMNS.map(col => (
+                <th
+                  key={col.key}
+                  className={`px-4 py-4 border-b border-slate-100 cursor-pointer hover:text-blue-600 whitespace-nowrap ${col.align}`}
+                  onClick={() => handleSort(col.key)}
+                >
+                  {col.label} {sortConfig.key === col.key && (sortConfig.direction === 'asc' ? '↑' : '↓')}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 bg-white">
+            {rows.map(row => (
+              <tr key={row.name} onClick={onSelect && (() => onSelect(row.name))} className={`hover:bg-blue-50/30 transition-colors ${onSelect ? 'cursor-pointer' : ''}`}>
+                <td className="px-4 py-2 font-bold text-slate-700 truncate max-w-[360px]" title={row.name}>{row.name}</td>
+                <td className="px-4 py-2 text-right font-mono text-slate-500">{row.count.toLocaleString()}</td>
+                <td className="px-4 py-2 text-right font-mono text-blue-600">{formatMs(row.avgTime)}</td>
+                <td className="px-4 py-2 text-right font-mono">{formatMs(row.p50)}</td>
+                <td className="px-4 py-2 text-right font-mono">{formatMs(row.p90)}</td>
+                <td className="px-4 py-2 text-right font-mono text-orange-600">{formatMs(row.p95)}</td>
+                <td className="px-4 py-2 text-right font-mono font-bold text-red-600">{formatMs(row.p99)}</td>
+                <td className="px-4 py-2 text-right font-mono font-bold text-rose-700">{formatMs(row.max)}</td>
+                <td className={`px-4 py-2 text-right font-mono ${row.errorRate > 0 ? 'text-red-600 font-bold' : 'text-slate-300'}`}>
+                  {row.errorRate === null ? '-' : `${row.errorRate.toFixed(1)}%`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ApiLatencyTable;
@@ -0,0 +1,293 @@
+import React, { useState } from 'react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Users, Settings2, Save, AlertTriangle } from 'lucide-react';
+import { CLIENT_CLASSES, CidrGroup, INTERNAL_GROUP, EXTERNAL_GROUP, formatBytes, formatCidrGroups, parseCidrGroups } from '../clientTraffic';
+import { formatInstant } from '../timestamps';
+
+const sectionLabel = 'text-[10px] text-slate-400 font-black uppercase tracking-widest mb-2';
+const listClass = 'border border-slate-100 rounded-2xl divide-y divide-slate-50 max-h-[320px] overflow-y-auto';
+
+const share = (value: number, total: number) => total > 0 ? `${((value / total) * 100).toFixed(1)}%` : '-';
+
+const groupChipColor = (group: string) => {
+  if (group === EXTERNAL_GROUP) return 'bg-slate-100 text-slate-500';
+  if (group === INTERNAL_GROUP) return 'bg-emerald-50 text-emerald-700';
+  return 'bg-blue-50 text-blue-700';
+};
+
+const ClassChip = ({ clientClass }) => (
+  <span className="text-[10px] font-bold px-1.5 py-0.5 rounded shrink-0" style={{ color: CLIENT_CLASSES[clientClass].color, backgroundColor: `${CLIENT_CLASSES[clientClass].color}1a` }}>
+    {CLIENT_CLASSES[clientClass].label}
+  </span>
+);
+
+const ShareBar = ({ value, total, color }) => (
+  <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden mt-1">
+    <div className="h-full rounded-full" style={{ width: `${total > 0 ? (value / total) * 100 : 0}%`, backgroundColor: color }} />
+  </div>
+);
+
+const ClientTable = ({ title, clients, showBytes }) => (
+  <div>
+    <p className={sectionLabel}>{title}</p>
+    <div className="border border-slate-100 rounded-2xl overflow-hidden max-h-[360px] overflow-y-auto">
+      <table className="w-full text-xs">
+        <thead className="bg-slate-50 text-[10px] text-slate-400 font-black uppercase tracking-widest sticky top-0">
+          <tr>
+            <th className="text-left px-4 py-2">IP</th>
+            <th className="text-right px-2 py-2">요청</th>
+            {showBytes && <th className="text-right px-2 py-2">전송량</th>}
+            <th className="text-right px-2 py-2">에러율</th>
+            <th className="text-right px-4 py-2">API 수</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-50">
+          {clients.map(c => (
+            <tr key={c.ip} className="hover:bg-slate-50">
+              <td className="px-4 py-2">
+                <div className="flex items-center gap-1.5 flex-wrap">
+                  <span className="font-mono font-bold text-slate-700">{c.ip}</span>
+                  <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${groupChipColor(c.group)}`}>{c.group}</span>
+                  <ClassChip clientClass={c.clientClass} />
+                </div>
+                {c.userAgent && (
+                  <p className="text-[10px] text-slate-400 truncate max-w-[320px]" title={c.userAgent}>
+                    {c.userAgent}{c.agentCount > 1 && <> 외 {c.agentCount - 1}종</>}
+                  </p>
+                )}
+              </td>
+              <td className="text-right px-2 py-2 font-mono text-slate-600">{c.requests.toLocaleString()}</td>
+              {showBytes && <td className="text-right px-2 py-2 font-mono text-slate-600">{formatBytes(c.bytes)}</td>}
+              <td className={`text-right px-2 py-2 font-mono ${c.errorRate >= 10 ? 'text-red-600 font-bold' : 'text-slate-400'}`}>{c.errorRate.toFixed(1)}%</td>
+              <td className="text-right px-4 py-2 font-mono text-slate-400">{c.endpoints.toLocaleString()}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {clients.length === 0 && <p className="px-4 py-3 text-xs text-slate-400 italic">IP가 기록된 요청이 없습니다.</p>}
+    </div>
+  </div>
+);
+
+// CIDR 그룹 편집 ("이름 CIDR [CIDR ...]" 한 줄에 하나)
+const CidrGroupEditor = ({ groups, onSave, onClose }: { groups: CidrGroup[]; onSave: (groups: CidrGroup[]) => void; onClose: () => void }) => {
+  const [text, setText] = useState(() => formatCidrGroups(groups));
+  const { groups: parsed, errors } = parseCidrGroups(text);
+  return (
+    <div className="bg-slate-50 rounded-2xl p-4 space-y-3">
+      <p className="text-[11px] text-slate-500">
+        한 줄에 <span className="font-mono">이름 CIDR [CIDR ...]</span> 형식으로 IPv4 대역을 묶습니다. 위에 있는 그룹이 먼저 적용되고,
+        어느 그룹에도 없으면 사설/루프백 대역은 <b>{INTERNAL_GROUP}</b>, 나머지는 <b>{EXTERNAL_GROUP}</b>로 셉니다.
+      </p>
+      <textarea
+        className="w-full h-28 px-3 py-2 border border-slate-200 rounded-xl text-xs font-mono focus:ring-2 focus:ring-blue-500 outline-none"
+        placeholder={'사내망 10.0.0.0/8 172.16.0.0/12\n모니터링 198.51.100.7\n파트너사 203.0.113.0/24'}
+        value={text} onChange={(e) => setText(e.target.value)}
+      />
+      {errors.map(error => (
+        <p key={error} className="flex items-center gap-2 text-red-600 text-xs font-bold"><AlertTriangle size={14} /> {error}</p>
+      ))}
+      <div className="flex justify-end gap-2">
+        <button onClick={onClose} className="px-4 py-2 rounded-xl text-xs font-bold text-slate-500 hover:bg-slate-100 transition-all">취소</button>
+        <button
+          onClick={() => onSave(parsed)} disabled={errors.length > 0}
+          className="inline-flex items-center gap-1.5 bg-slate-900 hover:bg-black text-white px-4 py-2 rounded-xl text-xs font-bold transition-all disabled:opacity-40 disabled:pointer-events-none"
+        >
+          <Save size={14} /> 저장
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// 클라이언트 트래픽: 요청/전송량 상위 IP, 클라이언트 종류(봇/브라우저/API 클라이언트), 내부/외부 및 CIDR 그룹,
+// 전송량 추이와 엔드포인트별 전송량, 상위 User-Agent와 리퍼러.
+// traffic이 없으면(스냅샷 기록) 요약에 남은 상위 IP만 보여줍니다.
+const ClientTrafficPanel = ({ traffic, topIps, cidrGroups, onSaveCidrGroups, timeZone }) => {
+  const [isEditing, setIsEditing] = useState(false);
+
+  if (!traffic) {
+    return (
+      <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200">
+        <h3 className="text-lg font-bold flex items-center gap-2 mb-2">
+          <Users className="text-indigo-500" />
+          요청 상위 IP
+        </h3>
+        <p className="text-[11px] text-slate-400 mb-4">저장된 기록은 요청 일부만 남아 있어 상위 IP만 보여줍니다.</p>
+        <div className={listClass}>
+          {topIps.map(ip => (
+            <div key={ip.name} className="flex items-center justify-between px-4 py-2 text-xs">
+              <span className="font-mono font-bold text-slate-700">{ip.name}</span>
+              <span className="font-mono text-slate-400">{ip.count.toLocaleString()}</span>
+            </div>
+          ))}
+          {topIps.length === 0 && <p className="px-4 py-3 text-xs text-slate-400 italic">IP가 기록된 요청이 없습니다.</p>}
+        </div>
+      </div>
+    );
+  }
+
+  const { totalRequests, totalBytes, hasBytes } = traffic;
+
+  return (
+    <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <Users className="text-indigo-500" />
+          클라이언트 트래픽
+          <span className="text-xs font-medium text-slate-400">
+            고유 IP {traffic.uniqueIps.toLocaleString()}개{hasBytes && <> • 전송량 {formatBytes(totalBytes)}</>}
+          </span>
+        </h3>
+        <button
+          onClick={() => setIsEditing(v => !v)}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-xs font-bold border border-slate-200 text-slate-500 hover:bg-slate-50 transition-all"
+        >
+          <Settings2 size={14} /> CIDR 그룹{cidrGroups.length > 0 && ` (${cidrGroups.length})`}
+        </button>
+      </div>
+
+      {isEditing && (
+        <CidrGroupEditor
+          groups={cidrGroups}
+          onSave={(groups) => { onSaveCidrGroups(groups); setIsEditing(false); }}
+          onClose={() => setIsEditing(false)}
+        />
+      )}
+
+      <div className={`grid grid-cols-1 ${hasBytes ? 'xl:grid-cols-2' : ''} gap-6`}>
+        <ClientTable title="요청 수 상위 클라이언트" clients={traffic.topClientsByRequests} showBytes={hasBytes} />
+        {hasBytes && <ClientTable title="전송량 상위 클라이언트" clients={traffic.topClientsByBytes} showBytes />}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div>
+          <p className={sectionLabel}>클라이언트 종류 (User-Agent)</p>
+          {traffic.hasUserAgent ? (
+            <div className="space-y-3">
+              {traffic.clientClasses.map(c => (
+                <div key={c.clientClass}>
+                  <div className="flex justify-between text-xs">
+                    <span className="font-bold" style={{ color: CLIENT_CLASSES[c.clientClass].color }}>{CLIENT_CLASSES[c.clientClass].label}</span>
+                    <span className="font-mono text-slate-400">
+                      {c.requests.toLocaleString()} ({share(c.requests, totalRequests)}){hasBytes && <> • {formatBytes(c.bytes)}</>}
+                    </span>
+                  </div>
+                  <ShareBar value={c.requests} total={totalRequests} color={CLIENT_CLASSES[c.clientClass].color} />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-slate-400 italic">User-Agent가 없는 로그 형식입니다. (nginx combined 형식이나 %&#123;User-Agent&#125;i 필드가 있어야 합니다)</p>
+          )}
+        </div>
+
+        <div>
+          <p className={sectionLabel}>내부 / 외부 및 CIDR 그룹</p>
+          <div className="space-y-3">
+            {traffic.groups.map(g => (
+              <div key={g.name}>
+                <div className="flex justify-between text-xs">
+                  <span className={`font-bold px-1.5 rounded ${groupChipColor(g.name)}`}>{g.name}</span>
+                  <span className="font-mono text-slate-400">
+                    IP {g.ips.toLocaleString()} • {g.requests.toLocaleString()} ({share(g.requests, totalRequests)}){hasBytes && <> • {formatBytes(g.bytes)}</>}
+                  </span>
+                </div>
+                <ShareBar value={g.requests} total={totalRequests} color="#6366f1" />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className={sectionLabel}>여러 IP가 모인 /24 대역</p>
+          <div className={listClass}>
+            {traffic.topNetworks.map(n => (
+              <div key={n.name} className="flex items-center justify-between gap-2 px-4 py-2 text-xs">
+                <span className="font-mono font-bold text-slate-700">{n.name}</span>
+                <span className="font-mono text-slate-400">IP {n.ips} • {n.requests.toLocaleString()}{hasBytes && <> • {formatBytes(n.bytes)}</>}</span>
+              </div>
+            ))}
+            {traffic.topNetworks.length === 0 && <p className="px-4 py-3 text-xs text-slate-400 italic">두 개 이상의 IP가 요청한 /24 대역이 없습니다.</p>}
+          </div>
+        </div>
+      </div>
+
+      {hasBytes && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <p className={sectionLabel}>구간별 전송량</p>
+            <div className="h-[240px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={traffic.bytesTimeline}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="time" tick={{ fontSize: 10 }} minTickGap={40} tickFormatter={(t) => formatInstant(t, timeZone, 'minute')} />
+                  <YAxis tick={{ fontSize: 10 }} tickFormatter={formatBytes} width={56} />
+                  <Tooltip
+                    contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)' }}
+                    labelFormatter={(t) => formatInstant(Number(t), timeZone, 'minute')}
+                    formatter={(v: number) => [formatBytes(v), '전송량']}
+                  />
+                  <Area type="monotone" dataKey="bytes" stroke="#6366f1" fill="#6366f1" fillOpacity={0.15} strokeWidth={2} />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+          <div>
+            <p className={sectionLabel}>엔드포인트별 전송량</p>
+            <div className={listClass}>
+              {traffic.topEndpointsByBytes.map(e => (
+                <div key={e.name} className="px-4 py-2 text-xs">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-bold text-slate-700 truncate" title={e.name}>{e.name}</span>
+                    <span className="font-mono text-slate-400 shrink-0">
+                      <span className="font-bold text-slate-600">{formatBytes(e.bytes)}</span> ({share(e.bytes, totalBytes)}) • 평균 {formatBytes(e.avgBytes)} × {e.requests.toLocaleString()}
+                    </span>
+                  </div>
+                  <ShareBar value={e.bytes} total={traffic.topEndpointsByBytes[0].bytes} color="#6366f1" />
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {(traffic.hasUserAgent || traffic.hasReferer) && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <p className={sectionLabel}>상위 User-Agent</p>
+            <div className={listClass}>
+              {traffic.topUserAgents.map(a => (
+                <div key={a.userAgent} className="flex items-center justify-between gap-2 px-4 py-2 text-xs">
+                  <span className="flex items-center gap-2 min-w-0">
+                    <ClassChip clientClass={a.clientClass} />
+                    <span className="text-slate-600 truncate" title={a.userAgent}>{a.userAgent}</span>
+                  </span>
+                  <span className="font-mono text-slate-400 shrink-0">{a.requests.toLocaleString()}{hasBytes && <> • {formatBytes(a.bytes)}</>}</span>
+                </div>
+              ))}
+              {traffic.topUserAgents.length === 0 && <p className="px-4 py-3 text-xs text-slate-400 italic">User-Agent가 기록된 요청이 없습니다.</p>}
+            </div>
+          </div>
+          <div>
+            <p className={sectionLabel}>상위 리퍼러 (쿼리 문자열 제외)</p>
+            <div className={listClass}>
+              {traffic.topReferers.map(r => (
+                <div key={r.name} className="flex items-center justify-between gap-2 px-4 py-2 text-xs">
+                  <span className="font-mono text-slate-600 truncate" title={r.name}>{r.name}</span>
+                  <span className="font-mono text-slate-400 shrink-0">{r.requests.toLocaleString()} ({share(r.requests, totalRequests)})</span>
+                </div>
+              ))}
+              <div className="flex items-center justify-between gap-2 px-4 py-2 text-xs bg-slate-50/50">
+                <span className="text-slate-400 italic">리퍼러 없음 (직접 접근, API 호출)</span>
+                <span className="font-mono text-slate-400">{traffic.noReferer.toLocaleString()} ({share(traffic.noReferer, totalRequests)})</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ClientTrafficPanel;
@@ -0,0 +1,184 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { GitCompare, X, AlertTriangle } from 'lucide-react';
+import { getIntervalLabel } from '../analysisSettings';
+import { diffApis, overlayTps, overlayDistribution } from '../comparison';
+
+const MAX_ROWS = 50;
+
+const formatMs = (sec) => sec === null ? '-' : `${(sec * 1000).toLocaleString(undefined, { maximumFractionDigits: 1 })}ms`;
+
+const DeltaText = ({ base, cur, format = (v) => v.toLocaleString(), higherIsWorse = true }) => {
+  if (base === null || cur === null) return <span className="text-slate-300">-</span>;
+  const delta = cur - base;
+  const pct = base !== 0 ? (delta / base) * 100 : null;
+  const worse = higherIsWorse ? delta > 0 : delta < 0;
+  const color = delta === 0 ? 'text-slate-400' : worse ? 'text-red-600' : 'text-emerald-600';
+  return (
+    <span className={`font-mono font-bold ${color}`}>
+      {delta > 0 ? '+' : ''}{format(delta)}{pct !== null && delta !== 0 && <span className="text-[9px] opacity-70"> ({delta > 0 ? '+' : ''}{pct.toFixed(0)}%)</span>}
+    </span>
+  );
+};
+
+const KpiDelta = ({ label, base, cur, format, higherIsWorse = true }) => (
+  <div className="bg-slate-50 rounded-2xl p-4">
+    <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest mb-1">{label}</p>
+    <p className="text-lg font-black text-slate-800 tracking-tighter">{format(cur)}</p>
+    <p className="text-[11px] text-slate-400">기준선 {format(base)} • <DeltaText base={base} cur={cur} format={format} higherIsWorse={higherIsWorse} /></p>
+  </div>
+);
+
+// 지연 기준 이상 구간의 비중이 늘면 회귀(빨강), 줄면 개선(초록)으로 표시합니다.
+const shareCellColor = (isSlow, delta) => {
+  if (Math.abs(delta) < 2) return 'text-slate-400';
+  const worse = isSlow && delta > 0;
+  const better = isSlow && delta < 0;
+  if (worse) return delta > 10 ? 'bg-red-500 text-white font-bold' : 'bg-red-50 text-red-700 font-semibold';
+  if (better) return 'bg-emerald-50 text-emerald-700 font-semibold';
+  return 'text-slate-600';
+};
+
+// 기준선(배포 전) 대비 현재 분석 결과 비교: KPI 변화, TPS/분포 겹쳐 보기, 회귀 심각도 순 API 차이
+const ComparisonPanel = ({ baseline, current, currentLabel, rateLabel, onClear }) => {
+  const diffs = useMemo(() => diffApis(baseline.summaryStats, current), [baseline, current]);
+  const tpsOverlay = useMemo(() => overlayTps(baseline.summaryStats, current, current.timeZone), [baseline, current]);
+  const distributionOverlay = useMemo(() => overlayDistribution(baseline.summaryStats, current, current.timeZone), [baseline, current]);
+  const base = baseline.summaryStats;
+  const regressions = diffs.filter(d => d.severity > 0).length;
+  const buckets = current.bucketConfig;
+
+  return (
+    <div className="bg-white rounded-3xl shadow-sm border border-violet-200 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 flex items-center justify-between gap-4 bg-violet-50/50">
+        <div className="flex items-center gap-3 min-w-0">
+          <div className="p-2 bg-violet-100 rounded-lg"><GitCompare className="text-violet-600" size={18} /></div>
+          <div className="min-w-0">
+            <h3 className="font-bold text-slate-800">기준선 비교 (Regression Check)</h3>
+            <p className="text-[10px] text-slate-500 font-medium truncate">
+              <span className="font-mono">{baseline.label}</span> → <span className="font-mono text-violet-700">{currentLabel}</span> • 회귀 의심 {regressions}건
+            </p>
+          </div>
+        </div>
+        <button onClick={onClear} className="inline-flex items-center gap-1 text-xs font-bold text-slate-400 hover:text-red-600 px-3 py-2 rounded-xl hover:bg-white transition-all">
+          <X size={14} /> 비교 해제
+        </button>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+          <KpiDelta label="전체 요청" base={base.totalRequests} cur={current.totalRequests} format={(v) => v.toLocaleString()} higherIsWorse={false} />
+          <KpiDelta label="평균 응답시간" base={parseFloat(base.avgResponseTime) || 0} cur={parseFloat(current.avgResponseTime) || 0} format={formatMs} />
+          <KpiDelta label="에러율" base={Number(base.errorRate)} cur={Number(current.errorRate)} format={(v) => `${v.toFixed(2)}%`} />
+          <KpiDelta label={`최고 ${rateLabel}`} base={base.maxTps} cur={current.maxTps} format={(v) => v.toLocaleString()} higherIsWorse={false} />
+        </div>
+
+        <div>
+          <h4 className="text-sm font-bold text-slate-700 mb-3">분당 최고 {rateLabel} (시각 기준으로 겹침)</h4>
+          <div className="h-[260px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={tpsOverlay}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="time" tick={{ fontSize: 10 }} minTickGap={30} />
+                <YAxis tick={{ fontSize: 10 }} />
+                <Tooltip />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <Line type="monotone" dataKey="baseline" name="기준선" stroke="#94a3b8" strokeDasharray="4 4" dot={false} connectNulls />
+                <Line type="monotone" dataKey="current" name="현재" stroke="#7c3aed" strokeWidth={2} dot={false} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-bold text-slate-700 mb-3">{getIntervalLabel(current.intervalMinutes)} 주기 응답 시간 분포 변화 (현재 % / 기준선 %)</h4>
+          <div className="overflow-x-auto max-h-[360px]">
+            <table className="w-full text-center text-[11px] border-collapse min-w-[800px]">
+              <thead className="bg-slate-50 sticky top-0">
+                <tr className="text-slate-500 font-bold uppercase tracking-wider">
+                  <th className="px-4 py-3 text-left">Interval</th>
+                  {buckets.map(b => <th key={b.key} className="px-2 py-3 border-l border-slate-100">{b.label}</th>)}
+                  <th className="px-4 py-3 border-l border-slate-100">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {distributionOverlay.map(row => (
+                  <tr key={row.time}>
+                    <td className="px-4 py-2 text-left font-mono font-bold text-slate-600">{row.time}</td>
+                    {buckets.map(b => {
+                      const cur = row.current?.shares[b.key] ?? null;
+                      const prev = row.baseline?.shares[b.key] ?? null;
+                      const delta = cur !== null && prev !== null ? cur - prev : 0;
+                      return (
+                        <td key={b.key} className={`px-2 py-2 border-l border-slate-50 ${shareCellColor(b.min >= current.slowThreshold, delta)}`}>
+                          <div className="flex flex-col">
+                            <span>{cur === null ? '-' : `${cur.toFixed(0)}%`}</span>
+                            <span className="text-[9px] opacity-60">{prev === null ? '-' : `${prev.toFixed(0)}%`}</span>
+                          </div>
+                        </td>
+                      );
+                    })}
+                    <td className="px-4 py-2 border-l border-slate-50 font-mono text-slate-600">
+                      {row.current?.total.toLocaleString() ?? '-'}
+                      <span className="block text-[9px] text-slate-400">{row.baseline?.total.toLocaleString() ?? '-'}</span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-bold text-slate-700 mb-3 flex items-center gap-2">
+            <AlertTriangle size={14} className="text-red-500" /> API별 변화 (회귀 심각도 순, 상위 {Math.min(diffs.length, MAX_ROWS)}건)
+          </h4>
+          <div className="overflow-x-auto max-h-[500px] border border-slate-100 rounded-2xl">
+            <table className="w-full text-sm border-separate border-spacing-0">
+              <thead className="bg-slate-50 sticky top-0 shadow-sm z-10">
+                <tr className="text-slate-500 font-bold text-xs uppercase tracking-tighter">
+                  <th className="px-4 py-3 border-b border-slate-100 text-left">Target (API/SQL)</th>
+                  <th className="px-4 py-3 border-b border-slate-100 text-right">Count Δ</th>
+                  <th className="px-4 py-3 border-b border-slate-100 text-right">Avg</th>
+                  <th className="px-4 py-3 border-b border-slate-100 text-right">Avg Δ</th>
+                  <th className="px-4 py-3 border-b border-slate-100 text-right">p99</th>
+                  <th className="px-4 py-3 border-b border-slate-100 text-right">p99 Δ</th>
+                  <th className="px-4 py-3 border-b border-slate-100 text-right">Error Rate Δ</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 bg-white">
+                {diffs.slice(0, MAX_ROWS).map(d => (
+                  <tr key={d.name} className="hover:bg-violet-50/30 transition-colors">
+                    <td className="px-4 py-2 max-w-[360px]">
+                      <div className="flex items-center gap-2">
+                        {d.status !== 'both' && (
+                          <span className={`text-[9px] font-black uppercase px-1.5 py-0.5 rounded ${d.status === 'new' ? 'bg-blue-100 text-blue-700' : 'bg-slate-100 text-slate-500'}`}>
+                            {d.status === 'new' ? 'New' : 'Gone'}
+                          </span>
+                        )}
+                        <span className="font-bold text-slate-700 truncate" title={d.name}>{d.name}</span>
+                      </div>
+                    </td>
+                    <td className="px-4 py-2 text-right text-xs">
+                      <span className="font-mono text-slate-500">{d.curCount.toLocaleString()}</span>{' '}
+                      <DeltaText base={d.baseCount} cur={d.curCount} higherIsWorse={false} />
+                    </td>
+                    <td className="px-4 py-2 text-right font-mono text-xs">{formatMs(d.curAvg)}</td>
+                    <td className="px-4 py-2 text-right text-xs"><DeltaText base={d.baseAvg} cur={d.curAvg} format={formatMs} /></td>
+                    <td className="px-4 py-2 text-right font-mono text-xs">{formatMs(d.curP99)}</td>
+                    <td className="px-4 py-2 text-right text-xs"><DeltaText base={d.baseP99} cur={d.curP99} format={formatMs} /></td>
+                    <td className="px-4 py-2 text-right text-xs">
+                      <DeltaText base={d.status === 'new' ? null : d.baseErrorRate} cur={d.status === 'removed' ? null : d.curErrorRate} format={(v) => `${v.toFixed(2)}%p`} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonPanel;
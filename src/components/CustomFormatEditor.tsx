@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import { X, Save, FlaskConical, AlertTriangle } from 'lucide-react';
+import {
+  FORMAT_KINDS, SEMANTIC_FIELDS, DURATION_UNITS, CustomFormat,
+  compileCustomFormat, getFormatFields, getDefaultDurationUnit
+} from '../customFormats';
+
+// 사용자 정의 로그 포맷 편집기 (붙여넣은 패턴 → 필드 매핑 → 샘플 라인 테스트 → 저장)
+const CustomFormatEditor = ({ onSave, onClose }) => {
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState('nginx');
+  const [pattern, setPattern] = useState('');
+  const [fieldOverrides, setFieldOverrides] = useState({});
+  const [durationUnit, setDurationUnit] = useState(null);
+  const [sampleLine, setSampleLine] = useState('');
+
+  const draft: CustomFormat = { id: '', name, kind, pattern, fieldOverrides, durationUnit };
+  const kindConfig = FORMAT_KINDS.find(k => k.key === kind);
+
+  const fields = useMemo(() => getFormatFields(draft), [kind, pattern, fieldOverrides]);
+  const effectiveUnit = durationUnit || getDefaultDurationUnit(draft);
+
+  const compiled = useMemo(() => {
+    try {
+      return { parser: compileCustomFormat({ ...draft, durationUnit: effectiveUnit }), error: null };
+    } catch (e) {
+      return { parser: null, error: e.message };
+    }
+  }, [kind, pattern, fieldOverrides, effectiveUnit]);
+
+  const sampleResult = useMemo(() => {
+    if (!sampleLine.trim() || !compiled.parser) return undefined;
+    return compiled.parser.parse(sampleLine.trim());
+  }, [sampleLine, compiled]);
+
+  const hasUrl = fields.some(f => f.semantic === 'url' || f.semantic === 'request');
+  const hasDuration = fields.some(f => f.semantic === 'duration');
+  const canSave = name.trim() && pattern.trim() && !compiled.error && hasUrl;
+
+  const handleKindChange = (nextKind) => {
+    setKind(nextKind);
+    setFieldOverrides({});
+    setDurationUnit(null);
+  };
+
+  const handlePatternChange = (nextPattern) => {
+    setPattern(nextPattern);
+    setFieldOverrides({});
+  };
+
+  const handleSave = () => {
+    onSave({
+      id: Date.now().toString(36),
+      name: name.trim(),
+      kind,
+      pattern,
+      fieldOverrides,
+      durationUnit: effectiveUnit
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="text-lg font-black text-slate-800">사용자 정의 로그 포맷</h3>
+          <button onClick={onClose} className="p-2 rounded-xl text-slate-400 hover:bg-slate-100 hover:text-slate-700 transition-all">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 text-sm">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="space-y-1">
+              <span className="text-[10px] text-slate-400 font-black uppercase tracking-widest">Name</span>
+              <input
+                className="w-full px-3 py-2 border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none"
+                placeholder="예: API Gateway Nginx" value={name} onChange={(e) => setName(e.target.value)}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-[10px] text-slate-400 font-black uppercase tracking-widest">Pattern Type</span>
+              <select
+                className="w-full px-3 py-2 border border-slate-200 rounded-xl bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+                value={kind} onChange={(e) => handleKindChange(e.target.value)}
+              >
+                {FORMAT_KINDS.map(k => <option key={k.key} value={k.key}>{k.label}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <label className="block space-y-1">
+            <span className="text-[10px] text-slate-400 font-black uppercase tracking-widest">Pattern</span>
+            <textarea
+              rows={3}
+              className="w-full px-3 py-2 border border-slate-200 rounded-xl font-mono text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+              placeholder={kindConfig.placeholder} value={pattern} onChange={(e) => handlePatternChange(e.target.value)}
+            />
+            <span className="text-[10px] text-slate-400">
+              패턴 어디에서든 <code className="font-mono">{'{url}'}</code>, <code className="font-mono">{'{duration}'}</code> 같은 자리표시자로 필드를 직접 지정할 수 있습니다.
+            </span>
+          </label>
+
+          {fields.length > 0 && (
+            <div className="border border-slate-100 rounded-2xl overflow-hidden">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-50 text-slate-500 font-bold uppercase tracking-tighter">
+                  <tr>
+                    <th className="px-4 py-2 text-left">Pattern Field</th>
+                    <th className="px-4 py-2 text-left">Semantic Column</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {fields.map((f, idx) => (
+                    <tr key={idx}>
+                      <td className="px-4 py-2 font-mono text-slate-600">{f.token}</td>
+                      <td className="px-4 py-2">
+                        <select
+                          className="px-2 py-1 border border-slate-200 rounded-lg bg-white"
+                          value={f.semantic}
+                          onChange={(e) => setFieldOverrides(prev => ({ ...prev, [idx]: e.target.value }))}
+                        >
+                          {SEMANTIC_FIELDS.map(s => <option key={s.key} value={s.key}>{s.label}</option>)}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {hasDuration && (
+            <label className="flex items-center gap-3">
+              <span className="text-[10px] text-slate-400 font-black uppercase tracking-widest">Duration Unit</span>
+              <select
+                className="px-2 py-1 border border-slate-200 rounded-lg bg-white text-xs"
+                value={effectiveUnit} onChange={(e) => setDurationUnit(e.target.value)}
+              >
+                {DURATION_UNITS.map(u => <option key={u.key} value={u.key}>{u.label}</option>)}
+              </select>
+            </label>
+          )}
+
+          {pattern.trim() && !hasUrl && (
+            <p className="flex items-center gap-2 text-amber-600 text-xs font-bold">
+              <AlertTriangle size={14} /> URL / Mapper 또는 Request Line 필드가 하나 이상 필요합니다.
+            </p>
+          )}
+          {compiled.error && (
+            <p className="flex items-center gap-2 text-red-600 text-xs font-bold">
+              <AlertTriangle size={14} /> {compiled.error}
+            </p>
+          )}
+
+          <label className="block space-y-1">
+            <span className="text-[10px] text-slate-400 font-black uppercase tracking-widest flex items-center gap-1">
+              <FlaskConical size={12} /> Sample Line Test
+            </span>
+            <input
+              className="w-full px-3 py-2 border border-slate-200 rounded-xl font-mono text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+              placeholder="로그 한 줄을 붙여넣어 파싱 결과를 확인하세요" value={sampleLine} onChange={(e) => setSampleLine(e.target.value)}
+            />
+          </label>
+          {sampleResult !== undefined && (
+            sampleResult
+              ? <pre className="bg-slate-900 text-emerald-300 rounded-2xl p-4 text-[11px] overflow-x-auto">{JSON.stringify(sampleResult, null, 2)}</pre>
+              : <p className="text-red-600 text-xs font-bold">샘플 라인이 패턴과 일치하지 않습니다.</p>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex justify-end gap-3">
+          <button onClick={onClose} className="px-5 py-2.5 rounded-xl font-bold text-slate-500 hover:bg-slate-100 transition-all">취소</button>
+          <button
+            onClick={handleSave} disabled={!canSave}
+            className="inline-flex items-center gap-2 bg-slate-900 hover:bg-black text-white px-5 py-2.5 rounded-xl font-bold shadow-md transition-all active:scale-95 disabled:opacity-40 disabled:pointer-events-none"
+          >
+            <Save size={16} /> 저장
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomFormatEditor;
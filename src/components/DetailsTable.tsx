@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Search, Loader2 } from 'lucide-react';
+import { readRecord } from '../recordStore';
+import { StatusBadge } from './StatusPanel';
+import { CopySqlButton } from './SqlShapeTable';
+import { getSqlShare } from '../sqlCorrelation';
+
+// 행 높이를 고정해 스크롤 위치만으로 보이는 구간을 계산합니다. (행 내용은 이 높이 안에 들어가도록 한 줄씩 자름)
+const ROW_HEIGHT = 96;
+const VIEWPORT_HEIGHT = 600;
+const OVERSCAN = 8;
+// 브라우저는 요소 높이를 약 3,300만 px로 제한하므로, 그보다 길면 스크롤 위치를 비율로 환산합니다.
+const MAX_SCROLL_HEIGHT = 15_000_000;
+
+const formatSqlLink = (link, responseTime) => {
+  const share = getSqlShare(link, responseTime);
+  return `SQL ${Math.round(link.time * 1000).toLocaleString()}ms${share === null ? '' : ` (${Math.round(share * 100)}%)`} • ${link.count.toLocaleString()}건`;
+};
+
+// 지연/실패 상세 목록. rowIds(레코드 순번)는 detailsWorker가 거르고 정렬한 결과이며, 보이는 행만 그립니다.
+// getRequestSql이 있으면(SQL 로그 연결 분석) 요청마다 연결된 SQL 시간과 비율을 함께 보여줍니다.
+const DetailsTable = ({ records, rowIds, isLoading, sortConfig, onSort, onSelectRow, selectedId, formatDetailTime, showStatus, isMultiSource, emptyMessage, getRequestSql = null }) => {
+  const scrollRef = useRef(null);
+  const [scrollTop, setScrollTop] = useState(0);
+
+  // 필터나 정렬이 바뀌면 맨 위로
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [rowIds]);
+
+  const total = rowIds.length;
+  const fullHeight = total * ROW_HEIGHT;
+  const scrollHeight = Math.min(fullHeight, MAX_SCROLL_HEIGHT);
+  const ratio = scrollHeight > VIEWPORT_HEIGHT ? (fullHeight - VIEWPORT_HEIGHT) / (scrollHeight - VIEWPORT_HEIGHT) : 1;
+  const offset = scrollTop * ratio;
+  const first = Math.max(0, Math.floor(offset / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(total, Math.ceil((offset + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  // 위 여백은 보이는 첫 행이 스크롤 위치에 맞도록, 아래 여백은 전체 높이를 채우도록 잡습니다.
+  const topSpace = Math.max(0, scrollTop - (offset - first * ROW_HEIGHT));
+  const bottomSpace = Math.max(0, scrollHeight - topSpace - (last - first) * ROW_HEIGHT);
+  const visible = [];
+  for (let index = first; index < last; index++) {
+    visible.push({ index, log: readRecord(records, rowIds[index]), sqlLink: getRequestSql?.(rowIds[index]) });
+  }
+
+  const sortMark = (key) => sortConfig.key === key && (sortConfig.direction === 'asc' ? '↑' : '↓');
+
+  return (
+    <div
+      ref={scrollRef}
+      className="relative overflow-auto border-t border-slate-100"
+      style={{ maxHeight: VIEWPORT_HEIGHT }}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      {isLoading && (
+        <div className="sticky top-0 z-20 h-0">
+          <div className="absolute right-4 top-3 flex items-center gap-1.5 text-[10px] font-bold text-blue-600 bg-white/90 px-2 py-1 rounded-full shadow-sm">
+            <Loader2 size={12} className="animate-spin" /> 정렬 중
+          </div>
+        </div>
+      )}
+      <table className="w-full text-left text-sm border-separate border-spacing-0 table-fixed">
+        <colgroup>
+          <col className="w-24" />
+          <col className="w-52" />
+          <col />
+          <col className="w-36" />
+        </colgroup>
+        <thead className="bg-slate-50 sticky top-0 shadow-sm z-10">
+          <tr className="text-slate-500 font-bold text-xs uppercase tracking-tighter">
+            <th className="px-6 py-4 border-b border-slate-100">No</th>
+            <th className="px-6 py-4 border-b border-slate-100 cursor-pointer hover:text-blue-600" onClick={() => onSort('timestamp')}>
+              Timestamp {sortMark('timestamp')}
+            </th>
+            <th className="px-6 py-4 border-b border-slate-100 cursor-pointer hover:text-blue-600" onClick={() => onSort('url')}>
+              Target (API/SQL) {sortMark('url')}
+            </th>
+            <th className="px-6 py-4 border-b border-slate-100 text-right cursor-pointer hover:text-blue-600" onClick={() => onSort('responseTime')}>
+              Duration {sortMark('responseTime')}
+            </th>
+          </tr>
+        </thead>
+        <tbody className="bg-white">
+          {topSpace > 0 && <tr style={{ height: topSpace }}><td colSpan={4} /></tr>}
+          {visible.map(({ index, log, sqlLink }) => (
+            <tr
+              key={log.id}
+              style={{ height: ROW_HEIGHT }}
+              onClick={() => onSelectRow(log.id)}
+              className={`cursor-pointer transition-colors group ${selectedId === log.id ? 'bg-blue-50' : 'hover:bg-blue-50/30'}`}
+            >
+              <td className="px-6 py-3 border-b border-slate-100 text-slate-400 font-black text-xs">
+                {(index + 1).toLocaleString()}
+              </td>
+              <td className="px-6 py-3 border-b border-slate-100 text-slate-500 text-[11px] font-mono whitespace-nowrap" title={log.rawTimestamp}>{formatDetailTime(log)}</td>
+              <td className="px-6 py-3 border-b border-slate-100 overflow-hidden">
+                <div className="font-bold text-slate-700 truncate group-hover:text-blue-700 transition-colors" title={log.url}>
+                  {log.url}
+                </div>
+                {log.statement && (
+                  <div className="flex items-center gap-1 leading-4">
+                    <div className="text-[10px] text-violet-600 font-mono truncate" title={log.statement}>{log.statement}</div>
+                    <CopySqlButton sql={log.statement} />
+                  </div>
+                )}
+                {log.rawUrl !== log.url && (
+                  <div className="text-[10px] leading-4 text-slate-400 font-mono truncate" title={log.rawUrl}>{log.rawUrl}</div>
+                )}
+                <div className="text-[10px] leading-4 text-slate-400 font-mono truncate">{showStatus && <><StatusBadge status={log.status} /> </>}{log.method} • {log.ip}{isMultiSource && <> • <span className="text-cyan-600">{log.source}</span></>}{sqlLink && <> • <span className="text-violet-600 font-bold">{formatSqlLink(sqlLink, log.responseTime)}</span></>}</div>
+              </td>
+              <td className="px-6 py-3 border-b border-slate-100 text-right">
+                {log.responseTime === null ? <span className="text-slate-300 font-mono text-xs">-</span> : (
+                  <span className={`inline-block font-mono font-bold px-3 py-1 rounded-full text-xs shadow-sm ${log.responseTime > 5 ? 'bg-rose-500 text-white' : log.responseTime > 1 ? 'bg-orange-100 text-orange-700' : 'bg-blue-50 text-blue-700'}`}>
+                    {(log.responseTime * 1000).toLocaleString(undefined, { minimumFractionDigits: 1 })}ms
+                  </span>
+                )}
+              </td>
+            </tr>
+          ))}
+          {bottomSpace > 0 && <tr style={{ height: bottomSpace }}><td colSpan={4} /></tr>}
+          {total === 0 && !isLoading && (
+            <tr>
+              <td colSpan={4} className="px-6 py-20 text-center">
+                <div className="flex flex-col items-center gap-3 text-slate-300">
+                  <Search size={48} />
+                  <p className="text-slate-400 italic text-sm font-medium">{emptyMessage}</p>
+                </div>
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default DetailsTable;
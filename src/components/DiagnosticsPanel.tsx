@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { FileSearch, AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+import { getParseCoverage, LOW_COVERAGE } from '../logCore';
+
+const CATEGORIES = [
+  { key: 'unmatched', label: '해석 실패', description: '선택한 로그 타입/포맷과 맞지 않아 버린 줄' },
+  { key: 'badTimestamp', label: '타임스탬프 오류', description: '요청으로 읽었지만 시각을 해석하지 못해 시간 축 위젯에서 빠진 요청' },
+  { key: 'missingDuration', label: '응답 시간 없음', description: '요청으로 읽었지만 응답 시간 컬럼이 없어 지연 통계에서 빠진 요청' },
+];
+
+// 내림해서 표시합니다. (한 줄이라도 실패했으면 100%로 보이지 않도록)
+const formatPercent = (ratio: number) => `${(Math.floor(ratio * 1000) / 10).toFixed(1)}%`;
+
+const coverageColor = (coverage: number) => {
+  if (coverage >= 0.98) return 'text-emerald-600';
+  if (coverage >= LOW_COVERAGE) return 'text-amber-600';
+  return 'text-red-600';
+};
+
+// 해석률이 낮을 때 결과 맨 위에 띄우는 경고
+export const CoverageWarning = ({ diagnostics, typeLabel }) => {
+  const coverage = getParseCoverage(diagnostics);
+  if (coverage === null || coverage >= LOW_COVERAGE) return null;
+  return (
+    <div className="bg-red-50 px-5 py-4 rounded-2xl border border-red-200 flex items-start gap-3 text-sm text-red-800">
+      <AlertTriangle size={18} className="shrink-0 mt-0.5" />
+      <div>
+        <p className="font-black">전체 {diagnostics.lines.toLocaleString()}줄 중 {formatPercent(coverage)}만 {typeLabel} 로그로 해석했습니다.</p>
+        <p className="text-xs mt-1">
+          해석하지 못한 {diagnostics.unmatched.toLocaleString()}줄은 모든 통계에서 빠졌습니다. 로그 타입이나 사용자 정의 포맷이 맞는지,
+          다른 로그가 섞여 있지 않은지 아래 해석 진단의 샘플 줄을 확인해 주세요.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+// 해석 진단: 줄 단위 해석률과 분류별 건수, 분류마다 앞쪽 샘플 줄
+const DiagnosticsPanel = ({ diagnostics, auxiliaryLabel }) => {
+  const coverage = getParseCoverage(diagnostics);
+  const hasIssues = CATEGORIES.some(c => diagnostics[c.key] > 0);
+  const [isOpen, setIsOpen] = useState(coverage !== null && coverage < LOW_COVERAGE);
+  const [category, setCategory] = useState(() => CATEGORIES.find(c => diagnostics[c.key] > 0)?.key || 'unmatched');
+  const active = CATEGORIES.find(c => c.key === category);
+  const samples = diagnostics.samples[category];
+
+  return (
+    <div className={`bg-white p-6 rounded-3xl shadow-sm border ${coverage !== null && coverage < LOW_COVERAGE ? 'border-red-200' : 'border-slate-200'}`}>
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <FileSearch className="text-slate-500" />
+          해석 진단
+          {coverage !== null && <span className={`text-base font-black ${coverageColor(coverage)}`}>{formatPercent(coverage)}</span>}
+          <span className="text-xs font-medium text-slate-400">해석률 (빈 줄 제외)</span>
+        </h3>
+        <div className="flex flex-wrap items-center gap-2 text-[11px] font-bold">
+          <span className="px-2 py-1 rounded-lg bg-slate-50 text-slate-500">전체 {diagnostics.lines.toLocaleString()}줄</span>
+          <span className="px-2 py-1 rounded-lg bg-emerald-50 text-emerald-700">요청 {diagnostics.parsed.toLocaleString()}</span>
+          {diagnostics.auxiliary > 0 && (
+            <span className="px-2 py-1 rounded-lg bg-slate-50 text-slate-500">{auxiliaryLabel} {diagnostics.auxiliary.toLocaleString()}</span>
+          )}
+          {CATEGORIES.map(c => (
+            <span key={c.key} className={`px-2 py-1 rounded-lg ${diagnostics[c.key] > 0 ? 'bg-amber-50 text-amber-700' : 'bg-slate-50 text-slate-300'}`} title={c.description}>
+              {c.label} {diagnostics[c.key].toLocaleString()}
+            </span>
+          ))}
+          {hasIssues && (
+            <button onClick={() => setIsOpen(v => !v)} className="inline-flex items-center gap-1 px-2 py-1 rounded-lg text-slate-400 hover:text-blue-600 hover:bg-slate-50 transition-all">
+              샘플 {isOpen ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isOpen && hasIssues && (
+        <div className="mt-5 space-y-3">
+          <div className="flex flex-wrap gap-1">
+            {CATEGORIES.filter(c => diagnostics[c.key] > 0).map(c => (
+              <button
+                key={c.key}
+                onClick={() => setCategory(c.key)}
+                className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${category === c.key ? 'bg-slate-900 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+              >
+                {c.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-[11px] text-slate-400">{active.description} • 앞쪽 {samples.length}줄</p>
+          <div className="space-y-1.5">
+            {samples.map((sample, idx) => (
+              <div key={idx} className="bg-slate-900 rounded-xl px-4 py-2">
+                <p className="text-[10px] text-slate-400 font-mono mb-1">
+                  {sample.source}{sample.lineRef && ` @ ${sample.lineRef.offset.toLocaleString()}B`}
+                </p>
+                <pre className="text-[11px] font-mono text-slate-100 whitespace-pre-wrap break-all">{sample.text}</pre>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
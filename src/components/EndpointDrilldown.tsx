@@ -0,0 +1,210 @@
+import React, { useEffect } from 'react';
+import { AreaChart, Area, BarChart, Bar, Cell, LineChart, Line, ComposedChart, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { ArrowLeft, Crosshair, Layers } from 'lucide-react';
+import { readRecord } from '../recordStore';
+import { formatInstant } from '../timestamps';
+import { StatusBadge } from './StatusPanel';
+
+const formatMs = (sec: number | null | undefined) => sec === null || sec === undefined ? '-' : `${(sec * 1000).toLocaleString(undefined, { maximumFractionDigits: 1 })}ms`;
+const formatCount = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: n < 10 ? 2 : 0 });
+
+const cardClass = 'bg-white p-6 rounded-3xl shadow-sm border border-slate-200';
+const sectionLabel = 'text-[10px] text-slate-400 font-black uppercase tracking-widest mb-2';
+// 구간 색은 히트맵용 Tailwind 클래스라 막대에는 빠른 구간(초록) → 느린 구간(빨강) 순의 색을 따로 씁니다.
+const HISTOGRAM_COLORS = ['#10b981', '#3b82f6', '#6366f1', '#f59e0b', '#ef4444', '#e11d48'];
+const histogramColor = (idx: number, count: number) => HISTOGRAM_COLORS[count === 1 ? 0 : Math.round((idx * (HISTOGRAM_COLORS.length - 1)) / (count - 1))];
+
+const tooltipStyle = { borderRadius: '16px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)' };
+
+const Metric = ({ label, value, tone = 'text-slate-800' }) => (
+  <div className="bg-slate-50 rounded-2xl px-4 py-3">
+    <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest">{label}</p>
+    <p className={`text-lg font-black ${tone}`}>{value}</p>
+  </div>
+);
+
+// 지연과 동시 요청 수가 얼마나 함께 움직이는지 한 줄로 풀어 씁니다.
+const describeCorrelation = (r: number | null) => {
+  if (r === null) return '구간이 적거나 변화가 없어 상관관계를 계산하지 않았습니다.';
+  const strength = r >= 0.7 ? '강하게 함께 오릅니다' : r >= 0.4 ? '어느 정도 함께 오릅니다' : r > -0.4 ? '뚜렷한 관계가 없습니다' : '반대로 움직입니다';
+  return `p95와 전체 동시 요청 수의 상관계수 ${r.toFixed(2)} — ${strength}.`;
+};
+
+// 엔드포인트 하나의 상세 화면: TPS 추이, 응답 시간 분포, 구간별 백분위, 동시 요청 추정, 상태 코드, 호출 IP, 가장 느린 요청.
+// 가장 느린 요청을 클릭하면 상세 보기(RecordDrawer)를 엽니다.
+const EndpointDrilldown = ({ drilldown, records, timeZone, timestampMark, rateLabel, formatDetailTime, onSelectRecord, onClose }) => {
+  useEffect(() => { window.scrollTo(0, 0); }, [drilldown.name]);
+
+  const formatTime = (t) => formatInstant(Number(t), timeZone, 'minute');
+  const { latency, timeline } = drilldown;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-slate-50 overflow-y-auto">
+      <div className="max-w-7xl mx-auto p-6 space-y-6">
+        <div className="flex items-center gap-4">
+          <button onClick={onClose} className="inline-flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-bold border border-slate-200 bg-white text-slate-600 hover:bg-slate-100 transition-all shrink-0">
+            <ArrowLeft size={14} /> 대시보드
+          </button>
+          <div className="min-w-0">
+            <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest">
+              엔드포인트 상세 {drilldown.column === 'rawUrl' && '(원본 경로)'}
+            </p>
+            <h2 className="text-xl font-black text-slate-800 truncate" title={drilldown.name}>{drilldown.name}</h2>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-8 gap-3">
+          <Metric label="요청" value={drilldown.requests.toLocaleString()} />
+          <Metric label="전체 대비" value={`${(drilldown.share * 100).toFixed(1)}%`} />
+          <Metric label="에러율" value={`${drilldown.errorRate.toFixed(2)}%`} tone={drilldown.errorRate > 0 ? 'text-red-600' : 'text-slate-800'} />
+          <Metric label="평균" value={formatMs(drilldown.avgTime)} />
+          <Metric label="p95" value={formatMs(latency?.p95)} tone="text-orange-600" />
+          <Metric label="p99" value={formatMs(latency?.p99)} tone="text-red-600" />
+          <Metric label="최고 동시 (이 API)" value={drilldown.peakConcurrency.toLocaleString()} />
+          <Metric label="최고 동시 (전체)" value={drilldown.overallPeakConcurrency.toLocaleString()} />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className={cardClass}>
+            <h3 className="text-lg font-bold mb-4">{rateLabel} 추이 (구간 최고 / 평균)</h3>
+            <div className="h-[260px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={timeline}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="time" tick={{ fontSize: 10 }} minTickGap={40} tickFormatter={formatTime} />
+                  <YAxis tick={{ fontSize: 10 }} />
+                  <Tooltip contentStyle={tooltipStyle} labelFormatter={formatTime} formatter={(v: number) => formatCount(v)} />
+                  <Legend wrapperStyle={{ fontSize: 11 }} />
+                  <Area type="monotone" dataKey="peakTps" name={`최고 ${rateLabel}`} stroke="#3b82f6" fill="#3b82f6" fillOpacity={0.15} strokeWidth={2} dot={false} />
+                  <Area type="monotone" dataKey="avgTps" name={`평균 ${rateLabel}`} stroke="#10b981" fill="#10b981" fillOpacity={0.1} strokeWidth={2} dot={false} />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className={cardClass}>
+            <h3 className="text-lg font-bold mb-4">응답 시간 분포</h3>
+            <div className="h-[260px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={drilldown.histogram}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="label" tick={{ fontSize: 10 }} />
+                  <YAxis tick={{ fontSize: 10 }} />
+                  <Tooltip contentStyle={tooltipStyle} formatter={(v: number) => [v.toLocaleString(), '요청']} />
+                  <Bar dataKey="count" radius={[4, 4, 0, 0]}>
+                    {drilldown.histogram.map((b, idx) => <Cell key={b.key} fill={histogramColor(idx, drilldown.histogram.length)} />)}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+
+        <div className={cardClass}>
+          <h3 className="text-lg font-bold mb-4">구간별 지연 시간 백분위 (p50 / p95 / p99)</h3>
+          <div className="h-[260px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={timeline}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="time" tick={{ fontSize: 10 }} minTickGap={40} tickFormatter={formatTime} />
+                <YAxis tick={{ fontSize: 10 }} tickFormatter={(v) => `${Math.round(v * 1000)}ms`} />
+                <Tooltip contentStyle={tooltipStyle} labelFormatter={formatTime} formatter={(v: number) => formatMs(v)} />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <Line type="monotone" dataKey="p50" stroke="#3b82f6" strokeWidth={2} dot={false} connectNulls />
+                <Line type="monotone" dataKey="p95" stroke="#f59e0b" strokeWidth={2} dot={false} connectNulls />
+                <Line type="monotone" dataKey="p99" stroke="#ef4444" strokeWidth={2} dot={false} connectNulls />
+                <Line type="monotone" dataKey="max" stroke="#fda4af" strokeWidth={1} strokeDasharray="4 4" dot={false} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className={cardClass}>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+            <h3 className="text-lg font-bold flex items-center gap-2">
+              <Layers className="text-indigo-500" />
+              동시 요청 수 추정 vs p95
+            </h3>
+            <span className="text-[11px] text-slate-400">
+              타임스탬프를 요청 {timestampMark === 'start' ? '시작' : '종료'} 시각으로 보고 응답 시간만큼 {timestampMark === 'start' ? '뒤로' : '앞으로'} 펼쳐 겹친 요청을 셉니다.
+            </span>
+          </div>
+          <p className="text-xs text-slate-500 mb-4">{describeCorrelation(drilldown.saturationCorrelation)} 최고 동시 요청 수가 스레드/커넥션 풀 크기에 닿는 구간에서 p95가 오른다면 풀 포화를 의심해 보세요.</p>
+          <div className="h-[300px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={timeline}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="time" tick={{ fontSize: 10 }} minTickGap={40} tickFormatter={formatTime} />
+                <YAxis yAxisId="count" tick={{ fontSize: 10 }} />
+                <YAxis yAxisId="latency" orientation="right" tick={{ fontSize: 10 }} tickFormatter={(v) => `${Math.round(v * 1000)}ms`} />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  labelFormatter={formatTime}
+                  formatter={(v: number, name: string) => [name === 'p95' ? formatMs(v) : formatCount(v), name]}
+                />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <Area yAxisId="count" type="stepAfter" dataKey="overallPeakConcurrency" name="전체 최고 동시" stroke="#94a3b8" fill="#cbd5e1" fillOpacity={0.3} strokeWidth={1} dot={false} />
+                <Line yAxisId="count" type="monotone" dataKey="overallConcurrency" name="전체 평균 동시" stroke="#6366f1" strokeWidth={2} dot={false} />
+                <Line yAxisId="count" type="monotone" dataKey="peakConcurrency" name="이 API 최고 동시" stroke="#10b981" strokeWidth={2} dot={false} />
+                <Line yAxisId="latency" type="monotone" dataKey="p95" name="p95" stroke="#f59e0b" strokeWidth={2} strokeDasharray="4 4" dot={false} connectNulls />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className={cardClass}>
+            <p className={sectionLabel}>상태 코드</p>
+            <div className="flex flex-wrap gap-1.5 mb-6">
+              {drilldown.statusStats.map(s => (
+                <span key={s.status} className="inline-flex items-center gap-1 text-[11px] font-mono text-slate-500">
+                  <StatusBadge status={s.status} /> × {s.count.toLocaleString()}
+                </span>
+              ))}
+            </div>
+            <p className={sectionLabel}>호출 상위 IP / 스레드</p>
+            <div className="border border-slate-100 rounded-2xl divide-y divide-slate-50 max-h-[320px] overflow-y-auto">
+              {drilldown.topCallers.map(c => (
+                <div key={c.ip} className="flex items-center justify-between gap-2 px-4 py-2 text-xs">
+                  <span className="font-mono font-bold text-slate-700 truncate" title={c.ip}>{c.ip}</span>
+                  <span className="font-mono text-slate-400 shrink-0">
+                    {c.requests.toLocaleString()} • 평균 {formatMs(c.avgTime)}
+                    {c.errorRate > 0 && <> • <span className="text-red-600 font-bold">{c.errorRate.toFixed(1)}%</span></>}
+                  </span>
+                </div>
+              ))}
+              {drilldown.topCallers.length === 0 && <p className="px-4 py-3 text-xs text-slate-400 italic">IP가 기록된 요청이 없습니다.</p>}
+            </div>
+          </div>
+
+          <div className={`${cardClass} lg:col-span-2`}>
+            <p className={sectionLabel}>가장 느린 요청 (클릭하면 상세 보기)</p>
+            <div className="border border-slate-100 rounded-2xl divide-y divide-slate-50 max-h-[440px] overflow-y-auto">
+              {drilldown.slowest.map(index => {
+                const log = readRecord(records, index);
+                return (
+                  <button
+                    key={log.id}
+                    onClick={() => onSelectRecord(log.id)}
+                    className="w-full flex items-center justify-between gap-3 px-4 py-2 text-xs text-left hover:bg-slate-50 group"
+                  >
+                    <span className="flex items-center gap-2 min-w-0">
+                      <Crosshair size={12} className="text-slate-300 group-hover:text-blue-600 shrink-0" />
+                      <span className="font-mono text-slate-500 shrink-0">{formatDetailTime(log)}</span>
+                      <StatusBadge status={log.status} />
+                      <span className="font-mono text-slate-400 truncate" title={log.rawUrl}>{log.rawUrl !== log.url ? log.rawUrl : log.ip}</span>
+                    </span>
+                    <span className="font-mono font-bold text-red-600 shrink-0">{formatMs(log.responseTime)}</span>
+                  </button>
+                );
+              })}
+              {drilldown.slowest.length === 0 && <p className="px-4 py-3 text-xs text-slate-400 italic">응답 시간이 기록된 요청이 없습니다.</p>}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EndpointDrilldown;
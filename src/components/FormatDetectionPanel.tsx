@@ -0,0 +1,129 @@
+import React from 'react';
+import { ScanSearch, Play, X, AlertTriangle, CheckCircle2, DatabaseZap } from 'lucide-react';
+import { DURATION_UNITS } from '../customFormats';
+
+const LOW_CONFIDENCE = 0.5;
+const MAX_LISTED_FILES = 20;
+
+const confidenceColor = (confidence) => {
+  if (confidence >= 0.9) return 'bg-emerald-500';
+  if (confidence >= LOW_CONFIDENCE) return 'bg-amber-400';
+  return 'bg-rose-400';
+};
+
+// 업로드 직후 샘플 기반 포맷 감지 결과를 보여주고, 사용자가 타입/단위를 확정한 뒤 전체 분석을 시작합니다.
+// sqlEntries는 요청 로그와 함께 올린 MyBatis SQL 로그 파일로, 연결 분석을 켜면 요청 로그만 아래 포맷으로 분석합니다.
+const FormatDetectionPanel = ({ entries, candidates, sampleSize, selectedType, onSelectType, durationUnit, onChangeUnit, onStart, onCancel, sqlEntries = [], correlateSql = false, onToggleCorrelateSql = null }) => {
+  const best = candidates[0];
+  const selected = candidates.find(c => c.logType === selectedType);
+  const showUnit = selectedType !== 'sql_logback' && !selectedType.startsWith('custom:');
+  const totalSize = entries.reduce((acc, e) => acc + (e.end - e.start), 0);
+  const title = entries.length === 1 ? entries[0].path.split('/').pop() : `${entries.length}개 파일`;
+  const isCompressed = entries.some(e => e.encoding !== 'none');
+  const sqlPaths = new Set(sqlEntries.map(e => e.path));
+
+  return (
+    <div className="max-w-3xl mx-auto bg-white rounded-3xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 flex items-center gap-3 bg-slate-50/50">
+        <div className="p-2 bg-blue-100 rounded-lg"><ScanSearch className="text-blue-600" size={18} /></div>
+        <div className="min-w-0">
+          <h3 className="font-bold text-slate-800">로그 포맷 자동 감지</h3>
+          <p className="text-[10px] text-slate-500 font-medium truncate">
+            {title} • {(totalSize / 1024 / 1024).toFixed(1)}MB{isCompressed && ' (압축)'} • 앞부분 {sampleSize.toLocaleString()}줄 샘플 기준
+          </p>
+        </div>
+      </div>
+
+      {entries.length > 1 && (
+        <div className="px-6 pt-4 max-h-40 overflow-y-auto">
+          <table className="w-full text-[11px]">
+            <tbody className="divide-y divide-slate-50">
+              {entries.slice(0, MAX_LISTED_FILES).map(e => (
+                <tr key={e.path}>
+                  <td className="py-1 font-mono text-slate-600 truncate max-w-[320px]" title={e.path}>
+                    {e.path}
+                    {sqlPaths.has(e.path) && <span className="ml-2 px-1.5 rounded bg-violet-100 text-violet-600 text-[9px] font-bold">SQL</span>}
+                    {e.encoding !== 'none' && <span className="ml-2 px-1.5 rounded bg-slate-100 text-slate-400 uppercase text-[9px] font-bold">{e.encoding === 'gzip' ? 'gz' : 'zip'}</span>}
+                  </td>
+                  <td className="py-1 text-cyan-600 font-bold">{e.source}</td>
+                  <td className="py-1 text-right font-mono text-slate-400">{((e.end - e.start) / 1024 / 1024).toFixed(1)}MB</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {entries.length > MAX_LISTED_FILES && (
+            <p className="text-[10px] text-slate-400 pt-1">외 {entries.length - MAX_LISTED_FILES}개 파일</p>
+          )}
+        </div>
+      )}
+
+      {sqlEntries.length > 0 && (
+        <label className="mx-6 mt-4 flex items-start gap-3 px-4 py-3 rounded-2xl border border-violet-100 bg-violet-50/50 cursor-pointer">
+          <input type="checkbox" className="mt-0.5" checked={correlateSql} onChange={(e) => onToggleCorrelateSql(e.target.checked)} />
+          <span className="text-xs text-slate-600">
+            <span className="font-bold text-violet-700 flex items-center gap-1.5"><DatabaseZap size={14} /> SQL 로그 연결 분석</span>
+            MyBatis SQL 로그 {sqlEntries.length}개 파일을 요청 로그와 연결해 느린 요청마다 SQL에 쓴 시간과 실행한 문장을 보여줍니다.
+            요청/트레이스/스레드 ID가 두 로그에 모두 있으면 ID로, 없으면 시간 구간으로 연결합니다. 아래 포맷은 나머지 요청 로그에 적용됩니다.
+          </span>
+        </label>
+      )}
+
+      <div className="p-6 space-y-2">
+        {candidates.map(c => (
+          <button
+            key={c.logType}
+            onClick={() => onSelectType(c.logType)}
+            className={`w-full flex items-center gap-4 px-4 py-3 rounded-2xl border text-left transition-all ${selectedType === c.logType ? 'border-blue-500 bg-blue-50/50 shadow-sm' : 'border-slate-100 hover:border-slate-300'}`}
+          >
+            <span className="w-32 text-sm font-bold text-slate-700 truncate flex items-center gap-2">
+              {c === best && c.matched > 0 && <CheckCircle2 size={14} className="text-emerald-500 shrink-0" />}
+              {c.label}
+            </span>
+            <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+              <div className={`h-full ${confidenceColor(c.confidence)}`} style={{ width: `${Math.round(c.confidence * 100)}%` }} />
+            </div>
+            <span className="w-24 text-right font-mono text-xs text-slate-500">
+              {Math.round(c.confidence * 100)}% ({c.matched})
+            </span>
+          </button>
+        ))}
+
+        {best.matched === 0 && (
+          <p className="flex items-center gap-2 text-red-600 text-xs font-bold pt-2">
+            <AlertTriangle size={14} /> 샘플 라인과 일치하는 포맷이 없습니다. 사용자 정의 포맷을 추가해 보세요.
+          </p>
+        )}
+        {selected && selected.matched > 0 && selected.confidence < LOW_CONFIDENCE && (
+          <p className="flex items-center gap-2 text-amber-600 text-xs font-bold pt-2">
+            <AlertTriangle size={14} /> 선택한 포맷의 매칭률이 낮습니다. 일부 라인만 분석됩니다.
+          </p>
+        )}
+      </div>
+
+      <div className="p-6 border-t border-slate-100 flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        {showUnit ? (
+          <label className="flex items-center gap-3">
+            <span className="text-[10px] text-slate-400 font-black uppercase tracking-widest">Duration Unit</span>
+            <select
+              className="px-2 py-1 border border-slate-200 rounded-lg bg-white text-xs"
+              value={durationUnit || ''} onChange={(e) => onChangeUnit(e.target.value || null)}
+            >
+              {!durationUnit && <option value="">기본값</option>}
+              {DURATION_UNITS.map(u => <option key={u.key} value={u.key}>{u.label}</option>)}
+            </select>
+          </label>
+        ) : <span />}
+        <div className="flex gap-3">
+          <button onClick={onCancel} className="inline-flex items-center gap-2 px-5 py-2.5 rounded-xl font-bold text-slate-500 hover:bg-slate-100 transition-all">
+            <X size={16} /> 취소
+          </button>
+          <button onClick={onStart} className="inline-flex items-center gap-2 bg-slate-900 hover:bg-black text-white px-5 py-2.5 rounded-xl font-bold shadow-md transition-all active:scale-95">
+            <Play size={16} /> 분석 시작
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FormatDetectionPanel;
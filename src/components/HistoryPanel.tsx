@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { History, FolderOpen, Pin, Pencil, Trash2, Check, X, HardDrive, AlertTriangle, Camera } from 'lucide-react';
+import { formatDurationMs, getIntervalLabel } from '../analysisSettings';
+
+const formatMB = (bytes) => `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+
+const RunLabel = ({ run, onRename }) => {
+  const [draft, setDraft] = useState(null);
+  if (draft === null) {
+    return (
+      <div className="flex items-center gap-1 min-w-0">
+        <span className="font-bold text-slate-800 truncate" title={run.label}>{run.label}</span>
+        <button onClick={() => setDraft(run.label)} className="p-1 rounded-lg text-slate-300 hover:text-blue-600 hover:bg-slate-100 transition-all" title="이름 변경">
+          <Pencil size={12} />
+        </button>
+      </div>
+    );
+  }
+  const commit = () => {
+    const label = draft.trim();
+    if (label && label !== run.label) onRename(run.id, label);
+    setDraft(null);
+  };
+  return (
+    <div className="flex items-center gap-1">
+      <input
+        autoFocus
+        className="flex-1 min-w-0 px-2 py-1 border border-slate-200 rounded-lg text-sm font-bold outline-none focus:ring-2 focus:ring-blue-500"
+        value={draft} onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Enter') commit(); if (e.key === 'Escape') setDraft(null); }}
+      />
+      <button onClick={commit} className="p-1 rounded-lg text-emerald-500 hover:bg-slate-100"><Check size={14} /></button>
+      <button onClick={() => setDraft(null)} className="p-1 rounded-lg text-slate-400 hover:bg-slate-100"><X size={14} /></button>
+    </div>
+  );
+};
+
+// 이 브라우저(IndexedDB)에 저장된 지난 분석 목록. 다시 열기, 이름 변경, 삭제, 비교 기준선으로 고정을 지원합니다.
+const HistoryPanel = ({ runs, storageEstimate, error, baselineId, typeLabel, onOpen, onCompare, onRename, onDelete }) => {
+  if (runs.length === 0 && !error) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200 text-left mt-8">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="font-bold text-slate-800 flex items-center gap-2">
+          <History className="text-blue-500" size={18} /> 분석 기록
+          <span className="text-xs font-medium text-slate-400">최근 {runs.length}건 • 이 브라우저에만 저장됩니다</span>
+        </h3>
+        {storageEstimate && storageEstimate.quota > 0 && (
+          <span className="flex items-center gap-1.5 text-[11px] text-slate-400 font-mono" title="브라우저 저장 공간 사용량 (이 사이트 전체)">
+            <HardDrive size={12} /> {formatMB(storageEstimate.usage)} / {formatMB(storageEstimate.quota)}
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <p className="flex items-center gap-2 text-xs text-amber-700 bg-amber-50 px-4 py-2 rounded-xl mb-4">
+          <AlertTriangle size={14} className="shrink-0" /> {error}
+        </p>
+      )}
+
+      <div className="divide-y divide-slate-100">
+        {runs.map(run => (
+          <div key={run.id} className="py-3 flex flex-col sm:flex-row sm:items-center gap-3">
+            <div className="flex-1 min-w-0 space-y-1">
+              <RunLabel run={run} onRename={onRename} />
+              <p className="text-[11px] text-slate-400 truncate">
+                {new Date(run.createdAt).toLocaleString()} • {typeLabel(run.logType)} • {run.files.map(f => `${f.name} (${formatMB(f.size)})`).join(', ')}
+              </p>
+              <p className="text-[11px] text-slate-400 flex items-center gap-2">
+                <span>{run.totalRequests.toLocaleString()}건 • 상세 {run.detailCount.toLocaleString()}건</span>
+                <span>• 지연 기준 {formatDurationMs(run.settings.slowThresholdMs)}, {getIntervalLabel(run.settings.intervalMinutes)}</span>
+                {!run.recordsComplete && (
+                  <span className="inline-flex items-center gap-1 text-amber-600 font-bold" title="전체 레코드가 커서 지연/실패 요청만 저장했습니다. 저장 당시 설정으로만 볼 수 있습니다.">
+                    <Camera size={11} /> 스냅샷
+                  </span>
+                )}
+              </p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <button onClick={() => onOpen(run)} className="inline-flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-bold text-white bg-slate-900 hover:bg-black transition-all active:scale-95">
+                <FolderOpen size={14} /> 열기
+              </button>
+              <button
+                onClick={() => onCompare(run)}
+                disabled={baselineId === run.id}
+                className="inline-flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-bold text-slate-500 border border-slate-200 hover:text-violet-600 hover:border-violet-300 transition-all disabled:opacity-40 disabled:pointer-events-none"
+                title="비교 기준선으로 고정한 뒤 새 로그를 업로드하세요"
+              >
+                <Pin size={14} /> 기준선
+              </button>
+              <button onClick={() => onDelete(run)} className="p-2 rounded-xl text-slate-300 hover:text-red-500 hover:bg-red-50 transition-all" title="삭제">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
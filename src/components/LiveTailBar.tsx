@@ -0,0 +1,92 @@
+import React from 'react';
+import { Radio, Play, Pause, Square, X } from 'lucide-react';
+import { LIVE_WINDOWS, MAX_LIVE_RECORDS } from '../liveTail';
+
+const STATUS_STYLES = {
+  connecting: { label: '연결 중', dot: 'bg-amber-400' },
+  open: { label: '수신 중', dot: 'bg-emerald-500 animate-pulse' },
+  closed: { label: '연결 끊김', dot: 'bg-slate-400' },
+  error: { label: '오류', dot: 'bg-red-500' },
+};
+
+// 실시간 모드: 스트림 주소를 입력해 연결하고, 연결 중에는 수신 현황과 구간/일시정지/중지 버튼을 보여줍니다.
+// 일시정지는 화면만 고정하며 수신과 집계는 계속합니다.
+const LiveTailBar = ({ session, url, onChangeUrl, windowMinutes, onChangeWindow, typeLabel, isFrozenByDrawer, onStart, onTogglePause, onStop, onClose }) => {
+  const isActive = session && !session.stopped;
+  const status = session && (session.stopped ? { label: '중지됨', dot: 'bg-slate-300' } : STATUS_STYLES[session.status]);
+
+  return (
+    <div className="max-w-7xl mx-auto mb-6 bg-white px-5 py-4 rounded-3xl shadow-sm border border-slate-200 space-y-3">
+      <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+        <span className="flex items-center gap-2 text-sm font-black text-slate-700 shrink-0">
+          <Radio size={16} className="text-rose-500" /> 실시간 모드
+        </span>
+        <input
+          type="text"
+          value={url}
+          onChange={(e) => onChangeUrl(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter' && !isActive) onStart(); }}
+          disabled={isActive}
+          placeholder="http://localhost:8787 (SSE) 또는 ws://localhost:8080/logs"
+          className="flex-1 min-w-0 px-3 py-2 border border-slate-200 rounded-xl text-xs font-mono bg-white disabled:bg-slate-50 disabled:text-slate-400"
+        />
+        <select
+          value={windowMinutes}
+          onChange={(e) => onChangeWindow(Number(e.target.value))}
+          className="px-2 py-2 border border-slate-200 rounded-xl bg-white text-xs"
+          title="대시보드에 보여줄 최근 구간"
+        >
+          {LIVE_WINDOWS.map(m => <option key={m} value={m}>최근 {m}분</option>)}
+        </select>
+        <div className="flex gap-2 shrink-0">
+          {isActive ? (
+            <>
+              <button onClick={onTogglePause} className="inline-flex items-center gap-1.5 px-4 py-2 rounded-xl text-xs font-bold border border-slate-200 text-slate-600 hover:bg-slate-50 transition-all">
+                {session.paused ? <><Play size={14} /> 재개</> : <><Pause size={14} /> 일시정지</>}
+              </button>
+              <button onClick={onStop} className="inline-flex items-center gap-1.5 px-4 py-2 rounded-xl text-xs font-bold text-white bg-rose-500 hover:bg-rose-600 transition-all">
+                <Square size={14} /> 중지
+              </button>
+            </>
+          ) : (
+            <button onClick={onStart} disabled={!url.trim()} className="inline-flex items-center gap-1.5 px-4 py-2 rounded-xl text-xs font-bold text-white bg-slate-900 hover:bg-black transition-all disabled:opacity-40">
+              <Play size={14} /> 연결
+            </button>
+          )}
+          {!isActive && (
+            <button onClick={onClose} className="p-2 rounded-xl text-slate-400 hover:bg-slate-100 hover:text-slate-700 transition-all" title="닫기">
+              <X size={16} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {session ? (
+        <div className="flex flex-wrap items-center gap-2 text-[11px] font-bold">
+          <span className="inline-flex items-center gap-1.5 px-2 py-1 rounded-lg bg-slate-50 text-slate-600">
+            <span className={`w-2 h-2 rounded-full ${status.dot}`} /> {status.label}
+          </span>
+          <span className="px-2 py-1 rounded-lg bg-slate-50 text-slate-500">수신 {session.totals.lines.toLocaleString()}줄</span>
+          <span className="px-2 py-1 rounded-lg bg-slate-50 text-slate-500">요청 {session.totals.parsed.toLocaleString()}</span>
+          <span className="px-2 py-1 rounded-lg bg-slate-50 text-slate-500" title={`최근 ${LIVE_WINDOWS[LIVE_WINDOWS.length - 1]}분, 최대 ${MAX_LIVE_RECORDS.toLocaleString()}건까지 보관합니다`}>
+            보관 {session.totals.retained.toLocaleString()}건
+          </span>
+          {session.totals.evicted > 0 && (
+            <span className="px-2 py-1 rounded-lg bg-amber-50 text-amber-700">오래되어 버린 요청 {session.totals.evicted.toLocaleString()}</span>
+          )}
+          {isActive && session.paused && <span className="px-2 py-1 rounded-lg bg-blue-50 text-blue-700">화면 고정됨 • 수신은 계속합니다</span>}
+          {isActive && !session.paused && isFrozenByDrawer && <span className="px-2 py-1 rounded-lg bg-blue-50 text-blue-700">상세 보기를 닫으면 다시 갱신합니다</span>}
+          {isActive && session.totals.lines === 0 && session.status === 'open' && <span className="text-slate-400 font-medium">첫 줄을 기다리는 중...</span>}
+          {session.message && <span className="text-red-600 font-medium">{session.message}</span>}
+        </div>
+      ) : (
+        <p className="text-[11px] text-slate-400">
+          줄 단위 로그를 보내는 SSE/WebSocket 주소에 연결해 현재 선택한 <span className="font-bold text-slate-500">{typeLabel}</span> 포맷으로 해석합니다.
+          로컬 파일은 <code className="font-mono text-slate-500">npm run relay -- /var/log/nginx/access.log</code> 로 중계할 수 있습니다.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default LiveTailBar;
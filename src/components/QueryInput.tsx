@@ -0,0 +1,103 @@
+import React, { useRef, useState } from 'react';
+import { Search, History, AlertCircle } from 'lucide-react';
+import { suggestQueryFields } from '../logQuery';
+
+// 상세 목록 질의 입력창. 필드 이름 자동 완성(↑/↓, Tab), 최근 질의, 조건별 문법 오류 표시를 지원합니다.
+const QueryInput = ({ value, onChange, errors, recentQueries, onCommit }) => {
+  const inputRef = useRef(null);
+  const [isFocused, setIsFocused] = useState(false);
+  const [cursor, setCursor] = useState(0);
+  const [highlight, setHighlight] = useState(0);
+
+  const { prefix, fields } = suggestQueryFields(value, cursor);
+  const showFields = isFocused && fields.length > 0 && value.length > 0;
+  const showRecent = isFocused && !value && recentQueries.length > 0;
+
+  const updateCursor = (e) => setCursor(e.target.selectionStart ?? e.target.value.length);
+
+  const applyField = (key) => {
+    const start = cursor - prefix.length;
+    const next = `${value.slice(0, start)}${key}:${value.slice(cursor)}`;
+    onChange(next);
+    const nextCursor = start + key.length + 1;
+    setCursor(nextCursor);
+    setHighlight(0);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCursor, nextCursor));
+  };
+
+  const handleKeyDown = (e) => {
+    if (showFields && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+      e.preventDefault();
+      setHighlight(h => (h + (e.key === 'ArrowDown' ? 1 : fields.length - 1)) % fields.length);
+    } else if (showFields && e.key === 'Tab') {
+      e.preventDefault();
+      applyField(fields[Math.min(highlight, fields.length - 1)].key);
+    } else if (e.key === 'Enter') {
+      onCommit(value);
+      inputRef.current?.blur();
+    } else if (e.key === 'Escape') {
+      inputRef.current?.blur();
+    }
+  };
+
+  return (
+    <div className="relative w-full">
+      <Search className="absolute left-3 top-[18px] -translate-y-1/2 text-slate-400" size={14} />
+      <input
+        ref={inputRef}
+        type="text" spellCheck={false}
+        placeholder='예: duration>1s status>=500 method:POST ip:10.0.* url~"/api/(order|pay)" time:14:00..14:30'
+        className={`w-full pl-9 pr-4 py-2 bg-white border rounded-xl text-sm font-mono focus:ring-2 focus:ring-blue-500 outline-none transition-all shadow-sm ${errors.length > 0 ? 'border-red-300' : 'border-slate-200'}`}
+        value={value}
+        onChange={(e) => { onChange(e.target.value); updateCursor(e); setHighlight(0); }}
+        onKeyUp={updateCursor} onClick={updateCursor}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setTimeout(() => setIsFocused(false), 150)}
+        onKeyDown={handleKeyDown}
+      />
+
+      {(showFields || showRecent) && (
+        <div className="absolute left-0 right-0 top-full mt-1 bg-white border border-slate-200 rounded-xl shadow-lg z-30 overflow-hidden text-xs">
+          {showFields && fields.map((f, idx) => (
+            <button
+              key={f.key}
+              onMouseDown={(e) => { e.preventDefault(); applyField(f.key); }}
+              className={`w-full px-4 py-2 flex items-center gap-3 text-left ${idx === highlight ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+            >
+              <span className="font-mono font-bold text-blue-700 w-20">{f.key}</span>
+              <span className="text-slate-500 flex-1">{f.description}</span>
+              <span className="font-mono text-slate-400">{f.example}</span>
+            </button>
+          ))}
+          {showRecent && (
+            <>
+              <p className="px-4 pt-2 pb-1 text-[10px] font-black text-slate-400 uppercase tracking-widest">최근 질의</p>
+              {recentQueries.map(q => (
+                <button
+                  key={q}
+                  onMouseDown={(e) => { e.preventDefault(); onChange(q); onCommit(q); }}
+                  className="w-full px-4 py-2 flex items-center gap-2 text-left font-mono text-slate-600 hover:bg-slate-50"
+                >
+                  <History size={12} className="text-slate-300 shrink-0" /> <span className="truncate">{q}</span>
+                </button>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {errors.map(err => (
+            <p key={`${err.start}-${err.message}`} className="flex items-center gap-1.5 text-[11px] text-red-600">
+              <AlertCircle size={12} className="shrink-0" />
+              <span className="font-mono bg-red-50 px-1 rounded">{value.slice(err.start, err.end)}</span> {err.message}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QueryInput;
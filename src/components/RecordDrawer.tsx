@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { X, ScrollText, Loader2, AlertCircle, DatabaseZap } from 'lucide-react';
+import { readDecompressedRange } from '../compressedInput';
+import { getSqlShare, SQL_LINK_MODES } from '../sqlCorrelation';
+import { StatusBadge } from './StatusPanel';
+import { CopySqlButton } from './SqlShapeTable';
+import { SqlShareBar } from './SqlCorrelationPanel';
+
+const MAX_SQL_ROWS = 100;
+
+const formatMs = (sec) => `${(sec * 1000).toLocaleString(undefined, { maximumFractionDigits: 1 })}ms`;
+
+const Field = ({ label, children }) => (
+  <div className="space-y-1">
+    <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest">{label}</p>
+    <div className="font-mono text-xs text-slate-700 break-all">{children}</div>
+  </div>
+);
+
+// 상세 목록에서 고른 요청. 원본 줄은 레코드에 남긴 위치(엔트리, 바이트 오프셋, 길이)로 업로드 파일에서 다시 읽어 옵니다.
+// SQL 로그를 함께 분석했다면 requestSql(이 요청에 연결된 SQL 실행)을 시각 순으로 보여줍니다.
+const RecordDrawer = ({ log, entries, formatDetailTime, onClose, requestSql = null, sqlLinkMode = null }) => {
+  const [rawLine, setRawLine] = useState({ status: 'loading', text: '' });
+
+  useEffect(() => {
+    const entry = log.lineRef && entries?.[log.lineRef.entry];
+    if (!entry) {
+      setRawLine({ status: 'error', text: '원본 파일이 열려 있지 않아 줄을 읽을 수 없습니다. (저장된 분석 기록에는 원본 파일이 포함되지 않습니다)' });
+      return;
+    }
+    let isCurrent = true;
+    setRawLine({ status: 'loading', text: '' });
+    readDecompressedRange(entry, log.lineRef.offset, log.lineRef.length)
+      .then(bytes => { if (isCurrent) setRawLine({ status: 'done', text: new TextDecoder().decode(bytes) }); })
+      .catch(e => { if (isCurrent) setRawLine({ status: 'error', text: `원본 줄을 읽지 못했습니다: ${e.message}` }); });
+    return () => { isCurrent = false; };
+  }, [log, entries]);
+
+  useEffect(() => {
+    const handleKey = (e) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const entry = log.lineRef && entries?.[log.lineRef.entry];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/20" onClick={onClose}>
+      <aside
+        className="absolute right-0 top-0 h-full w-full max-w-xl bg-white shadow-2xl flex flex-col animate-in slide-in-from-right duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-6 border-b border-slate-100 flex items-center justify-between">
+          <div className="min-w-0">
+            <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest">요청 #{log.id.toLocaleString()}</p>
+            <h3 className="text-lg font-black text-slate-800 truncate" title={log.url}>{log.url}</h3>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl text-slate-400 hover:bg-slate-100 hover:text-slate-700 transition-all">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div className="grid grid-cols-2 gap-4">
+            <Field label="Timestamp">{formatDetailTime(log)}</Field>
+            <Field label="Raw Timestamp">{log.rawTimestamp}</Field>
+            <Field label="Duration">{log.responseTime === null ? '-' : `${(log.responseTime * 1000).toLocaleString(undefined, { minimumFractionDigits: 1 })}ms`}</Field>
+            <Field label="Status"><StatusBadge status={log.status} /></Field>
+            <Field label="Method">{log.method}</Field>
+            <Field label="IP / Thread">{log.ip}</Field>
+            <Field label="Source">{log.source}</Field>
+            {log.rawUrl !== log.url && <Field label="Raw URL">{log.rawUrl}</Field>}
+            {log.traceId && <Field label="Request / Trace / Thread ID">{log.traceId}</Field>}
+            {log.bytes !== null && log.bytes !== undefined && <Field label="Bytes">{log.bytes.toLocaleString()}</Field>}
+            {log.referer && <Field label="Referer">{log.referer}</Field>}
+            {log.userAgent && <Field label="User-Agent">{log.userAgent}</Field>}
+          </div>
+
+          {log.statement && (
+            <Field label="SQL">
+              <div className="flex items-start gap-1">
+                <pre className="flex-1 whitespace-pre-wrap text-violet-700 bg-violet-50 p-3 rounded-xl">{log.statement}</pre>
+                <CopySqlButton sql={log.statement} />
+              </div>
+            </Field>
+          )}
+
+          {sqlLinkMode && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <DatabaseZap size={14} className="text-violet-500" />
+                <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest">실행된 SQL</p>
+                <span className="ml-auto text-[10px] text-slate-400" title={SQL_LINK_MODES[sqlLinkMode].description}>{SQL_LINK_MODES[sqlLinkMode].label}</span>
+              </div>
+              {!requestSql ? (
+                <p className="text-xs text-slate-400 bg-slate-50 p-4 rounded-xl">이 요청에 연결된 SQL 실행이 없습니다.</p>
+              ) : (
+                <>
+                  <div className="bg-violet-50/50 rounded-xl px-4 py-3 space-y-1">
+                    <p className="text-xs text-slate-600">
+                      SQL <span className="font-mono font-bold text-violet-700">{requestSql.count.toLocaleString()}건 • {formatMs(requestSql.time)}</span>
+                      {log.responseTime !== null && <> / 요청 {formatMs(log.responseTime)}</>}
+                    </p>
+                    {log.responseTime !== null && <SqlShareBar share={getSqlShare(requestSql, log.responseTime)} />}
+                  </div>
+                  <div className="divide-y divide-slate-100 border border-slate-100 rounded-xl">
+                    {requestSql.statements.slice(0, MAX_SQL_ROWS).map(sql => (
+                      <div key={sql.id} className="px-3 py-2 space-y-0.5">
+                        <div className="flex items-center gap-2 text-[11px]">
+                          <span className="font-mono text-slate-400 shrink-0">{formatDetailTime(sql)}</span>
+                          <span className="font-mono font-bold text-slate-700 truncate" title={sql.url}>{sql.url}</span>
+                          <span className="ml-auto font-mono font-bold text-violet-700 shrink-0">{formatMs(sql.responseTime)}</span>
+                        </div>
+                        {sql.statement && (
+                          <div className="flex items-center gap-1">
+                            <div className="flex-1 text-[10px] text-violet-600 font-mono truncate" title={sql.statement}>{sql.statement}</div>
+                            <CopySqlButton sql={sql.statement} />
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  {requestSql.statements.length > MAX_SQL_ROWS && (
+                    <p className="text-[10px] text-slate-400">외 {(requestSql.statements.length - MAX_SQL_ROWS).toLocaleString()}건</p>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <ScrollText size={14} className="text-slate-400" />
+              <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest">원본 로그</p>
+              {entry && (
+                <span className="ml-auto text-[10px] text-slate-400 font-mono truncate" title={entry.path}>
+                  {entry.path} @ {log.lineRef.offset.toLocaleString()}B
+                </span>
+              )}
+            </div>
+            {rawLine.status === 'loading' && (
+              <div className="flex items-center gap-2 text-xs text-slate-400 bg-slate-50 p-4 rounded-xl">
+                <Loader2 size={14} className="animate-spin" /> 원본 줄을 읽는 중...
+              </div>
+            )}
+            {rawLine.status === 'error' && (
+              <div className="flex items-center gap-2 text-xs text-red-600 bg-red-50 p-4 rounded-xl">
+                <AlertCircle size={14} className="shrink-0" /> {rawLine.text}
+              </div>
+            )}
+            {rawLine.status === 'done' && (
+              <pre className="text-[11px] font-mono text-slate-100 bg-slate-900 p-4 rounded-xl whitespace-pre-wrap break-all">{rawLine.text}</pre>
+            )}
+          </div>
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default RecordDrawer;
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { FileDown, FileCode, Braces, FileText, ClipboardCopy, Check } from 'lucide-react';
+
+const FORMATS = [
+  { key: 'html', label: 'HTML 리포트', description: '차트 포함, 오프라인에서 열리는 파일 하나', icon: <FileCode size={14} /> },
+  { key: 'json', label: 'JSON', description: '전체 summaryStats + 분석 조건', icon: <Braces size={14} /> },
+  { key: 'markdown', label: 'Markdown', description: '티켓에 붙일 요약', icon: <FileText size={14} /> },
+];
+
+// 리포트 내보내기 메뉴. Markdown은 파일 대신 클립보드로 복사할 수도 있습니다.
+const ReportExportMenu = ({ onExport, onCopyMarkdown }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await onCopyMarkdown();
+    setCopied(true);
+    setTimeout(() => { setCopied(false); setIsOpen(false); }, 1200);
+  };
+
+  return (
+    <div className="relative" onBlur={(e) => { if (!e.currentTarget.contains(e.relatedTarget)) setIsOpen(false); }}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="inline-flex items-center gap-2 bg-white border border-slate-200 text-slate-500 px-4 py-2 rounded-xl hover:text-blue-600 hover:border-blue-300 transition-all"
+      >
+        <FileDown size={14}/> 리포트 내보내기
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-72 bg-white border border-slate-200 rounded-xl shadow-lg z-30 overflow-hidden text-xs">
+          {FORMATS.map(f => (
+            <button
+              key={f.key}
+              onClick={() => { onExport(f.key); setIsOpen(false); }}
+              className="w-full px-4 py-2.5 flex items-start gap-3 text-left hover:bg-slate-50"
+            >
+              <span className="text-blue-600 mt-0.5">{f.icon}</span>
+              <span>
+                <span className="block font-bold text-slate-700">{f.label}</span>
+                <span className="block font-medium text-slate-400">{f.description}</span>
+              </span>
+            </button>
+          ))}
+          <button onClick={handleCopy} className="w-full px-4 py-2.5 flex items-center gap-3 text-left border-t border-slate-100 hover:bg-slate-50">
+            <span className="text-slate-400">{copied ? <Check size={14} className="text-emerald-500" /> : <ClipboardCopy size={14} />}</span>
+            <span className="font-bold text-slate-600">{copied ? '복사했습니다' : 'Markdown 클립보드로 복사'}</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportExportMenu;
@@ -0,0 +1,89 @@
+import React, { useMemo, useState } from 'react';
+import { X, Save, FlaskConical, AlertTriangle } from 'lucide-react';
+import { RouteConfig, compileRouteTemplate, createRouteNormalizer } from '../routeTemplates';
+
+// URL 경로 템플릿 편집기 (자동 치환 on/off + Spring 스타일 템플릿 목록 → 샘플 경로 테스트 → 저장)
+const RouteTemplateEditor = ({ config, onSave, onClose }: { config: RouteConfig; onSave: (config: RouteConfig) => void; onClose: () => void }) => {
+  const [autoTemplate, setAutoTemplate] = useState(config.autoTemplate);
+  const [templateText, setTemplateText] = useState(config.templates.join('\n'));
+  const [samplePath, setSamplePath] = useState('');
+
+  const templates = templateText.split('\n').map(t => t.trim()).filter(Boolean);
+
+  const invalidTemplates = useMemo(() => templates.filter(t => {
+    try { compileRouteTemplate(t); return false; } catch (e) { return true; }
+  }), [templateText]);
+
+  const sampleResult = useMemo(() => {
+    if (!samplePath.trim()) return null;
+    return createRouteNormalizer({ autoTemplate, templates })(samplePath.trim().split('?')[0]);
+  }, [samplePath, autoTemplate, templateText]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="text-lg font-black text-slate-800">URL 경로 템플릿</h3>
+          <button onClick={onClose} className="p-2 rounded-xl text-slate-400 hover:bg-slate-100 hover:text-slate-700 transition-all">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 text-sm">
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input type="checkbox" className="mt-1" checked={autoTemplate} onChange={(e) => setAutoTemplate(e.target.checked)} />
+            <span>
+              <span className="font-bold text-slate-700">숫자 ID / UUID / 해시 / 날짜 세그먼트 자동 치환</span>
+              <span className="block text-[11px] text-slate-400 font-mono">/users/123/orders/9f1c… → /users/{'{id}'}/orders/{'{hash}'}</span>
+            </span>
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-[10px] text-slate-400 font-black uppercase tracking-widest">Templates (한 줄에 하나)</span>
+            <textarea
+              rows={6}
+              className="w-full px-3 py-2 border border-slate-200 rounded-xl font-mono text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+              placeholder={'/api/users/{userId}\n/api/orders/{orderNo:[A-Z]{2}\\d+}\n/static/**'}
+              value={templateText} onChange={(e) => setTemplateText(e.target.value)}
+            />
+            <span className="text-[10px] text-slate-400">
+              위에서부터 처음 일치하는 템플릿이 사용되며, 일치하는 템플릿이 없을 때만 자동 치환이 적용됩니다.
+            </span>
+          </label>
+
+          {invalidTemplates.length > 0 && (
+            <p className="flex items-center gap-2 text-red-600 text-xs font-bold">
+              <AlertTriangle size={14} /> 잘못된 템플릿: {invalidTemplates.join(', ')}
+            </p>
+          )}
+
+          <label className="block space-y-1">
+            <span className="text-[10px] text-slate-400 font-black uppercase tracking-widest flex items-center gap-1">
+              <FlaskConical size={12} /> Sample Path Test
+            </span>
+            <input
+              className="w-full px-3 py-2 border border-slate-200 rounded-xl font-mono text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+              placeholder="/api/users/1024/orders" value={samplePath} onChange={(e) => setSamplePath(e.target.value)}
+            />
+          </label>
+          {sampleResult && (
+            <p className="font-mono text-xs bg-slate-50 border border-slate-100 rounded-xl px-3 py-2 text-blue-700 break-all">{sampleResult}</p>
+          )}
+          <p className="text-[11px] text-slate-400">변경 사항은 다음 분석부터 적용됩니다.</p>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex justify-end gap-3">
+          <button onClick={onClose} className="px-5 py-2.5 rounded-xl font-bold text-slate-500 hover:bg-slate-100 transition-all">취소</button>
+          <button
+            onClick={() => onSave({ autoTemplate, templates })} disabled={invalidTemplates.length > 0}
+            className="inline-flex items-center gap-2 bg-slate-900 hover:bg-black text-white px-5 py-2.5 rounded-xl font-bold shadow-md transition-all active:scale-95 disabled:opacity-40 disabled:pointer-events-none"
+          >
+            <Save size={16} /> 저장
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RouteTemplateEditor;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { X, Save, Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { SloDefinition, validateSlo } from '../slo';
+
+// 입력 중에는 숫자 칸을 문자열로 들고 있다가 저장할 때 숫자(빈 칸은 null)로 바꿉니다.
+const toDraft = (slo: SloDefinition) => ({
+  ...slo,
+  latencyMs: slo.latencyMs?.toString() ?? '',
+  latencyTarget: slo.latencyTarget?.toString() ?? '',
+  availabilityTarget: slo.availabilityTarget?.toString() ?? ''
+});
+
+const toNumber = (text: string) => text.trim() === '' ? null : Number(text);
+
+const fromDraft = (draft): SloDefinition => ({
+  id: draft.id,
+  name: draft.name.trim(),
+  pattern: draft.pattern.trim(),
+  latencyMs: toNumber(draft.latencyMs),
+  latencyTarget: toNumber(draft.latencyTarget),
+  availabilityTarget: toNumber(draft.availabilityTarget)
+});
+
+const EMPTY_DRAFT = { name: '', pattern: '', latencyMs: '500', latencyTarget: '99', availabilityTarget: '99.9' };
+
+const inputClass = 'w-full px-3 py-2 border border-slate-200 rounded-xl text-xs focus:ring-2 focus:ring-blue-500 outline-none';
+
+// SLO 목록 편집기 (엔드포인트 패턴별 지연/가용성 목표 → 저장)
+const SloEditor = ({ slos, onSave, onClose }: { slos: SloDefinition[]; onSave: (slos: SloDefinition[]) => void; onClose: () => void }) => {
+  const [drafts, setDrafts] = useState(() => slos.map(toDraft));
+
+  const update = (idx: number, patch) => setDrafts(prev => prev.map((d, i) => i === idx ? { ...d, ...patch } : d));
+  const errors = drafts.map(d => validateSlo(fromDraft(d)));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="text-lg font-black text-slate-800">SLO (서비스 수준 목표)</h3>
+          <button onClick={onClose} className="p-2 rounded-xl text-slate-400 hover:bg-slate-100 hover:text-slate-700 transition-all">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 text-sm">
+          <p className="text-[11px] text-slate-400">
+            패턴은 경로 템플릿을 적용한 뒤의 엔드포인트(또는 MyBatis 매퍼 ID)에 맞춥니다. <span className="font-mono">/api/pay/**</span>, <span className="font-mono">OrderMapper.*</span>처럼 쓰고, 비우면 전체 요청입니다.
+            목표를 비워 두면 그 목표는 계산하지 않습니다.
+          </p>
+
+          {drafts.length === 0 && <p className="text-xs text-slate-400 italic">등록된 SLO가 없습니다.</p>}
+
+          {drafts.map((draft, idx) => (
+            <div key={draft.id} className="border border-slate-200 rounded-2xl p-4 space-y-3">
+              <div className="flex gap-3">
+                <label className="flex-1 space-y-1">
+                  <span className="text-[10px] text-slate-400 font-black uppercase tracking-widest">Name</span>
+                  <input className={inputClass} placeholder="결제 API" value={draft.name} onChange={(e) => update(idx, { name: e.target.value })} />
+                </label>
+                <label className="flex-[2] space-y-1">
+                  <span className="text-[10px] text-slate-400 font-black uppercase tracking-widest">Pattern</span>
+                  <input className={`${inputClass} font-mono`} placeholder="/api/pay/**" value={draft.pattern} onChange={(e) => update(idx, { pattern: e.target.value })} />
+                </label>
+                <button
+                  onClick={() => setDrafts(prev => prev.filter((_, i) => i !== idx))}
+                  className="self-end p-2 rounded-xl text-slate-300 hover:bg-red-50 hover:text-red-500 transition-all"
+                  title="삭제"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+                <span className="font-bold text-amber-600 w-12">지연</span>
+                요청의
+                <input className={`${inputClass} !w-20 font-mono`} inputMode="decimal" placeholder="99" value={draft.latencyTarget} onChange={(e) => update(idx, { latencyTarget: e.target.value })} />
+                %가
+                <input className={`${inputClass} !w-24 font-mono`} inputMode="decimal" placeholder="500" value={draft.latencyMs} onChange={(e) => update(idx, { latencyMs: e.target.value })} />
+                ms 미만
+              </div>
+              <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+                <span className="font-bold text-red-600 w-12">가용성</span>
+                요청의
+                <input className={`${inputClass} !w-20 font-mono`} inputMode="decimal" placeholder="99.9" value={draft.availabilityTarget} onChange={(e) => update(idx, { availabilityTarget: e.target.value })} />
+                %가 5xx가 아님
+              </div>
+              {errors[idx] && (
+                <p className="flex items-center gap-2 text-red-600 text-xs font-bold">
+                  <AlertTriangle size={14} /> {errors[idx]}
+                </p>
+              )}
+            </div>
+          ))}
+
+          <button
+            onClick={() => setDrafts(prev => [...prev, { ...EMPTY_DRAFT, id: Date.now().toString(36) }])}
+            className="inline-flex items-center gap-1.5 px-4 py-2 rounded-xl text-xs font-bold border border-dashed border-slate-300 text-slate-500 hover:text-blue-600 hover:border-blue-300 transition-all"
+          >
+            <Plus size={14} /> SLO 추가
+          </button>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex justify-end gap-3">
+          <button onClick={onClose} className="px-5 py-2.5 rounded-xl font-bold text-slate-500 hover:bg-slate-100 transition-all">취소</button>
+          <button
+            onClick={() => onSave(drafts.map(fromDraft))} disabled={errors.some(Boolean)}
+            className="inline-flex items-center gap-2 bg-slate-900 hover:bg-black text-white px-5 py-2.5 rounded-xl font-bold shadow-md transition-all active:scale-95 disabled:opacity-40 disabled:pointer-events-none"
+          >
+            <Save size={16} /> 저장
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SloEditor;
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { Target, Settings2, CheckCircle2, XCircle, MinusCircle, ZoomIn } from 'lucide-react';
+import { SLO_OBJECTIVES, SLO_STATUS_LABELS, describeObjective, getSloStatus } from '../slo';
+import { formatInstant } from '../timestamps';
+
+const formatPercent = (ratio: number | null, digits = 2) => ratio === null ? '-' : `${(ratio * 100).toFixed(digits)}%`;
+const formatBurn = (rate: number) => `${rate.toFixed(rate >= 10 ? 0 : 1)}x`;
+
+// 목표별 구간 번 레이트(막대)와 누적 예산 사용률(선)을 한 시간 축에 합칩니다.
+const buildChartRows = (objectives) => {
+  const rows = new Map<number, Record<string, number>>();
+  for (const o of objectives) {
+    for (const i of o.intervals) {
+      if (!rows.has(i.time)) rows.set(i.time, { time: i.time });
+      const row = rows.get(i.time);
+      row[`${o.kind}Burn`] = i.burnRate;
+      row[`${o.kind}Budget`] = i.budgetUsed * 100;
+    }
+  }
+  return [...rows.values()].sort((a, b) => a.time - b.time);
+};
+
+const ObjectiveCard = ({ slo, objective }) => {
+  const { label, color } = SLO_OBJECTIVES[objective.kind];
+  const budgetWidth = Math.min(100, objective.budgetUsed * 100);
+  return (
+    <div className="bg-slate-50 rounded-2xl px-4 py-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-[10px] font-black uppercase tracking-widest" style={{ color }}>{label}</span>
+        <span className="text-[11px] text-slate-400">{describeObjective(slo, objective.kind)}</span>
+      </div>
+      <div className="flex items-baseline gap-2">
+        <span className={`text-xl font-black ${objective.status === 'missed' ? 'text-red-600' : 'text-slate-800'}`}>{formatPercent(objective.compliance, 3)}</span>
+        <span className="text-[11px] text-slate-400">목표 {formatPercent(objective.target, 2)} • 나쁜 요청 {objective.bad.toLocaleString()} / {objective.total.toLocaleString()}</span>
+      </div>
+      <div>
+        <div className="flex justify-between text-[10px] font-bold text-slate-500 mb-1">
+          <span>에러 예산 사용</span>
+          <span className={objective.budgetUsed > 1 ? 'text-red-600' : ''}>{formatPercent(objective.budgetUsed, 1)}</span>
+        </div>
+        <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+          <div className={`h-full ${objective.budgetUsed > 1 ? 'bg-red-500' : objective.budgetUsed > 0.75 ? 'bg-amber-500' : 'bg-emerald-500'}`} style={{ width: `${budgetWidth}%` }} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// SLO 준수율: SLO마다 목표별 준수율과 에러 예산 사용률, 선택한 SLO의 구간별 번 레이트 추이와 위반 구간/엔드포인트.
+// 위반 구간을 클릭하면 그 시간 범위로 좁힙니다.
+const SloPanel = ({ results, intervalMinutes, timeZone, onEdit, onSelectRange }) => {
+  const [selectedId, setSelectedId] = useState(null);
+  const selected = results.find(r => r.slo.id === selectedId) || results[0];
+  const intervalMs = intervalMinutes * 60000;
+
+  return (
+    <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-5">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <Target className="text-emerald-600" />
+          SLO 준수율
+          <span className="text-xs font-medium text-slate-400">번 레이트 1x = 기간 끝에 에러 예산을 모두 쓰는 속도</span>
+        </h3>
+        <button onClick={onEdit} className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-xs font-bold border border-slate-200 text-slate-500 hover:bg-slate-50 transition-all">
+          <Settings2 size={14} /> SLO 편집
+        </button>
+      </div>
+
+      {results.length === 0 ? (
+        <p className="text-xs text-slate-400 italic py-2">등록된 SLO가 없습니다. "SLO 편집"에서 엔드포인트별 지연/가용성 목표를 추가하세요.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2 mb-5">
+            {results.map(r => {
+              const status = getSloStatus(r);
+              return (
+                <button
+                  key={r.slo.id}
+                  onClick={() => setSelectedId(r.slo.id)}
+                  className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-xs font-bold border transition-all ${r === selected ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+                  title={`${r.slo.pattern || '전체 요청'} • ${SLO_STATUS_LABELS[status]}`}
+                >
+                  {status === 'met' ? <CheckCircle2 size={14} className="text-emerald-500" />
+                    : status === 'missed' ? <XCircle size={14} className="text-red-500" />
+                      : <MinusCircle size={14} className="text-slate-400" />}
+                  {r.slo.name}
+                </button>
+              );
+            })}
+          </div>
+
+          <p className="text-[11px] text-slate-400 mb-3">
+            <span className="font-mono text-slate-600">{selected.slo.pattern || '전체 요청'}</span> • 대상 요청 {selected.matched.toLocaleString()}건
+          </p>
+
+          {selected.matched === 0 ? (
+            <p className="text-xs text-slate-400 italic py-2">패턴에 맞는 요청이 없습니다. 경로 템플릿을 적용한 뒤의 엔드포인트 이름과 비교해 주세요.</p>
+          ) : (
+            <>
+              <div className={`grid grid-cols-1 ${selected.objectives.length > 1 ? 'md:grid-cols-2' : ''} gap-3 mb-5`}>
+                {selected.objectives.map(o => <ObjectiveCard key={o.kind} slo={selected.slo} objective={o} />)}
+              </div>
+
+              <div className="h-[240px] mb-5">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={buildChartRows(selected.objectives)}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                    <XAxis dataKey="time" tick={{ fontSize: 10 }} minTickGap={40} tickFormatter={(t) => formatInstant(t, timeZone, 'minute')} />
+                    <YAxis yAxisId="burn" tick={{ fontSize: 10 }} tickFormatter={(v) => `${v}x`} />
+                    <YAxis yAxisId="budget" orientation="right" tick={{ fontSize: 10 }} tickFormatter={(v) => `${Math.round(v)}%`} />
+                    <Tooltip
+                      contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)' }}
+                      labelFormatter={(t) => formatInstant(Number(t), timeZone, 'minute')}
+                      formatter={(v: number, name: string) => [name.endsWith('예산') ? `${v.toFixed(1)}%` : formatBurn(v), name]}
+                    />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    <ReferenceLine yAxisId="burn" y={1} stroke="#94a3b8" strokeDasharray="4 4" />
+                    {selected.objectives.map(o => (
+                      <Bar key={`${o.kind}Burn`} yAxisId="burn" dataKey={`${o.kind}Burn`} name={`${SLO_OBJECTIVES[o.kind].label} 번 레이트`} fill={SLO_OBJECTIVES[o.kind].color} fillOpacity={0.6} />
+                    ))}
+                    {selected.objectives.map(o => (
+                      <Line key={`${o.kind}Budget`} yAxisId="budget" type="monotone" dataKey={`${o.kind}Budget`} name={`${SLO_OBJECTIVES[o.kind].label} 누적 예산`} stroke={SLO_OBJECTIVES[o.kind].color} strokeWidth={2} dot={false} connectNulls />
+                    ))}
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div>
+                  <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest mb-2">위반 구간 (번 레이트 1x 초과, 높은 순)</p>
+                  <div className="border border-slate-100 rounded-2xl divide-y divide-slate-50 max-h-[280px] overflow-y-auto">
+                    {selected.objectives.flatMap(o => o.breachedIntervals.map(i => ({ ...i, kind: o.kind })))
+                      .sort((a, b) => b.burnRate - a.burnRate)
+                      .map(i => (
+                        <button
+                          key={`${i.kind}-${i.time}`}
+                          onClick={() => onSelectRange({ from: i.time, to: i.time + intervalMs })}
+                          disabled={!onSelectRange}
+                          className="w-full flex items-center justify-between gap-2 px-4 py-2 text-xs hover:bg-slate-50 group disabled:pointer-events-none"
+                        >
+                          <span className="flex items-center gap-2">
+                            <span className="font-bold text-[10px]" style={{ color: SLO_OBJECTIVES[i.kind].color }}>{SLO_OBJECTIVES[i.kind].label}</span>
+                            <span className="font-mono font-bold text-slate-600 group-hover:text-blue-600">{formatInstant(i.time, timeZone, 'minute')}</span>
+                            {onSelectRange && <ZoomIn size={12} className="opacity-0 group-hover:opacity-100 text-blue-600" />}
+                          </span>
+                          <span className="font-mono text-slate-400">{i.bad.toLocaleString()} / {i.total.toLocaleString()} • <span className="font-bold text-red-600">{formatBurn(i.burnRate)}</span></span>
+                        </button>
+                      ))}
+                    {selected.objectives.every(o => o.breachedIntervals.length === 0) && <p className="px-4 py-3 text-xs text-slate-400 italic">위반 구간이 없습니다.</p>}
+                  </div>
+                </div>
+                <div>
+                  <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest mb-2">목표에 못 미친 엔드포인트</p>
+                  <div className="border border-slate-100 rounded-2xl divide-y divide-slate-50 max-h-[280px] overflow-y-auto">
+                    {selected.objectives.flatMap(o => o.breachedEndpoints.map(e => (
+                      <div key={`${o.kind}-${e.name}`} className="flex items-center justify-between gap-2 px-4 py-2 text-xs">
+                        <span className="flex items-center gap-2 min-w-0">
+                          <span className="font-bold text-[10px] shrink-0" style={{ color: SLO_OBJECTIVES[o.kind].color }}>{SLO_OBJECTIVES[o.kind].label}</span>
+                          <span className="font-bold text-slate-600 truncate" title={e.name}>{e.name}</span>
+                        </span>
+                        <span className="font-mono text-slate-400 shrink-0">{e.bad.toLocaleString()} / {e.total.toLocaleString()} • <span className="font-bold text-red-600">{formatPercent(e.compliance)}</span></span>
+                      </div>
+                    )))}
+                    {selected.objectives.every(o => o.breachedEndpoints.length === 0) && <p className="px-4 py-3 text-xs text-slate-400 italic">모든 엔드포인트가 목표를 지켰습니다.</p>}
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SloPanel;
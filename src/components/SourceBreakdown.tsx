@@ -0,0 +1,56 @@
+import React from 'react';
+import { Network } from 'lucide-react';
+
+const COLUMNS = ['Source', 'Requests', 'Peak', 'Error Rate', 'Avg', 'p50', 'p95', 'p99', 'Max'];
+
+const formatMs = (sec) => `${(sec * 1000).toLocaleString(undefined, { maximumFractionDigits: 1 })}ms`;
+
+// 소스(노드/파일)별 KPI 비교. 지연이 특정 노드에서만 발생했는지 한눈에 확인합니다.
+const SourceBreakdown = ({ stats, colors, rateLabel }) => {
+  const worstP95 = Math.max(...stats.map(s => s.p95));
+
+  return (
+    <div className="bg-white rounded-3xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 flex items-center gap-3 bg-slate-50/50">
+        <div className="p-2 bg-cyan-100 rounded-lg"><Network className="text-cyan-600" size={18} /></div>
+        <div>
+          <h3 className="font-bold text-slate-800">소스별 비교 (Node / File)</h3>
+          <p className="text-[10px] text-slate-500 font-medium">{stats.length}개 소스를 하나의 분석으로 병합했습니다.</p>
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm border-separate border-spacing-0">
+          <thead className="bg-slate-50">
+            <tr className="text-slate-500 font-bold text-xs uppercase tracking-tighter">
+              {COLUMNS.map((col, idx) => (
+                <th key={col} className={`px-4 py-3 border-b border-slate-100 whitespace-nowrap ${idx === 0 ? 'text-left' : 'text-right'}`}>
+                  {col === 'Peak' ? `Peak ${rateLabel}` : col}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {stats.map((s, idx) => (
+              <tr key={s.source} className={s.p95 === worstP95 && stats.length > 1 ? 'bg-rose-50/50' : 'hover:bg-slate-50'}>
+                <td className="px-4 py-2 font-bold text-slate-700">
+                  <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: colors[idx % colors.length] }} />
+                  {s.source}
+                </td>
+                <td className="px-4 py-2 text-right font-mono text-slate-500">{s.totalRequests.toLocaleString()}</td>
+                <td className="px-4 py-2 text-right font-mono text-slate-500">{s.maxTps.toLocaleString()}</td>
+                <td className={`px-4 py-2 text-right font-mono ${s.errorRate > 0 ? 'text-red-600 font-bold' : 'text-slate-400'}`}>{s.errorRate.toFixed(2)}%</td>
+                <td className="px-4 py-2 text-right font-mono text-blue-600">{formatMs(s.avgTime)}</td>
+                <td className="px-4 py-2 text-right font-mono">{formatMs(s.p50)}</td>
+                <td className="px-4 py-2 text-right font-mono text-orange-600">{formatMs(s.p95)}</td>
+                <td className="px-4 py-2 text-right font-mono font-bold text-red-600">{formatMs(s.p99)}</td>
+                <td className="px-4 py-2 text-right font-mono font-bold text-rose-700">{formatMs(s.max)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SourceBreakdown;
@@ -0,0 +1,118 @@
+import React from 'react';
+import { DatabaseZap, Link2 } from 'lucide-react';
+import { SQL_LINK_MODES } from '../sqlCorrelation';
+import { formatDurationMs } from '../analysisSettings';
+
+const formatMs = (sec) => `${(sec * 1000).toLocaleString(undefined, { maximumFractionDigits: 1 })}ms`;
+const formatShare = (share) => `${Math.round(share * 100)}%`;
+
+const formatOffset = (offsetMs) => {
+  const minutes = Math.abs(offsetMs) / 60000;
+  return `${offsetMs > 0 ? '+' : '−'}${Math.floor(minutes / 60)}h${minutes % 60 ? ` ${minutes % 60}m` : ''}`;
+};
+
+// 요청 시간 중 SQL이 차지한 비율 막대
+export const SqlShareBar = ({ share }) => (
+  <div className="flex items-center gap-2">
+    <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+      <div className="h-full bg-violet-500" style={{ width: `${Math.round(share * 100)}%` }} />
+    </div>
+    <span className="w-9 text-right font-mono text-[10px] font-bold text-violet-700">{formatShare(share)}</span>
+  </div>
+);
+
+// 요청 로그와 SQL 로그를 함께 분석한 경우: 느린 요청이 SQL에 쓴 시간과 많이 실행된 매퍼
+const SqlCorrelationPanel = ({ correlation, summary, slowThresholdMs, formatDetailTime, onSelectRequest }) => {
+  const mode = SQL_LINK_MODES[correlation.mode];
+  const maxMapperTime = summary.topMappers[0]?.time || 1;
+
+  return (
+    <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 mb-5">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <DatabaseZap className="text-violet-600" />
+          느린 요청의 SQL 시간
+          <span className="text-xs font-medium text-slate-400">{formatDurationMs(slowThresholdMs)} 이상 요청 기준</span>
+        </h3>
+        <div className="flex flex-wrap items-center gap-2 text-[11px] font-bold">
+          <span className={`inline-flex items-center gap-1 px-2 py-1 rounded-lg ${correlation.mode === 'id' ? 'bg-emerald-50 text-emerald-700' : 'bg-amber-50 text-amber-700'}`} title={mode.description}>
+            <Link2 size={12} /> {mode.label}
+          </span>
+          <span className="px-2 py-1 rounded-lg bg-slate-50 text-slate-500">
+            SQL {correlation.totalSql.toLocaleString()}건 중 {correlation.linkedSql.toLocaleString()}건 연결
+          </span>
+          <span
+            className={`px-2 py-1 rounded-lg ${correlation.offsetMs !== 0 ? 'bg-sky-50 text-sky-700' : 'bg-slate-50 text-slate-500'}`}
+            title={`${correlation.offsetMs !== 0 ? '두 로그의 시간대가 달라 보여 SQL 로그의 시각을 옮겼습니다.' : 'SQL 로그의 시각을 그대로 썼습니다.'} SQL 로그의 초 중 ${formatShare(correlation.offsetOverlap)}가 요청 로그에도 있습니다.`}
+          >
+            {correlation.offsetMs !== 0 ? `SQL 시각 ${formatOffset(correlation.offsetMs)} 보정` : '시각 보정 없음'} · 겹침 {formatShare(correlation.offsetOverlap)}
+          </span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-5">
+        <div className="bg-slate-50 rounded-2xl px-4 py-3">
+          <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest">느린 요청</p>
+          <p className="text-xl font-black text-slate-800">{summary.slowCount.toLocaleString()}</p>
+        </div>
+        <div className="bg-slate-50 rounded-2xl px-4 py-3">
+          <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest">SQL이 연결된 느린 요청</p>
+          <p className="text-xl font-black text-slate-800">{summary.linkedCount.toLocaleString()}</p>
+        </div>
+        <div className="bg-slate-50 rounded-2xl px-4 py-3">
+          <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest">느린 요청 시간 중 SQL</p>
+          <p className="text-xl font-black text-violet-700">{formatShare(summary.sqlShare)}</p>
+        </div>
+      </div>
+
+      {summary.linkedCount === 0 ? (
+        <p className="text-xs text-slate-400 italic py-2">느린 요청에 연결된 SQL이 없습니다. 두 로그의 시간대나 기간이 겹치는지 확인해 주세요.</p>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-5 gap-6">
+          <div className="xl:col-span-3 overflow-x-auto max-h-[420px]">
+            <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest mb-2">SQL 시간이 긴 느린 요청 (클릭하면 실행 SQL)</p>
+            <table className="w-full text-xs border-separate border-spacing-0 table-fixed">
+              <colgroup>
+                <col className="w-36" />
+                <col />
+                <col className="w-20" />
+                <col className="w-36" />
+              </colgroup>
+              <tbody className="divide-y divide-slate-100">
+                {summary.topRequests.map(({ log, link, share }) => (
+                  <tr key={log.id} onClick={() => onSelectRequest(log.id)} className="cursor-pointer hover:bg-blue-50/30 transition-colors">
+                    <td className="py-2 pr-2 font-mono text-[11px] text-slate-500 whitespace-nowrap">{formatDetailTime(log)}</td>
+                    <td className="py-2 pr-2 font-bold text-slate-700 truncate" title={log.url}>{log.url}</td>
+                    <td className="py-2 pr-2 text-right font-mono text-slate-500">{formatMs(log.responseTime)}</td>
+                    <td className="py-2">
+                      <SqlShareBar share={share ?? 0} />
+                      <p className="text-[10px] text-slate-400 font-mono">SQL {formatMs(link.time)} • {link.count.toLocaleString()}건</p>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="xl:col-span-2">
+            <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest mb-2">느린 요청에서 실행된 매퍼 (SQL 시간 합계 순)</p>
+            <div className="space-y-2">
+              {summary.topMappers.map(m => (
+                <div key={m.mapper}>
+                  <div className="flex justify-between gap-2 text-[11px]">
+                    <span className="font-mono font-bold text-slate-600 truncate" title={m.mapper}>{m.mapper}</span>
+                    <span className="font-mono text-slate-400 shrink-0">{m.time.toFixed(2)}s • {m.count.toLocaleString()}회 • 요청 {m.requests.toLocaleString()}</span>
+                  </div>
+                  <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden mt-1">
+                    <div className="h-full bg-violet-400" style={{ width: `${(m.time / maxMapperTime) * 100}%` }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SqlCorrelationPanel;
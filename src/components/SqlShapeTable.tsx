@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { FingerprintPattern, Copy, Check } from 'lucide-react';
+
+const MAX_ROWS = 50;
+
+const formatMs = (sec) => `${(sec * 1000).toLocaleString(undefined, { maximumFractionDigits: 1 })}ms`;
+
+export const CopySqlButton = ({ sql, title = '실행 가능한 SQL 복사 (EXPLAIN용)' }) => {
+  const [copied, setCopied] = useState(false);
+  const handleCopy = async (e) => {
+    e.stopPropagation();
+    await navigator.clipboard.writeText(sql);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+  return (
+    <button onClick={handleCopy} className="p-1.5 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-blue-600 transition-all" title={title}>
+      {copied ? <Check size={14} className="text-emerald-500" /> : <Copy size={14} />}
+    </button>
+  );
+};
+
+// SQL 지문(리터럴 제거) 단위 순위. 누적 소요 시간 순으로 정렬되어 있습니다.
+const SqlShapeTable = ({ stats }) => {
+  const rows = stats.slice(0, MAX_ROWS);
+  const grandTotal = stats.reduce((acc, s) => acc + s.total, 0);
+
+  return (
+    <div className="bg-white rounded-3xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 flex items-center gap-3 bg-slate-50/50">
+        <div className="p-2 bg-violet-100 rounded-lg"><FingerprintPattern className="text-violet-600" size={18} /></div>
+        <div>
+          <h3 className="font-bold text-slate-800">쿼리 형태별 순위 (SQL Fingerprint)</h3>
+          <p className="text-[10px] text-slate-500 font-medium">
+            {stats.length.toLocaleString()}개 형태 중 누적 소요 시간 상위 {rows.length}개 • 복사 버튼은 가장 느렸던 실행의 바인딩 값을 채운 SQL을 복사합니다
+          </p>
+        </div>
+      </div>
+      <div className="overflow-x-auto max-h-[500px]">
+        <table className="w-full text-sm border-separate border-spacing-0">
+          <thead className="bg-slate-50 sticky top-0 shadow-sm z-10">
+            <tr className="text-slate-500 font-bold text-xs uppercase tracking-tighter">
+              <th className="px-4 py-4 border-b border-slate-100 text-left">Query Shape</th>
+              <th className="px-4 py-4 border-b border-slate-100 text-right">Count</th>
+              <th className="px-4 py-4 border-b border-slate-100 text-right">Total</th>
+              <th className="px-4 py-4 border-b border-slate-100 text-right">Avg</th>
+              <th className="px-4 py-4 border-b border-slate-100 text-right">p95</th>
+              <th className="px-4 py-4 border-b border-slate-100 text-right">Max</th>
+              <th className="px-4 py-4 border-b border-slate-100"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 bg-white">
+            {rows.map(row => (
+              <tr key={row.fingerprint} className="hover:bg-blue-50/30 transition-colors align-top">
+                <td className="px-4 py-2 max-w-[560px]">
+                  <div className="font-mono text-[11px] text-slate-700 line-clamp-2 break-all" title={row.fingerprint}>{row.fingerprint}</div>
+                  <div className="text-[10px] text-slate-400 font-mono truncate" title={row.mapperId}>{row.mapperId}</div>
+                </td>
+                <td className="px-4 py-2 text-right font-mono text-slate-500">{row.count.toLocaleString()}</td>
+                <td className="px-4 py-2 text-right font-mono whitespace-nowrap">
+                  {row.total.toFixed(1)}s
+                  <span className="block text-[10px] text-slate-400">{grandTotal > 0 ? ((row.total / grandTotal) * 100).toFixed(1) : 0}%</span>
+                </td>
+                <td className="px-4 py-2 text-right font-mono text-blue-600">{formatMs(row.avgTime)}</td>
+                <td className="px-4 py-2 text-right font-mono text-orange-600">{formatMs(row.p95)}</td>
+                <td className="px-4 py-2 text-right font-mono font-bold text-rose-700">{formatMs(row.max)}</td>
+                <td className="px-2 py-2"><CopySqlButton sql={row.example} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SqlShapeTable;
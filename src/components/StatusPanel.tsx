@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { ShieldAlert } from 'lucide-react';
+import { formatInstant } from '../timestamps';
+
+const CLASS_COLORS = { '2xx': '#10b981', '3xx': '#06b6d4', '4xx': '#f59e0b', '5xx': '#ef4444' };
+
+const codeChipColor = (status) => {
+  if (status >= 500) return 'bg-red-100 text-red-700';
+  if (status >= 400) return 'bg-amber-100 text-amber-700';
+  if (status >= 300) return 'bg-cyan-50 text-cyan-700';
+  return 'bg-emerald-50 text-emerald-700';
+};
+
+export const StatusBadge = ({ status }) => (
+  <span className={`inline-block font-mono font-bold px-1.5 rounded text-[10px] ${codeChipColor(status)}`}>{status}</span>
+);
+
+// 상태 코드 분석: 코드별 건수, 집계 주기별 4xx/5xx 추이(막대 클릭 → 해당 구간 실패 API), 실패 상위 엔드포인트
+const StatusPanel = ({ statusStats, statusTimeline, errorDrilldown, topFailingApis, timeZone }) => {
+  const [selectedTime, setSelectedTime] = useState(null);
+  const drilldown = selectedTime ? errorDrilldown[selectedTime] || [] : [];
+
+  return (
+    <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <ShieldAlert className="text-red-500" />
+          상태 코드 분석 (4xx / 5xx)
+        </h3>
+        <div className="flex flex-wrap gap-1.5">
+          {statusStats.map(s => (
+            <span key={s.status} className={`text-[11px] font-mono font-bold px-2 py-1 rounded-lg ${codeChipColor(s.status)}`}>
+              {s.status} <span className="opacity-60">× {s.count.toLocaleString()}</span>
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="h-[260px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={statusTimeline} onClick={(state) => state?.activeLabel && setSelectedTime(state.activeLabel)}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis dataKey="time" tick={{ fontSize: 10 }} minTickGap={30} tickFormatter={(t) => formatInstant(t, timeZone, 'minute')} />
+            <YAxis tick={{ fontSize: 10 }} />
+            <Tooltip cursor={{ fill: '#fef2f2' }} labelFormatter={(t) => formatInstant(Number(t), timeZone, 'minute')} />
+            <Legend wrapperStyle={{ fontSize: 11 }} />
+            <Bar dataKey="4xx" stackId="err" fill={CLASS_COLORS['4xx']} className="cursor-pointer" />
+            <Bar dataKey="5xx" stackId="err" fill={CLASS_COLORS['5xx']} className="cursor-pointer" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-sm font-bold text-slate-700 mb-3">
+            {selectedTime ? <>구간 <span className="font-mono text-red-600">{formatInstant(selectedTime, timeZone, 'minute')}</span>의 실패 API</> : '막대를 클릭하면 해당 구간의 실패 API를 보여줍니다'}
+          </h4>
+          <div className="border border-slate-100 rounded-2xl divide-y divide-slate-50 max-h-[320px] overflow-y-auto">
+            {drilldown.map(api => (
+              <div key={api.name} className="px-4 py-2 flex items-center justify-between gap-3 text-sm">
+                <span className="font-bold text-slate-700 truncate" title={api.name}>{api.name}</span>
+                <span className="flex gap-1 shrink-0">
+                  {Object.entries(api.codes).map(([code, count]) => (
+                    <span key={code} className={`text-[10px] font-mono font-bold px-1.5 py-0.5 rounded ${codeChipColor(Number(code))}`}>
+                      {code} × {(count as number).toLocaleString()}
+                    </span>
+                  ))}
+                </span>
+              </div>
+            ))}
+            {selectedTime && drilldown.length === 0 && (
+              <p className="px-4 py-6 text-center text-slate-400 text-xs italic">이 구간에는 실패한 요청이 없습니다.</p>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-bold text-slate-700 mb-3">실패 상위 엔드포인트</h4>
+          <div className="border border-slate-100 rounded-2xl overflow-hidden max-h-[320px] overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-slate-500 font-bold text-xs uppercase tracking-tighter">
+                <tr>
+                  <th className="px-4 py-2 text-left">Target</th>
+                  <th className="px-4 py-2 text-right">Errors</th>
+                  <th className="px-4 py-2 text-right">Error Rate</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {topFailingApis.map(api => (
+                  <tr key={api.name}>
+                    <td className="px-4 py-2 font-bold text-slate-700 truncate max-w-[260px]" title={api.name}>{api.name}</td>
+                    <td className="px-4 py-2 text-right font-mono text-slate-500">{api.errorCount.toLocaleString()} / {api.count.toLocaleString()}</td>
+                    <td className={`px-4 py-2 text-right font-mono font-bold ${api.errorRate >= 10 ? 'text-red-600' : 'text-amber-600'}`}>{api.errorRate.toFixed(2)}%</td>
+                  </tr>
+                ))}
+                {topFailingApis.length === 0 && (
+                  <tr><td colSpan={3} className="px-4 py-6 text-center text-slate-400 text-xs italic">실패한 요청이 없습니다.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatusPanel;
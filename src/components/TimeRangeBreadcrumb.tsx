@@ -0,0 +1,34 @@
+import React from 'react';
+import { Crosshair, ChevronRight, RotateCcw } from 'lucide-react';
+import { formatInstant } from '../timestamps';
+
+// 같은 날이면 끝 시각은 시:분:초만 표시합니다. (to는 범위에 포함되지 않는 끝 시각)
+const formatRange = ({ from, to }, timeZone) => {
+  const start = formatInstant(from, timeZone);
+  const end = formatInstant(to, timeZone);
+  return start.slice(0, 10) === end.slice(0, 10) ? `${start} ~ ${end.slice(11)}` : `${start} ~ ${end}`;
+};
+
+// 차트에서 좁혀 들어간 시간 범위의 경로. 앞 단계를 누르면 그 범위로 돌아가고, 초기화하면 전체 기간을 봅니다.
+const TimeRangeBreadcrumb = ({ ranges, timeZone, totalRequests, onSelect, onReset }) => (
+  <div className="bg-blue-50 px-5 py-3 rounded-2xl border border-blue-200 flex flex-wrap items-center gap-2 text-xs">
+    <Crosshair size={14} className="text-blue-600 shrink-0" />
+    <button onClick={onReset} className="font-bold text-blue-700 hover:underline">전체 기간</button>
+    {ranges.map((range, idx) => (
+      <React.Fragment key={`${range.from}-${range.to}`}>
+        <ChevronRight size={12} className="text-blue-300" />
+        {idx === ranges.length - 1 ? (
+          <span className="font-mono font-bold text-slate-800">{formatRange(range, timeZone)}</span>
+        ) : (
+          <button onClick={() => onSelect(idx)} className="font-mono text-blue-700 hover:underline">{formatRange(range, timeZone)}</button>
+        )}
+      </React.Fragment>
+    ))}
+    <span className="text-slate-500 ml-2">• {totalRequests.toLocaleString()}건</span>
+    <button onClick={onReset} className="ml-auto inline-flex items-center gap-1 font-bold text-slate-500 hover:text-blue-700 px-2 py-1 rounded-lg hover:bg-white transition-all">
+      <RotateCcw size={12} /> 범위 초기화
+    </button>
+  </div>
+);
+
+export default TimeRangeBreadcrumb;
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { gzipSync, deflateRawSync } from 'node:zlib';
+import { expandInput, readDecompressedHead, readDecompressedRange } from './compressedInput';
+
+const TEXT = Array.from({ length: 200 }, (_, i) => `line ${i} ${'x'.repeat(i % 17)}`).join('\n') + '\n';
+const bytes = new TextEncoder().encode(TEXT);
+
+// 엔트리마다 로컬 헤더 + 데이터, 이어서 중앙 디렉터리와 EOCD를 붙인 최소한의 zip (CRC는 검사하지 않으므로 0)
+const buildZip = (entries: { name: string; data: Uint8Array<ArrayBuffer>; method: 0 | 8 }[]) => {
+  const parts: BlobPart[] = [];
+  const central: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+  for (const { name, data, method } of entries) {
+    const nameBytes = new TextEncoder().encode(name);
+    const body = method === 8 ? new Uint8Array(deflateRawSync(data)) : data;
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(8, method, true);
+    local.setUint32(18, body.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, nameBytes.length, true);
+    const cd = new DataView(new ArrayBuffer(46));
+    cd.setUint32(0, 0x02014b50, true);
+    cd.setUint16(10, method, true);
+    cd.setUint32(20, body.length, true);
+    cd.setUint32(24, data.length, true);
+    cd.setUint16(28, nameBytes.length, true);
+    cd.setUint32(42, offset, true);
+    parts.push(new Uint8Array(local.buffer), nameBytes, body);
+    central.push(new Uint8Array(cd.buffer), nameBytes);
+    offset += 30 + nameBytes.length + body.length;
+  }
+  const cdSize = central.reduce((acc, p) => acc + p.length, 0);
+  const eocd = new DataView(new ArrayBuffer(22));
+  eocd.setUint32(0, 0x06054b50, true);
+  eocd.setUint16(8, entries.length, true);
+  eocd.setUint16(10, entries.length, true);
+  eocd.setUint32(12, cdSize, true);
+  eocd.setUint32(16, offset, true);
+  return new File([...parts, ...central, new Uint8Array(eocd.buffer)], 'logs.zip');
+};
+
+const readAll = async (item) => (await readDecompressedHead(item, Infinity)).text;
+
+describe('expandInput', () => {
+  it('passes plain text through', async () => {
+    const [item] = await expandInput(new File([bytes], 'app.log'), 'app.log');
+    expect(item.encoding).toBe('none');
+    expect(await readAll(item)).toBe(TEXT);
+  });
+
+  it('detects gzip by magic bytes regardless of the file name', async () => {
+    const [item] = await expandInput(new File([gzipSync(bytes)], 'app.log'), 'app.log');
+    expect(item.encoding).toBe('gzip');
+    expect(await readAll(item)).toBe(TEXT);
+  });
+
+  it('expands zip entries and skips folders and hidden files', async () => {
+    const zip = buildZip([
+      { name: 'web-1/access.log', data: bytes, method: 8 },
+      { name: 'web-1/', data: new Uint8Array(0), method: 0 },
+      { name: '__MACOSX/web-1/._access.log', data: bytes, method: 0 },
+      { name: 'web-2/access.log', data: bytes, method: 0 },
+    ]);
+    const items = await expandInput(zip, 'logs.zip');
+    expect(items.map(i => [i.path, i.encoding])).toEqual([
+      ['logs.zip/web-1/access.log', 'deflate-raw'],
+      ['logs.zip/web-2/access.log', 'stored'],
+    ]);
+    for (const item of items) expect(await readAll(item)).toBe(TEXT);
+  });
+});
+
+describe('readDecompressedRange', () => {
+  it('reads the same decompressed bytes from plain and gzip input', async () => {
+    const [plain] = await expandInput(new File([bytes], 'a.log'), 'a.log');
+    const [gzip] = await expandInput(new File([gzipSync(bytes)], 'a.log.gz'), 'a.log.gz');
+    const offset = TEXT.indexOf('line 150');
+    const expected = TEXT.slice(offset, offset + 'line 150'.length);
+    for (const item of [plain, gzip]) {
+      expect(new TextDecoder().decode(await readDecompressedRange(item, offset, 8))).toBe(expected);
+    }
+  });
+});
@@ -0,0 +1,149 @@
+// --- Compressed Input ---
+// .gz / .zip 로그를 브라우저 내장 DecompressionStream으로 스트리밍 해제합니다.
+// 전체를 메모리에 풀지 않고 압축 바이트를 읽는 만큼만 해제해 라인 분할기로 흘려보냅니다.
+
+// none: 일반 텍스트, gzip: .gz 파일, deflate-raw / stored: zip 엔트리(압축 방식 8 / 0)
+export type Encoding = 'none' | 'gzip' | 'deflate-raw' | 'stored';
+
+// 파일 안에서 실제로 읽어야 하는 (압축된) 데이터 구간
+export type InputItem = { file: File; path: string; encoding: Encoding; start: number; end: number };
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04];
+
+const SIG_EOCD = 0x06054b50;
+const SIG_CENTRAL = 0x02014b50;
+const SIG_LOCAL = 0x04034b50;
+const EOCD_MAX_SEARCH = 22 + 0xffff; // EOCD 고정 길이 + 최대 주석 길이
+
+const readBytes = async (file: Blob, from: number, to: number) => new Uint8Array(await file.slice(from, to).arrayBuffer());
+
+const startsWith = (bytes: Uint8Array, magic: number[]) => magic.every((b, i) => bytes[i] === b);
+
+const utf8 = new TextDecoder();
+
+// 압축 해제 대상이 아닌 zip 엔트리 (폴더, macOS 메타데이터, 숨김 파일)
+const isIgnoredZipEntry = (name: string) => name.endsWith('/') || name.startsWith('__MACOSX/') || name.split('/').pop().startsWith('.');
+
+// 중앙 디렉터리를 읽어 엔트리별 압축 데이터 구간을 계산합니다. (ZIP64와 암호화 엔트리는 지원하지 않습니다)
+const expandZip = async (file: File, path: string): Promise<InputItem[]> => {
+  const tailStart = Math.max(0, file.size - EOCD_MAX_SEARCH);
+  const tail = await readBytes(file, tailStart, file.size);
+  const tailView = new DataView(tail.buffer);
+
+  let eocd = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tailView.getUint32(i, true) === SIG_EOCD) { eocd = i; break; }
+  }
+  if (eocd < 0) throw new Error(`${path}: ZIP 중앙 디렉터리를 찾을 수 없습니다.`);
+
+  const entryCount = tailView.getUint16(eocd + 10, true);
+  const cdSize = tailView.getUint32(eocd + 12, true);
+  const cdOffset = tailView.getUint32(eocd + 16, true);
+  if (entryCount === 0xffff || cdOffset === 0xffffffff) throw new Error(`${path}: ZIP64 아카이브는 지원하지 않습니다.`);
+
+  const cd = await readBytes(file, cdOffset, cdOffset + cdSize);
+  const cdView = new DataView(cd.buffer);
+  const items: InputItem[] = [];
+
+  let p = 0;
+  for (let n = 0; n < entryCount && p + 46 <= cd.length; n++) {
+    if (cdView.getUint32(p, true) !== SIG_CENTRAL) break;
+    const flags = cdView.getUint16(p + 8, true);
+    const method = cdView.getUint16(p + 10, true);
+    const compressedSize = cdView.getUint32(p + 20, true);
+    const nameLen = cdView.getUint16(p + 28, true);
+    const extraLen = cdView.getUint16(p + 30, true);
+    const commentLen = cdView.getUint16(p + 32, true);
+    const localOffset = cdView.getUint32(p + 42, true);
+    const name = utf8.decode(cd.subarray(p + 46, p + 46 + nameLen));
+    p += 46 + nameLen + extraLen + commentLen;
+
+    const encrypted = (flags & 0x1) !== 0;
+    if (isIgnoredZipEntry(name) || encrypted || (method !== 0 && method !== 8)) continue;
+
+    // 로컬 헤더의 파일명/extra 길이는 중앙 디렉터리와 다를 수 있어 직접 읽어야 합니다.
+    const local = await readBytes(file, localOffset, localOffset + 30);
+    const localView = new DataView(local.buffer);
+    if (localView.getUint32(0, true) !== SIG_LOCAL) continue;
+    const dataStart = localOffset + 30 + localView.getUint16(26, true) + localView.getUint16(28, true);
+
+    items.push({
+      file,
+      path: `${path}/${name}`,
+      encoding: method === 8 ? 'deflate-raw' : 'stored',
+      start: dataStart,
+      end: dataStart + compressedSize
+    });
+  }
+  return items;
+};
+
+// 확장자가 아니라 매직 바이트로 압축 여부를 판별하고, zip은 엔트리 단위로 펼칩니다.
+export const expandInput = async (file: File, path: string): Promise<InputItem[]> => {
+  const head = await readBytes(file, 0, 4);
+  if (startsWith(head, ZIP_MAGIC)) return expandZip(file, path);
+  if (startsWith(head, GZIP_MAGIC)) return [{ file, path, encoding: 'gzip', start: 0, end: file.size }];
+  return [{ file, path, encoding: 'none', start: 0, end: file.size }];
+};
+
+// DOM 타입은 DecompressionStream의 입력을 BufferSource로 선언합니다. 여기서는 Uint8Array 조각만 흘려보내므로 그 쌍으로 좁힙니다.
+export const decompressStream = (stream: ReadableStream<Uint8Array>, format: CompressionFormat) =>
+  stream.pipeThrough(new DecompressionStream(format) as ReadableWritablePair<Uint8Array, Uint8Array>);
+
+// 압축 데이터 구간을 해제된 바이트 스트림으로 엽니다. onBytesRead는 지금까지 읽은 "압축" 바이트 수를 받습니다.
+export const openDecompressedStream = (item: Pick<InputItem, 'file' | 'encoding' | 'start' | 'end'>, onBytesRead?: (bytes: number) => void) => {
+  let read = 0;
+  const counter = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      read += chunk.byteLength;
+      onBytesRead?.(read);
+      controller.enqueue(chunk);
+    }
+  });
+  const raw = item.file.slice(item.start, item.end).stream().pipeThrough(counter);
+  if (item.encoding === 'none' || item.encoding === 'stored') return raw;
+  return decompressStream(raw, item.encoding as CompressionFormat);
+};
+
+// 해제된 앞부분 maxBytes만 읽고 스트림을 닫습니다. (포맷 감지 샘플용)
+export const readDecompressedHead = async (item: InputItem, maxBytes: number) => {
+  const reader = openDecompressedStream(item).getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let truncated = false;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value, { stream: true });
+    if (text.length >= maxBytes) {
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+  }
+  return { text, truncated };
+};
+
+// 해제된 바이트 기준 [offset, offset + length) 구간을 읽습니다. (상세 보기의 원본 줄)
+// 압축 엔트리는 임의 위치로 건너뛸 수 없어 앞에서부터 해제하며 버립니다.
+export const readDecompressedRange = async (item: Pick<InputItem, 'file' | 'encoding' | 'start' | 'end'>, offset: number, length: number) => {
+  if (item.encoding === 'none' || item.encoding === 'stored') return readBytes(item.file, item.start + offset, item.start + offset + length);
+  const reader = openDecompressedStream(item).getReader();
+  const out = new Uint8Array(length);
+  let position = 0;
+  let filled = 0;
+  while (filled < length) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const from = Math.max(0, offset - position);
+    const to = Math.min(value.length, offset + length - position);
+    if (from < to) {
+      out.set(value.subarray(from, to), filled);
+      filled += to - from;
+    }
+    position += value.length;
+  }
+  await reader.cancel();
+  return out.subarray(0, filled);
+};
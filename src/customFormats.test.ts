@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { compileCustomFormat, getFormatFields, CustomFormat, CustomFormatError } from './customFormats';
+
+const format = (kind: string, pattern: string, extra: Partial<CustomFormat> = {}): CustomFormat => ({
+  id: 'f1', name: 'test', kind, pattern, fieldOverrides: {}, durationUnit: null, ...extra
+});
+
+describe('compileCustomFormat', () => {
+  it('parses an nginx log_format directive with request_time and headers', () => {
+    const { parse } = compileCustomFormat(format('nginx', `log_format main '$remote_addr - $remote_user [$time_local] "$request" '
+                      '$status $body_bytes_sent "$http_referer" "$http_user_agent" $request_time $request_id';`));
+    const parsed = parse('10.0.0.7 - - [10/Oct/2026:10:00:01 +0900] "POST /api/pay?debug=1 HTTP/1.1" 201 512 "https://shop.example/" "curl/8.0" 0.250 req-42');
+    expect(parsed).toEqual({
+      ip: '10.0.0.7', rawTimestamp: '10/Oct/2026:10:00:01 +0900', method: 'POST', url: '/api/pay', status: 201, bytes: 512,
+      responseTime: 0.25, traceId: 'req-42', referer: 'https://shop.example/', userAgent: 'curl/8.0'
+    });
+  });
+
+  it('parses Tomcat AccessLogValve %D in milliseconds and %T in seconds', () => {
+    const line = '10.0.0.1 - - [10/Oct/2026:10:00:01 +0900] "GET /api/items HTTP/1.1" 200 64 35';
+    expect(compileCustomFormat(format('tomcat', '%h %l %u %t "%r" %s %b %D')).parse(line).responseTime).toBe(0.035);
+    expect(compileCustomFormat(format('tomcat', '%h %l %u %t "%r" %s %b %T')).parse(line).responseTime).toBe(35);
+    expect(compileCustomFormat(format('tomcat', '%h %l %u %t "%r" %s %b %{ms}T')).parse(line).responseTime).toBe(0.035);
+  });
+
+  it('expands the Tomcat combined alias', () => {
+    const { parse } = compileCustomFormat(format('tomcat', 'combined'));
+    const parsed = parse('10.0.0.1 - - [10/Oct/2026:10:00:01 +0900] "GET / HTTP/1.1" 404 - "-" "Mozilla/5.0 (X11)"');
+    expect(parsed).toMatchObject({ status: 404, userAgent: 'Mozilla/5.0 (X11)', referer: null, responseTime: null });
+  });
+
+  it('parses logback placeholders and MDC keys', () => {
+    const { parse } = compileCustomFormat(format('logback', '%d{yyyy-MM-dd HH:mm:ss.SSS} %-5level %logger{36} - %X{traceId} {method} {url} {status} {duration}ms%n'));
+    const parsed = parse('2026-10-10 10:00:01.123 INFO  c.e.AccessFilter - abc123 GET /api/orders/7 200 48ms');
+    expect(parsed).toMatchObject({ rawTimestamp: '2026-10-10 10:00:01.123', traceId: 'abc123', method: 'GET', url: '/api/orders/7', status: 200 });
+    expect(parsed.responseTime).toBe(0.048);
+  });
+
+  it('applies field overrides and an explicit duration unit', () => {
+    const pattern = '$remote_addr [$time_local] "$request" $status $upstream_connect_time';
+    const [, , , , connect] = getFormatFields({ kind: 'nginx', pattern, fieldOverrides: {} });
+    expect(connect.semantic).toBe('ignore');
+    const { parse } = compileCustomFormat(format('nginx', pattern, { fieldOverrides: { 4: 'duration' }, durationUnit: 'ms' }));
+    expect(parse('10.0.0.1 [10/Oct/2026:10:00:01 +0900] "GET / HTTP/1.1" 200 12').responseTime).toBe(0.012);
+  });
+
+  it('converts durations without rounding below the logged value', () => {
+    const { parse } = compileCustomFormat(format('tomcat', '%h %l %u %t "%r" %s %b %D'));
+    expect(parse('10.0.0.1 - - [10/Oct/2026:10:00:01 +0900] "GET / HTTP/1.1" 200 64 700').responseTime).toBe(0.7);
+    const micros = compileCustomFormat(format('tomcat', '%h %l %u %t "%r" %s %b %D', { durationUnit: 'us' }));
+    expect(micros.parse('10.0.0.1 - - [10/Oct/2026:10:00:01 +0900] "GET / HTTP/1.1" 200 64 10000').responseTime).toBe(0.01);
+  });
+
+  it('rejects timestamp formats without a date', () => {
+    const logbackDefault = format('logback', '%d{HH:mm:ss.SSS} [%thread] %-5level %logger{36} - %msg%n');
+    expect(() => compileCustomFormat(logbackDefault)).toThrow(CustomFormatError);
+    expect(() => compileCustomFormat(logbackDefault)).toThrow('HH:mm:ss.SSS');
+    expect(() => compileCustomFormat(format('tomcat', '%h %{end:HH:mm:ss}t "%r" %s %D'))).toThrow(CustomFormatError);
+    expect(() => compileCustomFormat(format('logback', '%d{ISO8601} %-5level - {url} {duration}ms'))).not.toThrow();
+    expect(() => compileCustomFormat(format('tomcat', "%h %{yyyy-MM-dd'T'HH:mm:ss.SSSZ}t \"%r\" %s %D"))).not.toThrow();
+  });
+
+  it('returns null for lines that do not match', () => {
+    expect(compileCustomFormat(format('tomcat', 'common')).parse('not an access log')).toBeNull();
+  });
+});
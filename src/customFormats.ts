@@ -0,0 +1,330 @@
+// --- Custom Log Formats ---
+// nginx `log_format`, Tomcat AccessLogValve pattern, logback pattern 문자열을 정규식 파서로 컴파일합니다.
+// 각 필드는 의미 컬럼(ip, timestamp, method, url, status, bytes, duration, traceId, referer, userAgent)에 매핑되며,
+// 어느 패턴에서든 `{url}`, `{duration}` 같은 자리표시자로 직접 필드를 지정할 수 있습니다.
+
+export const SEMANTIC_FIELDS = [
+  { key: 'ignore', label: '(무시)' },
+  { key: 'ip', label: 'IP' },
+  { key: 'timestamp', label: 'Timestamp' },
+  { key: 'method', label: 'Method' },
+  { key: 'url', label: 'URL / Mapper' },
+  { key: 'request', label: 'Request Line (Method + URL)' },
+  { key: 'status', label: 'Status' },
+  { key: 'bytes', label: 'Bytes' },
+  { key: 'duration', label: 'Duration' },
+  { key: 'traceId', label: 'Request / Trace / Thread ID' },
+  { key: 'referer', label: 'Referer' },
+  { key: 'userAgent', label: 'User-Agent' },
+];
+
+// perSec: 1초에 해당하는 값. 곱하지 않고 나눠서 700ms가 0.7초와 정확히 같아지도록 합니다. (700 * 0.001은 0.7보다 큽니다)
+export const DURATION_UNITS = [
+  { key: 's', label: '초 (s)', perSec: 1 },
+  { key: 'ms', label: '밀리초 (ms)', perSec: 1000 },
+  { key: 'us', label: '마이크로초 (µs)', perSec: 1000000 },
+];
+
+export class CustomFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CustomFormatError';
+  }
+}
+
+export const FORMAT_KINDS = [
+  { key: 'nginx', label: 'Nginx log_format', placeholder: `$remote_addr - $remote_user [$time_local] "$request" $status $body_bytes_sent "$http_referer" "$http_user_agent" $request_time` },
+  { key: 'tomcat', label: 'Tomcat AccessLogValve', placeholder: '%h %l %u %t "%r" %s %b %D' },
+  { key: 'logback', label: 'Logback Pattern', placeholder: '[%d{yyyy-MM-dd HH:mm:ss}] [%thread] %-5level %logger - [SQL_END] [{url}] [{duration}ms]' },
+];
+
+export type CustomFormat = {
+  id: string;
+  name: string;
+  kind: string;
+  pattern: string;
+  fieldOverrides: Record<number, string>;
+  durationUnit: string | null;
+};
+
+type FieldToken = { type: 'field'; token: string; semantic: string; unit?: string; greedy?: boolean };
+type LiteralToken = { type: 'literal'; text: string };
+type Token = FieldToken | LiteralToken;
+
+const NGINX_FIELDS: Record<string, { semantic: string; unit?: string }> = {
+  remote_addr: { semantic: 'ip' },
+  http_x_forwarded_for: { semantic: 'ip' },
+  http_x_real_ip: { semantic: 'ip' },
+  time_local: { semantic: 'timestamp' },
+  time_iso8601: { semantic: 'timestamp' },
+  request: { semantic: 'request' },
+  request_method: { semantic: 'method' },
+  request_uri: { semantic: 'url' },
+  uri: { semantic: 'url' },
+  document_uri: { semantic: 'url' },
+  status: { semantic: 'status' },
+  body_bytes_sent: { semantic: 'bytes' },
+  bytes_sent: { semantic: 'bytes' },
+  request_time: { semantic: 'duration', unit: 's' },
+  upstream_response_time: { semantic: 'duration', unit: 's' },
+  request_id: { semantic: 'traceId' },
+  http_x_request_id: { semantic: 'traceId' },
+  http_x_trace_id: { semantic: 'traceId' },
+  http_x_b3_traceid: { semantic: 'traceId' },
+  http_x_correlation_id: { semantic: 'traceId' },
+  http_referer: { semantic: 'referer' },
+  http_user_agent: { semantic: 'userAgent' },
+};
+
+const TOMCAT_FIELDS: Record<string, { semantic: string; unit?: string }> = {
+  a: { semantic: 'ip' },
+  h: { semantic: 'ip' },
+  t: { semantic: 'timestamp' },
+  r: { semantic: 'request' },
+  m: { semantic: 'method' },
+  U: { semantic: 'url' },
+  s: { semantic: 'status' },
+  '>s': { semantic: 'status' },
+  b: { semantic: 'bytes' },
+  B: { semantic: 'bytes' },
+  D: { semantic: 'duration', unit: 'ms' },
+  T: { semantic: 'duration', unit: 's' },
+  F: { semantic: 'duration', unit: 'ms' },
+  I: { semantic: 'traceId' }, // 요청을 처리한 스레드 이름
+};
+
+// %{X-Request-Id}i 처럼 요청 ID를 담는 헤더
+const TRACE_HEADER = /request-?id|trace-?id|correlation-?id/i;
+
+// %{Referer}i, %{User-Agent}i
+const TOMCAT_HEADERS: Record<string, string> = { referer: 'referer', 'user-agent': 'userAgent' };
+
+const TOMCAT_ALIASES = {
+  common: '%h %l %u %t "%r" %s %b',
+  combined: '%h %l %u %t "%r" %s %b "%{Referer}i" "%{User-Agent}i"',
+};
+
+const LOGBACK_FIELDS: Record<string, { semantic: string; unit?: string; greedy?: boolean }> = {
+  d: { semantic: 'timestamp' },
+  date: { semantic: 'timestamp' },
+  m: { semantic: 'ignore', greedy: true },
+  msg: { semantic: 'ignore', greedy: true },
+  message: { semantic: 'ignore', greedy: true },
+  t: { semantic: 'traceId' },
+  thread: { semantic: 'traceId' },
+};
+
+// MDC 키 이름으로 의미 컬럼을 추정합니다. (%X{clientIp} → ip)
+const guessMdcSemantic = (key: string) => {
+  const k = key.toLowerCase();
+  if (/trace|span|request_?id|correlation/.test(k)) return { semantic: 'traceId' };
+  if (/agent/.test(k)) return { semantic: 'userAgent' };
+  if (/refer/.test(k)) return { semantic: 'referer' };
+  if (/ip|addr/.test(k)) return { semantic: 'ip' };
+  if (/method/.test(k)) return { semantic: 'method' };
+  if (/ur[il]|path|mapper|statement/.test(k)) return { semantic: 'url' };
+  if (/status/.test(k)) return { semantic: 'status' };
+  if (/bytes|size/.test(k)) return { semantic: 'bytes' };
+  if (/elapsed|duration|took|latency|time/.test(k)) return { semantic: 'duration', unit: 'ms' };
+  return { semantic: 'ignore' };
+};
+
+const PLACEHOLDER_UNITS = { duration: 'ms' };
+
+// `log_format main '...' '...';` 처럼 설정 블록째 붙여넣은 경우 따옴표 안의 패턴만 추출
+const unwrapNginxDirective = (pattern: string) => {
+  if (!/^\s*log_format\s+\S+/.test(pattern)) return pattern;
+  const parts = [...pattern.matchAll(/'([^']*)'|"([^"]*)"/g)].map(m => m[1] ?? m[2]);
+  return parts.length > 0 ? parts.join('') : pattern;
+};
+
+const pushLiteral = (tokens: Token[], text: string) => {
+  if (!text) return;
+  const last = tokens[tokens.length - 1];
+  if (last && last.type === 'literal') last.text += text;
+  else tokens.push({ type: 'literal', text });
+};
+
+const pushField = (tokens: Token[], token: string, def: { semantic: string; unit?: string; greedy?: boolean }) => {
+  tokens.push({ type: 'field', token, ...def });
+};
+
+const tokenize = (kind: string, rawPattern: string): Token[] => {
+  const tokens: Token[] = [];
+  let pattern = rawPattern.trim();
+  if (kind === 'nginx') pattern = unwrapNginxDirective(pattern);
+  if (kind === 'tomcat') pattern = TOMCAT_ALIASES[pattern] || pattern.replace(/&quot;/g, '"');
+
+  let i = 0;
+  while (i < pattern.length) {
+    const rest = pattern.slice(i);
+    const placeholder = rest.match(/^\{(ip|timestamp|method|url|request|status|bytes|duration|traceId|referer|userAgent)\}/);
+    if (placeholder) {
+      pushField(tokens, placeholder[0], { semantic: placeholder[1], unit: PLACEHOLDER_UNITS[placeholder[1]] });
+      i += placeholder[0].length;
+      continue;
+    }
+
+    if (kind === 'nginx') {
+      const m = rest.match(/^\$\{?([a-zA-Z0-9_]+)\}?/);
+      if (m) {
+        pushField(tokens, m[0], NGINX_FIELDS[m[1]] || { semantic: 'ignore' });
+        i += m[0].length;
+        continue;
+      }
+    } else if (kind === 'tomcat') {
+      const m = rest.match(/^%(?:\{([^}]*)\}([a-zA-Z])|(>s|[a-zA-Z]))/);
+      if (m) {
+        if (m[2] === 't' || m[3] === 't') {
+          // %t는 대괄호까지 포함해 출력됩니다. (%{format}t는 포맷 문자열 그대로)
+          if (m[3]) pushLiteral(tokens, '[');
+          pushField(tokens, m[0], { semantic: 'timestamp' });
+          if (m[3]) pushLiteral(tokens, ']');
+        } else if (m[2]) {
+          const def = m[2] === 'T' ? { semantic: 'duration', unit: m[1] === 'ms' ? 'ms' : m[1] === 'us' ? 'us' : 's' }
+            : m[2] === 'i' && TRACE_HEADER.test(m[1]) ? { semantic: 'traceId' }
+            : m[2] === 'i' && TOMCAT_HEADERS[m[1].toLowerCase()] ? { semantic: TOMCAT_HEADERS[m[1].toLowerCase()] }
+            : { semantic: 'ignore' };
+          pushField(tokens, m[0], def);
+        } else {
+          pushField(tokens, m[0], TOMCAT_FIELDS[m[3]] || { semantic: 'ignore' });
+        }
+        i += m[0].length;
+        continue;
+      }
+    } else if (kind === 'logback') {
+      if (rest.startsWith('%n')) { i += 2; continue; }
+      if (rest.startsWith('%%')) { pushLiteral(tokens, '%'); i += 2; continue; }
+      const m = rest.match(/^%-?[\d.]*([a-zA-Z]+)(?:\{([^}]*)\})?/);
+      if (m) {
+        const def = m[1] === 'X' ? guessMdcSemantic(m[2] || '') : LOGBACK_FIELDS[m[1]] || { semantic: 'ignore' };
+        pushField(tokens, m[0], def);
+        i += m[0].length;
+        continue;
+      }
+    }
+
+    pushLiteral(tokens, pattern[i]);
+    i++;
+  }
+  return tokens;
+};
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const TIMESTAMP_FRAGMENT = [
+  '\\d{4}-\\d{2}-\\d{2}[T ]\\d{2}:\\d{2}:\\d{2}(?:[.,]\\d+)?(?:Z|[+-]\\d{2}:?\\d{2})?',
+  '\\d{2}\\/[A-Za-z]{3}\\/\\d{4}:\\d{2}:\\d{2}:\\d{2}(?:\\s[+-]\\d{4})?',
+].join('|');
+
+// 날짜와 시각이 모두 있는 두 형태만 해석합니다. logback 기본 패턴의 %d{HH:mm:ss.SSS}처럼 날짜가 없으면
+// 모든 줄이 해석되지 않으므로 포맷을 만들 때 막습니다.
+const SUPPORTED_TIME_FORMAT = /^(?:yyyy-MM-dd[ T]HH:mm:ss|dd\/MMM\/yyyy:HH:mm:ss|ISO8601$)/;
+
+const checkTimestampFormat = (token: string) => {
+  const option = token.startsWith('%') ? token.match(/\{([^}]*)\}/) : null;
+  if (!option) return;
+  const format = option[1].split(',')[0].replace(/^(?:begin|end):/, '').replace(/'/g, '').trim();
+  if (!format || SUPPORTED_TIME_FORMAT.test(format)) return;
+  throw new CustomFormatError(`지원하지 않는 시각 포맷입니다: ${format} (날짜가 포함된 yyyy-MM-dd HH:mm:ss 또는 dd/MMM/yyyy:HH:mm:ss 형태로 바꿔 주세요)`);
+};
+
+const fieldFragment = (field: FieldToken, next: Token | undefined) => {
+  if (field.semantic === 'timestamp') return `(${TIMESTAMP_FRAGMENT})`;
+  if (!next) return '(.*)';
+  if (field.greedy) return '(.*?)';
+  const nextChar = next.type === 'literal' ? next.text[0] : ' ';
+  if (/\s/.test(nextChar)) return '(\\S+)';
+  return `([^${escapeRegex(nextChar)}]*)`;
+};
+
+const toNumber = (raw: string) => {
+  const n = parseFloat(raw);
+  return Number.isFinite(n) ? n : null;
+};
+
+export const getFormatFields = (format: Pick<CustomFormat, 'kind' | 'pattern' | 'fieldOverrides'>) => {
+  const fields = tokenize(format.kind, format.pattern).filter((t): t is FieldToken => t.type === 'field');
+  return fields.map((f, idx) => ({ ...f, semantic: format.fieldOverrides?.[idx] || f.semantic }));
+};
+
+// 포맷에서 자동 감지된 Duration 단위 (명시적으로 지정된 값이 없을 때의 기본값)
+export const getDefaultDurationUnit = (format: Pick<CustomFormat, 'kind' | 'pattern' | 'fieldOverrides'>) => {
+  const durationField = getFormatFields(format).find(f => f.semantic === 'duration');
+  return durationField?.unit || 'ms';
+};
+
+export const compileCustomFormat = (format: CustomFormat) => {
+  const tokens = tokenize(format.kind, format.pattern);
+  const semantics: string[] = [];
+  let fieldIdx = 0;
+  let source = format.kind === 'logback' ? '' : '^';
+
+  tokens.forEach((token, i) => {
+    if (token.type === 'literal') {
+      source += token.text.split(/(\s+)/).map(part => (/^\s+$/.test(part) ? '\\s+' : escapeRegex(part))).join('');
+    } else {
+      const semantic = format.fieldOverrides?.[fieldIdx] || token.semantic;
+      if (semantic === 'timestamp') checkTimestampFormat(token.token);
+      semantics.push(semantic);
+      source += fieldFragment(token, tokens[i + 1]);
+      fieldIdx++;
+    }
+  });
+
+  const regex = new RegExp(source);
+  const unit = DURATION_UNITS.find(u => u.key === (format.durationUnit || getDefaultDurationUnit(format))) || DURATION_UNITS[1];
+
+  const parse = (line: string) => {
+    const match = line.match(regex);
+    if (!match) return null;
+
+    const values: Record<string, string> = {};
+    semantics.forEach((semantic, idx) => {
+      const value = match[idx + 1];
+      if (semantic !== 'ignore' && value !== undefined && values[semantic] === undefined) values[semantic] = value;
+    });
+
+    let method = values.method;
+    let url = values.url;
+    if (values.request !== undefined) {
+      const [reqMethod, reqUrl] = values.request.split(/\s+/);
+      method = method ?? reqMethod;
+      url = url ?? reqUrl;
+    }
+
+    const duration = values.duration !== undefined ? toNumber(values.duration) : null;
+    const status = values.status !== undefined ? parseInt(values.status) : 200;
+    return {
+      ip: values.ip ?? "System",
+      rawTimestamp: values.timestamp ?? "Unknown",
+      method: method ?? "-",
+      url: (url ?? "-").split('?')[0],
+      status: Number.isFinite(status) ? status : 200,
+      bytes: values.bytes !== undefined ? toNumber(values.bytes) : null,
+      responseTime: duration !== null ? duration / unit.perSec : null,
+      traceId: values.traceId && values.traceId !== '-' ? values.traceId : null,
+      referer: values.referer && values.referer !== '-' ? values.referer : null,
+      userAgent: values.userAgent && values.userAgent !== '-' ? values.userAgent : null
+    };
+  };
+
+  return { regex, parse };
+};
+
+// --- Local Persistence ---
+const STORAGE_KEY = 'logAnalyzer.customFormats';
+
+export const loadCustomFormats = (): CustomFormat[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) { return []; }
+};
+
+export const saveCustomFormats = (formats: CustomFormat[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(formats));
+};
+
+export const CUSTOM_TYPE_PREFIX = 'custom:';
+export const isCustomType = (logType: string) => logType.startsWith(CUSTOM_TYPE_PREFIX);
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { selectDetailRows, topSlowRecords, DetailRequest } from './detailRows';
+import { buildRecordStore, BASE_TIME, MINUTE } from './testRecords';
+
+// 1분 간격으로 한 건씩
+const buildStore = () => buildRecordStore([
+  { url: '/b', status: 200, responseTime: 2.0, source: 'api-1' },
+  { url: '/a', status: 500, responseTime: 0.01, source: 'api-2' },
+  { url: '/c', status: 200, responseTime: 0.01, source: 'api-1' },
+  { url: '/a', status: 404, responseTime: null, source: 'api-1' },
+  { url: '/c', status: 200, responseTime: 1.5, source: 'api-2' },
+  { url: '/b', status: 503, responseTime: 3.0, source: 'api-1' },
+].map((record, i) => ({ ...record, at: i * MINUTE })));
+
+const REQUEST: DetailRequest = {
+  slowThresholdMs: 1000, range: null, detailFilter: 'all', sourceFilter: '', query: '', timeZone: 'UTC',
+  sortKey: 'responseTime', sortDirection: 'desc'
+};
+
+const select = (overrides: Partial<DetailRequest> = {}) => Array.from(selectDetailRows(buildStore(), { ...REQUEST, ...overrides }));
+
+describe('selectDetailRows', () => {
+  it('keeps slow or failed requests and puts rows without a value last', () => {
+    expect(select()).toEqual([5, 0, 4, 1, 3]);
+    expect(select({ sortDirection: 'asc' })).toEqual([1, 4, 0, 5, 3]);
+  });
+
+  it('applies the filter, source, range and query together', () => {
+    expect(select({ detailFilter: 'error' })).toEqual([5, 1, 3]);
+    expect(select({ detailFilter: 'slow', sourceFilter: 'api-1' })).toEqual([5, 0]);
+    expect(select({ range: { from: BASE_TIME + MINUTE, to: BASE_TIME + 4 * MINUTE } })).toEqual([1, 3]);
+    expect(select({ query: 'status:5xx' })).toEqual([5, 1]);
+    expect(select({ sourceFilter: 'missing' })).toEqual([]);
+  });
+
+  it('sorts urls by name and keeps the original order for ties', () => {
+    expect(select({ sortKey: 'url', sortDirection: 'asc' })).toEqual([1, 3, 0, 5, 4]);
+    expect(select({ sortKey: 'timestamp', sortDirection: 'desc' })).toEqual([5, 4, 3, 1, 0]);
+  });
+
+  it('lists a request that took exactly the slow threshold', () => {
+    const store = buildRecordStore([{ responseTime: 1.005 }, { responseTime: 1.004 }]);
+    expect(Array.from(selectDetailRows(store, { ...REQUEST, slowThresholdMs: 1005, detailFilter: 'slow' }))).toEqual([0]);
+  });
+});
+
+describe('topSlowRecords', () => {
+  it('returns the slowest requests in descending order', () => {
+    expect(topSlowRecords(buildStore(), 3).map(r => r.id)).toEqual([6, 1, 5]);
+    expect(topSlowRecords(buildStore(), 2, { from: BASE_TIME + MINUTE, to: BASE_TIME + 6 * MINUTE }).map(r => r.id)).toEqual([6, 5]);
+  });
+});
@@ -0,0 +1,84 @@
+import { RecordStore, TimeRange, isDetailRecord, isInRange, getRecordTime, readRecord } from './recordStore';
+import { parseLogQuery } from './logQuery';
+
+// --- Detail Rows ---
+// 상세 목록(지연/실패 요청)을 필터·질의·정렬해 레코드 순번 배열로 돌려줍니다.
+// 수십만 행도 멈추지 않도록 detailsWorker에서 실행하며, 화면에는 보이는 행만 readRecord로 꺼내 그립니다.
+
+export type DetailSortKey = 'responseTime' | 'timestamp' | 'url';
+
+export type DetailRequest = {
+  slowThresholdMs: number;
+  range: TimeRange | null;
+  detailFilter: 'all' | 'slow' | 'error';
+  sourceFilter: string;
+  query: string;
+  timeZone: string;
+  sortKey: DetailSortKey;
+  sortDirection: 'asc' | 'desc';
+};
+
+// 문자열 정렬은 사전 항목의 순위로 바꿔 숫자로 비교합니다.
+const dictionaryRanks = (dictionary: string[]) => {
+  const order = dictionary.map((_, id) => id).sort((a, b) => dictionary[a].localeCompare(dictionary[b]));
+  const ranks = new Float64Array(dictionary.length);
+  order.forEach((id, rank) => { ranks[id] = rank; });
+  return ranks;
+};
+
+const sortKeyOf = (store: RecordStore, key: DetailSortKey): (i: number) => number => {
+  if (key === 'timestamp') return (i) => getRecordTime(store, i);
+  if (key === 'url') {
+    const ranks = dictionaryRanks(store.dictionaries.url);
+    return (i) => store.columns.url[i] < 0 ? NaN : ranks[store.columns.url[i]];
+  }
+  return (i) => store.responseTime[i];
+};
+
+export const selectDetailRows = (store: RecordStore, request: DetailRequest) => {
+  const slowThreshold = request.slowThresholdMs / 1000;
+  const query = parseLogQuery(request.query, request.timeZone);
+  const sourceId = request.sourceFilter ? store.dictionaries.source.indexOf(request.sourceFilter) : -1;
+  if (request.sourceFilter && sourceId < 0) return new Int32Array(0);
+
+  const ids: number[] = [];
+  for (let i = 0; i < store.length; i++) {
+    if (!isDetailRecord(store, i, slowThreshold)) continue;
+    if (request.detailFilter === 'error' && store.status[i] < 400) continue;
+    if (request.detailFilter === 'slow' && !(store.responseTime[i] >= slowThreshold)) continue;
+    if (request.range && !isInRange(getRecordTime(store, i), request.range)) continue;
+    if (sourceId >= 0 && store.columns.source[i] !== sourceId) continue;
+    if (!query.isEmpty && !query.predicate(readRecord(store, i))) continue;
+    ids.push(i);
+  }
+
+  // 값이 없는 행(NaN)은 방향과 관계없이 맨 뒤로, 같은 값은 원래 순서대로
+  const keyOf = sortKeyOf(store, request.sortKey);
+  const keys = new Float64Array(store.length);
+  for (const i of ids) keys[i] = keyOf(i);
+  const sign = request.sortDirection === 'asc' ? 1 : -1;
+  ids.sort((a, b) => {
+    const ka = keys[a];
+    const kb = keys[b];
+    const aMissing = Number.isNaN(ka);
+    const bMissing = Number.isNaN(kb);
+    if (aMissing || bMissing) return aMissing === bMissing ? a - b : aMissing ? 1 : -1;
+    return ka === kb ? a - b : (ka - kb) * sign;
+  });
+  return Int32Array.from(ids);
+};
+
+// 응답 시간이 가장 긴 요청 n건 (리포트용). 전체를 정렬하지 않고 상위 n개만 유지합니다.
+export const topSlowRecords = (store: RecordStore, n: number, range: TimeRange | null = null) => {
+  const top: number[] = [];
+  for (let i = 0; i < store.length; i++) {
+    const rt = store.responseTime[i];
+    if (Number.isNaN(rt) || (top.length === n && rt <= store.responseTime[top[n - 1]])) continue;
+    if (range && !isInRange(getRecordTime(store, i), range)) continue;
+    let at = top.length;
+    while (at > 0 && store.responseTime[top[at - 1]] < rt) at--;
+    top.splice(at, 0, i);
+    if (top.length > n) top.pop();
+  }
+  return top.map(i => readRecord(store, i));
+};
@@ -0,0 +1,36 @@
+import { RecordStore } from './recordStore';
+import { DetailRequest } from './detailRows';
+
+// --- Details Worker Client ---
+// 메인 스레드 쪽 detailsWorker 래퍼. 요청마다 Promise를 돌려주며, 워커는 요청을 받은 순서대로 처리합니다.
+// 레코드 저장소는 load로 넘기며, 실시간 모드처럼 저장소가 자주 바뀌면 같은 워커에 다시 넘깁니다.
+
+export const createDetailsClient = () => {
+  const worker = new Worker(new URL('./detailsWorker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, { resolve: (ids: Int32Array) => void; reject: (err: Error) => void }>();
+  let nextRequestId = 0;
+
+  worker.onmessage = (event: MessageEvent) => {
+    const msg = event.data;
+    const request = pending.get(msg.requestId);
+    if (!request) return;
+    pending.delete(msg.requestId);
+    if (msg.type === 'rows') request.resolve(msg.ids);
+    else request.reject(new Error(msg.message));
+  };
+  worker.onerror = (event: ErrorEvent) => {
+    for (const request of pending.values()) request.reject(new Error(event.message || 'Worker failed'));
+    pending.clear();
+  };
+
+  // 저장소는 설정 변경 시 메인 스레드에서도 다시 집계하므로 넘기지(transfer) 않고 복사합니다.
+  const load = (records: RecordStore) => worker.postMessage({ type: 'load', records });
+
+  const select = (request: DetailRequest) => new Promise<Int32Array>((resolve, reject) => {
+    const requestId = ++nextRequestId;
+    pending.set(requestId, { resolve, reject });
+    worker.postMessage({ type: 'select', requestId, request });
+  });
+
+  return { load, select, terminate: () => worker.terminate() };
+};
@@ -0,0 +1,21 @@
+import { selectDetailRows } from './detailRows';
+import { RecordStore } from './recordStore';
+
+// --- Details Worker ---
+// 분석이 끝나면 레코드 저장소 사본을 한 번 받아 두고, 필터/질의/정렬이 바뀔 때마다 행 순번만 계산해 돌려줍니다.
+
+let records: RecordStore | null = null;
+
+self.onmessage = (event: MessageEvent) => {
+  const msg = event.data;
+  if (msg.type === 'load') {
+    records = msg.records;
+  } else if (msg.type === 'select') {
+    try {
+      const ids = records ? selectDetailRows(records, msg.request) : new Int32Array(0);
+      self.postMessage({ type: 'rows', requestId: msg.requestId, ids }, { transfer: [ids.buffer] });
+    } catch (e) {
+      self.postMessage({ type: 'error', requestId: msg.requestId, message: e.message });
+    }
+  }
+};
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeEndpoint, getTimestampMark } from './endpointDrilldown';
+import { buildRecordStore, BASE_TIME, MINUTE, TEST_SETTINGS } from './testRecords';
+
+const A = { name: '/a', column: 'url' as const };
+
+const buildStore = () => buildRecordStore([
+  { at: 10000, url: '/a', ip: '10.0.0.1', responseTime: 2 },
+  { at: 11000, url: '/a', ip: '10.0.0.2', responseTime: 2 },
+  { at: 70000, url: '/b', ip: '10.0.0.1', responseTime: 1 },
+  { at: 130000, url: '/a', ip: '10.0.0.1', status: 500, responseTime: 0.5 },
+]);
+
+describe('analyzeEndpoint', () => {
+  const store = buildStore();
+  const result = analyzeEndpoint(store, A, TEST_SETTINGS, null, 'end');
+
+  it('summarizes requests, errors, callers and the slowest requests', () => {
+    expect(result).toMatchObject({ name: '/a', requests: 3, share: 0.75, avgTime: 1.5 });
+    expect(result.errorRate).toBeCloseTo(100 / 3);
+    expect(result.statusStats).toEqual([{ status: 200, count: 2 }, { status: 500, count: 1 }]);
+    expect(result.topCallers.map(c => [c.ip, c.requests, c.errorRate, c.avgTime])).toEqual([['10.0.0.1', 2, 50, 1.25], ['10.0.0.2', 1, 0, 2]]);
+    expect(result.slowest).toEqual([0, 1, 3]);
+    expect(result.histogram.reduce((acc, b) => acc + b.count, 0)).toBe(3);
+  });
+
+  it('keeps quiet intervals on the time axis', () => {
+    expect(result.timeline.map(row => [row.time - BASE_TIME, row.requests, row.errors, row.peakTps])).toEqual([
+      [0, 2, 0, 1],
+      [60000, 0, 0, 0],
+      [120000, 1, 1, 1],
+    ]);
+    expect(result.timeline[1].p95).toBeUndefined();
+  });
+
+  it('estimates concurrency from overlapping request spans', () => {
+    // /a 두 요청은 8~10초, 9~11초에 처리되어 1초 겹칩니다.
+    expect(result.peakConcurrency).toBe(2);
+    expect(result.timeline[0].concurrency).toBeCloseTo(4 / 60);
+    expect(result.timeline[1].overallConcurrency).toBeCloseTo(1 / 60);
+    expect(result.timeline[1].concurrency).toBe(0);
+  });
+
+  it('treats touching spans as sequential', () => {
+    const store = buildRecordStore([1000, 2000, 3000].map(at => ({ at, url: '/a', responseTime: 1 })));
+    expect(analyzeEndpoint(store, A, TEST_SETTINGS, null, 'start').peakConcurrency).toBe(1);
+  });
+
+  it('only looks at requests inside the range', () => {
+    const ranged = analyzeEndpoint(store, A, TEST_SETTINGS, { from: BASE_TIME + 2 * MINUTE, to: BASE_TIME + 3 * MINUTE }, 'end');
+    expect(ranged).toMatchObject({ requests: 1, share: 1, errorRate: 100 });
+    expect(ranged.timeline).toHaveLength(1);
+  });
+
+  it('puts durations on a custom bucket edge into the bucket that starts there', () => {
+    const edges = buildRecordStore([0.499, 0.5, 1.999, 2].map(responseTime => ({ url: '/a', responseTime })));
+    const { histogram } = analyzeEndpoint(edges, A, { ...TEST_SETTINGS, bucketEdgesMs: [500, 2000] }, null, 'end');
+    expect(histogram.map(b => [b.min, b.max, b.count])).toEqual([[0, 0.5, 1], [0.5, 2, 2], [2, Infinity, 1]]);
+  });
+
+  it('returns null for an unknown endpoint', () => {
+    expect(analyzeEndpoint(store, { name: '/missing', column: 'url' }, TEST_SETTINGS, null, 'end')).toBeNull();
+  });
+});
+
+describe('getTimestampMark', () => {
+  it('reads Tomcat timestamps as the request start', () => {
+    expect(getTimestampMark('tomcat')).toBe('start');
+    expect(getTimestampMark('nginx')).toBe('end');
+  });
+});
@@ -0,0 +1,219 @@
+import { RecordStore, isInRange, TimeRange, fillIntervals } from './recordStore';
+import { AnalysisSettings, buildBucketConfig, getBucketIndex } from './analysisSettings';
+import { createSketch, addToSketch, summarizeSketch, QuantileSketch } from './quantileSketch';
+import { floorToInterval } from './timestamps';
+
+// --- Endpoint Drill-down ---
+// 엔드포인트(또는 매퍼 ID) 하나의 TPS 추이, 응답 시간 분포, 구간별 백분위, 상태 코드, 호출 IP, 가장 느린 요청을 모읍니다.
+// 동시 요청 수는 타임스탬프와 응답 시간으로 각 요청이 처리 중이던 시간대를 되짚어 추정합니다.
+// 구간 평균은 구간 안의 처리 시간 합 / 구간 길이(리틀의 법칙), 최고값은 구간 안에서 겹친 요청 수의 최댓값입니다.
+// 로그 타임스탬프가 초 단위면 최고값은 대략적인 값이며, 스레드/커넥션 풀 크기와 나란히 보는 용도입니다.
+
+export type EndpointColumn = 'url' | 'rawUrl';
+export type EndpointRef = { name: string; column: EndpointColumn };
+
+// 타임스탬프가 요청의 시작인지 끝인지. nginx와 애플리케이션 로그는 응답을 마친 뒤 기록하고,
+// Tomcat AccessLogValve의 %t는 기본값이 요청을 받은 시각입니다.
+export type TimestampMark = 'start' | 'end';
+const TIMESTAMP_MARKS: Record<string, TimestampMark> = { tomcat: 'start' };
+export const getTimestampMark = (logType: string): TimestampMark => TIMESTAMP_MARKS[logType] || 'end';
+
+const TOP_CALLERS = 10;
+const SLOWEST_REQUESTS = 20;
+const MIN_CORRELATION_POINTS = 3;
+
+// 요청마다 [시작, 끝](epoch ms)을 쌓아 두는 버퍼
+const createSpans = (capacity: number) => ({ starts: new Float64Array(capacity), ends: new Float64Array(capacity), count: 0 });
+
+const addSpan = (spans: ReturnType<typeof createSpans>, timestamp: number, durationSec: number, mark: TimestampMark) => {
+  const ms = durationSec * 1000;
+  if (!(ms > 0)) return; // 0ms 요청은 동시성에 보탤 것이 없습니다.
+  spans.starts[spans.count] = mark === 'start' ? timestamp : timestamp - ms;
+  spans.ends[spans.count] = mark === 'start' ? timestamp + ms : timestamp;
+  spans.count++;
+};
+
+// 시작/끝 시각을 각각 정렬해 한 번 훑으며 구간별 처리 시간 합과 최고 동시 요청 수를 구합니다.
+// 같은 시각이면 끝나는 요청을 먼저 빼서 맞닿은 요청을 겹친 것으로 세지 않습니다.
+const sweepConcurrency = (spans: ReturnType<typeof createSpans>, intervals: number[], intervalMs: number) => {
+  const starts = spans.starts.subarray(0, spans.count).sort();
+  const ends = spans.ends.subarray(0, spans.count).sort();
+  const busy = new Float64Array(intervals.length);
+  const peak = new Float64Array(intervals.length);
+  let k = 0;
+  let inFlight = 0;
+
+  // [from, to) 동안 inFlight개가 처리 중이었음을 겹치는 구간에 나눠 더합니다.
+  const accumulate = (from: number, to: number) => {
+    while (k < intervals.length && intervals[k] + intervalMs <= from) k++;
+    for (let j = k; j < intervals.length && intervals[j] < to; j++) {
+      const overlap = Math.min(to, intervals[j] + intervalMs) - Math.max(from, intervals[j]);
+      if (overlap <= 0) continue;
+      busy[j] += inFlight * overlap;
+      if (inFlight > peak[j]) peak[j] = inFlight;
+    }
+  };
+
+  let s = 0;
+  let e = 0;
+  let cursor = 0;
+  while (e < spans.count) {
+    const isStart = s < spans.count && starts[s] < ends[e];
+    const t = isStart ? starts[s] : ends[e];
+    if (inFlight > 0) accumulate(cursor, t);
+    cursor = t;
+    if (isStart) { inFlight++; s++; } else { inFlight--; e++; }
+  }
+  return { average: Array.from(busy, b => b / intervalMs), peak: Array.from(peak) };
+};
+
+// 두 시계열의 피어슨 상관계수. 점이 적거나 한쪽이 평평하면 null
+const correlate = (xs: number[], ys: number[]) => {
+  const n = xs.length;
+  if (n < MIN_CORRELATION_POINTS) return null;
+  const meanX = xs.reduce((acc, v) => acc + v, 0) / n;
+  const meanY = ys.reduce((acc, v) => acc + v, 0) / n;
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (xs[i] - meanX) * (ys[i] - meanY);
+    varX += (xs[i] - meanX) ** 2;
+    varY += (ys[i] - meanY) ** 2;
+  }
+  return varX > 0 && varY > 0 ? cov / Math.sqrt(varX * varY) : null;
+};
+
+type Caller = { requests: number; errors: number; totalTime: number; timed: number };
+
+// 레코드를 한 번 훑어 엔드포인트의 지표와 전체 요청의 동시성을 함께 계산합니다. 엔드포인트가 없으면 null
+// range가 있으면 그 시간 범위 안의 요청만 봅니다.
+export const analyzeEndpoint = (store: RecordStore, endpoint: EndpointRef, settings: AnalysisSettings, range: TimeRange | null, mark: TimestampMark) => {
+  const column = store.columns[endpoint.column];
+  const targetId = column ? store.dictionaries[endpoint.column].indexOf(endpoint.name) : -1;
+  if (targetId < 0) return null;
+
+  const bucketConfig = buildBucketConfig(settings.bucketEdgesMs);
+  const intervalMs = settings.intervalMinutes * 60000;
+  const intervalKeys = store.timeValues.map(t => Number.isNaN(t) ? NaN : floorToInterval(t, intervalMs, settings.timeZone));
+  const seenTimes = new Uint8Array(store.timeValues.length);
+
+  const histogram = new Array(bucketConfig.length).fill(0);
+  const sketch = createSketch();
+  const intervalSketches = new Map<number, QuantileSketch>();
+  const intervalCounts = new Map<number, { requests: number; errors: number }>();
+  const secondCounts = new Map<number, number>();
+  const statusCounts = new Map<number, number>();
+  const callers = new Map<number, Caller>();
+  let matches = 0;
+  for (let i = 0; i < store.length; i++) if (column[i] === targetId) matches++;
+  const allSpans = createSpans(store.length);
+  const endpointSpans = createSpans(matches);
+  const slowest: { index: number; responseTime: number }[] = [];
+  let totalInRange = 0;
+  let requests = 0;
+  let errors = 0;
+  let totalTime = 0;
+
+  for (let i = 0; i < store.length; i++) {
+    const timeId = store.columns.time[i];
+    if (range && !(timeId >= 0 && isInRange(store.timeValues[timeId], range))) continue;
+    totalInRange++;
+    const timestamp = timeId < 0 ? NaN : store.timeValues[timeId];
+    const key = timeId < 0 ? NaN : intervalKeys[timeId];
+    const rt = store.responseTime[i];
+    const hasTime = !Number.isNaN(rt);
+    if (!Number.isNaN(key)) seenTimes[timeId] = 1;
+    if (hasTime && !Number.isNaN(timestamp)) addSpan(allSpans, timestamp, rt, mark);
+    if (column[i] !== targetId) continue;
+
+    requests++;
+    const status = store.status[i];
+    const isError = status >= 400;
+    if (isError) errors++;
+    statusCounts.set(status, (statusCounts.get(status) || 0) + 1);
+
+    const ipId = store.columns.ip[i];
+    if (ipId >= 0) {
+      let caller = callers.get(ipId);
+      if (!caller) callers.set(ipId, caller = { requests: 0, errors: 0, totalTime: 0, timed: 0 });
+      caller.requests++;
+      if (isError) caller.errors++;
+      if (hasTime) { caller.totalTime += rt; caller.timed++; }
+    }
+
+    if (!Number.isNaN(key)) {
+      const counts = intervalCounts.get(key) || intervalCounts.set(key, { requests: 0, errors: 0 }).get(key);
+      counts.requests++;
+      if (isError) counts.errors++;
+      const second = Math.floor(timestamp / 1000);
+      secondCounts.set(second, (secondCounts.get(second) || 0) + 1);
+    }
+
+    if (hasTime) {
+      totalTime += rt;
+      histogram[getBucketIndex(bucketConfig, rt)]++;
+      addToSketch(sketch, rt);
+      if (!Number.isNaN(key)) addToSketch(intervalSketches.get(key) || intervalSketches.set(key, createSketch()).get(key), rt);
+      if (!Number.isNaN(timestamp)) addSpan(endpointSpans, timestamp, rt, mark);
+      if (slowest.length < SLOWEST_REQUESTS || rt > slowest[slowest.length - 1].responseTime) {
+        slowest.push({ index: i, responseTime: rt });
+        slowest.sort((a, b) => b.responseTime - a.responseTime);
+        if (slowest.length > SLOWEST_REQUESTS) slowest.pop();
+      }
+    }
+  }
+
+  // 엔드포인트가 조용했던 구간도 보이도록 시간 축은 범위 안의 전체 요청 기준으로 잡습니다.
+  const intervals = fillIntervals([...new Set(intervalKeys.filter((_, id) => seenTimes[id]))], intervalMs, settings.timeZone);
+  const overall = sweepConcurrency(allSpans, intervals, intervalMs);
+  const own = sweepConcurrency(endpointSpans, intervals, intervalMs);
+  const peakTpsByInterval = new Map<number, number>();
+  for (const [second, n] of secondCounts) {
+    const key = floorToInterval(second * 1000, intervalMs, settings.timeZone);
+    if (n > (peakTpsByInterval.get(key) || 0)) peakTpsByInterval.set(key, n);
+  }
+
+  // 응답 시간이 있는 구간만 p50/p95/p99/max가 붙습니다.
+  const timeline = intervals.map((time, k): Record<string, number> => {
+    const counts = intervalCounts.get(time);
+    const intervalSketch = intervalSketches.get(time);
+    return {
+      time,
+      requests: counts?.requests || 0,
+      errors: counts?.errors || 0,
+      avgTps: (counts?.requests || 0) / (intervalMs / 1000),
+      peakTps: peakTpsByInterval.get(time) || 0,
+      ...(intervalSketch ? summarizeSketch(intervalSketch) : {}),
+      concurrency: own.average[k],
+      peakConcurrency: own.peak[k],
+      overallConcurrency: overall.average[k],
+      overallPeakConcurrency: overall.peak[k]
+    };
+  });
+
+  // 엔드포인트 p95가 전체 동시 요청 수와 함께 오르내리면 풀 포화를 의심해 볼 수 있습니다.
+  const withLatency = timeline.filter(row => row.p95 !== undefined);
+
+  return {
+    ...endpoint,
+    requests,
+    share: totalInRange > 0 ? requests / totalInRange : 0,
+    errorRate: requests > 0 ? (errors / requests) * 100 : 0,
+    avgTime: sketch.count > 0 ? totalTime / sketch.count : null,
+    latency: sketch.count > 0 ? summarizeSketch(sketch) : null,
+    histogram: bucketConfig.map((b, idx) => ({ ...b, count: histogram[idx] })),
+    timeline,
+    statusStats: [...statusCounts.entries()].sort((a, b) => a[0] - b[0]).map(([status, count]) => ({ status, count })),
+    topCallers: [...callers.entries()]
+      .sort((a, b) => b[1].requests - a[1].requests)
+      .slice(0, TOP_CALLERS)
+      .map(([ipId, c]) => ({ ip: store.dictionaries.ip[ipId], requests: c.requests, errorRate: (c.errors / c.requests) * 100, avgTime: c.timed > 0 ? c.totalTime / c.timed : null })),
+    slowest: slowest.map(s => s.index),
+    peakConcurrency: own.peak.reduce((max, n) => Math.max(max, n), 0),
+    overallPeakConcurrency: overall.peak.reduce((max, n) => Math.max(max, n), 0),
+    saturationCorrelation: correlate(withLatency.map(row => row.p95), withLatency.map(row => row.overallConcurrency))
+  };
+};
+
+export type EndpointDrilldown = ReturnType<typeof analyzeEndpoint>;
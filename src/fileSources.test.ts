@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { toUploadEntries, stripRotationSuffix, isLogFileName } from './fileSources';
+
+const textFile = (path: string) => ({ file: new File(['line\n'], path.split('/').pop()), path });
+
+describe('stripRotationSuffix', () => {
+  it('groups rotated and compressed files under one name', () => {
+    expect(stripRotationSuffix('access.log.1')).toBe('access.log');
+    expect(stripRotationSuffix('access.log.2.gz')).toBe('access.log');
+    expect(stripRotationSuffix('app.2026-10-01.log')).toBe('app.log');
+    expect(stripRotationSuffix('catalina.out')).toBe('catalina.out');
+  });
+});
+
+describe('isLogFileName', () => {
+  it('accepts log files and archives and skips hidden files', () => {
+    expect(isLogFileName('app.log.3')).toBe(true);
+    expect(isLogFileName('logs.zip')).toBe(true);
+    expect(isLogFileName('.DS_Store')).toBe(false);
+    expect(isLogFileName('readme.md')).toBe(false);
+  });
+});
+
+describe('toUploadEntries', () => {
+  it('tags entries by folder when files come from several hosts', async () => {
+    const entries = await toUploadEntries([textFile('logs/web-2/access.log'), textFile('logs/web-1/access.log.1'), textFile('logs/web-1/access.log')]);
+    expect(entries.map(e => [e.path, e.source])).toEqual([
+      ['logs/web-1/access.log', 'web-1'],
+      ['logs/web-1/access.log.1', 'web-1'],
+      ['logs/web-2/access.log', 'web-2'],
+    ]);
+  });
+
+  it('tags entries by file name without rotation suffix in a single folder', async () => {
+    const entries = await toUploadEntries([textFile('access.log.10'), textFile('access.log.2'), textFile('error.log')]);
+    expect(entries.map(e => [e.path, e.source])).toEqual([
+      ['access.log.2', 'access.log'],
+      ['access.log.10', 'access.log'],
+      ['error.log', 'error.log'],
+    ]);
+  });
+});
@@ -0,0 +1,76 @@
+import { expandInput, InputItem } from './compressedInput';
+
+// --- Upload Sources ---
+// 여러 파일/폴더 업로드를 분석 단위({ file, path, source, 데이터 구간 })로 정리합니다.
+// source는 노드(호스트)별 비교에 쓰이는 태그로, 로테이션된 파일은 같은 source로 묶입니다.
+// .zip은 엔트리마다 하나의 분석 단위가 됩니다.
+
+export type UploadEntry = InputItem & { source: string };
+
+// 폴더에서 수집할 로그 파일 (catalina.out, app.log, app.log.1, app.2026-10-01.log, access.log.1.gz, logs.zip ...)
+const LOG_FILE_PATTERN = /\.(log|txt|out)([.\-_].*)?$|\.(gz|zip)$/i;
+
+export const isLogFileName = (fileName: string) => !fileName.startsWith('.') && LOG_FILE_PATTERN.test(fileName);
+
+// 로테이션 접미사(날짜, .1, .2 ...)와 압축 확장자를 제거해 같은 로그의 회차들을 하나의 이름으로 묶습니다.
+export const stripRotationSuffix = (fileName: string) => fileName
+  .replace(/\.(gz|zip)$/i, '')
+  .replace(/(\.\d+)+$/, '')
+  .replace(/[.\-_]\d{4}-?\d{2}-?\d{2}(?:[.\-_]?\d+)?(?=\.|$)/, '');
+
+const parentDir = (path: string) => {
+  const parts = path.split('/');
+  return parts.length > 1 ? parts[parts.length - 2] : '';
+};
+
+// 파일들이 서로 다른 하위 폴더에 있으면 폴더명(보통 호스트명)을, 아니면 로테이션을 제거한 파일명을 source로 사용합니다.
+export const toUploadEntries = async (files: { file: File; path: string }[]): Promise<UploadEntry[]> => {
+  const items: InputItem[] = [];
+  for (const { file, path } of files) items.push(...await expandInput(file, path));
+
+  const parents = new Set(items.map(i => parentDir(i.path)));
+  const byFolder = parents.size > 1;
+  return items
+    .map(item => ({ ...item, source: (byFolder && parentDir(item.path)) || stripRotationSuffix(item.path.split('/').pop()) }))
+    // 시간 순서는 포맷을 정한 뒤 로그 내용으로 정합니다. (orderByFirstTimestamp) 여기서는 경로 순으로만 둡니다.
+    .sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }));
+};
+
+export const fromFileList = (fileList: FileList) => toUploadEntries(
+  Array.from(fileList).map(file => ({ file, path: file.webkitRelativePath || file.name }))
+);
+
+const readAllEntries = (reader): Promise<FileSystemEntry[]> => new Promise((resolve, reject) => {
+  const all = [];
+  // readEntries는 한 번에 최대 100개씩만 돌려주므로 빈 배열이 나올 때까지 반복합니다.
+  const readBatch = () => reader.readEntries((batch) => {
+    if (batch.length === 0) return resolve(all);
+    all.push(...batch);
+    readBatch();
+  }, reject);
+  readBatch();
+});
+
+const walkEntry = async (entry, path: string, out: { file: File; path: string }[], fromFolder: boolean) => {
+  if (entry.isFile) {
+    const file: File = await new Promise((resolve, reject) => entry.file(resolve, reject));
+    if (!fromFolder || isLogFileName(file.name)) out.push({ file, path });
+  } else if (entry.isDirectory) {
+    const children = await readAllEntries(entry.createReader());
+    for (const child of children) await walkEntry(child, `${path}/${child.name}`, out, true);
+  }
+};
+
+// 드래그 앤 드롭된 파일과 폴더를 재귀적으로 펼칩니다.
+export const fromDataTransfer = async (dataTransfer: DataTransfer) => {
+  const items: { file: File; path: string }[] = [];
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry())
+    .filter(Boolean);
+
+  if (entries.length === 0) {
+    return toUploadEntries(Array.from(dataTransfer.files).map(file => ({ file, path: file.name })));
+  }
+  for (const entry of entries) await walkEntry(entry, entry.name, items, false);
+  return toUploadEntries(items);
+};
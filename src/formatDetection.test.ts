@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { detectDurationUnit, detectLogFormat, orderByFirstTimestamp } from './formatDetection';
+import { toUploadEntries } from './fileSources';
+import { getDefaultDurationUnit } from './customFormats';
+
+const tomcatLine = (duration: number | string, i = 0) => `10.0.0.1 - - [10/Oct/2026:10:00:0${i % 10} +0900] "GET /api/items HTTP/1.1" 200 512 ${duration}`;
+
+describe('detectDurationUnit', () => {
+  it('reads fast integer samples as milliseconds', () => {
+    expect(detectDurationUnit(['0', '1', '0', '3', '2', '1', '0'])).toBe('ms');
+    expect(detectDurationUnit(['0', '0', '1'])).toBe('ms');
+  });
+
+  it('reads decimal samples as seconds unless the median is large', () => {
+    expect(detectDurationUnit(['0.012', '0.104', '1.5'])).toBe('s');
+    expect(detectDurationUnit(['120.5', '88.2', '240.0'])).toBe('ms');
+  });
+
+  it('reads large integer samples as microseconds', () => {
+    expect(detectDurationUnit(['12000', '8400', '56000'])).toBe('us');
+  });
+
+  it('returns null without samples', () => {
+    expect(detectDurationUnit([])).toBeNull();
+  });
+});
+
+describe('detectLogFormat', () => {
+  it('keeps a fast Tomcat %D log in milliseconds', () => {
+    const lines = [0, 1, 0, 3, 2, 1, 0, 0, 1, 2].map(tomcatLine);
+    const [best] = detectLogFormat(lines, [], 'nginx');
+    expect(best.durationUnit).toBe('ms');
+    expect(best.matched).toBe(lines.length);
+  });
+
+  it('prefers nginx for decimal second durations', () => {
+    const lines = ['0.012', '0.340', '0.005'].map(tomcatLine);
+    const [best] = detectLogFormat(lines, [], 'tomcat');
+    expect(best.logType).toBe('nginx');
+    expect(best.durationUnit).toBe('s');
+  });
+
+  it('recognizes MyBatis SQL_END lines', () => {
+    const lines = ['[2026-10-10 10:00:00] [exec-1] INFO c.e.SqlLogger - [SQL_END] [com.example.OrderMapper.select] [12ms]'];
+    expect(detectLogFormat(lines, [], 'nginx')[0].logType).toBe('sql_logback');
+  });
+});
+
+describe('getDefaultDurationUnit', () => {
+  it('takes the unit from the Tomcat format token', () => {
+    expect(getDefaultDurationUnit({ kind: 'tomcat', pattern: '%h %l %u %t "%r" %s %b %T', fieldOverrides: {} })).toBe('s');
+    expect(getDefaultDurationUnit({ kind: 'tomcat', pattern: '%h %l %u %t "%r" %s %b %D', fieldOverrides: {} })).toBe('ms');
+  });
+});
+
+describe('orderByFirstTimestamp', () => {
+  const accessFile = (name: string, hour: number, lastModified: number) => ({
+    file: new File([`garbage line\n10.0.0.1 - - [10/Oct/2026:${hour}:00:00 +0900] "GET / HTTP/1.1" 200 1 0.1\n`], name, { lastModified }),
+    path: name
+  });
+
+  it('orders rotated files by their first request, not by modification time', async () => {
+    const entries = await toUploadEntries([accessFile('access.log', 12, 1), accessFile('access.log.2', 10, 3), accessFile('access.log.1', 11, 2)]);
+    const ordered = await orderByFirstTimestamp(entries, { logType: 'nginx' });
+    expect(ordered.map(e => e.path)).toEqual(['access.log.2', 'access.log.1', 'access.log']);
+    expect(new Set(ordered.map(e => e.source))).toEqual(new Set(['access.log']));
+  });
+
+  it('keeps entries without a readable timestamp at the end', async () => {
+    const unknown = { file: new File(['not a log line\n'], 'notes.log'), path: 'notes.log' };
+    const entries = await toUploadEntries([unknown, accessFile('b.log', 9, 0)]);
+    expect((await orderByFirstTimestamp(entries, { logType: 'nginx' })).map(e => e.path)).toEqual(['b.log', 'notes.log']);
+  });
+});
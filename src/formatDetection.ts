@@ -0,0 +1,139 @@
+import { REGEX, createLineParser, isAuxiliaryLine, ParserOptions } from './logCore';
+import { CustomFormat, CUSTOM_TYPE_PREFIX } from './customFormats';
+import { InputItem, readDecompressedHead } from './compressedInput';
+
+// --- Log Format Detection ---
+// 업로드된 파일 앞부분의 샘플 라인을 모든 포맷(내장 + 사용자 정의)에 대입해 매칭률로 점수를 매깁니다.
+
+const SAMPLE_BYTES = 1024 * 256;
+const SAMPLE_LINES = 500;
+
+export const BUILTIN_TYPES = [
+  { id: 'sql_logback', label: 'MyBatis' },
+  { id: 'nginx', label: 'Nginx' },
+  { id: 'tomcat', label: 'Tomcat' },
+  { id: 'logback', label: 'Logback' },
+];
+
+export const readSampleLines = async (item: InputItem, maxLines = SAMPLE_LINES) => {
+  const { text, truncated } = await readDecompressedHead(item, SAMPLE_BYTES);
+  const lines = text.split(/\r?\n/);
+  if (truncated) lines.pop(); // 잘린 마지막 줄 제외
+  return lines.filter(l => l.trim()).slice(0, maxLines);
+};
+
+// 여러 파일을 올린 경우 파일마다 고르게 샘플을 모아 전체 샘플 수를 유지합니다.
+export const readUploadSample = async (items: InputItem[]) => {
+  const perFile = Math.max(1, Math.ceil(SAMPLE_LINES / items.length));
+  const lines: string[] = [];
+  for (const item of items) {
+    if (lines.length >= SAMPLE_LINES) break;
+    lines.push(...await readSampleLines(item, perFile));
+  }
+  return lines.slice(0, SAMPLE_LINES);
+};
+
+const SPLIT_SAMPLE_LINES = 50;
+
+// 요청 로그와 MyBatis SQL 로그를 함께 올린 경우 파일별 샘플로 SQL 로그 파일을 골라냅니다. (한쪽뿐이면 null)
+// 사용자 정의 포맷의 요청 로그는 SQL_END 줄이 없으므로 요청 로그 쪽으로 분류됩니다.
+export const splitSqlEntries = async <T extends InputItem>(items: T[]) => {
+  const access: T[] = [];
+  const sql: T[] = [];
+  for (const item of items) {
+    const lines = await readSampleLines(item, SPLIT_SAMPLE_LINES);
+    const sqlLines = lines.filter(line => REGEX.sql.test(line)).length;
+    const accessLines = lines.filter(line => REGEX.access.test(line)).length;
+    (sqlLines > accessLines ? sql : access).push(item);
+  }
+  return access.length > 0 && sql.length > 0 ? { access, sql } : null;
+};
+
+const ORDER_SAMPLE_LINES = 50;
+
+// 엔트리 앞부분에서 처음 해석되는 요청의 시각 (epoch ms, 없으면 NaN)
+const findFirstTimestamp = (lines: string[], options: ParserOptions) => {
+  const parser = createLineParser(options);
+  for (const line of lines) {
+    const parsed = parser.parse(line);
+    if (!parsed || isAuxiliaryLine(parsed)) continue;
+    const timestamp = parser.toInstant(parsed.rawTimestamp);
+    if (!Number.isNaN(timestamp)) return timestamp;
+  }
+  return NaN;
+};
+
+// 엔트리를 첫 요청의 시각 순으로 세웁니다. 복사하거나 압축을 푼 로테이션 파일은 수정 시각이 뒤섞이므로 로그 내용으로 정합니다.
+// 시각을 읽지 못한 엔트리는 뒤에 원래 순서대로 둡니다.
+export const orderByFirstTimestamp = async <T extends InputItem>(items: T[], options: ParserOptions) => {
+  if (items.length < 2) return items;
+  const keyed: { item: T; first: number }[] = [];
+  for (const item of items) keyed.push({ item, first: findFirstTimestamp(await readSampleLines(item, ORDER_SAMPLE_LINES), options) });
+  const known = keyed.filter(k => !Number.isNaN(k.first)).sort((a, b) => a.first - b.first);
+  return [...known, ...keyed.filter(k => Number.isNaN(k.first))].map(k => k.item);
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// 응답 시간 컬럼의 원시 값 분포로 단위를 추정합니다.
+// - 소수점이 있으면 초 (nginx $request_time), 단 중앙값이 큰 경우 밀리초
+// - 정수이고 중앙값이 5000 이상이면 마이크로초 (Tomcat 10.1+ %D)
+// - 그 외 정수는 밀리초. 0~3ms로 빠른 %D 로그와 초 단위 %T 로그는 값만으로 구분할 수 없어,
+//   잘못 고르면 1000배가 되는 초 대신 밀리초로 둡니다. (%T는 사용자 정의 포맷의 토큰 단위로 지정)
+export const detectDurationUnit = (rawValues: string[]) => {
+  if (rawValues.length === 0) return null;
+  const values = rawValues.map(parseFloat);
+  const mid = median(values);
+  if (rawValues.some(v => v.includes('.'))) return mid >= 50 ? 'ms' : 's';
+  if (mid >= 5000) return 'us';
+  return 'ms';
+};
+
+export type FormatCandidate = {
+  logType: string;
+  label: string;
+  matched: number;
+  confidence: number;
+  durationUnit: string | null;
+};
+
+export const detectLogFormat = (lines: string[], customFormats: CustomFormat[], currentType: string) => {
+  const total = lines.length;
+
+  const accessDurations = lines
+    .map(line => line.match(REGEX.access))
+    .map(m => m && (m[7] ?? m[10]))
+    .filter(value => value !== undefined && value !== null);
+  const accessUnit = detectDurationUnit(accessDurations);
+
+  const scoreWith = (logType: string, label: string, customFormat: CustomFormat | null, durationUnit: string | null): FormatCandidate => {
+    let matched = 0;
+    try {
+      const parser = createLineParser({ logType, customFormat, durationUnit });
+      for (const line of lines) {
+        const parsed = parser.parse(line);
+        if (parsed && !isAuxiliaryLine(parsed)) matched++;
+      }
+    } catch (e) { matched = 0; }
+    return { logType, label, matched, confidence: total > 0 ? matched / total : 0, durationUnit };
+  };
+
+  const candidates: FormatCandidate[] = [
+    ...BUILTIN_TYPES.map(t => scoreWith(t.id, t.label, null, t.id === 'sql_logback' ? 'ms' : accessUnit)),
+    ...customFormats.map(f => scoreWith(CUSTOM_TYPE_PREFIX + f.id, f.name, f, f.durationUnit)),
+  ];
+
+  // Nginx/Tomcat/Logback은 같은 정규식이라 점수가 같습니다. 감지된 단위가 초이면 Nginx,
+  // 그 외에는 현재 선택된 타입 → Tomcat 순으로 우선합니다.
+  const tieBreak = (c: FormatCandidate) => {
+    if (c.logType === currentType) return 2;
+    if (c.logType === 'nginx' && accessUnit === 's') return 3;
+    if (c.logType === 'tomcat' && accessUnit !== 's') return 1;
+    return 0;
+  };
+
+  return candidates.sort((a, b) => b.matched - a.matched || tieBreak(b) - tieBreak(a));
+};
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { createLineParser, createPartialResult, mergePartialResults } from './logCore';
+import { aggregateFileSlice, aggregateByteStream } from './lineStream';
+
+const LINES = Array.from({ length: 10 }, (_, i) =>
+  `10.0.0.${i} - - [10/Oct/2026:10:00:0${i} +0900] "GET /api/items/${i} HTTP/1.1" 200 ${100 + i} 0.0${i + 1}`
+);
+const TEXT = LINES.join('\n') + '\n';
+const FILE = new Blob([TEXT]);
+
+// 파일을 boundaries 위치에서 나눠 구간마다 따로 집계한 뒤 합칩니다. (웹 앱의 워커 작업과 같은 방식)
+const aggregateSlices = async (file: Blob, boundaries: number[]) => {
+  const edges = [0, ...boundaries, file.size];
+  const partials = [];
+  for (let i = 0; i < edges.length - 1; i++) {
+    const acc = createPartialResult();
+    await aggregateFileSlice({ file, start: edges[i], end: edges[i + 1], source: 'a.log', entryIndex: 0 }, createLineParser({ logType: 'nginx' }), acc);
+    partials.push(acc);
+  }
+  return mergePartialResults(partials);
+};
+
+describe('aggregateFileSlice', () => {
+  it('counts each line once when a slice ends exactly at a line start', async () => {
+    const boundary = LINES.slice(0, 3).reduce((acc, line) => acc + line.length + 1, 0);
+    const result = await aggregateSlices(FILE, [boundary]);
+    expect(result.totalRequests).toBe(10);
+  });
+
+  it('counts each line once for every possible split position', async () => {
+    for (let boundary = 1; boundary < FILE.size; boundary++) {
+      const result = await aggregateSlices(FILE, [boundary]);
+      expect(result.totalRequests, `boundary ${boundary}`).toBe(10);
+    }
+  });
+
+  it('records byte offsets of the original lines across slices', async () => {
+    const boundary = LINES[0].length + 5;
+    const result = await aggregateSlices(FILE, [boundary]);
+    const { offset, lineLength } = result.records;
+    let expected = 0;
+    LINES.forEach((line, i) => {
+      expect(offset[i]).toBe(expected);
+      expect(lineLength[i]).toBe(line.length);
+      expect(TEXT.slice(offset[i], offset[i] + lineLength[i])).toBe(line);
+      expected += line.length + 1;
+    });
+  });
+
+  it('handles a file without a trailing newline', async () => {
+    const file = new Blob([LINES.join('\n')]);
+    const result = await aggregateSlices(file, [LINES[0].length + 1, file.size - 3]);
+    expect(result.totalRequests).toBe(10);
+  });
+});
+
+describe('aggregateByteStream', () => {
+  it('matches the sliced aggregation', async () => {
+    const acc = createPartialResult();
+    await aggregateByteStream(FILE.stream(), createLineParser({ logType: 'nginx' }), acc, 'a.log', 0);
+    const sliced = await aggregateSlices(FILE, [200, 500]);
+    expect(acc.totalRequests).toBe(10);
+    expect(acc.apiMap).toEqual(sliced.apiMap);
+    expect(Array.from(acc.records.offset.subarray(0, 10))).toEqual(Array.from(sliced.records.offset));
+  });
+});
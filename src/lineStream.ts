@@ -0,0 +1,123 @@
+import { aggregateLine, LineParser, PartialResult } from './logCore';
+import { LineRef } from './recordStore';
+
+// --- Line Stream ---
+// 바이트 스트림을 줄 단위로 나눠 집계합니다. 브라우저 워커와 CLI가 같은 코드로 줄을 나누고
+// 원본 줄 위치(바이트 오프셋)를 기록하므로 두 환경의 집계 결과가 같습니다.
+
+const NON_ASCII = /[^\x00-\x7f]/;
+
+const CHUNK_SIZE = 1024 * 1024 * 4; // 4MB chunks
+const TAIL_CHUNK_SIZE = 1024 * 64;
+const NEWLINE = 0x0a;
+
+// 줄을 UTF-8로 인코딩했을 때의 바이트 수
+const utf8Length = (text: string) => {
+  if (!NON_ASCII.test(text)) return text.length;
+  let bytes = 0;
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charCodeAt(i);
+    if (c < 0x80) bytes += 1;
+    else if (c < 0x800) bytes += 2;
+    else if (c >= 0xd800 && c <= 0xdbff) { bytes += 4; i++; }
+    else bytes += 3;
+  }
+  return bytes;
+};
+
+// 개행(\n) 앞까지의 줄 하나를 집계하고 다음 줄의 시작 바이트를 돌려줍니다. 줄 끝 \r은 원문 길이에서 뺍니다.
+export const processLine = (acc: PartialResult, line: string, parser: LineParser, source: string, lineRef: LineRef, position: number) => {
+  const bytes = utf8Length(line);
+  const hasCr = line.endsWith('\r');
+  lineRef.offset = position;
+  lineRef.length = hasCr ? bytes - 1 : bytes;
+  aggregateLine(acc, hasCr ? line.slice(0, -1) : line, parser, source, lineRef);
+  return position + bytes + 1;
+};
+
+// 스트림 처음부터 끝까지 읽으며 집계합니다. (압축 해제된 스트림, 표준 입력 등)
+export const aggregateByteStream = async (stream: ReadableStream<Uint8Array>, parser: LineParser, acc: PartialResult, source: string, entryIndex: number) => {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  const lineRef: LineRef = { entry: entryIndex, offset: 0, length: 0 };
+  let leftover = "";
+  let position = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const lines = (leftover + decoder.decode(value, { stream: true })).split('\n');
+    leftover = lines.pop();
+    for (const line of lines) position = processLine(acc, line, parser, source, lineRef, position);
+  }
+  leftover += decoder.decode();
+  processLine(acc, leftover, parser, source, lineRef, position);
+};
+
+const readBytes = async (file: Blob, from: number, to: number) => new Uint8Array(await file.slice(from, to).arrayBuffer());
+
+export type FileSlice = { file: Blob; start: number; end: number; source: string; entryIndex: number };
+
+// 파일의 [start, end) 바이트 구간에서 "시작하는" 줄만 집계합니다. (브라우저 워커의 작업 하나)
+// 구간 경계에 걸친 줄은 시작 바이트를 가진 쪽이 끝까지 읽어 처리합니다.
+export const aggregateFileSlice = async (task: FileSlice, parser: LineParser, acc: PartialResult, onProgress: (bytesRead: number) => void = () => {}) => {
+  const { file, start, end, source } = task;
+  const decoder = new TextDecoder();
+  const lineRef: LineRef = { entry: task.entryIndex, offset: 0, length: 0 };
+  let leftover = "";
+  let lastByte = -1; // 구간 안에서 마지막으로 읽은 바이트
+
+  // 이전 구간에 속한 줄의 나머지를 건너뜁니다. start-1부터 읽어 첫 개행까지 버리면
+  // start가 정확히 줄의 시작인 경우도 올바르게 처리됩니다.
+  let offset = start;
+  if (start > 0) {
+    let skipFrom = start - 1;
+    let found = false;
+    while (!found && skipFrom < end) {
+      const bytes = await readBytes(file, skipFrom, Math.min(skipFrom + TAIL_CHUNK_SIZE, end));
+      const idx = bytes.indexOf(NEWLINE);
+      if (idx >= 0) {
+        offset = skipFrom + idx + 1;
+        lastByte = NEWLINE;
+        found = true;
+      } else {
+        skipFrom += bytes.length;
+      }
+    }
+    // 구간 전체가 앞 구간의 한 줄에 속하면 이 구간이 처리할 줄은 없습니다.
+    if (!found) return;
+  }
+
+  let position = offset;
+  while (offset < end) {
+    const chunkEnd = Math.min(offset + CHUNK_SIZE, end);
+    const buffer = await readBytes(file, offset, chunkEnd);
+    const chunk = leftover + decoder.decode(buffer, { stream: true });
+    const lines = chunk.split('\n');
+    leftover = lines.pop();
+    lastByte = buffer[buffer.length - 1];
+
+    for (const line of lines) position = processLine(acc, line, parser, source, lineRef, position);
+
+    offset = chunkEnd;
+    onProgress(offset - start);
+  }
+
+  // 구간이 개행으로 끝나면 end에서 시작하는 줄은 다음 구간의 몫입니다.
+  if (leftover === '' && lastByte === NEWLINE) return;
+
+  // 마지막 줄이 구간 끝을 넘어가면 다음 개행까지 이어서 읽습니다.
+  let tailOffset = end;
+  while (tailOffset < file.size) {
+    const bytes = await readBytes(file, tailOffset, Math.min(tailOffset + TAIL_CHUNK_SIZE, file.size));
+    const idx = bytes.indexOf(NEWLINE);
+    if (idx >= 0) {
+      leftover += decoder.decode(bytes.subarray(0, idx), { stream: true });
+      break;
+    }
+    leftover += decoder.decode(bytes, { stream: true });
+    tailOffset += bytes.length;
+  }
+  leftover += decoder.decode();
+  processLine(acc, leftover, parser, source, lineRef, position);
+};
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { createLiveAggregator, openLineSource, LiveSourceError } from './liveTail';
+
+const BASE = Date.UTC(2026, 10, 19, 10, 0, 0);
+
+// 로그 시각을 BASE에서 minute분 뒤로 찍은 nginx 줄
+const line = (minute: number, url = '/api/items') => {
+  const date = new Date(BASE + minute * 60000);
+  const clock = date.toISOString().slice(11, 19);
+  return `10.0.0.1 - - [19/Nov/2026:${clock} +0000] "GET ${url} HTTP/1.1" 200 10 0.050`;
+};
+
+describe('createLiveAggregator', () => {
+  it('aggregates only the latest window of log time', () => {
+    const live = createLiveAggregator({ logType: 'nginx' }, 'live');
+    live.push([line(0, '/old'), line(10), line(12), 'not a log line', ''], BASE);
+    const { result, range } = live.snapshot(5);
+    expect(range).toEqual({ from: BASE + 12 * 60000 + 1000 - 5 * 60000, to: BASE + 12 * 60000 + 1000 });
+    expect(result.totalRequests).toBe(2);
+    expect(result.records.length).toBe(2);
+    expect(result.diagnostics.unmatched).toBe(1);
+    expect(live.totals).toEqual({ lines: 4, parsed: 3, retained: 3, evicted: 0 });
+  });
+
+  it('drops chunks older than the retention period', () => {
+    const live = createLiveAggregator({ logType: 'nginx' }, 'live');
+    live.push([line(0), line(1)], BASE);
+    live.push([line(30)], BASE + 30 * 60000);
+    live.push([line(60)], BASE + 60 * 60000);
+    expect(live.totals).toMatchObject({ parsed: 4, retained: 4, evicted: 0 });
+    live.push([line(70)], BASE + 70 * 60000);
+    expect(live.totals).toMatchObject({ parsed: 5, retained: 3, evicted: 2 });
+    expect(live.snapshot(60).result.totalRequests).toBe(3);
+  });
+});
+
+describe('openLineSource', () => {
+  it('rejects addresses other than WebSocket or HTTP', () => {
+    expect(() => openLineSource('tcp://localhost:9000', () => {}, () => {})).toThrow(LiveSourceError);
+  });
+});
@@ -0,0 +1,126 @@
+import { createLineParser, createPartialResult, aggregateLine, aggregateRange, mergePartialResults, ParserOptions, PartialResult } from './logCore';
+import { pickRecords, getRecordTime, isInRange, TimeRange } from './recordStore';
+
+// --- Live Tail ---
+// WebSocket(ws://, wss://) 또는 Server-Sent Events(http://, https://) 주소에서 줄 단위 로그를 받아
+// 파일 분석과 같은 파서/집계 코드로 쌓고, 최근 N분 구간만 대시보드에 다시 집계합니다.
+// 받은 줄은 도착 시각 기준 1분(또는 일정 건수) 묶음으로 보관하고, 보관 기간과 전체 레코드 수 상한을 넘으면
+// 오래된 묶음부터 버려 메모리 사용량을 제한합니다.
+
+export type LiveStatus = 'connecting' | 'open' | 'closed' | 'error';
+
+export const LIVE_WINDOWS = [5, 15, 60]; // 분
+export const LIVE_REFRESH_MS = 2000;
+export const MAX_LIVE_RECORDS = 300_000;
+
+const CHUNK_MS = 60000;
+const CHUNK_MAX_RECORDS = MAX_LIVE_RECORDS / 20;
+const RETENTION_MS = Math.max(...LIVE_WINDOWS) * 60000 + CHUNK_MS;
+
+export class LiveSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LiveSourceError';
+  }
+}
+
+type LineSource = { close: () => void };
+
+const splitLines = (data: string) => data.split('\n').map(line => line.endsWith('\r') ? line.slice(0, -1) : line);
+
+// 메시지 하나에 여러 줄이 올 수 있습니다. (SSE는 data: 줄마다 한 줄, WebSocket은 메시지 본문을 개행으로 나눔)
+export const openLineSource = (url: string, onLines: (lines: string[]) => void, onStatus: (status: LiveStatus, message?: string) => void): LineSource => {
+  if (/^wss?:\/\//i.test(url)) {
+    const socket = new WebSocket(url);
+    const decoder = new TextDecoder();
+    let closedByUser = false;
+    socket.binaryType = 'arraybuffer';
+    socket.onopen = () => onStatus('open');
+    socket.onmessage = (event) => onLines(splitLines(typeof event.data === 'string' ? event.data : decoder.decode(event.data)));
+    socket.onerror = () => onStatus('error', 'WebSocket 연결에 실패했습니다.');
+    socket.onclose = (event) => {
+      if (!closedByUser) onStatus('closed', `연결이 끊어졌습니다. (코드 ${event.code})`);
+    };
+    return { close: () => { closedByUser = true; socket.close(); } };
+  }
+  if (/^https?:\/\//i.test(url)) {
+    // EventSource는 끊어지면 스스로 다시 연결합니다.
+    const events = new EventSource(url);
+    events.onopen = () => onStatus('open');
+    events.onmessage = (event) => onLines(splitLines(event.data));
+    events.onerror = () => events.readyState === EventSource.CLOSED
+      ? onStatus('error', 'SSE 연결에 실패했습니다. 주소와 CORS 설정을 확인해 주세요.')
+      : onStatus('connecting', '다시 연결하는 중...');
+    return { close: () => events.close() };
+  }
+  throw new LiveSourceError('ws://, wss://, http://, https:// 주소만 지원합니다.');
+};
+
+type Chunk = { startedAt: number; partial: PartialResult };
+
+export type LiveTotals = { lines: number; parsed: number; retained: number; evicted: number };
+
+export const createLiveAggregator = (options: ParserOptions, source: string) => {
+  const parser = createLineParser(options);
+  const chunks: Chunk[] = [];
+  const totals: LiveTotals = { lines: 0, parsed: 0, retained: 0, evicted: 0 };
+  let latestTime = NaN; // 받은 로그 중 가장 늦은 시각
+
+  const currentChunk = (now: number) => {
+    const last = chunks[chunks.length - 1];
+    if (last && now - last.startedAt < CHUNK_MS && last.partial.records.length < CHUNK_MAX_RECORDS) return last;
+    const chunk = { startedAt: now, partial: createPartialResult() };
+    chunks.push(chunk);
+    return chunk;
+  };
+
+  // 보관 기간이 지났거나 상한을 넘으면 가장 오래된 묶음부터 버립니다. (받는 중인 묶음은 남김)
+  const evict = (now: number) => {
+    while (chunks.length > 1 && (now - chunks[0].startedAt > RETENTION_MS || totals.retained > MAX_LIVE_RECORDS)) {
+      const dropped = chunks.shift().partial.records.length;
+      totals.retained -= dropped;
+      totals.evicted += dropped;
+    }
+  };
+
+  const push = (lines: string[], now = Date.now()) => {
+    const { partial } = currentChunk(now);
+    const { records, diagnostics } = partial;
+    const before = records.length;
+    const linesBefore = diagnostics.lines;
+    for (const line of lines) aggregateLine(partial, line, parser, source);
+    for (let i = before; i < records.length; i++) {
+      const time = getRecordTime(records, i);
+      if (!Number.isNaN(time) && !(time <= latestTime)) latestTime = time;
+    }
+    totals.lines += diagnostics.lines - linesBefore;
+    totals.parsed += records.length - before;
+    totals.retained += records.length - before;
+    evict(now);
+  };
+
+  // 가장 늦은 로그 시각까지의 최근 windowMinutes분. 레코드도 그 구간만 남겨 상세 목록과 설정 변경이 같은 범위를 봅니다.
+  const snapshot = (windowMinutes: number) => {
+    const merged = mergePartialResults(chunks.map(c => c.partial));
+    const to = Number.isNaN(latestTime) ? Date.now() : Math.floor(latestTime / 1000) * 1000 + 1000;
+    const range: TimeRange = { from: to - windowMinutes * 60000, to };
+    const records = pickRecords(merged.records, i => isInRange(getRecordTime(merged.records, i), range));
+    const result = { ...aggregateRange(records, range), diagnostics: merged.diagnostics };
+    return { result, range };
+  };
+
+  return { push, snapshot, totals };
+};
+
+// --- Local Persistence ---
+const URL_STORAGE_KEY = 'logAnalyzer.liveUrl';
+
+export const loadLiveUrl = () => {
+  try {
+    return localStorage.getItem(URL_STORAGE_KEY) || 'http://localhost:8787';
+  } catch (e) { return 'http://localhost:8787'; }
+};
+
+export const saveLiveUrl = (url: string) => {
+  localStorage.setItem(URL_STORAGE_KEY, url);
+};
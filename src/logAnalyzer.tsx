@@ -1,96 +1,61 @@
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react';
 import { 
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
-  BarChart, Bar, Cell, AreaChart, Area
+  BarChart, Bar, Cell, AreaChart, Area, ReferenceArea, TooltipContentProps
 } from 'recharts';
 import { 
   Upload, FileText, Activity, Users, Globe, AlertTriangle, 
-  BarChart3, Clock, Search, Timer, ZapOff, Server, Layout, Coffee, Database,
-  ChevronUp, ChevronDown, Table as TableIcon, Download, Info, Trash2
+  BarChart3, Clock, Timer, ZapOff, Server, Layout, Coffee, Database,
+  ChevronUp, ChevronDown, Table as TableIcon, Download, Info, Trash2, XCircle, Plus, Wand2, X, Route, Pin, ShieldAlert, Camera, History, Radio
 } from 'lucide-react';
+import { buildSummary, aggregateRange } from './logCore';
+import { sliceRecords, readRecord } from './recordStore';
+import { createDetailsClient } from './detailsClient';
+import { topSlowRecords } from './detailRows';
+import { buildHtmlReport, buildJsonReport, buildMarkdownReport, csvCell, downloadText, getDataSpan, REPORT_TOP_N } from './reportExport';
+import { loadAnalysisSettings, saveAnalysisSettings, getIntervalLabel, formatDurationMs } from './analysisSettings';
+import { formatInstant, spansMultipleDays } from './timestamps';
+import { runAnalyses, AnalysisCancelledError } from './workerPool';
+import { loadCustomFormats, saveCustomFormats, CUSTOM_TYPE_PREFIX } from './customFormats';
+import ApiLatencyTable from './components/ApiLatencyTable';
+import { readUploadSample, detectLogFormat, splitSqlEntries, orderByFirstTimestamp, BUILTIN_TYPES } from './formatDetection';
+import { fromFileList, fromDataTransfer, UploadEntry } from './fileSources';
+import CustomFormatEditor from './components/CustomFormatEditor';
+import FormatDetectionPanel from './components/FormatDetectionPanel';
+import SourceBreakdown from './components/SourceBreakdown';
+import RouteTemplateEditor from './components/RouteTemplateEditor';
+import SqlShapeTable from './components/SqlShapeTable';
+import ComparisonPanel from './components/ComparisonPanel';
+import StatusPanel from './components/StatusPanel';
+import AnalysisSettingsBar from './components/AnalysisSettingsBar';
+import TimeRangeBreadcrumb from './components/TimeRangeBreadcrumb';
+import QueryInput from './components/QueryInput';
+import DetailsTable from './components/DetailsTable';
+import RecordDrawer from './components/RecordDrawer';
+import HistoryPanel from './components/HistoryPanel';
+import ReportExportMenu from './components/ReportExportMenu';
+import AnomalyPanel from './components/AnomalyPanel';
+import DiagnosticsPanel, { CoverageWarning } from './components/DiagnosticsPanel';
+import SqlCorrelationPanel from './components/SqlCorrelationPanel';
+import LiveTailBar from './components/LiveTailBar';
+import SloPanel from './components/SloPanel';
+import SloEditor from './components/SloEditor';
+import ClientTrafficPanel from './components/ClientTrafficPanel';
+import EndpointDrilldown from './components/EndpointDrilldown';
+import { detectAnomalies, findAnomalyAt, ANOMALY_KINDS } from './anomalyDetection';
+import { correlateSql, getRequestTimeAnchor, readRequestSql, summarizeSlowRequestSql } from './sqlCorrelation';
+import { openLineSource, createLiveAggregator, loadLiveUrl, saveLiveUrl, LIVE_REFRESH_MS } from './liveTail';
+import { evaluateSlos, loadSlos, saveSlos } from './slo';
+import { summarizeClientTraffic, loadCidrGroups, saveCidrGroups } from './clientTraffic';
+import { analyzeEndpoint, getTimestampMark } from './endpointDrilldown';
+import { listRuns, loadRun, saveRun, renameRun, deleteRun, getStorageEstimate, describeFiles, findRunForFiles } from './analysisHistory';
+import { parseLogQuery, loadRecentQueries, saveRecentQuery } from './logQuery';
+import { loadRouteConfig, saveRouteConfig } from './routeTemplates';
 
 // --- Constants & Helpers ---
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4', '#f43f5e', '#84cc16', '#eab308'];
-const SLOW_THRESHOLD = 0.2; // 200ms
-
-const BUCKET_CONFIG = [
-  { key: 'b10ms', label: '< 10ms', color: 'bg-emerald-50 text-emerald-700' },
-  { key: 'b100ms', label: '10-100ms', color: 'bg-blue-50 text-blue-700' },
-  { key: 'b500ms', label: '100-500ms', color: 'bg-indigo-50 text-indigo-700' },
-  { key: 'b1000ms', label: '500-1000ms', color: 'bg-amber-50 text-amber-700 font-semibold' },
-  { key: 'b5s', label: '1-5s', color: 'bg-orange-100 text-orange-800 font-bold' },
-  { key: 'b10s', label: '5-10s', color: 'bg-red-100 text-red-800 font-bold' },
-  { key: 'bOver10s', label: '> 10s', color: 'bg-rose-500 text-white font-black' },
-];
-
-const REGEX = {
-  access: /^(\S+)(?:\s+\S+\s+\S+)?\s+\[(.*?)\]\s+"(\S+)\s+(\S+).*?"\s+(\d+)\s+(\d+|-)(?:\s+(\d+\.?\d*))?/,
-  sql: /\[SQL_END\]\s+\[(.*?)\]\s+\[(\d+)ms\]/,
-  sqlTime: /\[(\d{4}-\d{2}-\d{2}\s\d{2}:\d{2}:\d{2})/
-};
-
-const getRespBucket = (timeInSec) => {
-  const ms = timeInSec * 1000;
-  if (ms < 10) return 'b10ms';
-  if (ms < 100) return 'b100ms';
-  if (ms < 500) return 'b500ms';
-  if (ms < 1000) return 'b1000ms';
-  if (ms < 5000) return 'b5s';
-  if (ms < 10000) return 'b10s';
-  return 'bOver10s';
-};
-
-const get5MinKey = (rawTime, type) => {
-  try {
-    if (type === 'sql_logback') {
-      const [date, time] = rawTime.split(' ');
-      const [h, m] = time.split(':');
-      const bucketM = Math.floor(parseInt(m) / 5) * 5;
-      return `${date} ${h}:${bucketM.toString().padStart(2, '0')}`;
-    } else {
-      const parts = rawTime.split(':');
-      const h = parts[1];
-      const m = parts[2];
-      const bucketM = Math.floor(parseInt(m) / 5) * 5;
-      return `${parts[0]} ${h}:${bucketM.toString().padStart(2, '0')}`;
-    }
-  } catch (e) { return "Unknown"; }
-};
 
-const parseLogLine = (line, type) => {
-  if (type === 'sql_logback') {
-    const sqlMatch = line.match(REGEX.sql);
-    if (!sqlMatch) return null;
-    const timeMatch = line.match(REGEX.sqlTime);
-    const durationMs = parseInt(sqlMatch[2]);
-    return {
-      ip: "System",
-      rawTimestamp: timeMatch ? timeMatch[1] : "Unknown",
-      method: "SQL",
-      url: sqlMatch[1].split('.').pop(),
-      status: 200,
-      responseTime: durationMs / 1000
-    };
-  } else {
-    const match = line.match(REGEX.access);
-    if (!match) return null;
-    const [_, ip, timestamp, method, url, status, size, respTime] = match;
-    let finalRespTime = respTime ? parseFloat(respTime) : null;
-    if ((type === 'tomcat' || type === 'logback') && finalRespTime !== null && finalRespTime > 100) {
-      finalRespTime = finalRespTime / 1000;
-    }
-    return {
-      ip,
-      rawTimestamp: timestamp,
-      method,
-      url: url.split('?')[0],
-      status: parseInt(status),
-      responseTime: finalRespTime
-    };
-  }
-};
-
-const CustomChartTooltip = ({ active, payload, label }) => {
+const CustomChartTooltip = ({ active, payload, label }: Partial<TooltipContentProps<number, string>>) => {
   if (active && payload && payload.length) {
     const data = payload[0].payload;
     return (
@@ -109,6 +74,16 @@ const CustomChartTooltip = ({ active, payload, label }) => {
             <span className="text-slate-500 font-medium italic">Total Time:</span>
             <span className="font-bold text-orange-600 font-mono">{data.total?.toFixed(3)}s</span>
           </div>
+          {data.p99 !== undefined && (
+            <div className="pt-2 mt-2 border-t border-slate-100 space-y-1">
+              {[['p50', 'p50', 'text-slate-700'], ['p95', 'p95', 'text-orange-600'], ['p99', 'p99', 'text-red-600'], ['max', 'Max', 'text-rose-700']].map(([key, name, color]) => (
+                <div key={key} className="flex justify-between items-center gap-4">
+                  <span className="text-slate-500 font-medium italic">{name}:</span>
+                  <span className={`font-bold font-mono ${color}`}>{(data[key] * 1000).toFixed(2)}ms</span>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </div>
     );
@@ -116,165 +91,558 @@ const CustomChartTooltip = ({ active, payload, label }) => {
   return null;
 };
 
+const SEARCH_DEBOUNCE_MS = 250;
+
+// 값이 delay 동안 바뀌지 않을 때만 따라갑니다. (타이핑마다 상세 목록을 다시 거르지 않도록)
+const useDebouncedValue = (value, delay) => {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+  return debounced;
+};
+
 const App = () => {
-  const [logs, setLogs] = useState([]); 
-  const [summaryStats, setSummaryStats] = useState(null);
+  const [fullStats, setFullStats] = useState(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
   const [logType, setLogType] = useState('sql_logback'); 
-  const [searchTerm, setSearchTerm] = useState('');
+  const [searchTerm, setSearchTerm] = useState(''); // 상세 목록 질의 (logQuery 문법)
+  const [recentQueries, setRecentQueries] = useState(loadRecentQueries);
   const [sortConfig, setSortConfig] = useState({ key: 'responseTime', direction: 'desc' });
+  const analysisRef = useRef(null);
+  const [customFormats, setCustomFormats] = useState(loadCustomFormats);
+  const [isFormatEditorOpen, setIsFormatEditorOpen] = useState(false);
+  const [pendingUpload, setPendingUpload] = useState(null); // { entries, candidates, sampleSize, sqlSplit, correlateSql }
+  const [durationUnit, setDurationUnit] = useState(null);
+  const [sourceFilter, setSourceFilter] = useState('');
+  const [detailFilter, setDetailFilter] = useState('all'); // 'all' | 'slow' | 'error'
+  const [showTpsBySource, setShowTpsBySource] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [routeConfig, setRouteConfig] = useState(loadRouteConfig);
+  const [isRouteEditorOpen, setIsRouteEditorOpen] = useState(false);
+  const [routeView, setRouteView] = useState('template'); // 'template' | 'raw'
+  const [analysisLabel, setAnalysisLabel] = useState('');
+  const [analysisId, setAnalysisId] = useState(0);
+  const [baseline, setBaseline] = useState(null); // { label, logType, analysisId, summaryStats, records }
+  const [settings, setSettings] = useState(loadAnalysisSettings);
+  const [records, setRecords] = useState(null); // 설정 변경 시 다시 집계할 레코드 저장소
+  const [rangeStack, setRangeStack] = useState([]); // 차트에서 좁혀 들어간 시간 범위들 (마지막이 현재 범위)
+  const [tpsDrag, setTpsDrag] = useState(null); // TPS 차트 드래그 중인 { start, end }
+  const [analysisEntries, setAnalysisEntries] = useState([]); // 원본 줄을 다시 읽을 업로드 엔트리
+  const [analysisFiles, setAnalysisFiles] = useState([]); // 리포트에 기록할 분석 대상 파일 { name, size }
+  const [detailsClient, setDetailsClient] = useState(null);
+  const [detailRowIds, setDetailRowIds] = useState(new Int32Array(0)); // 상세 목록에 보이는 레코드 순번 (필터/질의/정렬 적용)
+  const [isDetailLoading, setIsDetailLoading] = useState(false);
+  const [selectedRecordId, setSelectedRecordId] = useState(null);
+  const [historyRuns, setHistoryRuns] = useState([]); // IndexedDB에 저장된 지난 분석 (최신순)
+  const [storageEstimate, setStorageEstimate] = useState(null);
+  const [historyError, setHistoryError] = useState('');
+  const [snapshotRun, setSnapshotRun] = useState(null); // 지연/실패 요청만 저장된 기록을 연 경우 그 기록 (설정/범위 고정)
+  const [sqlRun, setSqlRun] = useState(null); // 요청 로그와 함께 분석한 SQL 로그 { records, anchor } (분석 기록에는 저장하지 않음)
+  const [isLiveOpen, setIsLiveOpen] = useState(false);
+  const [liveUrl, setLiveUrl] = useState(loadLiveUrl);
+  const [liveWindow, setLiveWindow] = useState(15); // 실시간 모드에서 보여줄 최근 구간 (분)
+  const [liveSession, setLiveSession] = useState(null); // { url, status, message, paused, stopped, totals }
+  const liveRef = useRef(null); // 연결 중인 { source, aggregator, isDirty }
+  const [slos, setSlos] = useState(loadSlos);
+  const [isSloEditorOpen, setIsSloEditorOpen] = useState(false);
+  const [cidrGroups, setCidrGroups] = useState(loadCidrGroups);
+  const [drilldownEndpoint, setDrilldownEndpoint] = useState(null); // { name, column } 상세 화면을 연 엔드포인트
+
+  // 시간 범위를 고르면 그 범위의 요청만으로 모든 패널을 다시 집계합니다. (TPS 차트는 범위를 고를 수 있도록 전체 기간 유지)
+  const timeRange = rangeStack[rangeStack.length - 1] || null;
+  const rangeView = useMemo(
+    () => records && timeRange ? buildSummary(aggregateRange(records, timeRange), settings, timeRange) : null,
+    [records, timeRange, settings]
+  );
+  const summaryStats = rangeView || fullStats;
+  // 이상 구간은 선택한 범위와 상관없이 전체 기간을 기준선으로 찾습니다. (스냅샷은 레코드가 일부뿐이라 기여 엔드포인트 제외)
+  const anomalies = useMemo(
+    () => fullStats ? detectAnomalies(fullStats, snapshotRun ? null : records) : [],
+    [fullStats, records, snapshotRun]
+  );
+  // SQL 로그 연결: 지연 기준이 바뀌면 시간 겹침 후보(느린 요청)가 달라지므로 다시 연결합니다.
+  const sqlCorrelation = useMemo(
+    () => records && sqlRun ? correlateSql(records, sqlRun.records, { slowThresholdSec: settings.slowThresholdMs / 1000, anchor: sqlRun.anchor }) : null,
+    [records, sqlRun, settings.slowThresholdMs]
+  );
+  const sqlSummary = useMemo(
+    () => sqlCorrelation ? summarizeSlowRequestSql(sqlCorrelation, records, sqlRun.records, settings.slowThresholdMs / 1000) : null,
+    [sqlCorrelation, records, sqlRun, settings.slowThresholdMs]
+  );
+  // SLO는 전체 요청이 있어야 계산할 수 있어 스냅샷 기록에서는 건너뜁니다. 선택한 시간 범위 안의 요청만 봅니다.
+  const sloResults = useMemo(
+    () => records && !snapshotRun && slos.length > 0 ? evaluateSlos(records, slos, settings, timeRange) : [],
+    [records, snapshotRun, slos, settings, timeRange]
+  );
+  // 클라이언트 트래픽도 전체 요청이 필요해 스냅샷 기록에서는 건너뜁니다. (요약의 상위 IP만 표시)
+  const clientTraffic = useMemo(
+    () => records && !snapshotRun && logType !== 'sql_logback' ? summarizeClientTraffic(records, settings, timeRange, cidrGroups) : null,
+    [records, snapshotRun, logType, settings, timeRange, cidrGroups]
+  );
+  // 엔드포인트 상세도 전체 요청으로 계산하므로 스냅샷 기록에서는 열지 않습니다. 선택한 시간 범위 안의 요청만 봅니다.
+  const endpointDrilldown = useMemo(
+    () => records && drilldownEndpoint && !snapshotRun ? analyzeEndpoint(records, drilldownEndpoint, settings, timeRange, getTimestampMark(logType)) : null,
+    [records, drilldownEndpoint, snapshotRun, settings, timeRange, logType]
+  );
+  const getRequestSql = useCallback((recordIndex) => sqlCorrelation?.byRequest.get(recordIndex), [sqlCorrelation]);
+
+  // 실시간 모드 갱신. 일시정지 중이거나 상세 보기를 열어 둔 동안에는 화면을 고정하고 수신 현황만 갱신합니다.
+  const isLiveActive = !!liveSession && !liveSession.stopped;
+  const isLiveFrozen = !!liveSession?.paused || selectedRecordId !== null;
+  useEffect(() => {
+    if (!isLiveActive) return;
+    const tick = () => {
+      const live = liveRef.current;
+      if (!live) return;
+      setLiveSession(prev => prev && { ...prev, totals: { ...live.aggregator.totals } });
+      if (isLiveFrozen || !live.isDirty) return;
+      live.isDirty = false;
+      const { result } = live.aggregator.snapshot(liveWindow);
+      setFullStats(buildSummary(result, settings));
+      setRecords(result.records);
+    };
+    tick();
+    const timer = setInterval(tick, LIVE_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [isLiveActive, isLiveFrozen, liveWindow, settings]);
+
+  useEffect(() => closeLiveSource, []);
+
+  const activeCustomFormat = customFormats.find(f => CUSTOM_TYPE_PREFIX + f.id === logType) || null;
+  const getTypeLabel = (id) => BUILTIN_TYPES.find(t => t.id === id)?.label || customFormats.find(f => CUSTOM_TYPE_PREFIX + f.id === id)?.name || '사용자 정의';
+
+  const refreshHistory = useCallback(async () => {
+    try {
+      setHistoryRuns(await listRuns());
+      setStorageEstimate(await getStorageEstimate());
+    } catch (e) {
+      setHistoryError(e.message);
+    }
+  }, []);
+
+  useEffect(() => { refreshHistory(); }, [refreshHistory]);
+
+  const handleSaveRouteConfig = (config) => {
+    setRouteConfig(config);
+    saveRouteConfig(config);
+    setIsRouteEditorOpen(false);
+  };
+
+  const handleSaveSlos = (next) => {
+    setSlos(next);
+    saveSlos(next);
+    setIsSloEditorOpen(false);
+  };
+
+  const handleSaveCidrGroups = (next) => {
+    setCidrGroups(next);
+    saveCidrGroups(next);
+  };
+
+  const handleSaveCustomFormat = (format) => {
+    const next = [...customFormats, format];
+    setCustomFormats(next);
+    saveCustomFormats(next);
+    setIsFormatEditorOpen(false);
+    handleSelectLogType(CUSTOM_TYPE_PREFIX + format.id);
+  };
+
+  const handleDeleteCustomFormat = (id) => {
+    const next = customFormats.filter(f => f.id !== id);
+    setCustomFormats(next);
+    saveCustomFormats(next);
+    if (logType === CUSTOM_TYPE_PREFIX + id) handleSelectLogType('sql_logback');
+  };
+
+  // 감지 결과가 있으면 해당 타입에서 추정한 응답 시간 단위를 함께 적용합니다.
+  const handleSelectLogType = (id) => {
+    const candidate = pendingUpload?.candidates.find(c => c.logType === id);
+    setLogType(id);
+    setDurationUnit(candidate ? candidate.durationUnit : null);
+    resetState();
+  };
+
+  const closeLiveSource = () => {
+    liveRef.current?.source.close();
+    liveRef.current = null;
+  };
 
   const resetState = () => {
-    setLogs([]);
-    setSummaryStats(null);
+    closeLiveSource();
+    setLiveSession(null);
+    setFullStats(null);
+    setRecords(null);
+    setSqlRun(null);
+    setAnalysisEntries([]);
+    setAnalysisFiles([]);
+    setSelectedRecordId(null);
+    setDrilldownEndpoint(null);
+    // 스냅샷을 보던 중이었다면 저장 당시 설정 대신 사용자 설정으로 돌아갑니다.
+    if (snapshotRun) setSettings(loadAnalysisSettings());
+    setSnapshotRun(null);
     setProgress(0);
     setSearchTerm('');
+    setSourceFilter('');
+    setDetailFilter('all');
+    setRangeStack([]);
   };
 
-  const downloadCSV = useCallback(() => {
-    if (!logs.length) return;
-    const headers = ["No", "Timestamp", "Method", "Target (URL/SQL)", "ResponseTime(ms)"];
-    const rows = logs.map((l, i) => [
-      i + 1,
-      l.rawTimestamp,
-      l.method,
-      l.url,
-      (l.responseTime * 1000).toFixed(2)
-    ]);
-    
-    const csvContent = [headers, ...rows].map(e => e.join(",")).join("\n");
-    const blob = new Blob(["\uFEFF" + csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.setAttribute("href", url);
-    link.setAttribute("download", `slow_logs_over_200ms_${logType}_${new Date().toISOString().split('T')[0]}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  }, [logs, logType]);
-
-  const handleFileUpload = async (event) => {
-    const file = event.target.files[0];
-    if (!file) return;
+  // 상세 목록/CSV의 시각은 표시 시간대 기준. 해석하지 못한 타임스탬프는 원문 그대로 보여줍니다.
+  const formatDetailTime = useCallback((log) => (
+    Number.isNaN(log.timestamp) ? log.rawTimestamp : formatInstant(log.timestamp, settings.timeZone)
+  ), [settings.timeZone]);
+
+  // 전체 분석 전에 앞부분 샘플로 포맷을 감지해 가장 유력한 타입을 미리 선택합니다.
+  const prepareUpload = async (entries) => {
+    if (entries.length === 0) return;
+
+    // 요청 로그와 SQL 로그를 함께 올렸으면 SQL 로그를 따로 떼어 두고 요청 로그로만 포맷을 감지합니다.
+    const sqlSplit = entries.length > 1 ? await splitSqlEntries(entries) : null;
+    const lines = await readUploadSample(sqlSplit ? sqlSplit.access : entries);
+    const candidates = detectLogFormat(lines, customFormats, logType);
+    const best = candidates[0];
+    resetState();
+    setPendingUpload({ entries, candidates, sampleSize: lines.length, savedRun: null, sqlSplit, correlateSql: !!sqlSplit });
+    // 같은 파일을 분석한 기록이 있으면 다시 읽지 않고 열 수 있도록 알려 줍니다.
+    describeFiles(entries)
+      .then(files => setPendingUpload(prev => prev?.entries === entries ? { ...prev, savedRun: findRunForFiles(historyRuns, files) } : prev))
+      .catch(() => {}); // 해시를 구하지 못하면 이전 기록을 찾지 않고 넘어갑니다.
+    if (best.matched > 0) {
+      setLogType(best.logType);
+      setDurationUnit(best.durationUnit);
+    } else {
+      setDurationUnit(candidates.find(c => c.logType === logType)?.durationUnit ?? null);
+    }
+  };
+
+  const loadUpload = async (collect) => {
+    try {
+      await prepareUpload(await collect);
+    } catch (e) {
+      alert(`파일을 읽는 중 오류가 발생했습니다: ${e.message}`);
+    }
+  };
 
+  const handleFileUpload = (event) => {
+    const collect = fromFileList(event.target.files);
+    event.target.value = '';
+    loadUpload(collect);
+  };
+
+  const handleDrop = (event) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (isProcessing) return;
+    loadUpload(fromDataTransfer(event.dataTransfer));
+  };
+
+  const startAnalysis = async () => {
+    const { sqlSplit } = pendingUpload;
+    const correlated: UploadEntry[] = sqlSplit && pendingUpload.correlateSql ? sqlSplit.sql : [];
+    const uploaded: UploadEntry[] = correlated.length > 0 ? sqlSplit.access : pendingUpload.entries;
+    setPendingUpload(null);
     setIsProcessing(true);
     setProgress(0);
-    
-    const ipMap = {};
-    const apiMap = {};
-    const tpsMap = {};
-    const apiPerfMap = {};
-    const distributionMap = {}; 
-    
-    let errorCount = 0;
-    let totalRequests = 0;
-    let totalResponseTime = 0;
-    let responseTimeCount = 0;
-    
-    let filteredLogs = [];
-
-    const chunkSize = 1024 * 1024 * 4; // 4MB chunks
-    let offset = 0;
-    let leftover = ""; 
-    const decoder = new TextDecoder();
-
-    while (offset < file.size) {
-      const slice = file.slice(offset, offset + chunkSize);
-      const buffer = await slice.arrayBuffer();
-      const chunk = leftover + decoder.decode(buffer, { stream: true });
-      const lines = chunk.split(/\r?\n/);
-      leftover = lines.pop();
-
-      for (const line of lines) {
-        if (!line.trim()) continue;
-        const parsed = parseLogLine(line, logType);
-        if (!parsed) continue;
-
-        totalRequests++;
-        const { ip, rawTimestamp, url, status, responseTime } = parsed;
-
-        if (ip !== "System") ipMap[ip] = (ipMap[ip] || 0) + 1;
-        apiMap[url] = (apiMap[url] || 0) + 1;
-        
-        const tpsKey = logType === 'sql_logback' ? rawTimestamp : rawTimestamp.split(' ')[0];
-        tpsMap[tpsKey] = (tpsMap[tpsKey] || 0) + 1;
-        
-        if (status >= 400) errorCount++;
-
-        if (responseTime !== null) {
-          const timeBucketKey = get5MinKey(rawTimestamp, logType);
-          const respBucket = getRespBucket(responseTime);
-
-          if (!distributionMap[timeBucketKey]) {
-            distributionMap[timeBucketKey] = { b10ms: 0, b100ms: 0, b500ms: 0, b1000ms: 0, b5s: 0, b10s: 0, bOver10s: 0 };
-          }
-          distributionMap[timeBucketKey][respBucket]++;
-
-          if (!apiPerfMap[url]) apiPerfMap[url] = { total: 0, count: 0 };
-          apiPerfMap[url].total += responseTime;
-          apiPerfMap[url].count += 1;
-          
-          totalResponseTime += responseTime;
-          responseTimeCount++;
-
-          // 200ms(0.2s) 이상인 것만 상세 목록용으로 수집
-          if (responseTime >= SLOW_THRESHOLD) {
-            filteredLogs.push({ id: totalRequests, ...parsed });
-          }
-        }
+
+    // SQL 로그는 매퍼 ID를 그대로 쓰도록 경로 템플릿을 적용하지 않습니다.
+    const options = { logType, customFormat: activeCustomFormat, durationUnit, routeConfig };
+    const sqlOptions = { logType: 'sql_logback', customFormat: null, durationUnit: null, routeConfig: null };
+    let run = null;
+
+    try {
+      // 로테이션된 파일들은 첫 요청의 시각 순으로 이어 붙입니다.
+      const entries = await orderByFirstTimestamp(uploaded, options);
+      const sqlEntries = await orderByFirstTimestamp(correlated, sqlOptions);
+      const label = (entries.length > 1 ? `${entries[0].path} 외 ${entries.length - 1}개` : entries[0].path) + (sqlEntries.length > 0 ? ` + SQL ${sqlEntries.length}개` : '');
+      setAnalysisLabel(label);
+
+      const jobs = [{ entries, options }];
+      if (sqlEntries.length > 0) jobs.push({ entries: sqlEntries, options: sqlOptions });
+      run = runAnalyses(jobs, setProgress);
+      analysisRef.current = run;
+
+      const [result, sqlResult] = await run.promise;
+      const stats = buildSummary(result, settings);
+      setFullStats(stats);
+      setRecords(result.records);
+      setSqlRun(sqlResult ? { records: sqlResult.records, anchor: getRequestTimeAnchor(logType, activeCustomFormat) } : null);
+      setAnalysisEntries(entries);
+      setAnalysisFiles(entries.map(e => ({ name: e.path, size: e.end - e.start })));
+      setSelectedRecordId(null);
+      setDrilldownEndpoint(null);
+      setRangeStack([]);
+      setAnalysisId(Date.now());
+      saveRun({ label, logType, entries, settings, summaryStats: stats, records: result.records })
+        .then(() => setHistoryError(''))
+        .catch(e => setHistoryError(`분석 기록을 저장하지 못했습니다: ${e.message}`))
+        .finally(refreshHistory);
+    } catch (e) {
+      if (!(e instanceof AnalysisCancelledError)) {
+        alert(`분석 중 오류가 발생했습니다: ${e.message}`);
       }
-      offset += chunkSize;
-      setProgress(Math.round((offset / file.size) * 100));
+    } finally {
+      if (analysisRef.current === run) analysisRef.current = null;
+      setIsProcessing(false);
     }
+  };
 
-    const sortedFilteredLogs = [...filteredLogs].sort((a, b) => b.responseTime - a.responseTime);
-    const topIps = Object.entries(ipMap).sort((a, b) => b[1] - a[1]).slice(0, 10).map(([name, count]) => ({ name, count }));
-    const topApis = Object.entries(apiMap).sort((a, b) => b[1] - a[1]).slice(0, 10).map(([name, count]) => {
-      const perf = apiPerfMap[name] || { total: 0, count: 0 };
-      return { name, count, total: perf.total, avgTime: perf.count > 0 ? perf.total / perf.count : 0 };
-    });
-    const topSlowApis = Object.entries(apiPerfMap).map(([name, data]) => ({ 
-      name, avgTime: data.total / data.count, count: data.count, total: data.total 
-    })).sort((a, b) => b.avgTime - a.avgTime).slice(0, 20);
-
-    const tpsData = Object.entries(tpsMap).sort((a, b) => a[0].localeCompare(b[0])).map(([time, count]) => ({ 
-      time: time.includes(' ') ? time.split(/\s+/).pop() : time, tps: count 
-    }));
-
-    const distributionStats = Object.entries(distributionMap).sort((a, b) => a[0].localeCompare(b[0])).map(([time, buckets]) => ({ 
-      time, ...buckets 
-    }));
-
-    setLogs(sortedFilteredLogs);
-    setSummaryStats({
-      totalRequests,
-      uniqueIps: Object.keys(ipMap).length,
-      uniqueApis: Object.keys(apiMap).length,
-      errorRate: totalRequests > 0 ? ((errorCount / totalRequests) * 100).toFixed(2) : 0,
-      avgResponseTime: responseTimeCount > 0 ? (totalResponseTime / responseTimeCount).toFixed(3) : "N/A",
-      topIps, topApis, topSlowApis, tpsData, distributionStats,
-      maxTps: tpsData.length > 0 ? Math.max(...tpsData.map(d => d.tps)) : 0
-    });
-    setIsProcessing(false);
+  // 파일을 다시 읽지 않고 보관한 레코드로 설정 의존 위젯만 다시 집계합니다. (비교 중인 기준선도 같은 설정으로)
+  const handleChangeSettings = (next) => {
+    setSettings(next);
+    saveAnalysisSettings(next);
+    if (records) setFullStats(prev => ({ ...prev, ...sliceRecords(records, next) }));
+    setBaseline(prev => prev && !prev.isSnapshot ? { ...prev, summaryStats: { ...prev.summaryStats, ...sliceRecords(prev.records, next) } } : prev);
+  };
+
+  // 저장된 기록의 요약과 레코드를 불러옵니다. 전체 레코드가 있으면 사용자 설정으로 다시 집계합니다.
+  const loadHistoryView = async (run) => {
+    const { summaryStats: saved, records: savedRecords } = await loadRun(run.id);
+    const userSettings = snapshotRun ? loadAnalysisSettings() : settings;
+    const stats = run.recordsComplete ? { ...saved, ...sliceRecords(savedRecords, userSettings) } : saved;
+    return { stats, savedRecords };
+  };
+
+  const handleOpenRun = async (run) => {
+    try {
+      const { stats, savedRecords } = await loadHistoryView(run);
+      resetState();
+      setPendingUpload(null);
+      setLogType(run.logType);
+      setAnalysisLabel(run.label);
+      setAnalysisFiles(run.files);
+      setFullStats(stats);
+      setRecords(savedRecords);
+      setRangeStack([]);
+      setAnalysisId(Date.now());
+      if (!run.recordsComplete) {
+        setSettings(run.settings);
+        setSnapshotRun(run);
+      }
+    } catch (e) {
+      setHistoryError(e.message);
+      refreshHistory();
+    }
+  };
+
+  const handleCompareRun = async (run) => {
+    try {
+      const { stats, savedRecords } = await loadHistoryView(run);
+      setBaseline({ label: run.label, logType: run.logType, analysisId: run.id, summaryStats: stats, records: savedRecords, isSnapshot: !run.recordsComplete });
+    } catch (e) {
+      setHistoryError(e.message);
+    }
+  };
+
+  const handleRenameRun = (id, label) => {
+    renameRun(id, label).catch(e => setHistoryError(e.message)).finally(refreshHistory);
+  };
+
+  const handleDeleteRun = (run) => {
+    if (!confirm(`'${run.label}' 분석 기록을 삭제할까요?`)) return;
+    deleteRun(run.id).catch(e => setHistoryError(e.message)).finally(refreshHistory);
+  };
+
+  // 새 범위는 현재 범위 안으로 제한하며, 현재 범위와 같으면 쌓지 않습니다.
+  const pushTimeRange = (range) => {
+    if (snapshotRun) return;
+    const from = timeRange ? Math.max(range.from, timeRange.from) : range.from;
+    const to = timeRange ? Math.min(range.to, timeRange.to) : range.to;
+    if (!(to > from) || (timeRange && from === timeRange.from && to === timeRange.to)) return;
+    setRangeStack(prev => [...prev, { from, to }]);
+  };
+
+  // TPS 차트에서 드래그한 구간. 점 하나가 여러 초를 묶고 있을 수 있어 끝 점의 폭만큼 범위를 넓힙니다.
+  const handleTpsDragEnd = () => {
+    if (!tpsDrag) return;
+    setTpsDrag(null);
+    const { tpsData } = fullStats;
+    const step = tpsData.length > 1 ? tpsData[1].time - tpsData[0].time : 1000;
+    const from = Math.min(tpsDrag.start, tpsDrag.end);
+    const to = Math.max(tpsDrag.start, tpsDrag.end) + step;
+    if (tpsDrag.start !== tpsDrag.end) pushTimeRange({ from, to });
+  };
+
+  const tpsTimeAt = (state) => {
+    const index = Number(state?.activeTooltipIndex);
+    return Number.isInteger(index) ? fullStats.tpsData[index]?.time : undefined;
+  };
+
+  // 실시간 모드: 현재 선택한 로그 타입/포맷으로 스트림을 해석합니다. 화면은 LIVE_REFRESH_MS마다 최근 구간으로 다시 집계합니다.
+  const startLive = () => {
+    const url = liveUrl.trim();
+    resetState();
+    setPendingUpload(null);
+    const aggregator = createLiveAggregator({ logType, customFormat: activeCustomFormat, durationUnit, routeConfig }, url.replace(/^\w+:\/\//, '').split('/')[0]);
+    const live = { source: null, aggregator, isDirty: false };
+    try {
+      live.source = openLineSource(
+        url,
+        (lines) => { aggregator.push(lines); live.isDirty = true; },
+        (status, message = '') => { if (liveRef.current === live) setLiveSession(prev => prev && { ...prev, status, message }); }
+      );
+    } catch (e) {
+      alert(e.message);
+      return;
+    }
+    liveRef.current = live;
+    saveLiveUrl(url);
+    setAnalysisLabel(`실시간 • ${url}`);
+    setAnalysisId(Date.now());
+    setLiveSession({ url, status: 'connecting', message: '', paused: false, stopped: false, totals: { ...aggregator.totals } });
+  };
+
+  const stopLive = () => {
+    closeLiveSource();
+    setLiveSession(prev => prev && { ...prev, stopped: true, message: '' });
+  };
+
+  const handleChangeLiveWindow = (minutes) => {
+    setLiveWindow(minutes);
+    if (liveRef.current) liveRef.current.isDirty = true;
+  };
+
+  const cancelAnalysis = () => {
+    analysisRef.current?.cancel();
   };
 
   const handleSort = (key) => {
     setSortConfig(prev => ({ key, direction: prev.key === key && prev.direction === 'asc' ? 'desc' : 'asc' }));
   };
 
-  const sortedAndFilteredLogs = useMemo(() => {
-    let result = [...logs];
-    if (searchTerm) result = result.filter(l => l.url.toLowerCase().includes(searchTerm.toLowerCase()));
-    result.sort((a, b) => {
-      const aVal = a[sortConfig.key];
-      const bVal = b[sortConfig.key];
-      if (aVal < bVal) return sortConfig.direction === 'asc' ? -1 : 1;
-      if (aVal > bVal) return sortConfig.direction === 'asc' ? 1 : -1;
-      return 0;
+  const logQuery = useMemo(() => parseLogQuery(searchTerm, settings.timeZone), [searchTerm, settings.timeZone]);
+  const debouncedQuery = useDebouncedValue(searchTerm, SEARCH_DEBOUNCE_MS);
+
+  // 결과가 있는 동안 상세 목록 워커를 하나 두고, 필터/질의/정렬은 워커에서 계산해 행 순번만 받습니다.
+  // 레코드가 바뀌면(새 분석, 실시간 갱신) 같은 워커에 다시 넘깁니다.
+  const hasRecords = !!records;
+  useEffect(() => {
+    if (!hasRecords) return;
+    const client = createDetailsClient();
+    setDetailsClient(client);
+    return () => {
+      client.terminate();
+      setDetailsClient(null);
+    };
+  }, [hasRecords]);
+
+  useEffect(() => {
+    if (detailsClient && records) detailsClient.load(records);
+  }, [detailsClient, records]);
+
+  useEffect(() => {
+    if (!detailsClient) {
+      setDetailRowIds(new Int32Array(0));
+      return;
+    }
+    let isCurrent = true;
+    setIsDetailLoading(true);
+    detailsClient.select({
+      slowThresholdMs: settings.slowThresholdMs,
+      range: timeRange,
+      detailFilter,
+      sourceFilter,
+      query: debouncedQuery,
+      timeZone: settings.timeZone,
+      sortKey: sortConfig.key,
+      sortDirection: sortConfig.direction
+    }).then(ids => {
+      if (isCurrent) setDetailRowIds(ids);
+    }).catch(() => {
+      // 조회가 실패하면 이전 조건의 목록을 남기지 않습니다.
+      if (isCurrent) setDetailRowIds(new Int32Array(0));
+    }).finally(() => {
+      if (isCurrent) setIsDetailLoading(false);
     });
-    return result;
-  }, [logs, searchTerm, sortConfig]);
+    return () => { isCurrent = false; };
+  }, [detailsClient, records, settings.slowThresholdMs, settings.timeZone, timeRange, detailFilter, sourceFilter, debouncedQuery, sortConfig]);
+
+  const selectedRecord = useMemo(
+    () => records && selectedRecordId !== null && selectedRecordId <= records.length ? readRecord(records, selectedRecordId - 1) : null,
+    [records, selectedRecordId]
+  );
+  const closeRecordDrawer = useCallback(() => setSelectedRecordId(null), []);
+
+  // 표에 보이는 그대로(필터/질의/정렬 적용) 내보냅니다.
+  const downloadCSV = useCallback(() => {
+    if (!detailRowIds.length) return;
+    const headers = ["No", "Timestamp", "Raw Timestamp", "Source", "Method", "Status", "Target (URL/SQL)", "Raw URL", "SQL", "ResponseTime(ms)"];
+    if (sqlCorrelation) headers.push("SQL Time(ms)", "SQL Count");
+    const rows = Array.from(detailRowIds, (recordIndex, i) => {
+      const l = readRecord(records, recordIndex);
+      const row = [
+        i + 1,
+        formatDetailTime(l),
+        l.rawTimestamp,
+        l.source,
+        l.method,
+        l.status,
+        l.url,
+        l.rawUrl,
+        l.statement || '',
+        l.responseTime === null ? '' : (l.responseTime * 1000).toFixed(2)
+      ];
+      if (sqlCorrelation) {
+        const link = sqlCorrelation.byRequest.get(recordIndex);
+        row.push(link ? (link.time * 1000).toFixed(2) : '', link ? link.count : 0);
+      }
+      return row;
+    });
+    
+    const csvContent = [headers, ...rows].map(row => row.map(csvCell).join(",")).join("\n");
+    downloadText("\uFEFF" + csvContent, `${logQuery.isEmpty ? '' : 'filtered_'}slow_logs_over_${settings.slowThresholdMs}ms_${logType}_${new Date().toISOString().split('T')[0]}.csv`, 'text/csv;charset=utf-8;');
+  }, [detailRowIds, records, logQuery, logType, settings, formatDetailTime, sqlCorrelation]);
+
+  const isMultiSource = fullStats?.sourceStats.length > 1;
+  const isComparing = baseline && summaryStats && baseline.analysisId !== analysisId;
+  const thresholdLabel = formatDurationMs(settings.slowThresholdMs);
+  // 로그가 하루를 넘기면 축 눈금에 날짜를 함께 표시합니다.
+  const isMultiDay = fullStats && spansMultipleDays(fullStats.tpsData.map(d => d.time), settings.timeZone);
+  const formatAxisTime = (time) => formatInstant(time, settings.timeZone, isMultiDay ? 'minute' : 'clock');
+  const formatTooltipTime = (time) => formatInstant(time, settings.timeZone);
+  // 템플릿 치환으로 합쳐진 경로가 있을 때만 원본 경로 보기를 제공합니다.
+  const hasRawView = summaryStats && summaryStats.rawView.uniqueApis !== summaryStats.uniqueApis;
+  const apiView = hasRawView && routeView === 'raw' ? summaryStats.rawView : summaryStats;
+  // 지연/호출 빈도 차트나 API 표에서 고른 엔드포인트의 상세 화면을 엽니다. (보고 있는 경로 보기 기준)
+  const openDrilldown = snapshotRun ? null : (name) => setDrilldownEndpoint({ name, column: hasRawView && routeView === 'raw' ? 'rawUrl' : 'url' });
+  // 백분위 차트는 구간 축(범주형)이라 이상 구간의 첫/마지막 구간이 화면 데이터에 있을 때만 표시합니다.
+  const latencyTimes = new Set(summaryStats?.latencyTimeline.map(d => d.time));
+  const latencyAnomalies = anomalies.filter(a => latencyTimes.has(a.from) && latencyTimes.has(a.to - summaryStats.intervalMinutes * 60000));
+
+  // 리포트는 현재 화면(선택한 시간 범위, 경로 보기, 설정) 그대로 만듭니다.
+  const buildReportInput = () => ({
+    meta: {
+      generatedAt: Date.now(),
+      label: analysisLabel,
+      files: analysisFiles,
+      logType,
+      logTypeLabel: getTypeLabel(logType),
+      rateLabel: logType === 'sql_logback' ? 'QPS' : 'TPS',
+      timeZone: settings.timeZone,
+      range: timeRange,
+      dataSpan: getDataSpan(summaryStats.tpsData),
+      slowThresholdMs: settings.slowThresholdMs,
+      bucketEdgesMs: settings.bucketEdgesMs,
+      intervalMinutes: settings.intervalMinutes,
+      routeView: hasRawView && routeView === 'raw' ? 'raw' : 'template'
+    },
+    stats: summaryStats,
+    apiView,
+    topSlow: records ? topSlowRecords(records, REPORT_TOP_N, timeRange) : [],
+    slo: sloResults
+  });
+
+  const handleExportReport = (format) => {
+    const input = buildReportInput();
+    const fileBase = `log_report_${logType}_${new Date().toISOString().split('T')[0]}`;
+    if (format === 'html') downloadText(buildHtmlReport(input), `${fileBase}.html`, 'text/html;charset=utf-8;');
+    else if (format === 'json') downloadText(buildJsonReport(input), `${fileBase}.json`, 'application/json;charset=utf-8;');
+    else downloadText(buildMarkdownReport(input), `${fileBase}.md`, 'text/markdown;charset=utf-8;');
+  };
+
+  const copyMarkdownReport = () => navigator.clipboard.writeText(buildMarkdownReport(buildReportInput()));
 
   const getIntensityColor = (val, max) => {
     if (!val || val === 0) return 'text-slate-200';
@@ -286,7 +654,12 @@ const App = () => {
   };
 
   return (
-    <div className="min-h-screen bg-slate-50 p-4 md:p-8 font-sans text-slate-900">
+    <div
+      className={`min-h-screen bg-slate-50 p-4 md:p-8 font-sans text-slate-900 ${isDragging ? 'ring-4 ring-inset ring-blue-400' : ''}`}
+      onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+      onDragLeave={(e) => { if (e.currentTarget === e.target) setIsDragging(false); }}
+      onDrop={handleDrop}
+    >
       <header className="max-w-7xl mx-auto mb-8 flex flex-col md:flex-row md:items-center justify-between gap-6">
         <div className="flex items-center gap-4">
           <div className="p-3 bg-blue-600 rounded-2xl shadow-lg shadow-blue-200">
@@ -310,21 +683,139 @@ const App = () => {
             ].map(type => (
               <button 
                 key={type.id}
-                onClick={() => { setLogType(type.id); resetState(); }}
+                onClick={() => handleSelectLogType(type.id)}
                 className={`flex items-center gap-2 px-4 py-2 rounded-lg text-xs font-bold transition-all ${logType === type.id ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
               >
                 {type.icon} {type.label}
               </button>
             ))}
+            {customFormats.map(format => (
+              <div
+                key={format.id}
+                className={`flex items-center rounded-lg text-xs font-bold transition-all ${logType === CUSTOM_TYPE_PREFIX + format.id ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                <button onClick={() => handleSelectLogType(CUSTOM_TYPE_PREFIX + format.id)} className="flex items-center gap-2 pl-4 pr-1 py-2" title={format.pattern}>
+                  <Wand2 size={14}/> {format.name}
+                </button>
+                <button onClick={() => handleDeleteCustomFormat(format.id)} className="pr-3 pl-1 py-2 text-slate-300 hover:text-red-500" title="포맷 삭제">
+                  <X size={12}/>
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => setIsFormatEditorOpen(true)}
+              className="flex items-center gap-1 px-3 py-2 rounded-lg text-xs font-bold text-slate-400 hover:text-blue-600 transition-all"
+              title="사용자 정의 포맷 추가"
+            >
+              <Plus size={14}/>
+            </button>
           </div>
+          <button
+            onClick={() => setIsRouteEditorOpen(true)}
+            className={`flex items-center gap-2 px-3 py-2.5 rounded-xl text-xs font-bold transition-all hover:bg-slate-100 ${routeConfig.templates.length > 0 ? 'text-blue-600' : 'text-slate-500'}`}
+            title="URL 경로 템플릿"
+          >
+            <Route size={16}/> 경로 템플릿
+          </button>
+          <button
+            onClick={() => setIsLiveOpen(true)}
+            className={`flex items-center gap-2 px-3 py-2.5 rounded-xl text-xs font-bold transition-all hover:bg-slate-100 ${isLiveActive ? 'text-rose-500' : 'text-slate-500'}`}
+            title="스트림에서 실시간으로 로그 받기"
+          >
+            <Radio size={16}/> 실시간
+          </button>
           <label className="flex items-center gap-2 bg-slate-900 hover:bg-black text-white px-5 py-2.5 rounded-xl cursor-pointer transition-all shadow-md font-bold active:scale-95 group">
             <Upload size={18} className="group-hover:translate-y-[-2px] transition-transform" />
             <span>파일 업로드</span>
-            <input type="file" className="hidden" onChange={handleFileUpload} accept=".log,.txt" />
+            <input type="file" className="hidden" onChange={handleFileUpload} accept=".log,.txt,.out,.gz,.zip" multiple />
           </label>
         </div>
       </header>
 
+      {(isLiveOpen || liveSession) && (
+        <LiveTailBar
+          session={liveSession}
+          url={liveUrl}
+          onChangeUrl={setLiveUrl}
+          windowMinutes={liveWindow}
+          onChangeWindow={handleChangeLiveWindow}
+          typeLabel={getTypeLabel(logType)}
+          isFrozenByDrawer={selectedRecordId !== null}
+          onStart={startLive}
+          onTogglePause={() => setLiveSession(prev => ({ ...prev, paused: !prev.paused }))}
+          onStop={stopLive}
+          onClose={() => { setIsLiveOpen(false); if (liveSession) resetState(); }}
+        />
+      )}
+
+      {isFormatEditorOpen && (
+        <CustomFormatEditor onSave={handleSaveCustomFormat} onClose={() => setIsFormatEditorOpen(false)} />
+      )}
+
+      {isSloEditorOpen && (
+        <SloEditor slos={slos} onSave={handleSaveSlos} onClose={() => setIsSloEditorOpen(false)} />
+      )}
+
+      {isRouteEditorOpen && (
+        <RouteTemplateEditor config={routeConfig} onSave={handleSaveRouteConfig} onClose={() => setIsRouteEditorOpen(false)} />
+      )}
+
+      {endpointDrilldown && (
+        <EndpointDrilldown
+          drilldown={endpointDrilldown}
+          records={records}
+          timeZone={settings.timeZone}
+          timestampMark={getTimestampMark(logType)}
+          rateLabel={logType === 'sql_logback' ? 'QPS' : 'TPS'}
+          formatDetailTime={formatDetailTime}
+          onSelectRecord={setSelectedRecordId}
+          onClose={() => setDrilldownEndpoint(null)}
+        />
+      )}
+
+      {selectedRecord && (
+        <RecordDrawer
+          log={selectedRecord}
+          entries={analysisEntries}
+          formatDetailTime={formatDetailTime}
+          onClose={closeRecordDrawer}
+          requestSql={sqlCorrelation && readRequestSql(sqlCorrelation, sqlRun.records, selectedRecord.id - 1)}
+          sqlLinkMode={sqlCorrelation?.mode}
+        />
+      )}
+
+      {pendingUpload?.savedRun && !isProcessing && (
+        <div className="max-w-3xl mx-auto mb-4 bg-blue-50 px-5 py-3 rounded-2xl border border-blue-200 flex flex-wrap items-center gap-3 text-xs text-blue-800">
+          <History size={14} className="shrink-0" />
+          <span>
+            같은 파일을 {new Date(pendingUpload.savedRun.createdAt).toLocaleString()}에 분석한 기록(<span className="font-bold">{pendingUpload.savedRun.label}</span>)이 있습니다.
+          </span>
+          <button
+            onClick={() => handleOpenRun(pendingUpload.savedRun)}
+            className="ml-auto px-3 py-1.5 rounded-xl font-bold text-white bg-blue-600 hover:bg-blue-700 transition-all"
+          >
+            저장된 분석 열기
+          </button>
+        </div>
+      )}
+
+      {pendingUpload && !isProcessing && (
+        <FormatDetectionPanel
+          entries={pendingUpload.entries}
+          candidates={pendingUpload.candidates}
+          sampleSize={pendingUpload.sampleSize}
+          selectedType={logType}
+          onSelectType={handleSelectLogType}
+          durationUnit={durationUnit}
+          onChangeUnit={setDurationUnit}
+          onStart={startAnalysis}
+          onCancel={() => setPendingUpload(null)}
+          sqlEntries={pendingUpload.sqlSplit?.sql}
+          correlateSql={pendingUpload.correlateSql}
+          onToggleCorrelateSql={(checked) => setPendingUpload(prev => ({ ...prev, correlateSql: checked }))}
+        />
+      )}
+
       {isProcessing && (
         <div className="flex flex-col justify-center items-center py-20 bg-white rounded-3xl shadow-sm border border-slate-100 max-w-7xl mx-auto">
           <div className="relative w-28 h-28 mb-8">
@@ -336,34 +827,143 @@ const App = () => {
              </div>
           </div>
           <h2 className="text-xl text-slate-800 font-black mb-2">대용량 스트리밍 분석 중...</h2>
-          <p className="text-slate-400 text-sm max-w-md text-center">200ms 이상 지연 건을 선별하고 있습니다. 잠시만 기다려 주세요.</p>
+          <p className="text-slate-400 text-sm max-w-md text-center">{thresholdLabel} 이상 지연 건을 선별하고 있습니다. 잠시만 기다려 주세요.</p>
+          <button
+            onClick={cancelAnalysis}
+            className="mt-8 inline-flex items-center gap-2 bg-white border border-slate-200 text-slate-500 px-6 py-3 rounded-2xl font-bold hover:bg-slate-50 hover:text-red-600 transition-all active:scale-95"
+          >
+            <XCircle size={18} />
+            분석 취소
+          </button>
         </div>
       )}
 
       {summaryStats && !isProcessing && (
         <main className="max-w-7xl mx-auto space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+          {snapshotRun ? (
+            <div className="bg-amber-50 px-5 py-3 rounded-2xl border border-amber-200 flex flex-wrap items-center gap-3 text-xs text-amber-800">
+              <Camera size={14} className="shrink-0" />
+              <span className="font-bold">저장된 스냅샷</span>
+              <span>
+                지연 기준 {formatDurationMs(snapshotRun.settings.slowThresholdMs)} • {getIntervalLabel(snapshotRun.settings.intervalMinutes)} •
+                지연/실패 요청만 저장되어 저장 당시 설정으로만 볼 수 있으며 시간 범위 선택과 원본 줄 보기는 지원하지 않습니다.
+              </span>
+            </div>
+          ) : (
+            <AnalysisSettingsBar settings={settings} onChange={handleChangeSettings} />
+          )}
+
+          {fullStats.diagnostics && <CoverageWarning diagnostics={fullStats.diagnostics} typeLabel={getTypeLabel(logType)} />}
+
+          {rangeStack.length > 0 && (
+            <TimeRangeBreadcrumb
+              ranges={rangeStack}
+              timeZone={settings.timeZone}
+              totalRequests={summaryStats.totalRequests}
+              onSelect={(idx) => setRangeStack(prev => prev.slice(0, idx + 1))}
+              onReset={() => setRangeStack([])}
+            />
+          )}
+
+          {/* Baseline Comparison */}
+          <div className="flex items-center justify-end gap-3 text-xs font-bold">
+            <ReportExportMenu onExport={handleExportReport} onCopyMarkdown={copyMarkdownReport} />
+            {baseline && !isComparing && (
+              <span className="text-violet-600">기준선으로 고정됨 • 비교할 로그를 업로드하세요</span>
+            )}
+            {baseline && isComparing && baseline.logType !== logType && (
+              <span className="flex items-center gap-1 text-amber-600"><AlertTriangle size={14}/> 기준선과 로그 타입이 다릅니다</span>
+            )}
+            {!isComparing && (
+              <button
+                onClick={() => setBaseline({ label: analysisLabel, logType, analysisId, summaryStats: fullStats, records })}
+                disabled={baseline?.analysisId === analysisId}
+                className="inline-flex items-center gap-2 bg-white border border-slate-200 text-slate-500 px-4 py-2 rounded-xl hover:text-violet-600 hover:border-violet-300 transition-all disabled:opacity-40 disabled:pointer-events-none"
+              >
+                <Pin size={14}/> 기준선으로 고정
+              </button>
+            )}
+          </div>
+
+          {isComparing && (
+            <ComparisonPanel
+              baseline={baseline}
+              current={summaryStats}
+              currentLabel={analysisLabel}
+              rateLabel={logType === 'sql_logback' ? 'QPS' : 'TPS'}
+              onClear={() => setBaseline(null)}
+            />
+          )}
+
           {/* Top Stats */}
-          <section className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <section className={`grid grid-cols-1 md:grid-cols-2 gap-4 ${logType === 'sql_logback' ? 'lg:grid-cols-4' : 'lg:grid-cols-5'}`}>
             <StatCard icon={<FileText className="text-blue-500" />} label={logType === 'sql_logback' ? "쿼리 실행" : "전체 요청"} value={summaryStats.totalRequests.toLocaleString()} />
             <StatCard icon={<Timer className="text-orange-500" />} label="평균 응답시간" value={summaryStats.avgResponseTime + "s"} />
-            <StatCard icon={<Globe className="text-indigo-500" />} label={logType === 'sql_logback' ? "유니크 쿼리" : "유니크 경로"} value={summaryStats.uniqueApis.toLocaleString()} />
+            <StatCard icon={<Globe className="text-indigo-500" />} label={logType === 'sql_logback' ? "유니크 쿼리" : "유니크 경로"} value={apiView.uniqueApis.toLocaleString()} />
             <StatCard icon={<Activity className="text-emerald-500" />} label="최고 부하 (Peak)" value={summaryStats.maxTps + (logType === 'sql_logback' ? " QPS" : " TPS")} />
+            {logType !== 'sql_logback' && (
+              <StatCard icon={<ShieldAlert className="text-red-500" />} label="에러율 (4xx/5xx)" value={summaryStats.errorRate + "%"} />
+            )}
           </section>
 
+          {fullStats.diagnostics && (
+            <DiagnosticsPanel key={analysisId} diagnostics={fullStats.diagnostics} auxiliaryLabel="SQL 준비/파라미터 줄" />
+          )}
+
+          {isMultiSource && (
+            <SourceBreakdown stats={summaryStats.sourceStats} colors={COLORS} rateLabel={logType === 'sql_logback' ? 'QPS' : 'TPS'} />
+          )}
+
+          <AnomalyPanel
+            anomalies={anomalies}
+            intervalLabel={getIntervalLabel(fullStats.intervalMinutes)}
+            timeZone={settings.timeZone}
+            hasContributors={!snapshotRun}
+            onSelect={snapshotRun ? null : (a) => pushTimeRange({ from: a.from, to: a.to })}
+          />
+
+          {!snapshotRun && (
+            <SloPanel
+              results={sloResults}
+              intervalMinutes={summaryStats.intervalMinutes}
+              timeZone={settings.timeZone}
+              onEdit={() => setIsSloEditorOpen(true)}
+              onSelectRange={pushTimeRange}
+            />
+          )}
+
           {/* TPS Chart */}
           <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200">
             <div className="flex justify-between items-center mb-6">
                <h3 className="text-lg font-bold flex items-center gap-2">
                  <Clock className="text-blue-500" />
                  시간대별 트래픽 추이 ({logType === 'sql_logback' ? 'QPS' : 'TPS'})
+                 <span className="text-[10px] font-medium text-slate-400">드래그하여 구간 선택</span>
                </h3>
-               <div className="flex items-center gap-2 text-[10px] font-bold text-slate-400 border border-slate-100 px-3 py-1 rounded-full uppercase">
-                 <Info size={12}/> {summaryStats.tpsData.length} Data Points
+               <div className="flex items-center gap-2">
+                 {isMultiSource && (
+                   <button
+                     onClick={() => setShowTpsBySource(v => !v)}
+                     className={`text-[10px] font-bold px-3 py-1 rounded-full uppercase border transition-all ${showTpsBySource ? 'bg-blue-600 text-white border-blue-600' : 'text-slate-400 border-slate-100 hover:text-blue-600'}`}
+                   >
+                     By Source
+                   </button>
+                 )}
+                 <div className="flex items-center gap-2 text-[10px] font-bold text-slate-400 border border-slate-100 px-3 py-1 rounded-full uppercase">
+                   <Info size={12}/> {fullStats.tpsData.length} Data Points
+                 </div>
                </div>
             </div>
             <div className="h-[280px] w-full">
               <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={summaryStats.tpsData}>
+                <AreaChart
+                  data={fullStats.tpsData}
+                  onMouseDown={(state) => { const t = tpsTimeAt(state); if (t !== undefined && !snapshotRun) setTpsDrag({ start: t, end: t }); }}
+                  onMouseMove={(state) => { const t = tpsTimeAt(state); if (tpsDrag && t !== undefined) setTpsDrag({ ...tpsDrag, end: t }); }}
+                  onMouseUp={handleTpsDragEnd}
+                  onMouseLeave={() => setTpsDrag(null)}
+                  className="select-none cursor-crosshair"
+                >
                   <defs>
                     <linearGradient id="colorTps" x1="0" y1="0" x2="0" y2="1">
                       <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.2}/>
@@ -371,10 +971,23 @@ const App = () => {
                     </linearGradient>
                   </defs>
                   <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-                  <XAxis dataKey="time" hide={summaryStats.tpsData.length > 200} tick={{fontSize: 10}} />
+                  <XAxis dataKey="time" type="number" scale="time" domain={['dataMin', 'dataMax']} tick={{fontSize: 10}} tickFormatter={formatAxisTime} minTickGap={40} />
                   <YAxis tick={{fontSize: 10}} />
-                  <Tooltip contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)' }} />
-                  <Area type="monotone" dataKey="tps" stroke="#3b82f6" strokeWidth={3} fillOpacity={1} fill="url(#colorTps)" dot={false} />
+                  <Tooltip contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)' }} labelFormatter={formatTooltipTime} />
+                  {anomalies.map(a => (
+                    <ReferenceArea key={`${a.kind}-${a.from}`} x1={a.from} x2={a.to} fill={ANOMALY_KINDS[a.kind].color} fillOpacity={0.12} ifOverflow="hidden" />
+                  ))}
+                  {timeRange && <ReferenceArea x1={timeRange.from} x2={timeRange.to} fill="#3b82f6" fillOpacity={0.08} stroke="#3b82f6" strokeOpacity={0.3} ifOverflow="hidden" />}
+                  {tpsDrag && <ReferenceArea x1={Math.min(tpsDrag.start, tpsDrag.end)} x2={Math.max(tpsDrag.start, tpsDrag.end)} fill="#3b82f6" fillOpacity={0.2} />}
+                  {isMultiSource && showTpsBySource ? fullStats.sourceStats.map((s, idx) => (
+                    <Area
+                      key={s.source} name={s.source} type="monotone" stackId="sources"
+                      dataKey={(d) => d.sources[s.source] || 0}
+                      stroke={COLORS[idx % COLORS.length]} fill={COLORS[idx % COLORS.length]} fillOpacity={0.15} strokeWidth={2} dot={false}
+                    />
+                  )) : (
+                    <Area type="monotone" dataKey="tps" stroke="#3b82f6" strokeWidth={3} fillOpacity={1} fill="url(#colorTps)" dot={false} />
+                  )}
                 </AreaChart>
               </ResponsiveContainer>
             </div>
@@ -385,16 +998,16 @@ const App = () => {
              <div className="flex items-center justify-between mb-6">
                 <div className="flex items-center gap-2">
                    <TableIcon className="text-blue-600" size={20} />
-                   <h3 className="text-lg font-bold">5분 주기 응답 시간 분포 (히트맵)</h3>
+                   <h3 className="text-lg font-bold">{getIntervalLabel(summaryStats.intervalMinutes)} 주기 응답 시간 분포 (히트맵)</h3>
                 </div>
-                <div className="text-[10px] text-slate-400 font-mono italic">Percentage of interval total</div>
+                <div className="text-[10px] text-slate-400 font-mono italic">Percentage of interval total • 행을 클릭하면 해당 구간으로 좁힙니다</div>
              </div>
              <div className="overflow-x-auto">
                 <table className="w-full text-center text-[11px] border-collapse min-w-[800px]">
                    <thead>
                       <tr className="bg-slate-50 border-b border-slate-100 text-slate-500 font-bold uppercase tracking-wider">
                          <th className="px-6 py-4 text-left w-48">Interval</th>
-                         {BUCKET_CONFIG.map(b => (
+                         {summaryStats.bucketConfig.map(b => (
                            <th key={b.key} className="px-2 py-4 border-l border-slate-100">{b.label}</th>
                          ))}
                          <th className="px-4 py-4 border-l border-slate-100 bg-slate-100/50">Total</th>
@@ -402,11 +1015,22 @@ const App = () => {
                    </thead>
                    <tbody className="divide-y divide-slate-50">
                       {summaryStats.distributionStats.map((row, idx) => {
-                        const rowTotal = BUCKET_CONFIG.reduce((acc, b) => acc + row[b.key], 0);
+                        const rowTotal = summaryStats.bucketConfig.reduce((acc, b) => acc + row[b.key], 0);
+                        const anomaly = findAnomalyAt(anomalies, row.time);
                         return (
-                          <tr key={idx} className="hover:bg-slate-50 transition-colors group">
-                            <td className="px-6 py-3 text-left font-mono font-bold text-slate-600 bg-slate-50/30 group-hover:bg-slate-100 transition-colors">{row.time}</td>
-                            {BUCKET_CONFIG.map(b => {
+                          <tr
+                            key={idx} className="hover:bg-slate-50 transition-colors group cursor-pointer"
+                            onClick={() => pushTimeRange({ from: row.time, to: row.time + summaryStats.intervalMinutes * 60000 })}
+                          >
+                            <td
+                              className="px-6 py-3 text-left font-mono font-bold text-slate-600 bg-slate-50/30 group-hover:bg-slate-100 transition-colors"
+                              style={anomaly ? { boxShadow: `inset 4px 0 0 ${ANOMALY_KINDS[anomaly.kind].color}` } : undefined}
+                              title={anomaly ? ANOMALY_KINDS[anomaly.kind].label : undefined}
+                            >
+                              {formatInstant(row.time, settings.timeZone, 'minute')}
+                              {anomaly && <span className="block text-[9px] font-sans font-black" style={{ color: ANOMALY_KINDS[anomaly.kind].color }}>{ANOMALY_KINDS[anomaly.kind].label}</span>}
+                            </td>
+                            {summaryStats.bucketConfig.map(b => {
                               const val = row[b.key];
                               const pct = rowTotal > 0 ? Math.round((val / rowTotal) * 100) : 0;
                               return (
@@ -429,22 +1053,73 @@ const App = () => {
              </div>
           </div>
 
+          {/* Latency Percentile Timeline */}
+          <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200">
+            <div className="flex justify-between items-center mb-6">
+               <h3 className="text-lg font-bold flex items-center gap-2">
+                 <Timer className="text-orange-500" />
+                 {getIntervalLabel(summaryStats.intervalMinutes)} 주기 지연 시간 백분위 (p50 / p95 / p99)
+               </h3>
+               <div className="flex items-center gap-2 text-[10px] font-bold text-slate-400 border border-slate-100 px-3 py-1 rounded-full uppercase">
+                 <Info size={12}/> {summaryStats.latencyTimeline.length} Intervals
+               </div>
+            </div>
+            <div className="h-[280px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={summaryStats.latencyTimeline}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="time" tick={{fontSize: 10}} tickFormatter={formatAxisTime} minTickGap={40} />
+                  <YAxis tick={{fontSize: 10}} tickFormatter={(v) => `${Math.round(v * 1000)}ms`} />
+                  <Tooltip
+                    contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)' }}
+                    formatter={(v: number) => `${(v * 1000).toFixed(2)}ms`}
+                    labelFormatter={formatTooltipTime}
+                  />
+                  {latencyAnomalies.map(a => (
+                    <ReferenceArea key={`${a.kind}-${a.from}`} x1={a.from} x2={a.to - summaryStats.intervalMinutes * 60000} fill={ANOMALY_KINDS[a.kind].color} fillOpacity={0.12} ifOverflow="hidden" />
+                  ))}
+                  <Line type="monotone" dataKey="p50" stroke="#3b82f6" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="p95" stroke="#f59e0b" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="p99" stroke="#ef4444" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="max" stroke="#fda4af" strokeWidth={1} strokeDasharray="4 4" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {hasRawView && (
+            <div className="flex justify-end">
+              <div className="flex bg-white p-1 rounded-xl border border-slate-200 shadow-sm text-xs font-bold">
+                {[['template', '템플릿 경로'], ['raw', '원본 경로']].map(([key, label]) => (
+                  <button
+                    key={key}
+                    onClick={() => setRouteView(key)}
+                    className={`px-4 py-1.5 rounded-lg transition-all ${routeView === key ? 'bg-slate-900 text-white' : 'text-slate-500 hover:text-slate-700'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Slow APIs Bar Chart */}
             <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-200">
               <h3 className="text-lg font-bold mb-6 flex items-center gap-2">
                 <ZapOff className="text-red-500" />
                 지연 시간 상위 API (Avg Response)
+                {openDrilldown && <span className="text-[10px] font-medium text-slate-400">막대를 클릭하면 상세 화면</span>}
               </h3>
               <div className="h-[450px]">
                 <ResponsiveContainer width="100%" height="100%">
-                  <BarChart data={summaryStats.topSlowApis} layout="vertical" margin={{ left: 20 }}>
+                  <BarChart data={apiView.topSlowApis} layout="vertical" margin={{ left: 20 }}>
                     <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f1f5f9" />
                     <XAxis type="number" tick={{fontSize: 10}} />
                     <YAxis type="category" dataKey="name" width={160} tick={{ fontSize: 9, fontWeight: 'bold' }} />
                     <Tooltip content={<CustomChartTooltip />} />
-                    <Bar dataKey="avgTime" radius={[0, 4, 4, 0]} barSize={16}>
-                      {summaryStats.topSlowApis.map((entry, index) => (
+                    <Bar dataKey="avgTime" radius={[0, 4, 4, 0]} barSize={16} onClick={openDrilldown && ((entry) => openDrilldown(entry.name))} className={openDrilldown ? 'cursor-pointer' : ''}>
+                      {apiView.topSlowApis.map((entry, index) => (
                         <Cell key={`cell-${index}`} fill={index < 3 ? '#ef4444' : '#fca5a5'} />
                       ))}
                     </Bar>
@@ -458,15 +1133,16 @@ const App = () => {
               <h3 className="text-lg font-bold mb-6 flex items-center gap-2">
                 <BarChart3 className="text-emerald-500" />
                 호출 빈도 상위 10건
+                {openDrilldown && <span className="text-[10px] font-medium text-slate-400">막대를 클릭하면 상세 화면</span>}
               </h3>
               <div className="h-[450px]">
                 <ResponsiveContainer width="100%" height="100%">
-                  <BarChart data={summaryStats.topApis} layout="vertical" margin={{ left: 20 }}>
+                  <BarChart data={apiView.topApis} layout="vertical" margin={{ left: 20 }}>
                     <XAxis type="number" hide />
                     <YAxis type="category" dataKey="name" width={160} tick={{ fontSize: 9, fontWeight: 'bold' }} />
                     <Tooltip content={<CustomChartTooltip />} />
-                    <Bar dataKey="count" fill="#10b981" radius={[0, 4, 4, 0]} barSize={16}>
-                       {summaryStats.topApis.map((entry, index) => (
+                    <Bar dataKey="count" fill="#10b981" radius={[0, 4, 4, 0]} barSize={16} onClick={openDrilldown && ((entry) => openDrilldown(entry.name))} className={openDrilldown ? 'cursor-pointer' : ''}>
+                       {apiView.topApis.map((entry, index) => (
                         <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                       ))}
                     </Bar>
@@ -476,89 +1152,111 @@ const App = () => {
             </div>
           </div>
 
+          <ApiLatencyTable stats={apiView.apiLatencyStats} onSelect={openDrilldown} />
+
+          {sqlCorrelation && (
+            <SqlCorrelationPanel
+              correlation={sqlCorrelation}
+              summary={sqlSummary}
+              slowThresholdMs={settings.slowThresholdMs}
+              formatDetailTime={formatDetailTime}
+              onSelectRequest={setSelectedRecordId}
+            />
+          )}
+
+          {summaryStats.sqlShapeStats.length > 0 && <SqlShapeTable stats={summaryStats.sqlShapeStats} />}
+
+          {logType !== 'sql_logback' && (
+            <StatusPanel
+              statusStats={summaryStats.statusStats}
+              statusTimeline={summaryStats.statusTimeline}
+              errorDrilldown={summaryStats.errorDrilldown}
+              topFailingApis={summaryStats.topFailingApis}
+              timeZone={settings.timeZone}
+            />
+          )}
+
+          {logType !== 'sql_logback' && (
+            <ClientTrafficPanel
+              traffic={clientTraffic}
+              topIps={summaryStats.topIps || []}
+              cidrGroups={cidrGroups}
+              onSaveCidrGroups={handleSaveCidrGroups}
+              timeZone={settings.timeZone}
+            />
+          )}
+
           {/* Details Table */}
           <div className="bg-white rounded-3xl shadow-sm border border-slate-200 overflow-hidden">
              <div className="p-6 border-b border-slate-100 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 bg-slate-50/50">
                 <div className="flex items-center gap-3">
                   <div className="p-2 bg-red-100 rounded-lg"><ZapOff className="text-red-600" size={18} /></div>
                   <div>
-                    <h3 className="font-bold text-slate-800">지연 시간 상세 (Duration 200ms 이상)</h3>
-                    <p className="text-[10px] text-slate-500 font-medium">총 {logs.length.toLocaleString()}건이 발견되었습니다.</p>
+                    <h3 className="font-bold text-slate-800">지연 / 실패 상세 (Duration {thresholdLabel} 이상 또는 4xx·5xx)</h3>
+                    <p className="text-[10px] text-slate-500 font-medium">
+                      총 {summaryStats.detailCount.toLocaleString()}건이 발견되었습니다.
+                      {!isDetailLoading && detailRowIds.length !== summaryStats.detailCount && <> (표시 {detailRowIds.length.toLocaleString()}건)</>}
+                    </p>
                   </div>
                 </div>
                 <div className="flex items-center gap-2 w-full sm:w-auto">
-                  <div className="relative flex-1 sm:w-64">
-                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={14} />
-                    <input 
-                      type="text" placeholder="쿼리/API 검색..." 
-                      className="w-full pl-9 pr-4 py-2 bg-white border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all shadow-sm"
-                      value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)}
-                    />
-                  </div>
+                  <select
+                    className="py-2 px-3 bg-white border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 outline-none shadow-sm"
+                    value={detailFilter} onChange={(e) => setDetailFilter(e.target.value)}
+                  >
+                    <option value="all">지연 + 실패</option>
+                    <option value="slow">지연만</option>
+                    <option value="error">실패만</option>
+                  </select>
+                  {isMultiSource && (
+                    <select
+                      className="py-2 px-3 bg-white border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 outline-none shadow-sm"
+                      value={sourceFilter} onChange={(e) => setSourceFilter(e.target.value)}
+                    >
+                      <option value="">전체 소스</option>
+                      {fullStats.sourceStats.map(s => <option key={s.source} value={s.source}>{s.source}</option>)}
+                    </select>
+                  )}
                   <button 
                     onClick={downloadCSV}
                     className="p-2.5 bg-white border border-slate-200 text-slate-600 rounded-xl hover:bg-slate-50 transition-all shadow-sm active:scale-95"
-                    title="CSV로 내보내기"
+                    title="CSV로 내보내기 (현재 필터/정렬 적용)"
                   >
                     <Download size={18} />
                   </button>
                 </div>
              </div>
-             <div className="overflow-x-auto max-h-[600px] border-t border-slate-100">
-               <table className="w-full text-left text-sm border-separate border-spacing-0">
-                  <thead className="bg-slate-50 sticky top-0 shadow-sm z-10">
-                    <tr className="text-slate-500 font-bold text-xs uppercase tracking-tighter">
-                      <th className="px-6 py-4 border-b border-slate-100">No</th>
-                      <th className="px-6 py-4 border-b border-slate-100 cursor-pointer hover:text-blue-600" onClick={() => handleSort('rawTimestamp')}>
-                        Timestamp {sortConfig.key === 'rawTimestamp' && (sortConfig.direction === 'asc' ? '↑' : '↓')}
-                      </th>
-                      <th className="px-6 py-4 border-b border-slate-100 cursor-pointer hover:text-blue-600" onClick={() => handleSort('url')}>
-                        Target (API/SQL) {sortConfig.key === 'url' && (sortConfig.direction === 'asc' ? '↑' : '↓')}
-                      </th>
-                      <th className="px-6 py-4 border-b border-slate-100 text-right cursor-pointer hover:text-blue-600" onClick={() => handleSort('responseTime')}>
-                        Duration {sortConfig.key === 'responseTime' && (sortConfig.direction === 'asc' ? '↑' : '↓')}
-                      </th>
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-slate-100 bg-white">
-                    {sortedAndFilteredLogs.map((log, index) => (
-                      <tr key={`${log.id}-${index}`} className="hover:bg-blue-50/30 transition-colors group">
-                        <td className="px-6 py-3 text-slate-400 font-black text-xs">
-                          {index + 1}
-                        </td>
-                        <td className="px-6 py-3 text-slate-500 text-[11px] font-mono whitespace-nowrap">{log.rawTimestamp}</td>
-                        <td className="px-6 py-3">
-                          <div className="font-bold text-slate-700 truncate max-w-[500px] group-hover:text-blue-700 transition-colors" title={log.url}>
-                            {log.url}
-                          </div>
-                          <div className="text-[10px] text-slate-400 font-mono">{log.method} • {log.ip}</div>
-                        </td>
-                        <td className="px-6 py-3 text-right">
-                           <span className={`inline-block font-mono font-bold px-3 py-1 rounded-full text-xs shadow-sm ${log.responseTime > 5 ? 'bg-rose-500 text-white' : log.responseTime > 1 ? 'bg-orange-100 text-orange-700' : 'bg-blue-50 text-blue-700'}`}>
-                            {(log.responseTime * 1000).toLocaleString(undefined, {minimumFractionDigits: 1})}ms
-                           </span>
-                        </td>
-                      </tr>
-                    ))}
-                    {sortedAndFilteredLogs.length === 0 && (
-                      <tr>
-                        <td colSpan="4" className="px-6 py-20 text-center">
-                          <div className="flex flex-col items-center gap-3 text-slate-300">
-                             <Search size={48} />
-                             <p className="text-slate-400 italic text-sm font-medium">200ms 이상 지연된 건이 없거나 로그가 로드되지 않았습니다.</p>
-                          </div>
-                        </td>
-                      </tr>
-                    )}
-                  </tbody>
-               </table>
+             <div className="px-6 py-3 bg-slate-50/50">
+                <QueryInput
+                  value={searchTerm}
+                  onChange={setSearchTerm}
+                  errors={logQuery.errors}
+                  recentQueries={recentQueries}
+                  onCommit={(query) => { if (parseLogQuery(query, settings.timeZone).errors.length === 0) setRecentQueries(saveRecentQuery(query)); }}
+                />
              </div>
+             {records && (
+               <DetailsTable
+                 records={records}
+                 rowIds={detailRowIds}
+                 isLoading={isDetailLoading}
+                 sortConfig={sortConfig}
+                 onSort={handleSort}
+                 onSelectRow={setSelectedRecordId}
+                 selectedId={selectedRecordId}
+                 formatDetailTime={formatDetailTime}
+                 showStatus={logType !== 'sql_logback'}
+                 isMultiSource={isMultiSource}
+                 getRequestSql={sqlCorrelation ? getRequestSql : null}
+                 emptyMessage={`${thresholdLabel} 이상 지연되거나 실패한 건이 없거나 로그가 로드되지 않았습니다.`}
+               />
+             )}
           </div>
         </main>
       )}
 
       {/* Landing / Empty State */}
-      {!summaryStats && !isProcessing && (
+      {!summaryStats && !isProcessing && !pendingUpload && !liveSession && (
         <div className="max-w-4xl mx-auto mt-16 text-center animate-in zoom-in-95 duration-700">
           <div className="bg-white p-16 border-2 border-dashed border-slate-200 rounded-[3rem] shadow-2xl shadow-slate-200/50 relative overflow-hidden group">
             <div className="absolute top-0 right-0 p-8 opacity-5 group-hover:opacity-10 transition-opacity">
@@ -572,17 +1270,18 @@ const App = () => {
             <h2 className="text-4xl font-black mb-6 text-slate-900 tracking-tight">Performance Analytics Dashboard</h2>
             <p className="text-slate-500 mb-12 leading-relaxed text-lg max-w-2xl mx-auto font-medium">
               로그 파일을 업로드하여 초당 트래픽(TPS/QPS), 응답 시간 분포 히트맵, <br/>
-              그리고 <span className="text-red-500 font-black">200ms 이상 지연된 모든 내역</span>을 즉시 분석하세요.
+              그리고 <span className="text-red-500 font-black">{thresholdLabel} 이상 지연된 모든 내역</span>을 즉시 분석하세요.
             </p>
+            <p className="-mt-8 mb-12 text-slate-400 text-sm font-medium">여러 노드의 로그 파일이나 폴더를 이 화면에 끌어다 놓으면 하나로 병합해 분석합니다.</p>
             
             <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
               <label className="inline-flex items-center gap-3 bg-slate-900 hover:bg-black text-white px-10 py-5 rounded-2xl cursor-pointer shadow-2xl font-black text-xl transition-all hover:scale-105 active:scale-95">
                 <Upload size={24} />
                 분석 시작하기
-                <input type="file" className="hidden" onChange={handleFileUpload} accept=".log,.txt" />
+                <input type="file" className="hidden" onChange={handleFileUpload} accept=".log,.txt,.out,.gz,.zip" multiple />
               </label>
               <button 
-                onClick={() => { setLogType('sql_logback'); resetState(); }} 
+                onClick={() => handleSelectLogType('sql_logback')} 
                 className="inline-flex items-center gap-2 bg-white border border-slate-200 text-slate-500 px-8 py-5 rounded-2xl font-bold hover:bg-slate-50 transition-all active:scale-95"
               >
                 <Trash2 size={20} />
@@ -590,6 +1289,18 @@ const App = () => {
               </button>
             </div>
           </div>
+
+          <HistoryPanel
+            runs={historyRuns}
+            storageEstimate={storageEstimate}
+            error={historyError}
+            baselineId={baseline?.analysisId}
+            typeLabel={getTypeLabel}
+            onOpen={handleOpenRun}
+            onCompare={handleCompareRun}
+            onRename={handleRenameRun}
+            onDelete={handleDeleteRun}
+          />
         </div>
       )}
       
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { parseLogLine, createLineParser, createPartialResult, aggregateLine, buildSummary, mergePartialResults, getParseCoverage, ParserOptions } from './logCore';
+import { DEFAULT_ANALYSIS_SETTINGS } from './analysisSettings';
+
+const SETTINGS = { ...DEFAULT_ANALYSIS_SETTINGS, intervalMinutes: 1, timeZone: 'UTC' };
+
+const analyze = (lines: string[], options: ParserOptions = { logType: 'nginx' }) => {
+  const acc = createPartialResult();
+  const parser = createLineParser(options);
+  for (const line of lines) aggregateLine(acc, line, parser, 'test.log');
+  return acc;
+};
+
+const access = (minute: number, method: string, url: string, status: number, seconds: string) =>
+  `10.0.0.1 - - [10/Oct/2026:10:0${minute}:00 +0000] "${method} ${url} HTTP/1.1" ${status} 100 ${seconds}`;
+
+describe('parseLogLine', () => {
+  it('reads the duration after the size or after the combined fields', () => {
+    expect(parseLogLine(access(0, 'GET', '/a?x=1', 200, '0.125'), 'nginx')).toMatchObject({ url: '/a', status: 200, bytes: 100, responseTime: 0.125 });
+    const combined = '10.0.0.1 - - [10/Oct/2026:10:00:00 +0000] "GET /b HTTP/1.1" 304 - "https://ref/" "Mozilla/5.0" 12';
+    expect(parseLogLine(combined, 'tomcat')).toMatchObject({ status: 304, bytes: 0, referer: 'https://ref/', userAgent: 'Mozilla/5.0', responseTime: 0.012 });
+  });
+
+  it('leaves the duration empty when the line has none', () => {
+    expect(parseLogLine('10.0.0.1 - - [10/Oct/2026:10:00:00 +0000] "GET / HTTP/1.1" 200 5', 'nginx').responseTime).toBeNull();
+  });
+});
+
+describe('status analytics', () => {
+  const result = buildSummary(analyze([
+    access(0, 'GET', '/api/items', 200, '0.010'),
+    access(0, 'GET', '/api/items', 200, '0.020'),
+    access(0, 'POST', '/api/pay', 500, '0.300'),
+    access(1, 'POST', '/api/pay', 502, '0.100'),
+    access(1, 'GET', '/missing', 404, '0.001'),
+    access(1, 'POST', '/api/pay', 201, '0.050'),
+  ]), SETTINGS);
+
+  it('counts codes and the overall error rate', () => {
+    expect(result.statusStats.map(s => [s.status, s.statusClass, s.count])).toEqual([
+      [200, '2xx', 2], [201, '2xx', 1], [404, '4xx', 1], [500, '5xx', 1], [502, '5xx', 1],
+    ]);
+    expect(result.errorRate).toBe('50.00');
+  });
+
+  it('ranks failing endpoints with their error rate', () => {
+    expect(result.topFailingApis.map(a => [a.name, a.errorCount, Math.round(a.errorRate)])).toEqual([
+      ['/api/pay', 2, 67],
+      ['/missing', 1, 100],
+    ]);
+  });
+
+  it('builds a status class timeline and a per-interval error drill-down', () => {
+    const t0 = Date.UTC(2026, 9, 10, 10, 0);
+    expect(result.statusTimeline.map(({ codes, ...row }) => row)).toEqual([
+      { time: t0, '2xx': 2, '3xx': 0, '4xx': 0, '5xx': 1 },
+      { time: t0 + 60000, '2xx': 1, '3xx': 0, '4xx': 1, '5xx': 1 },
+    ]);
+    expect(result.errorDrilldown[t0 + 60000]).toEqual([
+      { name: '/api/pay', codes: { 502: 1 }, errorCount: 1 },
+      { name: '/missing', codes: { 404: 1 }, errorCount: 1 },
+    ]);
+  });
+});
+
+describe('parse diagnostics', () => {
+  const lines = [
+    access(0, 'GET', '/a', 200, '0.010'),
+    'garbage line 1',
+    '',
+    '10.0.0.1 - - [yesterday] "GET /b HTTP/1.1" 200 5 0.1',
+    '10.0.0.1 - - [10/Oct/2026:10:00:00 +0000] "GET /c HTTP/1.1" 200 5',
+    'garbage line 2',
+  ];
+
+  it('sorts non-empty lines into categories and keeps samples', () => {
+    const { diagnostics } = analyze(lines);
+    expect(diagnostics).toMatchObject({ lines: 5, parsed: 3, auxiliary: 0, unmatched: 2, badTimestamp: 1, missingDuration: 1 });
+    expect(diagnostics.samples.unmatched.map(s => [s.text, s.source])).toEqual([['garbage line 1', 'test.log'], ['garbage line 2', 'test.log']]);
+    expect(getParseCoverage(diagnostics)).toBeCloseTo(0.6);
+    expect(getParseCoverage(createPartialResult().diagnostics)).toBeNull();
+  });
+
+  it('merges counts and keeps samples from earlier slices first', () => {
+    const first = analyze(lines.slice(0, 3));
+    const second = analyze(lines.slice(3));
+    const merged = mergePartialResults([first, second]).diagnostics;
+    expect(merged).toMatchObject(analyze(lines).diagnostics);
+    expect(merged.samples.unmatched.map(s => s.text)).toEqual(['garbage line 1', 'garbage line 2']);
+  });
+});
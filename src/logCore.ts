@@ -0,0 +1,512 @@
+import { createSketch, addToSketch, mergeSketch, summarizeSketch, QuantileSketch } from './quantileSketch';
+import { compileCustomFormat, CustomFormat, DURATION_UNITS } from './customFormats';
+import { createRouteNormalizer, RouteConfig } from './routeTemplates';
+import { createStatementTracker } from './sqlStatements';
+import { createTimestampParser } from './timestamps';
+import { AnalysisSettings } from './analysisSettings';
+import { createRecordStore, appendRecord, mergeRecordStores, sliceRecords, getStatusClass, readRecord, getRecordTime, isInRange, RecordStore, TimeRange, LineRef } from './recordStore';
+
+// --- Parsing & Aggregation Core ---
+// UI(React)와 Web Worker 양쪽에서 함께 사용하는 순수 로직 모듈입니다.
+
+export const REGEX = {
+  // common/combined 포맷. 응답 시간은 크기 바로 뒤, 또는 combined의 "referer" "user-agent"(와 이어지는 따옴표 필드) 뒤에 올 수 있습니다.
+  access: /^(\S+)(?:\s+\S+\s+\S+)?\s+\[(.*?)\]\s+"(\S+)\s+(\S+).*?"\s+(\d+)\s+(\d+|-)(?:\s+(\d+\.?\d*)|\s+"((?:[^"\\]|\\.)*)"\s+"((?:[^"\\]|\\.)*)"(?:\s+"[^"]*")*(?:\s+(\d+\.?\d*))?)?/,
+  sql: /\[SQL_END\]\s+\[(.*?)\]\s+\[(\d+)ms\]/,
+  sqlTime: /\[(\d{4}-\d{2}-\d{2}\s\d{2}:\d{2}:\d{2})/,
+  // 요청 ID가 key=value로 찍힌 경우 (traceId=..., X-Request-Id: ...)
+  traceId: /\b(?:trace[_-]?id|request[_-]?id|x-request-id|correlation[_-]?id)\s*[=:]\s*"?([\w.:-]+)/i,
+  // logback 기본 패턴의 "시각 [스레드]" (스레드 칸 없이 바로 [SQL_END]가 오는 줄은 제외)
+  thread: /^\[?\d{4}-\d{2}-\d{2}[ T][\d:.,]+\]?\s+\[(?!SQL_END\])([^\]]+)\]/
+};
+
+// SQL 로그와 요청 로그를 잇는 ID. 명시적인 요청 ID가 없으면 SQL 쪽은 스레드 이름을 씁니다.
+const findTraceId = (line: string, allowThread: boolean) => {
+  const match = line.match(REGEX.traceId) || (allowThread ? line.match(REGEX.thread) : null);
+  return match ? match[1] : null;
+};
+
+// 응답 시간 컬럼의 기본 단위. 업로드 시 샘플에서 감지한 단위가 있으면 그것을 우선합니다.
+export const DEFAULT_DURATION_UNITS = { nginx: 's', tomcat: 'ms', logback: 'ms' };
+
+const durationPerSec = (unit: string) => (DURATION_UNITS.find(u => u.key === unit) || DURATION_UNITS[0]).perSec;
+
+export const getRespBucket = (timeInSec) => {
+  const ms = timeInSec * 1000;
+  if (ms < 10) return 'b10ms';
+  if (ms < 100) return 'b100ms';
+  if (ms < 500) return 'b500ms';
+  if (ms < 1000) return 'b1000ms';
+  if (ms < 5000) return 'b5s';
+  if (ms < 10000) return 'b10s';
+  return 'bOver10s';
+};
+
+export const parseLogLine = (line, type, durationUnit = DEFAULT_DURATION_UNITS[type]) => {
+  if (type === 'sql_logback') {
+    const sqlMatch = line.match(REGEX.sql);
+    if (!sqlMatch) return null;
+    const timeMatch = line.match(REGEX.sqlTime);
+    const durationMs = parseInt(sqlMatch[2]);
+    return {
+      ip: "System",
+      rawTimestamp: timeMatch ? timeMatch[1] : "Unknown",
+      method: "SQL",
+      url: sqlMatch[1],
+      status: 200,
+      responseTime: durationMs / 1000,
+      traceId: findTraceId(line, true)
+    };
+  } else {
+    const match = line.match(REGEX.access);
+    if (!match) return null;
+    const [_, ip, timestamp, method, url, status, size, sizeRespTime, referer, userAgent, agentRespTime] = match;
+    const respTime = sizeRespTime || agentRespTime;
+    const finalRespTime = respTime ? parseFloat(respTime) / durationPerSec(durationUnit) : null;
+    return {
+      ip,
+      rawTimestamp: timestamp,
+      method,
+      url: url.split('?')[0],
+      status: parseInt(status),
+      bytes: size === '-' ? 0 : parseInt(size),
+      responseTime: finalRespTime,
+      traceId: findTraceId(line, false),
+      referer: referer && referer !== '-' ? referer : null,
+      userAgent: userAgent && userAgent !== '-' ? userAgent : null
+    };
+  }
+};
+
+// 요청은 아니지만 해당 포맷의 일부로 이해한 줄 (MyBatis의 Preparing/Parameters 줄). 해석 실패로 세지 않습니다.
+export const AUXILIARY_LINE = Object.freeze({ auxiliary: true });
+
+// 파서가 해석한 요청 한 건. source/rawUrl/timestamp는 aggregateLine이 채웁니다.
+export type ParsedLine = {
+  ip: string;
+  rawTimestamp: string;
+  method: string;
+  url: string;
+  status: number;
+  bytes?: number | null;
+  responseTime: number | null;
+  traceId: string | null;
+  referer?: string | null;
+  userAgent?: string | null;
+  sql?: string;
+  sqlParams?: string[];
+  statement?: string;
+  fingerprint?: string;
+  source?: string;
+  rawUrl?: string;
+  timestamp?: number;
+};
+
+export const isAuxiliaryLine = (parsed: ParsedLine | typeof AUXILIARY_LINE | null): parsed is typeof AUXILIARY_LINE => parsed === AUXILIARY_LINE;
+
+// 분석 한 번에 적용되는 파싱 설정 (워커로 그대로 전달됩니다)
+export type ParserOptions = {
+  logType: string;
+  customFormat?: CustomFormat | null;
+  durationUnit?: string | null;
+  routeConfig?: RouteConfig | null;
+};
+
+// 로그 타입별 라인 파서. toRoute는 원본 URL을 집계용 엔드포인트 템플릿으로,
+// toInstant는 타임스탬프 문자열을 실제 시각(epoch ms)으로 바꿉니다.
+export type LineParser = { parse: (line: string) => ParsedLine | typeof AUXILIARY_LINE | null; toRoute: (url: string) => string; toInstant: (rawTimestamp: string) => number };
+
+export const createLineParser = ({ logType, customFormat, durationUnit, routeConfig }: ParserOptions): LineParser => {
+  const toRoute = createRouteNormalizer(routeConfig || undefined);
+  const toInstant = createTimestampParser();
+  if (customFormat) return { parse: compileCustomFormat(customFormat).parse, toRoute, toInstant };
+  const unit = durationUnit || DEFAULT_DURATION_UNITS[logType];
+  if (logType === 'sql_logback') {
+    // Preparing/Parameters 줄은 요청으로 세지 않고, 이어지는 SQL_END 줄에 SQL로 붙입니다.
+    const tracker = createStatementTracker();
+    const parse = (line) => {
+      if (tracker.observe(line)) return AUXILIARY_LINE;
+      const parsed = parseLogLine(line, logType, unit);
+      return parsed && { ...parsed, ...tracker.take(parsed.url) };
+    };
+    return { parse, toRoute, toInstant };
+  }
+  return { parse: (line) => parseLogLine(line, logType, unit), toRoute, toInstant };
+};
+
+// 앞 줄의 상태를 이어받는 파서(sql_logback의 Preparing → Parameters → 실행 결과)는 파일을 중간부터 읽으면
+// 경계에 걸친 실행의 SQL을 잃으므로, 엔트리를 나누지 않고 처음부터 끝까지 한 번에 읽어야 합니다.
+export const isLineOrderDependent = ({ logType, customFormat }: ParserOptions) => !customFormat && logType === 'sql_logback';
+
+export type PerfEntry = { total: number; count: number; sketch: QuantileSketch };
+
+// 소스(파일/호스트)별 집계. requests는 전체 요청 수, count/total은 응답 시간이 있는 요청 기준입니다.
+export type SourceEntry = PerfEntry & { requests: number; errorCount: number };
+
+// SQL 지문(형태)별 집계. example은 가장 느렸던 실행의 바인딩 값을 채운 SQL입니다.
+export type SqlShapeEntry = PerfEntry & { mapperId: string; example: string; exampleTime: number };
+
+// --- Parse Diagnostics ---
+// 빈 줄을 뺀 모든 줄을 요청으로 해석한 줄(parsed), 포맷의 보조 줄(auxiliary), 해석하지 못한 줄(unmatched)로 나누고,
+// 해석한 요청 중 타임스탬프를 읽지 못했거나 응답 시간이 없는 요청을 따로 셉니다. 분류마다 앞쪽 샘플 몇 줄을 남깁니다.
+
+export type DiagnosticCategory = 'unmatched' | 'badTimestamp' | 'missingDuration';
+
+export type DiagnosticSample = { text: string; source: string; lineRef: LineRef | null };
+
+export type ParseDiagnostics = {
+  lines: number;
+  parsed: number;
+  auxiliary: number;
+  unmatched: number;
+  badTimestamp: number;
+  missingDuration: number;
+  samples: Record<DiagnosticCategory, DiagnosticSample[]>;
+};
+
+const DIAGNOSTIC_SAMPLES = 5;
+const SAMPLE_TEXT_LIMIT = 500;
+
+export const createDiagnostics = (): ParseDiagnostics => ({
+  lines: 0, parsed: 0, auxiliary: 0, unmatched: 0, badTimestamp: 0, missingDuration: 0,
+  samples: { unmatched: [], badTimestamp: [], missingDuration: [] }
+});
+
+const addDiagnostic = (diagnostics: ParseDiagnostics, category: DiagnosticCategory, line: string, source: string, lineRef: LineRef | null) => {
+  diagnostics[category]++;
+  const samples = diagnostics.samples[category];
+  if (samples.length >= DIAGNOSTIC_SAMPLES) return;
+  const text = line.length > SAMPLE_TEXT_LIMIT ? `${line.slice(0, SAMPLE_TEXT_LIMIT)}…` : line;
+  samples.push({ text, source, lineRef: lineRef && { ...lineRef } });
+};
+
+// 워커별 진단을 파일 순서대로 합칩니다. 샘플은 앞선 구간의 것부터 채웁니다.
+const mergeDiagnostics = (target: ParseDiagnostics, source: ParseDiagnostics) => {
+  for (const key of ['lines', 'parsed', 'auxiliary', 'unmatched', 'badTimestamp', 'missingDuration']) target[key] += source[key];
+  for (const category in source.samples) {
+    const samples = target.samples[category];
+    samples.push(...source.samples[category].slice(0, DIAGNOSTIC_SAMPLES - samples.length));
+  }
+};
+
+// 해석률이 이보다 낮으면 결과 화면과 CLI에서 경고합니다.
+export const LOW_COVERAGE = 0.8;
+
+// 해석률: 빈 줄을 뺀 줄 중 요청 또는 보조 줄로 이해한 비율 (0~1, 줄이 없으면 null)
+export const getParseCoverage = (diagnostics: ParseDiagnostics) =>
+  diagnostics.lines > 0 ? (diagnostics.parsed + diagnostics.auxiliary) / diagnostics.lines : null;
+
+// 워커 한 개가 자신이 맡은 파일 구간에서 만들어내는 부분 집계 결과
+export type PartialResult = {
+  ipMap: Record<string, number>;
+  apiMap: Record<string, number>;
+  tpsMap: Record<string, number>; // 키: epoch 초
+  apiPerfMap: Record<string, PerfEntry>;
+  apiErrorMap: Record<string, number>;
+  rawApiMap: Record<string, number>;
+  rawApiPerfMap: Record<string, PerfEntry>;
+  sourcePerfMap: Record<string, SourceEntry>;
+  sourceTpsMap: Record<string, Record<string, number>>;
+  sqlShapeMap: Record<string, SqlShapeEntry>;
+  statusMap: Record<string, number>;
+  errorCount: number;
+  totalRequests: number;
+  totalResponseTime: number;
+  responseTimeCount: number;
+  diagnostics: ParseDiagnostics;
+  // 설정(지연 기준/구간/주기)에 따라 다시 집계하는 위젯용 요청 단위 레코드
+  records: RecordStore;
+};
+
+export const createPartialResult = (): PartialResult => ({
+  ipMap: {},
+  apiMap: {},
+  tpsMap: {},
+  apiPerfMap: {},
+  apiErrorMap: {},
+  rawApiMap: {},
+  rawApiPerfMap: {},
+  sourcePerfMap: {},
+  sourceTpsMap: {},
+  sqlShapeMap: {},
+  statusMap: {},
+  errorCount: 0,
+  totalRequests: 0,
+  totalResponseTime: 0,
+  responseTimeCount: 0,
+  diagnostics: createDiagnostics(),
+  records: createRecordStore()
+});
+
+const createSourceEntry = (): SourceEntry => ({ requests: 0, errorCount: 0, total: 0, count: 0, sketch: createSketch() });
+
+const addToPerfMap = (perfMap: Record<string, PerfEntry>, key: string, responseTime: number) => {
+  if (!perfMap[key]) perfMap[key] = { total: 0, count: 0, sketch: createSketch() };
+  perfMap[key].total += responseTime;
+  perfMap[key].count += 1;
+  addToSketch(perfMap[key].sketch, responseTime);
+};
+
+const addToSqlShape = (shapeMap: Record<string, SqlShapeEntry>, parsed, responseTime: number) => {
+  const { fingerprint, url, statement } = parsed;
+  if (!shapeMap[fingerprint]) {
+    shapeMap[fingerprint] = { total: 0, count: 0, sketch: createSketch(), mapperId: url, example: statement, exampleTime: responseTime };
+  }
+  const entry = shapeMap[fingerprint];
+  entry.total += responseTime;
+  entry.count += 1;
+  addToSketch(entry.sketch, responseTime);
+  if (responseTime > entry.exampleTime) {
+    entry.example = statement;
+    entry.exampleTime = responseTime;
+  }
+};
+
+const mergePerfMap = (target: Record<string, PerfEntry>, source: Record<string, PerfEntry>) => {
+  for (const key in source) {
+    if (!target[key]) target[key] = { total: 0, count: 0, sketch: createSketch() };
+    target[key].total += source[key].total;
+    target[key].count += source[key].count;
+    mergeSketch(target[key].sketch, source[key].sketch);
+  }
+};
+
+// 파싱된 요청 하나를 부분 집계에 더합니다. (레코드 저장소에 쌓는 것은 호출하는 쪽의 몫)
+const aggregateRecord = (acc: PartialResult, parsed) => {
+  acc.totalRequests++;
+  const { ip, timestamp, url, rawUrl, source, status, responseTime } = parsed;
+
+  if (!acc.sourcePerfMap[source]) acc.sourcePerfMap[source] = createSourceEntry();
+  const sourceEntry = acc.sourcePerfMap[source];
+  sourceEntry.requests++;
+
+  if (ip !== "System") acc.ipMap[ip] = (acc.ipMap[ip] || 0) + 1;
+  acc.apiMap[url] = (acc.apiMap[url] || 0) + 1;
+  acc.rawApiMap[rawUrl] = (acc.rawApiMap[rawUrl] || 0) + 1;
+
+  // 타임스탬프를 해석하지 못한 요청은 TPS 추이에서만 빠집니다.
+  if (!Number.isNaN(timestamp)) {
+    const tpsKey = Math.floor(timestamp / 1000);
+    acc.tpsMap[tpsKey] = (acc.tpsMap[tpsKey] || 0) + 1;
+    if (!acc.sourceTpsMap[tpsKey]) acc.sourceTpsMap[tpsKey] = {};
+    acc.sourceTpsMap[tpsKey][source] = (acc.sourceTpsMap[tpsKey][source] || 0) + 1;
+  }
+
+  acc.statusMap[status] = (acc.statusMap[status] || 0) + 1;
+
+  if (status >= 400) {
+    acc.errorCount++;
+    acc.apiErrorMap[url] = (acc.apiErrorMap[url] || 0) + 1;
+    sourceEntry.errorCount++;
+  }
+
+  if (responseTime !== null) {
+    addToPerfMap(acc.apiPerfMap, url, responseTime);
+    addToPerfMap(acc.rawApiPerfMap, rawUrl, responseTime);
+
+    sourceEntry.total += responseTime;
+    sourceEntry.count++;
+    addToSketch(sourceEntry.sketch, responseTime);
+
+    if (parsed.fingerprint) addToSqlShape(acc.sqlShapeMap, parsed, responseTime);
+
+    acc.totalResponseTime += responseTime;
+    acc.responseTimeCount++;
+  }
+};
+
+export const aggregateLine = (acc: PartialResult, line, parser: LineParser, source: string, lineRef: LineRef | null = null) => {
+  if (!line.trim()) return;
+  const { diagnostics } = acc;
+  diagnostics.lines++;
+  const parsed = parser.parse(line);
+  if (isAuxiliaryLine(parsed)) {
+    diagnostics.auxiliary++;
+    return;
+  }
+  if (!parsed) {
+    addDiagnostic(diagnostics, 'unmatched', line, source, lineRef);
+    return;
+  }
+  parsed.source = source;
+  parsed.rawUrl = parsed.url;
+  parsed.url = parser.toRoute(parsed.url);
+  parsed.timestamp = parser.toInstant(parsed.rawTimestamp);
+  diagnostics.parsed++;
+  if (Number.isNaN(parsed.timestamp)) addDiagnostic(diagnostics, 'badTimestamp', line, source, lineRef);
+  if (parsed.responseTime === null) addDiagnostic(diagnostics, 'missingDuration', line, source, lineRef);
+  aggregateRecord(acc, parsed);
+  appendRecord(acc.records, parsed, lineRef);
+};
+
+// 시간 범위 안의 요청만 레코드 저장소에서 다시 집계합니다. (차트에서 구간을 고르면 모든 패널이 이 결과를 씁니다)
+// 레코드는 전체 저장소를 그대로 넘기고, 범위 제한은 buildSummary에 같은 range를 넘겨 적용합니다.
+export const aggregateRange = (records: RecordStore, range: TimeRange): PartialResult => {
+  const acc = createPartialResult();
+  for (let i = 0; i < records.length; i++) {
+    if (isInRange(getRecordTime(records, i), range)) aggregateRecord(acc, readRecord(records, i));
+  }
+  return { ...acc, records };
+};
+
+const addCounts = (target: Record<string, number>, source: Record<string, number>) => {
+  for (const key in source) target[key] = (target[key] || 0) + source[key];
+};
+
+// 워커별 부분 결과를 파일 순서대로 병합합니다. id는 앞선 구간의 요청 수만큼 밀어 전역 순번을 유지합니다.
+export const mergePartialResults = (partials: PartialResult[]): PartialResult => {
+  const merged = createPartialResult();
+  for (const p of partials) {
+    addCounts(merged.ipMap, p.ipMap);
+    addCounts(merged.apiMap, p.apiMap);
+    addCounts(merged.tpsMap, p.tpsMap);
+    addCounts(merged.apiErrorMap, p.apiErrorMap);
+    addCounts(merged.rawApiMap, p.rawApiMap);
+    mergePerfMap(merged.apiPerfMap, p.apiPerfMap);
+    mergePerfMap(merged.rawApiPerfMap, p.rawApiPerfMap);
+    for (const source in p.sourcePerfMap) {
+      if (!merged.sourcePerfMap[source]) merged.sourcePerfMap[source] = createSourceEntry();
+      const target = merged.sourcePerfMap[source];
+      const entry = p.sourcePerfMap[source];
+      target.requests += entry.requests;
+      target.errorCount += entry.errorCount;
+      target.total += entry.total;
+      target.count += entry.count;
+      mergeSketch(target.sketch, entry.sketch);
+    }
+    for (const key in p.sqlShapeMap) {
+      const entry = p.sqlShapeMap[key];
+      const target = merged.sqlShapeMap[key];
+      if (!target) {
+        merged.sqlShapeMap[key] = { ...entry, sketch: mergeSketch(createSketch(), entry.sketch) };
+        continue;
+      }
+      target.total += entry.total;
+      target.count += entry.count;
+      mergeSketch(target.sketch, entry.sketch);
+      if (entry.exampleTime > target.exampleTime) {
+        target.example = entry.example;
+        target.exampleTime = entry.exampleTime;
+      }
+    }
+    addCounts(merged.statusMap, p.statusMap);
+    for (const key in p.sourceTpsMap) {
+      if (!merged.sourceTpsMap[key]) merged.sourceTpsMap[key] = {};
+      addCounts(merged.sourceTpsMap[key], p.sourceTpsMap[key]);
+    }
+    merged.errorCount += p.errorCount;
+    merged.totalRequests += p.totalRequests;
+    merged.totalResponseTime += p.totalResponseTime;
+    merged.responseTimeCount += p.responseTimeCount;
+    mergeDiagnostics(merged.diagnostics, p.diagnostics);
+  }
+  merged.records = mergeRecordStores(partials.map(p => p.records));
+  return merged;
+};
+
+// 엔드포인트 단위 랭킹. 템플릿 경로 기준과 원본 경로 기준 두 가지 뷰를 같은 형태로 만듭니다.
+const buildApiView = (apiMap: Record<string, number>, apiPerfMap: Record<string, PerfEntry>, apiErrorMap: Record<string, number> | null = null) => {
+  // 원본 경로 뷰는 에러를 따로 집계하지 않으므로 에러율이 null입니다.
+  const apiLatencyStats = Object.entries(apiPerfMap).map(([name, data]) => ({
+    name, avgTime: data.total / data.count, count: data.count, total: data.total, ...summarizeSketch(data.sketch),
+    errorRate: apiErrorMap ? ((apiErrorMap[name] || 0) / apiMap[name]) * 100 : null
+  }));
+  const apiLatencyByName = Object.fromEntries(apiLatencyStats.map(s => [s.name, s]));
+  const topApis = Object.entries(apiMap).sort((a, b) => b[1] - a[1]).slice(0, 10).map(([name, count]) => {
+    const perf = apiLatencyByName[name];
+    return perf ? { ...perf, count } : { name, count, total: 0, avgTime: 0 };
+  });
+  const topSlowApis = [...apiLatencyStats].sort((a, b) => b.avgTime - a.avgTime).slice(0, 20);
+  // 응답 시간이 없는 요청까지 포함한 호출/에러 건수 (기준선 비교용)
+  const apiTrafficStats = Object.entries(apiMap).map(([name, count]) => ({ name, count, errorCount: apiErrorMap?.[name] || 0 }));
+  return { uniqueApis: Object.keys(apiMap).length, topApis, topSlowApis, apiLatencyStats, apiTrafficStats };
+};
+
+const MAX_TPS_POINTS = 2000;
+
+// 초 단위 TPS를 시간순으로 펼칩니다. 요청이 없던 초는 0으로 채우고(며칠에 걸친 로그도 실제 간격대로 그려지도록),
+// 점이 MAX_TPS_POINTS를 넘으면 여러 초를 한 점으로 묶되 그 안의 최고 TPS 초를 대표값으로 씁니다.
+const buildTpsSeries = (tpsMap: Record<string, number>, sourceTpsMap: Record<string, Record<string, number>>) => {
+  const seconds = Object.keys(tpsMap).map(Number).sort((a, b) => a - b);
+  if (seconds.length === 0) return [];
+  const first = seconds[0];
+  const last = seconds[seconds.length - 1];
+  const step = Math.max(1, Math.ceil((last - first + 1) / MAX_TPS_POINTS));
+
+  const points = [];
+  let cursor = 0;
+  for (let start = first; start <= last; start += step) {
+    let peak = 0;
+    let peakSecond = start;
+    while (cursor < seconds.length && seconds[cursor] < start + step) {
+      const n = tpsMap[seconds[cursor]];
+      if (n > peak) { peak = n; peakSecond = seconds[cursor]; }
+      cursor++;
+    }
+    points.push({ time: start * 1000, tps: peak, sources: sourceTpsMap[peakSecond] || {} });
+  }
+  return points;
+};
+
+// settings에 따라 달라지는 부분은 sliceRecords가 계산하며, 설정 변경 시에는 그 부분만 다시 계산합니다.
+export const buildSummary = (result: PartialResult, settings: AnalysisSettings, range: TimeRange | null = null) => {
+  const { ipMap, apiMap, tpsMap, apiPerfMap, apiErrorMap, rawApiMap, rawApiPerfMap, sourcePerfMap, sourceTpsMap, sqlShapeMap, statusMap, errorCount, totalRequests, totalResponseTime, responseTimeCount } = result;
+
+  const topIps = Object.entries(ipMap).sort((a, b) => b[1] - a[1]).slice(0, 10).map(([name, count]) => ({ name, count }));
+  const templateView = buildApiView(apiMap, apiPerfMap, apiErrorMap);
+  const rawView = buildApiView(rawApiMap, rawApiPerfMap);
+
+  const tpsData = buildTpsSeries(tpsMap, sourceTpsMap);
+  const sourceMaxTps: Record<string, number> = {};
+  for (const second in sourceTpsMap) {
+    for (const source in sourceTpsMap[second]) sourceMaxTps[source] = Math.max(sourceMaxTps[source] || 0, sourceTpsMap[second][source]);
+  }
+
+  const sourceStats = Object.entries(sourcePerfMap).map(([source, data]) => ({
+    source,
+    totalRequests: data.requests,
+    errorRate: data.requests > 0 ? (data.errorCount / data.requests) * 100 : 0,
+    avgTime: data.count > 0 ? data.total / data.count : 0,
+    maxTps: sourceMaxTps[source] || 0,
+    ...summarizeSketch(data.sketch)
+  })).sort((a, b) => a.source.localeCompare(b.source));
+
+  // 누적 소요 시간이 큰 쿼리 형태부터 (자주 실행되는 중간 속도 쿼리도 상위에 드러나도록)
+  const sqlShapeStats = Object.entries(sqlShapeMap).map(([fingerprint, data]) => ({
+    fingerprint,
+    mapperId: data.mapperId,
+    example: data.example,
+    count: data.count,
+    total: data.total,
+    avgTime: data.total / data.count,
+    ...summarizeSketch(data.sketch)
+  })).sort((a, b) => b.total - a.total);
+
+  const statusStats = Object.entries(statusMap)
+    .map(([status, count]) => ({ status: Number(status), statusClass: getStatusClass(Number(status)), count }))
+    .sort((a, b) => a.status - b.status);
+
+  const topFailingApis = templateView.apiTrafficStats
+    .filter(s => s.errorCount > 0)
+    .map(s => ({ ...s, errorRate: (s.errorCount / s.count) * 100 }))
+    .sort((a, b) => b.errorCount - a.errorCount)
+    .slice(0, 20);
+
+  // 전체 지연 분포는 소스별 스케치를 합쳐 구합니다. (CLI의 p95/p99 한도 검사도 이 값을 씁니다)
+  const latency = summarizeSketch(Object.values(sourcePerfMap).reduce((merged, e) => mergeSketch(merged, e.sketch), createSketch()));
+
+  return {
+    totalRequests,
+    uniqueIps: Object.keys(ipMap).length,
+    errorRate: totalRequests > 0 ? ((errorCount / totalRequests) * 100).toFixed(2) : 0,
+    avgResponseTime: responseTimeCount > 0 ? (totalResponseTime / responseTimeCount).toFixed(3) : "N/A",
+    avgTime: responseTimeCount > 0 ? totalResponseTime / responseTimeCount : null, // 반올림하지 않은 평균 (초, CSV용)
+    ...templateView,
+    rawView,
+    ...sliceRecords(result.records, settings, range),
+    topIps, tpsData, sourceStats, sqlShapeStats, statusStats, topFailingApis, latency,
+    // 해석 진단은 파일 전체 기준입니다. (시간 범위로 다시 집계한 결과에는 줄 단위 정보가 없습니다)
+    diagnostics: range ? null : result.diagnostics,
+    maxTps: Object.values(tpsMap).reduce((max, n) => Math.max(max, n), 0)
+  };
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { parseLogQuery, suggestQueryFields } from './logQuery';
+
+const log = (overrides = {}) => ({
+  timestamp: Date.UTC(2026, 9, 19, 14, 10, 30),
+  method: 'GET',
+  ip: '10.0.3.7',
+  url: '/api/orders/{id}',
+  rawUrl: '/api/orders/42',
+  source: 'api-1',
+  status: 200,
+  responseTime: 0.25,
+  ...overrides
+});
+
+const matches = (query: string, record = log()) => parseLogQuery(query, 'UTC').predicate(record);
+
+describe('parseLogQuery', () => {
+  it('compares durations with units, defaulting to ms', () => {
+    expect(matches('duration>200')).toBe(true);
+    expect(matches('duration>250ms')).toBe(false);
+    expect(matches('rt<=0.25s')).toBe(true);
+    expect(matches('duration>1s', log({ responseTime: null }))).toBe(false);
+    expect(matches('duration>=700ms', log({ responseTime: 0.7 }))).toBe(true);
+    expect(matches('duration<700ms', log({ responseTime: 0.7 }))).toBe(false);
+    expect(matches('duration>=10000us', log({ responseTime: 0.01 }))).toBe(true);
+  });
+
+  it('matches status codes, classes and ranges', () => {
+    expect(matches('status:2xx')).toBe(true);
+    expect(matches('status>=500', log({ status: 503 }))).toBe(true);
+    expect(matches('status:400..499', log({ status: 404 }))).toBe(true);
+    expect(matches('status!=5xx', log({ status: 502 }))).toBe(false);
+  });
+
+  it('matches text fields exactly, partially, by glob or regex', () => {
+    expect(matches('method:get')).toBe(true);
+    expect(matches('ip:10.0')).toBe(false);
+    expect(matches('ip:10.0.*')).toBe(true);
+    expect(matches('url:orders/42')).toBe(true);
+    expect(matches('url~"/api/(order|pay)"')).toBe(true);
+    expect(matches('orders')).toBe(true);
+  });
+
+  it('negates terms and requires every term', () => {
+    expect(matches('-source:api-1')).toBe(false);
+    expect(matches('method:GET status:5xx')).toBe(false);
+  });
+
+  it('filters by wall clock time, including ranges across midnight', () => {
+    expect(matches('time:14:00..14:30')).toBe(true);
+    expect(matches('time:14:10')).toBe(true);
+    expect(matches('time:14:11..14:30')).toBe(false);
+    expect(matches('time:22:00..02:00', log({ timestamp: Date.UTC(2026, 9, 19, 23, 30) }))).toBe(true);
+    expect(matches('time>2026-10-19T14:00')).toBe(true);
+    expect(matches('time:2026-10-18')).toBe(false);
+  });
+
+  it('reports bad terms with their position and applies the rest', () => {
+    const query = parseLogQuery('status:abc method:POST foo:1', 'UTC');
+    expect(query.errors.map(e => [e.start, e.end])).toEqual([[0, 10], [23, 28]]);
+    expect(query.predicate(log())).toBe(false);
+    expect(query.predicate(log({ method: 'POST' }))).toBe(true);
+    expect(parseLogQuery('url~"("', 'UTC').errors[0].message).toMatch(/정규식 오류/);
+  });
+});
+
+describe('suggestQueryFields', () => {
+  it('suggests fields for the word before the cursor', () => {
+    expect(suggestQueryFields('status:5xx -me', 14).fields.map(f => f.key)).toEqual(['method']);
+    expect(suggestQueryFields('status:5', 8).fields).toEqual([]);
+  });
+});
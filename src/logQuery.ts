@@ -0,0 +1,234 @@
+import { wallClockToInstant, secondOfDay } from './timestamps';
+
+// --- Details Table Query Language ---
+// 상세 목록 필터용 간단한 질의어. 공백으로 구분한 조건을 모두 만족하는 행만 남깁니다.
+//   duration>1s  status>=500  status:5xx  method:POST  ip:10.0.*  url~"/api/(order|pay)"  time:14:00..14:30  -source:api-2
+// 필드 없이 적은 단어는 URL(템플릿/원본) 부분 일치로 찾고, 앞에 '-'를 붙이면 조건을 뒤집습니다.
+
+export type QueryError = { message: string; start: number; end: number };
+
+type Predicate = (log) => boolean;
+
+type FieldKind = 'duration' | 'status' | 'text' | 'time';
+
+export const QUERY_FIELDS: { key: string; kind: FieldKind; description: string; example: string }[] = [
+  { key: 'duration', kind: 'duration', description: '응답 시간 (단위: us, ms, s, m / 기본 ms)', example: 'duration>1s' },
+  { key: 'status', kind: 'status', description: '상태 코드 (5xx처럼 계열 지정 가능)', example: 'status>=500' },
+  { key: 'method', kind: 'text', description: 'HTTP 메서드', example: 'method:POST' },
+  { key: 'ip', kind: 'text', description: '클라이언트 IP (* 와일드카드)', example: 'ip:10.0.*' },
+  { key: 'url', kind: 'text', description: 'URL / 매퍼 (템플릿 또는 원본)', example: 'url~"/api/(order|pay)"' },
+  { key: 'source', kind: 'text', description: '로그 소스 (파일/호스트)', example: 'source:api-1' },
+  { key: 'sql', kind: 'text', description: '실행 SQL', example: 'sql~"for update"' },
+  { key: 'trace', kind: 'text', description: '요청 / 트레이스 / 스레드 ID', example: 'trace:http-nio-*' },
+  { key: 'ua', kind: 'text', description: 'User-Agent', example: 'ua~"bot|crawl"' },
+  { key: 'referer', kind: 'text', description: '리퍼러 URL', example: 'referer:*google*' },
+  { key: 'time', kind: 'time', description: '시각 (표시 시간대, HH:mm 또는 yyyy-MM-ddTHH:mm)', example: 'time:14:00..14:30' },
+];
+
+const FIELD_ALIASES: Record<string, string> = { rt: 'duration', latency: 'duration', code: 'status', path: 'url', mapper: 'url', host: 'source', thread: 'trace', agent: 'ua', useragent: 'ua', ref: 'referer', referrer: 'referer' };
+
+const TEXT_GETTERS: Record<string, (log) => (string | undefined)[]> = {
+  method: (log) => [log.method],
+  ip: (log) => [log.ip],
+  url: (log) => [log.url, log.rawUrl],
+  source: (log) => [log.source],
+  sql: (log) => [log.statement],
+  trace: (log) => [log.traceId],
+  ua: (log) => [log.userAgent],
+  referer: (log) => [log.referer],
+};
+
+// -field op value | -"phrase" | -word
+const TOKEN_REGEX = /(-?)(?:([A-Za-z_]+)(>=|<=|!=|:|~|>|<|=)("(?:[^"\\]|\\.)*"?|\S*)|("(?:[^"\\]|\\.)*"?)|(\S+))/g;
+
+const unquote = (value: string) => value.startsWith('"') ? value.slice(1, value.endsWith('"') && value.length > 1 ? -1 : undefined).replace(/\\(.)/g, '$1') : value;
+
+class QuerySyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+// 초로 바꾸는 함수. 파서와 같은 방식(정수 단위 ÷ 1000)으로 나눠 700ms가 기록된 0.7초와 정확히 같아지도록 합니다.
+const DURATION_UNITS: Record<string, (value: number) => number> = { us: v => v / 1e6, ms: v => v / 1000, s: v => v, m: v => v * 60 };
+
+// "1s" → 1, "500ms" → 0.5, "250" → 0.25 (초 단위)
+const parseDuration = (text: string) => {
+  const match = text.match(/^(\d+(?:\.\d+)?)(us|ms|s|m)?$/);
+  if (!match) throw new QuerySyntaxError(`잘못된 응답 시간 '${text}' (예: 500ms, 1.5s)`);
+  return DURATION_UNITS[match[2] || 'ms'](parseFloat(match[1]));
+};
+
+// "404" → [404, 404], "5xx" → [500, 599]
+const parseStatus = (text: string): [number, number] => {
+  const cls = text.match(/^([1-5])xx$/i);
+  if (cls) return [Number(cls[1]) * 100, Number(cls[1]) * 100 + 99];
+  if (!/^\d{3}$/.test(text)) throw new QuerySyntaxError(`잘못된 상태 코드 '${text}' (예: 404, 5xx)`);
+  return [Number(text), Number(text)];
+};
+
+// clock이면 자정 이후 초, 아니면 epoch ms. span은 적은 정밀도만큼의 폭입니다. (14:05 → 14:05:00~14:05:59)
+type TimeValue = { clock: boolean; value: number; span: number };
+
+const parseTimeValue = (text: string, timeZone: string): TimeValue => {
+  const clock = text.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (clock) return { clock: true, value: Number(clock[1]) * 3600 + Number(clock[2]) * 60 + Number(clock[3] || 0), span: clock[3] ? 0 : 59 };
+  const date = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (date) {
+    const [, y, mo, d, h, mi, s] = date;
+    const span = h === undefined ? 86400000 - 1 : s === undefined ? 59999 : 999;
+    return { clock: false, value: wallClockToInstant(+y, +mo - 1, +d, +(h || 0), +(mi || 0), +(s || 0), timeZone), span };
+  }
+  throw new QuerySyntaxError(`잘못된 시각 '${text}' (예: 14:00, 2026-10-19T14:00)`);
+};
+
+const compare = (op: string, actual: number, expected: number) => {
+  switch (op) {
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '!=': return actual !== expected;
+    default: return actual === expected;
+  }
+};
+
+// "a..b" 범위는 ':' 와 '=' 에서만 허용합니다.
+const splitRange = (op: string, value: string) => {
+  const parts = value.split('..');
+  if (parts.length === 1) return null;
+  if (parts.length !== 2 || !parts[0] || !parts[1]) throw new QuerySyntaxError(`잘못된 범위 '${value}' (예: 14:00..14:30)`);
+  if (op !== ':' && op !== '=') throw new QuerySyntaxError(`범위는 ':' 로만 지정할 수 있습니다`);
+  return parts;
+};
+
+const globToRegex = (pattern: string) =>
+  new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+
+const buildTextPredicate = (field: string, op: string, value: string): Predicate => {
+  const get = TEXT_GETTERS[field];
+  let test: (text: string) => boolean;
+  if (op === '~') {
+    let regex: RegExp;
+    try { regex = new RegExp(value, 'i'); } catch (e) { throw new QuerySyntaxError(`정규식 오류: ${e.message}`); }
+    test = (text) => regex.test(text);
+  } else if (op === ':' || op === '=' || op === '!=') {
+    const lower = value.toLowerCase();
+    // 메서드/IP는 완전 일치, 그 외는 부분 일치. '*'가 있으면 와일드카드로 봅니다.
+    const exact = field === 'method' || field === 'ip' || op !== ':';
+    const glob = value.includes('*') ? globToRegex(value) : null;
+    test = glob ? (text) => glob.test(text) : exact ? (text) => text.toLowerCase() === lower : (text) => text.toLowerCase().includes(lower);
+    if (op === '!=') {
+      const positive = test;
+      test = (text) => !positive(text);
+      return (log) => get(log).filter(v => v !== undefined).every(test);
+    }
+  } else {
+    throw new QuerySyntaxError(`'${field}'에는 '${op}' 연산자를 쓸 수 없습니다 (: ~ = != 사용)`);
+  }
+  return (log) => get(log).some(v => v !== undefined && test(v));
+};
+
+const buildNumberPredicate = (op: string, value: string, parse: (text: string) => [number, number], get: (log) => number | null): Predicate => {
+  if (op === '~') throw new QuerySyntaxError(`'~'는 문자열 필드에만 쓸 수 있습니다`);
+  const range = splitRange(op, value);
+  const [min, max] = range ? [parse(range[0])[0], parse(range[1])[1]] : parse(value);
+  return (log) => {
+    const actual = get(log);
+    if (actual === null || actual === undefined || Number.isNaN(actual)) return false;
+    if (op === ':' || op === '=') return actual >= min && actual <= max;
+    if (op === '!=') return actual < min || actual > max;
+    if (op === '>' || op === '<=') return compare(op, actual, max);
+    return compare(op, actual, min);
+  };
+};
+
+const buildTimePredicate = (op: string, value: string, timeZone: string): Predicate => {
+  if (op === '~') throw new QuerySyntaxError(`'~'는 문자열 필드에만 쓸 수 있습니다`);
+  const range = splitRange(op, value);
+  const [from, to] = (range || [value, value]).map(v => parseTimeValue(v, timeZone));
+  if (from.clock !== to.clock) throw new QuerySyntaxError('범위의 양 끝은 같은 형식(HH:mm 또는 날짜)이어야 합니다');
+  const actualOf = (log) => from.clock ? secondOfDay(log.timestamp, timeZone) : log.timestamp;
+  const toEnd = to.value + to.span;
+  return (log) => {
+    if (Number.isNaN(log.timestamp)) return false;
+    const actual = actualOf(log);
+    if (op === ':' || op === '=') {
+      // 시각 범위가 자정을 넘는 경우 (22:00..02:00)
+      if (from.clock && from.value > toEnd) return actual >= from.value || actual <= toEnd;
+      return actual >= from.value && actual <= toEnd;
+    }
+    if (op === '!=') return actual < from.value || actual > toEnd;
+    if (op === '>' || op === '<=') return compare(op, actual, toEnd);
+    return compare(op, actual, from.value);
+  };
+};
+
+const buildFieldPredicate = (field: string, op: string, value: string, timeZone: string): Predicate => {
+  const def = QUERY_FIELDS.find(f => f.key === field);
+  if (def.kind === 'duration') return buildNumberPredicate(op, value, (text) => { const v = parseDuration(text); return [v, v]; }, (log) => log.responseTime);
+  if (def.kind === 'status') return buildNumberPredicate(op, value, parseStatus, (log) => log.status);
+  if (def.kind === 'time') return buildTimePredicate(op, value, timeZone);
+  return buildTextPredicate(field, op, value);
+};
+
+// 오류가 있는 조건은 건너뛰고 나머지 조건만 적용합니다. (입력 중에도 목록이 갑자기 비지 않도록)
+export const parseLogQuery = (text: string, timeZone: string) => {
+  const predicates: Predicate[] = [];
+  const errors: QueryError[] = [];
+  for (const match of text.matchAll(TOKEN_REGEX)) {
+    const [token, negate, rawField, op, rawValue, phrase, word] = match;
+    const start = match.index;
+    const end = start + token.length;
+    try {
+      let predicate: Predicate;
+      if (rawField !== undefined) {
+        const field = FIELD_ALIASES[rawField.toLowerCase()] || rawField.toLowerCase();
+        if (!QUERY_FIELDS.some(f => f.key === field)) throw new QuerySyntaxError(`알 수 없는 필드 '${rawField}'`);
+        const value = unquote(rawValue);
+        if (!value) throw new QuerySyntaxError(`'${rawField}${op}' 뒤에 값이 없습니다`);
+        predicate = buildFieldPredicate(field, op, value, timeZone);
+      } else {
+        const value = unquote(phrase ?? word);
+        if (!value) continue;
+        predicate = buildTextPredicate('url', ':', value);
+      }
+      predicates.push(negate ? (log) => !predicate(log) : predicate);
+    } catch (e) {
+      if (!(e instanceof QuerySyntaxError)) throw e;
+      errors.push({ message: e.message, start, end });
+    }
+  }
+  return {
+    predicate: (log) => predicates.every(p => p(log)),
+    isEmpty: predicates.length === 0,
+    errors
+  };
+};
+
+// 입력 커서 앞의 마지막 단어가 필드 이름을 쓰는 중이면 후보 필드를 돌려줍니다.
+export const suggestQueryFields = (text: string, cursor: number) => {
+  const before = text.slice(0, cursor);
+  const match = before.match(/(?:^|\s)-?([A-Za-z_]*)$/);
+  if (!match) return { prefix: '', fields: [] };
+  const prefix = match[1].toLowerCase();
+  return { prefix, fields: QUERY_FIELDS.filter(f => f.key.startsWith(prefix) && f.key !== prefix) };
+};
+
+// --- Recent Queries ---
+const STORAGE_KEY = 'logAnalyzer.recentQueries';
+const MAX_RECENT = 10;
+
+export const loadRecentQueries = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY)) || [];
+  } catch (e) { return []; }
+};
+
+export const saveRecentQuery = (query: string) => {
+  const trimmed = query.trim();
+  const next = [trimmed, ...loadRecentQueries().filter(q => q !== trimmed)].slice(0, MAX_RECENT);
+  if (trimmed) localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  return trimmed ? next : loadRecentQueries();
+};
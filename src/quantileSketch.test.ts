@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { createSketch, addToSketch, mergeSketch, sketchQuantile, summarizeSketch } from './quantileSketch';
+
+const sketchOf = (values: number[]) => {
+  const sketch = createSketch();
+  for (const v of values) addToSketch(sketch, v);
+  return sketch;
+};
+
+const expectNear = (actual: number, expected: number) => expect(Math.abs(actual - expected) / expected).toBeLessThanOrEqual(0.01);
+
+describe('sketchQuantile', () => {
+  it('reports the slow request as p99 of two requests', () => {
+    const sketch = sketchOf([0.12, 1.5]);
+    expectNear(sketchQuantile(sketch, 0.5), 0.12);
+    expectNear(sketchQuantile(sketch, 0.95), 1.5);
+    expectNear(sketchQuantile(sketch, 0.99), 1.5);
+  });
+
+  it('uses nearest rank for small counts', () => {
+    const sketch = sketchOf([0.01, 0.02, 0.03, 0.04, 0.05, 0.06, 0.07, 0.08, 0.09, 1]);
+    expectNear(sketchQuantile(sketch, 0.5), 0.05);
+    expectNear(sketchQuantile(sketch, 0.9), 0.09);
+    expectNear(sketchQuantile(sketch, 0.95), 1);
+  });
+
+  it('returns the single value for one request', () => {
+    const sketch = sketchOf([0.3]);
+    for (const q of [0.5, 0.9, 0.99]) expectNear(sketchQuantile(sketch, q), 0.3);
+  });
+
+  it('stays within 1% relative error on large inputs', () => {
+    const values = Array.from({ length: 10000 }, (_, i) => (i + 1) / 1000);
+    const sketch = sketchOf(values);
+    expectNear(sketchQuantile(sketch, 0.5), 5);
+    expectNear(sketchQuantile(sketch, 0.99), 9.9);
+  });
+
+  it('counts zero durations and handles empty sketches', () => {
+    expect(sketchQuantile(sketchOf([0, 0, 0, 2]), 0.5)).toBe(0);
+    expectNear(sketchQuantile(sketchOf([0, 0, 0, 2]), 0.99), 2);
+    expect(sketchQuantile(createSketch(), 0.99)).toBe(0);
+  });
+});
+
+describe('mergeSketch', () => {
+  it('gives the same quantiles as one sketch over all values', () => {
+    const merged = mergeSketch(sketchOf([0.1, 0.2, 0.3]), sketchOf([0.4, 5]));
+    expect(summarizeSketch(merged)).toEqual(summarizeSketch(sketchOf([0.1, 0.2, 0.3, 0.4, 5])));
+    expect(merged.max).toBe(5);
+  });
+});
@@ -0,0 +1,76 @@
+// --- Quantile Sketch ---
+// 로그 스케일 버킷 히스토그램(DDSketch 방식)으로 상대 오차 1% 이내의 백분위를 계산합니다.
+// 버킷 수가 값의 범위에만 의존하므로 요청이 수억 건이어도 메모리는 일정하며,
+// 워커 간 병합은 버킷 카운트를 더하기만 하면 됩니다.
+
+const RELATIVE_ACCURACY = 0.01;
+const GAMMA = (1 + RELATIVE_ACCURACY) / (1 - RELATIVE_ACCURACY);
+const LOG_GAMMA = Math.log(GAMMA);
+const MIN_VALUE = 1e-6; // 1µs 미만은 0으로 취급 (단위: 초)
+
+export type QuantileSketch = {
+  bins: Record<number, number>;
+  zeroCount: number;
+  count: number;
+  min: number;
+  max: number;
+};
+
+export const createSketch = (): QuantileSketch => ({ bins: {}, zeroCount: 0, count: 0, min: Infinity, max: -Infinity });
+
+export const addToSketch = (sketch: QuantileSketch, value: number) => {
+  sketch.count++;
+  if (value < sketch.min) sketch.min = value;
+  if (value > sketch.max) sketch.max = value;
+  if (value < MIN_VALUE) {
+    sketch.zeroCount++;
+    return;
+  }
+  const idx = Math.ceil(Math.log(value) / LOG_GAMMA);
+  sketch.bins[idx] = (sketch.bins[idx] || 0) + 1;
+};
+
+export const mergeSketch = (target: QuantileSketch, source: QuantileSketch) => {
+  for (const idx in source.bins) target.bins[idx] = (target.bins[idx] || 0) + source.bins[idx];
+  target.zeroCount += source.zeroCount;
+  target.count += source.count;
+  if (source.min < target.min) target.min = source.min;
+  if (source.max > target.max) target.max = source.max;
+  return target;
+};
+
+export const sketchQuantile = (sketch: QuantileSketch, q: number) => {
+  if (!sketch || sketch.count === 0) return 0;
+  if (q <= 0) return sketch.min;
+  if (q >= 1) return sketch.max;
+
+  // nearest-rank: 값을 오름차순으로 세웠을 때 ceil(q·n)번째 값. 요청이 적은 엔드포인트에서도 꼬리 지연을 낮춰 잡지 않습니다.
+  const rank = Math.ceil(q * sketch.count);
+  let seen = sketch.zeroCount;
+  if (rank <= seen) return 0;
+
+  const indexes = Object.keys(sketch.bins).map(Number).sort((a, b) => a - b);
+  for (const idx of indexes) {
+    seen += sketch.bins[idx];
+    if (seen >= rank) {
+      const estimate = (2 * Math.pow(GAMMA, idx)) / (GAMMA + 1);
+      return Math.min(sketch.max, Math.max(sketch.min, estimate));
+    }
+  }
+  return sketch.max;
+};
+
+export const PERCENTILES = [
+  { key: 'p50', q: 0.5 },
+  { key: 'p90', q: 0.9 },
+  { key: 'p95', q: 0.95 },
+  { key: 'p99', q: 0.99 },
+];
+
+// { p50, p90, p95, p99, max } 형태로 요약합니다. (단위: 초)
+export const summarizeSketch = (sketch: QuantileSketch) => {
+  const result: Record<string, number> = {};
+  for (const { key, q } of PERCENTILES) result[key] = sketchQuantile(sketch, q);
+  result.max = sketch && sketch.count > 0 ? sketch.max : 0;
+  return result;
+};
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { compactRecordStore, mergeRecordStores, pickRecords, readRecord, sliceRecords, isDetailRecord } from './recordStore';
+import { createLineParser, createPartialResult, aggregateLine } from './logCore';
+import { TEST_SETTINGS, buildRecordStore } from './testRecords';
+
+const buildStore = (count: number, entry = 0) => buildRecordStore(Array.from({ length: count }, (_, i) => ({
+  at: (i % 60) * 1000, url: `/api/items/${i % 7}`, rawUrl: `/api/items/${i % 7}?page=${i}`, ip: `10.0.0.${i % 3}`,
+  status: i % 10 === 0 ? 500 : 200, bytes: i, responseTime: i % 5 === 0 ? null : i / 1000
+})), entry);
+
+describe('appendRecord', () => {
+  it('grows every column past the initial capacity', () => {
+    const store = buildStore(3000);
+    expect(store.length).toBe(3000);
+    expect(store.responseTime).toBeInstanceOf(Float64Array);
+    expect(store.status).toBeInstanceOf(Uint16Array);
+    expect(store.lineLength).toBeInstanceOf(Uint32Array);
+    expect(store.columns.url).toBeInstanceOf(Int32Array);
+    const row = readRecord(store, 2999);
+    expect(row).toMatchObject({ id: 3000, url: '/api/items/3', status: 200, bytes: 2999, responseTime: 2.999, lineRef: { entry: 0, offset: 2999, length: 1 } });
+    expect(readRecord(store, 0).responseTime).toBeNull();
+    expect(store.dictionaries.url).toHaveLength(7);
+  });
+
+  it('keeps logged durations exact at bucket edges and the slow threshold', () => {
+    // 부동소수점 오차로 10ms가 "< 10ms" 버킷에, 700ms가 700ms 기준 미만으로 떨어지면 안 됩니다.
+    const acc = createPartialResult();
+    const parser = createLineParser({ logType: 'nginx' });
+    for (const seconds of ['0.010', '0.100', '0.700']) {
+      aggregateLine(acc, `10.0.0.1 - - [10/Oct/2026:10:00:00 +0900] "GET /a HTTP/1.1" 200 5 ${seconds}`, parser, 'a.log');
+    }
+    const stats = sliceRecords(acc.records, { ...TEST_SETTINGS, slowThresholdMs: 700 });
+    const [row] = stats.distributionStats;
+    expect(stats.bucketConfig.map(b => row[b.key])).toEqual([0, 1, 1, 1, 0, 0, 0]);
+    expect(stats.detailCount).toBe(1);
+    expect(isDetailRecord(acc.records, 2, 0.7)).toBe(true);
+    expect(readRecord(acc.records, 2).responseTime).toBe(0.7);
+  });
+});
+
+describe('compactRecordStore', () => {
+  it('trims spare capacity and drops the reverse indexes', () => {
+    const store = compactRecordStore(buildStore(10));
+    expect(store.offset).toHaveLength(10);
+    expect(store.columns.ip).toHaveLength(10);
+    expect(store.indexes).toBeUndefined();
+  });
+});
+
+describe('mergeRecordStores', () => {
+  it('concatenates stores and remaps dictionary ids', () => {
+    const first = compactRecordStore(buildStore(5));
+    const second = buildRecordStore([
+      { url: '/health', method: 'HEAD', ip: '10.0.0.9', status: 204, responseTime: 0.001 },
+      { url: '/api/items/1', responseTime: 0.002 },
+    ], 1);
+    const merged = mergeRecordStores([first, compactRecordStore(second)]);
+    expect(merged.length).toBe(7);
+    expect(merged.responseTime).toBeInstanceOf(Float64Array);
+    expect(readRecord(merged, 5)).toMatchObject({ url: '/health', method: 'HEAD', status: 204, lineRef: { entry: 1, offset: 0 } });
+    expect(readRecord(merged, 6).url).toBe('/api/items/1');
+    expect(merged.dictionaries.url.filter(u => u === '/api/items/1')).toHaveLength(1);
+    expect(merged.dictionaries.time).toHaveLength(merged.timeValues.length);
+  });
+});
+
+describe('pickRecords', () => {
+  it('keeps matching records with a dictionary of the values they use', () => {
+    const store = buildStore(50);
+    const picked = pickRecords(store, i => store.status[i] >= 500);
+    expect(picked.length).toBe(5);
+    expect(picked.bytes).toBeInstanceOf(Float64Array);
+    expect(Array.from({ length: picked.length }, (_, i) => readRecord(picked, i).bytes)).toEqual([0, 10, 20, 30, 40]);
+    expect(picked.dictionaries.url).toEqual(['/api/items/0', '/api/items/3', '/api/items/6', '/api/items/2', '/api/items/5']);
+    expect(picked.dictionaries.time).toHaveLength(picked.timeValues.length);
+  });
+});
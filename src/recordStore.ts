@@ -0,0 +1,340 @@
+import { createSketch, addToSketch, summarizeSketch, QuantileSketch } from './quantileSketch';
+import { AnalysisSettings, buildBucketConfig, getBucketIndex } from './analysisSettings';
+import { floorToInterval } from './timestamps';
+
+// --- Columnar Record Store ---
+// 파싱된 요청을 열(column) 단위 TypedArray로 보관합니다. 문자열 열은 사전(dictionary) 인코딩해
+// 요청 하나당 수십 바이트만 사용하며, 설정(지연 기준/구간/주기)이 바뀌면 이 저장소만 다시 훑어 집계합니다.
+
+const DICT_COLUMNS = ['time', 'url', 'rawUrl', 'ip', 'method', 'source', 'statement', 'fingerprint', 'traceId', 'referer', 'userAgent'] as const;
+type DictColumn = typeof DICT_COLUMNS[number];
+
+const INITIAL_CAPACITY = 1024;
+
+// 원본 줄의 위치: 업로드 엔트리 순번과 (압축 해제 후) 바이트 구간. 상세 보기에서 원문을 다시 읽을 때 씁니다.
+export type LineRef = { entry: number; offset: number; length: number };
+
+export type RecordStore = {
+  length: number;
+  responseTime: Float64Array; // 초 단위, 응답 시간이 없으면 NaN (지연 기준과 버킷 경계에서 정확히 비교되도록 64비트)
+  status: Uint16Array;
+  bytes: Float64Array; // 응답 크기, 모르면 NaN
+  entry: Int32Array; // 원본 줄 위치를 모르면 -1
+  offset: Float64Array;
+  lineLength: Uint32Array;
+  columns: Record<DictColumn, Int32Array>; // 사전 인덱스, 값이 없으면 -1
+  dictionaries: Record<DictColumn, string[]>;
+  timeValues: number[]; // time 사전 항목별 epoch ms (해석 불가면 NaN)
+  // 레코드를 쌓는 동안에만 쓰는 역색인 (postMessage 전에 compactRecordStore로 제거합니다)
+  indexes?: Record<DictColumn, Map<string, number>>;
+};
+
+const mapColumns = <T,>(fn: (column: DictColumn) => T) => Object.fromEntries(DICT_COLUMNS.map(c => [c, fn(c)])) as Record<DictColumn, T>;
+
+const NUMERIC_COLUMNS = ['responseTime', 'status', 'bytes', 'entry', 'offset', 'lineLength'] as const;
+type NumericColumn = typeof NUMERIC_COLUMNS[number];
+type NumericColumns = Pick<RecordStore, NumericColumn>;
+type TypedArray = NumericColumns[NumericColumn] | Int32Array;
+
+const createNumericColumns = (capacity: number): NumericColumns => ({
+  responseTime: new Float64Array(capacity),
+  status: new Uint16Array(capacity),
+  bytes: new Float64Array(capacity),
+  entry: new Int32Array(capacity),
+  offset: new Float64Array(capacity),
+  lineLength: new Uint32Array(capacity)
+});
+
+export const createRecordStore = (): RecordStore => ({
+  length: 0,
+  ...createNumericColumns(INITIAL_CAPACITY),
+  columns: mapColumns(() => new Int32Array(INITIAL_CAPACITY)),
+  dictionaries: mapColumns(() => []),
+  timeValues: [],
+  indexes: mapColumns(() => new Map())
+});
+
+// array의 값을 같은 타입의 더 큰 배열 next 앞쪽으로 옮겨 next를 돌려줍니다.
+const grow = <T extends TypedArray>(array: T, next: T): T => {
+  next.set(array);
+  return next;
+};
+
+const encode = (store: RecordStore, column: DictColumn, value: string | undefined) => {
+  if (value === undefined || value === null) return -1;
+  const index = store.indexes[column];
+  let id = index.get(value);
+  if (id === undefined) {
+    id = store.dictionaries[column].length;
+    store.dictionaries[column].push(value);
+    index.set(value, id);
+  }
+  return id;
+};
+
+// 새 타임스탬프 문자열이 사전에 추가될 때 해석된 시각도 같은 순번으로 기록합니다.
+const encodeTime = (store: RecordStore, rawTimestamp: string | undefined, timestamp: number) => {
+  const id = encode(store, 'time', rawTimestamp);
+  if (id === store.timeValues.length) store.timeValues.push(timestamp);
+  return id;
+};
+
+export const appendRecord = (store: RecordStore, parsed, lineRef: LineRef | null = null) => {
+  const i = store.length;
+  if (i === store.status.length) {
+    const capacity = i * 2;
+    const grown = createNumericColumns(capacity);
+    for (const c of NUMERIC_COLUMNS) grow(store[c], grown[c]);
+    Object.assign(store, grown);
+    for (const c of DICT_COLUMNS) store.columns[c] = grow(store.columns[c], new Int32Array(capacity));
+  }
+  store.responseTime[i] = parsed.responseTime === null ? NaN : parsed.responseTime;
+  store.status[i] = parsed.status;
+  store.bytes[i] = parsed.bytes === null || parsed.bytes === undefined ? NaN : parsed.bytes;
+  store.entry[i] = lineRef ? lineRef.entry : -1;
+  store.offset[i] = lineRef ? lineRef.offset : 0;
+  store.lineLength[i] = lineRef ? lineRef.length : 0;
+  store.columns.time[i] = encodeTime(store, parsed.rawTimestamp, parsed.timestamp);
+  store.columns.url[i] = encode(store, 'url', parsed.url);
+  store.columns.rawUrl[i] = encode(store, 'rawUrl', parsed.rawUrl);
+  store.columns.ip[i] = encode(store, 'ip', parsed.ip);
+  store.columns.method[i] = encode(store, 'method', parsed.method);
+  store.columns.source[i] = encode(store, 'source', parsed.source);
+  store.columns.statement[i] = encode(store, 'statement', parsed.statement);
+  store.columns.fingerprint[i] = encode(store, 'fingerprint', parsed.fingerprint);
+  store.columns.traceId[i] = encode(store, 'traceId', parsed.traceId);
+  store.columns.referer[i] = encode(store, 'referer', parsed.referer);
+  store.columns.userAgent[i] = encode(store, 'userAgent', parsed.userAgent);
+  store.length++;
+};
+
+// 여유 용량과 역색인을 버린 전송용 저장소
+export const compactRecordStore = (store: RecordStore): RecordStore => ({
+  length: store.length,
+  responseTime: store.responseTime.slice(0, store.length),
+  status: store.status.slice(0, store.length),
+  bytes: store.bytes.slice(0, store.length),
+  entry: store.entry.slice(0, store.length),
+  offset: store.offset.slice(0, store.length),
+  lineLength: store.lineLength.slice(0, store.length),
+  columns: mapColumns(c => store.columns[c].slice(0, store.length)),
+  dictionaries: store.dictionaries,
+  timeValues: store.timeValues
+});
+
+// postMessage로 복사 없이 넘길 버퍼 목록
+export const getRecordTransferables = (store: RecordStore) => [
+  ...NUMERIC_COLUMNS.map(c => store[c].buffer),
+  ...DICT_COLUMNS.map(c => store.columns[c].buffer)
+] as ArrayBuffer[];
+
+// 작업 순서대로 이어 붙이며 각 저장소의 사전 인덱스를 통합 사전 기준으로 바꿉니다.
+export const mergeRecordStores = (stores: RecordStore[]): RecordStore => {
+  const total = stores.reduce((acc, s) => acc + s.length, 0);
+  const merged = createRecordStore();
+  Object.assign(merged, createNumericColumns(total));
+  for (const c of DICT_COLUMNS) merged.columns[c] = new Int32Array(total);
+
+  let offset = 0;
+  for (const store of stores) {
+    for (const c of NUMERIC_COLUMNS) merged[c].set(store[c].subarray(0, store.length), offset);
+    for (const c of DICT_COLUMNS) {
+      const remap = c === 'time'
+        ? store.dictionaries.time.map((value, id) => encodeTime(merged, value, store.timeValues[id]))
+        : store.dictionaries[c].map(value => encode(merged, c, value));
+      const source = store.columns[c];
+      const target = merged.columns[c];
+      for (let i = 0; i < store.length; i++) target[offset + i] = source[i] < 0 ? -1 : remap[source[i]];
+    }
+    offset += store.length;
+  }
+  merged.length = total;
+  delete merged.indexes;
+  return merged;
+};
+
+// keep을 통과한 요청만 남긴 새 저장소. 사전도 남은 요청이 쓰는 값만으로 다시 만듭니다.
+export const pickRecords = (store: RecordStore, keep: (i: number) => boolean): RecordStore => {
+  const picked: number[] = [];
+  for (let i = 0; i < store.length; i++) if (keep(i)) picked.push(i);
+  const result = createRecordStore();
+  Object.assign(result, createNumericColumns(picked.length));
+  for (const c of DICT_COLUMNS) result.columns[c] = new Int32Array(picked.length);
+
+  for (const c of DICT_COLUMNS) {
+    const remap = new Int32Array(store.dictionaries[c].length).fill(-1);
+    const source = store.columns[c];
+    const target = result.columns[c];
+    picked.forEach((i, j) => {
+      const id = source[i];
+      if (id < 0) { target[j] = -1; return; }
+      if (remap[id] < 0) {
+        remap[id] = result.dictionaries[c].length;
+        result.dictionaries[c].push(store.dictionaries[c][id]);
+        if (c === 'time') result.timeValues.push(store.timeValues[id]);
+      }
+      target[j] = remap[id];
+    });
+  }
+  picked.forEach((i, j) => {
+    for (const c of NUMERIC_COLUMNS) result[c][j] = store[c][i];
+  });
+  result.length = picked.length;
+  delete result.indexes;
+  return result;
+};
+
+// 저장(IndexedDB) 용량 계산용 대략적인 크기. 문자열은 UTF-16 기준으로 셉니다.
+export const estimateRecordBytes = (store: RecordStore) => {
+  let bytes = NUMERIC_COLUMNS.reduce((acc, c) => acc + store[c].byteLength, 0) + DICT_COLUMNS.length * store.length * 4;
+  for (const c of DICT_COLUMNS) for (const value of store.dictionaries[c]) bytes += value.length * 2;
+  return bytes + store.timeValues.length * 8;
+};
+
+// 열을 추가하기 전에 저장한 분석 기록에는 그 열이 없습니다. (bytes 열도 같음)
+const lookup = (store: RecordStore, column: DictColumn, i: number) => {
+  if (!store.columns[column]) return undefined;
+  const id = store.columns[column][i];
+  return id < 0 ? undefined : store.dictionaries[column][id];
+};
+
+export const getRecordTime = (store: RecordStore, i: number) => {
+  const id = store.columns.time[i];
+  return id < 0 ? NaN : store.timeValues[id];
+};
+
+// 차트에서 선택한 시간 범위 [from, to) (epoch ms)
+export type TimeRange = { from: number; to: number };
+
+export const isInRange = (time: number, range: TimeRange | null) => !range || (time >= range.from && time < range.to);
+
+// 상세 목록 한 행. id는 전체 요청 중 순번(1부터)입니다.
+export const readRecord = (store: RecordStore, i: number) => {
+  const rt = store.responseTime[i];
+  const bytes = store.bytes ? store.bytes[i] : NaN;
+  return {
+    id: i + 1,
+    rawTimestamp: lookup(store, 'time', i),
+    timestamp: getRecordTime(store, i),
+    url: lookup(store, 'url', i),
+    rawUrl: lookup(store, 'rawUrl', i),
+    ip: lookup(store, 'ip', i),
+    method: lookup(store, 'method', i),
+    source: lookup(store, 'source', i),
+    statement: lookup(store, 'statement', i),
+    fingerprint: lookup(store, 'fingerprint', i),
+    traceId: lookup(store, 'traceId', i),
+    referer: lookup(store, 'referer', i),
+    userAgent: lookup(store, 'userAgent', i),
+    status: store.status[i],
+    bytes: Number.isNaN(bytes) ? null : bytes,
+    responseTime: Number.isNaN(rt) ? null : rt,
+    lineRef: store.entry[i] < 0 ? null : { entry: store.entry[i], offset: store.offset[i], length: store.lineLength[i] }
+  };
+};
+
+export type LogRecord = ReturnType<typeof readRecord>;
+
+export const getStatusClass = (status: number) => `${Math.floor(status / 100)}xx`;
+
+const MAX_FILLED_INTERVALS = 5000;
+
+// 첫 구간부터 마지막 구간까지 빈 구간을 포함한 구간 시작 시각 목록. 범위가 너무 넓으면 데이터가 있는 구간만 씁니다.
+export const fillIntervals = (keys: number[], intervalMs: number, timeZone: string) => {
+  const sorted = [...keys].sort((a, b) => a - b);
+  if (sorted.length < 2 || (sorted[sorted.length - 1] - sorted[0]) / intervalMs > MAX_FILLED_INTERVALS) return sorted;
+  const filled = new Set(sorted);
+  for (let t = sorted[0]; t < sorted[sorted.length - 1];) {
+    filled.add(t);
+    // 서머타임 전환으로 오프셋이 바뀌어도 현지 구간 경계에 다시 맞춥니다.
+    const next = floorToInterval(t + intervalMs, intervalMs, timeZone);
+    t = next > t ? next : t + intervalMs;
+  }
+  return [...filled].sort((a, b) => a - b);
+};
+
+// 상세 목록 대상: 지연 기준(초) 이상이거나 실패(4xx/5xx)한 요청
+export const isDetailRecord = (store: RecordStore, i: number, slowThreshold: number) => {
+  const rt = store.responseTime[i];
+  return (!Number.isNaN(rt) && rt >= slowThreshold) || store.status[i] >= 400;
+};
+
+// 설정에 따라 달라지는 위젯(히트맵, 구간별 백분위, 상태 코드 추이, 에러 드릴다운)과 상세 목록 건수를 다시 계산합니다.
+// 상세 목록 자체는 행이 수십만 개일 수 있어 detailRows가 워커에서 거르고 정렬합니다.
+// range가 있으면 그 시간 범위 안의 요청만 봅니다.
+export const sliceRecords = (store: RecordStore, settings: AnalysisSettings, range: TimeRange | null = null) => {
+  const bucketConfig = buildBucketConfig(settings.bucketEdgesMs);
+  const slowThreshold = settings.slowThresholdMs / 1000;
+  const intervalMs = settings.intervalMinutes * 60000;
+  // 구간 시작 시각(epoch ms)은 사전 항목마다 한 번만 계산합니다.
+  const intervalKeys = store.timeValues.map(t => Number.isNaN(t) ? NaN : floorToInterval(t, intervalMs, settings.timeZone));
+
+  const distributionMap: Record<number, number[]> = {};
+  const latencySketchMap: Record<number, QuantileSketch> = {};
+  const statusTimelineMap: Record<number, Record<string, number>> = {};
+  const errorApiTimelineMap: Record<number, Record<string, Record<string, number>>> = {};
+  let detailCount = 0;
+
+  for (let i = 0; i < store.length; i++) {
+    const timeId = store.columns.time[i];
+    if (range && !(timeId >= 0 && isInRange(store.timeValues[timeId], range))) continue;
+    const key = timeId < 0 ? NaN : intervalKeys[timeId];
+    const status = store.status[i];
+    const rt = store.responseTime[i];
+    const hasTime = !Number.isNaN(rt);
+
+    if (isDetailRecord(store, i, slowThreshold)) detailCount++;
+
+    // 타임스탬프를 해석하지 못한 요청은 시간 축 위젯에서 제외합니다.
+    if (Number.isNaN(key)) continue;
+
+    const codes = statusTimelineMap[key] || (statusTimelineMap[key] = {});
+    codes[status] = (codes[status] || 0) + 1;
+
+    if (status >= 400) {
+      const url = lookup(store, 'url', i);
+      const errorApis = errorApiTimelineMap[key] || (errorApiTimelineMap[key] = {});
+      const apiStatuses = errorApis[url] || (errorApis[url] = {});
+      apiStatuses[status] = (apiStatuses[status] || 0) + 1;
+    }
+
+    if (hasTime) {
+      const row = distributionMap[key] || (distributionMap[key] = new Array(bucketConfig.length).fill(0));
+      row[getBucketIndex(bucketConfig, rt)]++;
+      addToSketch(latencySketchMap[key] || (latencySketchMap[key] = createSketch()), rt);
+    }
+  }
+
+  // 세 시계열이 같은 시간 축을 쓰며, 요청이 없던 구간은 0(백분위는 빈 값)으로 채웁니다.
+  const timeline = fillIntervals(Object.keys(statusTimelineMap).map(Number), intervalMs, settings.timeZone);
+
+  const distributionStats = timeline.map(time => {
+    const counts = distributionMap[time];
+    return { time, ...Object.fromEntries(bucketConfig.map((b, idx) => [b.key, counts ? counts[idx] : 0])) };
+  });
+
+  const latencyTimeline = timeline.map(time => {
+    const sketch = latencySketchMap[time];
+    return sketch ? { time, count: sketch.count, ...summarizeSketch(sketch) } : { time, count: 0 };
+  });
+
+  const statusTimeline = timeline.map(time => {
+    const codes = statusTimelineMap[time] || {};
+    const row = { time, '2xx': 0, '3xx': 0, '4xx': 0, '5xx': 0, codes };
+    for (const code in codes) {
+      const statusClass = getStatusClass(Number(code));
+      if (statusClass in row) row[statusClass] += codes[code];
+    }
+    return row;
+  });
+
+  // 구간별 실패 API 목록 (드릴다운용). 각 구간 안에서는 에러가 많은 API부터.
+  const errorDrilldown = Object.fromEntries(Object.entries(errorApiTimelineMap).map(([time, apis]) => [
+    time,
+    Object.entries(apis).map(([name, codes]) => ({
+      name, codes, errorCount: Object.values(codes).reduce((acc, n) => acc + n, 0)
+    })).sort((a, b) => b.errorCount - a.errorCount)
+  ]));
+
+  return { bucketConfig, slowThreshold, intervalMinutes: settings.intervalMinutes, timeZone: settings.timeZone, detailCount, distributionStats, latencyTimeline, statusTimeline, errorDrilldown };
+};
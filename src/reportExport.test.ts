@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { buildCsvReport, ReportInput } from './reportExport';
+import { createLineParser, createPartialResult, aggregateLine, buildSummary } from './logCore';
+import { evaluateSlos, normalizeSlo } from './slo';
+import { buildRecordStore, TEST_SETTINGS } from './testRecords';
+
+const analyze = (seconds: string[]) => {
+  const acc = createPartialResult();
+  const parser = createLineParser({ logType: 'nginx' });
+  seconds.forEach(s => aggregateLine(acc, `10.0.0.1 - - [10/Oct/2026:10:00:00 +0000] "GET /api/items HTTP/1.1" 200 100 ${s}`, parser, 'test.log'));
+  return buildSummary(acc, TEST_SETTINGS);
+};
+
+const reportInput = (stats, slo = []): ReportInput => ({
+  meta: {
+    generatedAt: 0, label: 'test.log', files: [], logType: 'nginx', logTypeLabel: 'Nginx', rateLabel: 'TPS', timeZone: 'UTC',
+    range: null, dataSpan: null, slowThresholdMs: TEST_SETTINGS.slowThresholdMs, bucketEdgesMs: TEST_SETTINGS.bucketEdgesMs,
+    intervalMinutes: TEST_SETTINGS.intervalMinutes, routeView: 'template'
+  },
+  stats,
+  apiView: stats,
+  topSlow: [],
+  slo
+});
+
+describe('buildCsvReport', () => {
+  it('writes the overall average from raw totals, same as the endpoint rows', () => {
+    const rows = buildCsvReport(reportInput(analyze(['0.0101', '0.0102', '0.0104']))).split('\n').map(line => line.split(','));
+    expect(rows[1].slice(0, 3)).toEqual(['*', '3', '10.233']);
+    expect(rows[2].slice(0, 3)).toEqual(['/api/items', '3', '10.233']);
+  });
+
+  it('appends an SLO table after a blank line', () => {
+    const store = buildRecordStore([{ url: '/api/pay', responseTime: 0.1 }, { url: '/api/pay', responseTime: 0.8, status: 503 }]);
+    const slo = evaluateSlos(store, [normalizeSlo({ name: '결제', pattern: '/api/pay', latencyMs: 500, latencyTarget: 90, availabilityTarget: 99 }, 0)], TEST_SETTINGS);
+    const csv = buildCsvReport(reportInput(analyze(['0.010']), slo));
+    expect(csv.split('\n').slice(-4)).toEqual([
+      '',
+      'slo,pattern,objective,latency_ms,target_pct,compliance_pct,budget_used_pct,status',
+      '결제,/api/pay,latency,500,90,50,500,missed',
+      '결제,/api/pay,availability,,99,50,5000,missed'
+    ]);
+    expect(buildCsvReport(reportInput(analyze(['0.010'])))).not.toContain('slo,');
+  });
+});
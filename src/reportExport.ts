@@ -0,0 +1,399 @@
+import { formatInstant } from './timestamps';
+import { formatDurationMs, getIntervalLabel } from './analysisSettings';
+import { getParseCoverage } from './logCore';
+import { SloResult, SLO_OBJECTIVES, SLO_STATUS_LABELS, describeObjective } from './slo';
+import { LogRecord } from './recordStore';
+
+// --- Report Export ---
+// 장애 회고용 리포트. 화면의 KPI, TPS/지연 추이 차트, 응답 시간 분포 히트맵, API 순위, 지연 상위 요청을
+// 오프라인에서 열리는 HTML 한 파일(차트는 인라인 SVG), 전체 summaryStats JSON, 티켓에 붙일 Markdown으로 만듭니다.
+// 모든 리포트에는 어떤 파일/로그 타입/시간 범위/기준으로 만들었는지 meta를 함께 기록합니다.
+// SLO를 정의했다면 SLO별 준수율, 에러 예산, 위반 구간/엔드포인트도 함께 넣습니다.
+
+export const REPORT_TOP_N = 50;
+
+export type ReportMeta = {
+  generatedAt: number;
+  label: string;
+  files: { name: string; size: number }[];
+  logType: string;
+  logTypeLabel: string;
+  rateLabel: string;
+  timeZone: string;
+  range: { from: number; to: number } | null; // 차트에서 고른 시간 범위 (없으면 전체 기간)
+  dataSpan: { from: number; to: number } | null; // 리포트에 포함된 요청의 첫/마지막 초
+  slowThresholdMs: number;
+  bucketEdgesMs: number[];
+  intervalMinutes: number;
+  routeView: string; // 'template' | 'raw'
+};
+
+export type ReportInput = { meta: ReportMeta; stats; apiView; topSlow: LogRecord[]; slo?: SloResult[] };
+
+// 표 한 칸 (null/undefined는 '-' 또는 빈 칸)
+type TableCell = string | number | null | undefined;
+
+// 시간축 차트의 한 점: time(epoch ms)과 계열 값들
+type ChartRow = Record<string, number>;
+
+const formatMs = (sec: number) => `${(sec * 1000).toLocaleString(undefined, { maximumFractionDigits: 1 })}ms`;
+const formatMB = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+const formatRate = (rate: number | null) => rate === null || rate === undefined ? '-' : `${rate.toFixed(2)}%`;
+const formatRatio = (ratio: number | null, digits: number) => ratio === null ? '-' : `${(ratio * 100).toFixed(digits)}%`;
+const formatEntryTime = (log, timeZone: string) => Number.isNaN(log.timestamp) ? log.rawTimestamp : formatInstant(log.timestamp, timeZone);
+
+const describeSpan = (span: { from: number; to: number } | null, timeZone: string) =>
+  span ? `${formatInstant(span.from, timeZone)} ~ ${formatInstant(span.to, timeZone)}` : '-';
+
+const describeRange = (meta: ReportMeta) => meta.range ? describeSpan(meta.range, meta.timeZone) : '전체 기간';
+
+const kpis = ({ meta, stats, apiView }: ReportInput) => [
+  { label: meta.logType === 'sql_logback' ? '쿼리 실행' : '전체 요청', value: stats.totalRequests.toLocaleString() },
+  { label: '평균 응답시간', value: `${stats.avgResponseTime}s` },
+  // 이전 버전에서 저장한 분석 기록에는 전체 지연 분포가 없습니다.
+  ...(stats.latency ? [{ label: 'p95 / p99 응답시간', value: `${formatMs(stats.latency.p95)} / ${formatMs(stats.latency.p99)}` }] : []),
+  { label: meta.logType === 'sql_logback' ? '유니크 쿼리' : '유니크 경로', value: apiView.uniqueApis.toLocaleString() },
+  { label: `최고 부하 (Peak ${meta.rateLabel})`, value: stats.maxTps.toLocaleString() },
+  ...(meta.logType === 'sql_logback' ? [] : [{ label: '에러율 (4xx/5xx)', value: `${stats.errorRate}%` }]),
+  { label: `지연(${formatDurationMs(meta.slowThresholdMs)} 이상) / 실패 건수`, value: stats.detailCount.toLocaleString() },
+  { label: '유니크 IP', value: stats.uniqueIps.toLocaleString() },
+  ...(stats.diagnostics?.lines > 0 ? [{ label: '해석률 (빈 줄 제외)', value: `${(Math.floor(getParseCoverage(stats.diagnostics) * 1000) / 10).toFixed(1)}%` }] : [])
+];
+
+const contextRows = (meta: ReportMeta) => [
+  ['생성 시각', formatInstant(meta.generatedAt, meta.timeZone)],
+  ['파일', meta.files.length > 0 ? meta.files.map(f => `${f.name} (${formatMB(f.size)})`).join(', ') : meta.label],
+  ['로그 타입', meta.logTypeLabel],
+  ['시간 범위', describeRange(meta)],
+  ['데이터 구간', describeSpan(meta.dataSpan, meta.timeZone)],
+  ['표시 시간대', meta.timeZone],
+  ['지연 기준', formatDurationMs(meta.slowThresholdMs)],
+  ['응답 시간 구간 경계', meta.bucketEdgesMs.map(formatDurationMs).join(', ')],
+  ['집계 주기', getIntervalLabel(meta.intervalMinutes)],
+  ['경로 보기', meta.routeView === 'raw' ? '원본 경로' : '템플릿 경로']
+];
+
+// SLO 목표 한 줄씩: 이름, 패턴, 목표, 준수율, 예산 사용, 최고 번 레이트, 판정
+const sloRows = (results: SloResult[]) => results.flatMap(r => r.objectives.map(o => [
+  r.slo.name,
+  r.slo.pattern || '*',
+  `${SLO_OBJECTIVES[o.kind].label}: ${describeObjective(r.slo, o.kind)}`,
+  formatRatio(o.compliance, 3),
+  formatRatio(o.budgetUsed, 1),
+  o.intervals.length > 0 ? `${Math.max(...o.intervals.map(i => i.burnRate)).toFixed(1)}x` : '-',
+  SLO_STATUS_LABELS[o.status]
+]));
+const SLO_HEADERS = ['SLO', 'Pattern', '목표', '준수율', '예산 사용', '최고 번 레이트', '판정'];
+
+// 모든 SLO의 위반 구간/엔드포인트를 번 레이트, 나쁜 요청 수 순으로
+const sloBreaches = (results: SloResult[], timeZone: string) => ({
+  intervals: results.flatMap(r => r.objectives.flatMap(o => o.breachedIntervals.map(i => ({ r, o, i }))))
+    .sort((a, b) => b.i.burnRate - a.i.burnRate)
+    .map(({ r, o, i }) => [r.slo.name, SLO_OBJECTIVES[o.kind].label, formatInstant(i.time, timeZone, 'minute'), `${i.bad.toLocaleString()} / ${i.total.toLocaleString()}`, `${i.burnRate.toFixed(1)}x`]),
+  endpoints: results.flatMap(r => r.objectives.flatMap(o => o.breachedEndpoints.map(e => ({ r, o, e }))))
+    .sort((a, b) => b.e.bad - a.e.bad)
+    .map(({ r, o, e }) => [r.slo.name, SLO_OBJECTIVES[o.kind].label, e.name, `${e.bad.toLocaleString()} / ${e.total.toLocaleString()}`, formatRatio(e.compliance, 2)])
+});
+
+export const getDataSpan = (tpsData: { time: number }[]) =>
+  tpsData.length > 0 ? { from: tpsData[0].time, to: tpsData[tpsData.length - 1].time } : null;
+
+// --- JSON ---
+
+// Infinity(마지막 응답 시간 구간의 상한)는 JSON에 없으므로 문자열로 남깁니다.
+export const buildJsonReport = ({ meta, stats, topSlow, slo }: ReportInput) => JSON.stringify(
+  { meta, summaryStats: stats, topSlowEntries: topSlow.map(({ lineRef, ...log }) => log), ...(slo?.length ? { slo } : {}) },
+  (_, value) => value === Infinity ? 'Infinity' : value,
+  2
+);
+
+// --- Markdown ---
+
+const mdCell = (value) => String(value ?? '-').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+const mdTable = (headers: string[], rows: TableCell[][]) => [
+  `| ${headers.join(' | ')} |`,
+  `| ${headers.map(() => '---').join(' | ')} |`,
+  ...rows.map(row => `| ${row.map(mdCell).join(' | ')} |`)
+].join('\n');
+
+const MD_API_ROWS = 10;
+const MD_SLOW_ROWS = 20;
+const MD_SLO_BREACH_ROWS = 20;
+
+const mdSloSection = (results: SloResult[] | undefined, timeZone: string) => {
+  if (!results?.length) return [];
+  const { intervals, endpoints } = sloBreaches(results, timeZone);
+  return [
+    '## SLO 준수율',
+    '',
+    mdTable(SLO_HEADERS, sloRows(results)),
+    '',
+    ...(intervals.length > 0 ? [
+      `### SLO 위반 구간 (번 레이트 1x 초과, 상위 ${Math.min(MD_SLO_BREACH_ROWS, intervals.length)})`,
+      '',
+      mdTable(['SLO', '목표', '구간', '나쁜 요청', '번 레이트'], intervals.slice(0, MD_SLO_BREACH_ROWS)),
+      ''
+    ] : []),
+    ...(endpoints.length > 0 ? [
+      '### 목표에 못 미친 엔드포인트',
+      '',
+      mdTable(['SLO', '목표', 'Endpoint', '나쁜 요청', '준수율'], endpoints.slice(0, MD_SLO_BREACH_ROWS).map(([name, kind, endpoint, ...rest]) => [name, kind, `\`${endpoint}\``, ...rest])),
+      ''
+    ] : [])
+  ];
+};
+
+export const buildMarkdownReport = (input: ReportInput) => {
+  const { meta, apiView, topSlow } = input;
+  return [
+    `# 로그 분석 리포트 — ${meta.label}`,
+    '',
+    ...contextRows(meta).map(([label, value]) => `- **${label}**: ${value}`),
+    '',
+    '## 주요 지표',
+    '',
+    mdTable(['지표', '값'], kpis(input).map(k => [k.label, k.value])),
+    '',
+    ...mdSloSection(input.slo, meta.timeZone),
+    '## 지연 시간 상위 API (평균)',
+    '',
+    mdTable(['#', 'Target', 'Count', 'Avg', 'p95', 'p99', 'Max'],
+      apiView.topSlowApis.slice(0, MD_API_ROWS).map((s, i) => [i + 1, `\`${s.name}\``, s.count.toLocaleString(), formatMs(s.avgTime), formatMs(s.p95), formatMs(s.p99), formatMs(s.max)])),
+    '',
+    '## 호출 빈도 상위 API',
+    '',
+    mdTable(['#', 'Target', 'Count', 'Avg'],
+      apiView.topApis.slice(0, MD_API_ROWS).map((s, i) => [i + 1, `\`${s.name}\``, s.count.toLocaleString(), formatMs(s.avgTime)])),
+    '',
+    `## 지연 상위 요청 (Top ${Math.min(MD_SLOW_ROWS, topSlow.length)})`,
+    '',
+    mdTable(['#', 'Timestamp', 'Target', 'Method', 'Status', 'Duration'],
+      topSlow.slice(0, MD_SLOW_ROWS).map((log, i) => [i + 1, formatEntryTime(log, meta.timeZone), `\`${log.url}\``, log.method, log.status || '-', formatMs(log.responseTime)])),
+    ''
+  ].join('\n');
+};
+
+// --- HTML ---
+
+const escapeHtml = (value) => String(value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]));
+
+const CHART_WIDTH = 960;
+const CHART_HEIGHT = 240;
+const CHART_PAD = { top: 12, right: 16, bottom: 28, left: 64 };
+
+// 시간축 꺾은선 차트를 SVG 문자열로 그립니다. fill이 있는 계열은 영역으로 채웁니다.
+const svgTimeChart = (rows: ChartRow[], series: { key: string; color: string; fill?: boolean }[], formatY: (v: number) => string, timeZone: string) => {
+  if (rows.length === 0) return '<p class="muted">데이터 없음</p>';
+  const innerW = CHART_WIDTH - CHART_PAD.left - CHART_PAD.right;
+  const innerH = CHART_HEIGHT - CHART_PAD.top - CHART_PAD.bottom;
+  const t0 = rows[0].time;
+  const t1 = rows[rows.length - 1].time;
+  const maxY = Math.max(...series.flatMap(s => rows.map(r => r[s.key] || 0)), 0) || 1;
+  const x = (t: number) => CHART_PAD.left + (t1 > t0 ? ((t - t0) / (t1 - t0)) * innerW : innerW / 2);
+  const y = (v: number) => CHART_PAD.top + innerH - (v / maxY) * innerH;
+  const baseline = y(0);
+
+  const grid = [0, 0.25, 0.5, 0.75, 1].map(f => {
+    const v = maxY * f;
+    return `<line x1="${CHART_PAD.left}" x2="${CHART_WIDTH - CHART_PAD.right}" y1="${y(v)}" y2="${y(v)}" stroke="#f1f5f9"/>`
+      + `<text x="${CHART_PAD.left - 6}" y="${y(v) + 3}" text-anchor="end">${escapeHtml(formatY(v))}</text>`;
+  }).join('');
+  const ticks = [0, 0.5, 1].map(f => {
+    const t = t0 + (t1 - t0) * f;
+    const anchor = f === 0 ? 'start' : f === 1 ? 'end' : 'middle';
+    return `<text x="${x(t)}" y="${CHART_HEIGHT - 8}" text-anchor="${anchor}">${escapeHtml(formatInstant(t, timeZone, 'minute'))}</text>`;
+  }).join('');
+  const paths = series.map(s => {
+    const line = rows.map((r, i) => `${i === 0 ? 'M' : 'L'}${x(r.time).toFixed(1)},${y(r[s.key] || 0).toFixed(1)}`).join('');
+    const area = s.fill ? `<path d="${line}L${x(t1).toFixed(1)},${baseline}L${x(t0).toFixed(1)},${baseline}Z" fill="${s.color}" fill-opacity="0.12"/>` : '';
+    return `${area}<path d="${line}" fill="none" stroke="${s.color}" stroke-width="1.5"/>`;
+  }).join('');
+  const legend = series.length > 1
+    ? `<div class="legend">${series.map(s => `<span><i style="background:${s.color}"></i>${escapeHtml(s.key)}</span>`).join('')}</div>`
+    : '';
+
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" class="chart">${grid}${ticks}${paths}</svg>${legend}`;
+};
+
+// 앱의 히트맵과 같은 기준(행 합계 대비 비율)으로 칸 색을 정합니다.
+const heatClass = (value: number, total: number) => {
+  if (!value) return 'h0';
+  const ratio = value / total;
+  return ratio < 0.05 ? 'h1' : ratio < 0.2 ? 'h2' : ratio < 0.5 ? 'h3' : 'h4';
+};
+
+const htmlTable = (headers: string[], rows: TableCell[][], numericFrom = 1) => `
+<table>
+  <thead><tr>${headers.map((h, i) => `<th${i >= numericFrom ? ' class="num"' : ''}>${escapeHtml(h)}</th>`).join('')}</tr></thead>
+  <tbody>${rows.map(row => `<tr>${row.map((v, i) => `<td${i >= numericFrom ? ' class="num"' : ''}>${escapeHtml(v)}</td>`).join('')}</tr>`).join('')}</tbody>
+</table>`;
+
+const HTML_STYLE = `
+body{font-family:-apple-system,BlinkMacSystemFont,"Segoe UI","Malgun Gothic",sans-serif;color:#0f172a;background:#f8fafc;margin:0;padding:32px}
+main{max-width:1040px;margin:0 auto}
+h1{font-size:24px;margin:0 0 4px}h2{font-size:16px;margin:0 0 16px}h3{font-size:13px;margin:20px 0 8px}
+section{background:#fff;border:1px solid #e2e8f0;border-radius:20px;padding:24px;margin-top:20px}
+.muted{color:#94a3b8;font-size:12px}
+dl.context{display:grid;grid-template-columns:160px 1fr;gap:6px 16px;font-size:12px;margin:0}dl.context dt{color:#64748b;font-weight:700}dl.context dd{margin:0;font-family:ui-monospace,monospace;word-break:break-all}
+.kpis{display:grid;grid-template-columns:repeat(auto-fill,minmax(180px,1fr));gap:12px}
+.kpi{border:1px solid #e2e8f0;border-radius:16px;padding:14px}.kpi p{margin:0}.kpi .label{font-size:10px;color:#94a3b8;font-weight:800;text-transform:uppercase;letter-spacing:.08em}.kpi .value{font-size:22px;font-weight:900;margin-top:4px}
+.chart{width:100%;height:auto;font-size:10px;fill:#94a3b8}
+.legend{display:flex;gap:16px;font-size:11px;color:#64748b;margin-top:8px}.legend i{display:inline-block;width:10px;height:10px;border-radius:3px;margin-right:6px;vertical-align:-1px}
+table{width:100%;border-collapse:collapse;font-size:12px}th{background:#f8fafc;color:#64748b;text-align:left;padding:8px;border-bottom:1px solid #e2e8f0}td{padding:6px 8px;border-bottom:1px solid #f1f5f9;word-break:break-all}
+.num{text-align:right;white-space:nowrap;font-family:ui-monospace,monospace}
+.scroll{max-height:480px;overflow:auto}
+.heat td{text-align:center;font-family:ui-monospace,monospace}.heat td:first-child{text-align:left;white-space:nowrap;font-weight:700;color:#475569}
+.h0{color:#e2e8f0}.h1{background:#f8fafc;color:#94a3b8}.h2{background:#eff6ff;color:#2563eb}.h3{background:#dbeafe;color:#1e40af;font-weight:600}.h4{background:#3b82f6;color:#fff;font-weight:700}
+`;
+
+// SLO마다 구간별 번 레이트 차트, 그 아래 위반 구간/엔드포인트 표
+const htmlSloSection = (results: SloResult[] | undefined, timeZone: string) => {
+  if (!results?.length) return '';
+  const { intervals, endpoints } = sloBreaches(results, timeZone);
+  const charts = results.filter(r => r.objectives.some(o => o.intervals.length > 0)).map(r => {
+    const rows = new Map<number, ChartRow>();
+    for (const o of r.objectives) {
+      for (const i of o.intervals) {
+        if (!rows.has(i.time)) rows.set(i.time, { time: i.time });
+        rows.get(i.time)[`${SLO_OBJECTIVES[o.kind].label} 번 레이트`] = i.burnRate;
+      }
+    }
+    const series = r.objectives.map(o => ({ key: `${SLO_OBJECTIVES[o.kind].label} 번 레이트`, color: SLO_OBJECTIVES[o.kind].color }));
+    return `<h3>${escapeHtml(r.slo.name)} <span class="muted">${escapeHtml(r.slo.pattern || '*')}</span></h3>
+    ${svgTimeChart([...rows.values()].sort((a, b) => a.time - b.time), series, (v) => `${v.toFixed(1)}x`, timeZone)}`;
+  }).join('');
+  return `
+  <section>
+    <h2>SLO 준수율</h2>
+    ${htmlTable(SLO_HEADERS, sloRows(results), 3)}
+    ${charts}
+    ${intervals.length > 0 ? `<h3>위반 구간 (번 레이트 1x 초과)</h3><div class="scroll">${htmlTable(['SLO', '목표', '구간', '나쁜 요청', '번 레이트'], intervals, 3)}</div>` : ''}
+    ${endpoints.length > 0 ? `<h3>목표에 못 미친 엔드포인트</h3>${htmlTable(['SLO', '목표', 'Endpoint', '나쁜 요청', '준수율'], endpoints, 3)}` : ''}
+  </section>
+`;
+};
+
+export const buildHtmlReport = (input: ReportInput) => {
+  const { meta, stats, apiView, topSlow } = input;
+  const tz = meta.timeZone;
+  const msAxis = (v: number) => `${Math.round(v * 1000)}ms`;
+
+  const heatRows = stats.distributionStats.map(row => {
+    const total = stats.bucketConfig.reduce((acc, b) => acc + row[b.key], 0);
+    const cells = stats.bucketConfig.map(b => `<td class="${heatClass(row[b.key], total)}">${row[b.key].toLocaleString()}</td>`).join('');
+    return `<tr><td>${escapeHtml(formatInstant(row.time, tz, 'minute'))}</td>${cells}<td><b>${total.toLocaleString()}</b></td></tr>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`로그 분석 리포트 - ${meta.label}`)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<main>
+  <h1>로그 분석 리포트 — ${escapeHtml(meta.label)}</h1>
+  <p class="muted">이 파일은 외부 리소스 없이 열리는 오프라인 리포트입니다.</p>
+
+  <section>
+    <h2>분석 조건</h2>
+    <dl class="context">${contextRows(meta).map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`).join('')}</dl>
+  </section>
+
+  <section>
+    <h2>주요 지표</h2>
+    <div class="kpis">${kpis(input).map(k => `<div class="kpi"><p class="label">${escapeHtml(k.label)}</p><p class="value">${escapeHtml(k.value)}</p></div>`).join('')}</div>
+  </section>
+${htmlSloSection(input.slo, tz)}
+  <section>
+    <h2>초당 처리량 (${escapeHtml(meta.rateLabel)})</h2>
+    ${svgTimeChart(stats.tpsData, [{ key: 'tps', color: '#3b82f6', fill: true }], (v) => Math.round(v).toLocaleString(), tz)}
+  </section>
+
+  <section>
+    <h2>${escapeHtml(getIntervalLabel(stats.intervalMinutes))} 주기 지연 시간 백분위</h2>
+    ${svgTimeChart(stats.latencyTimeline, [{ key: 'p50', color: '#3b82f6' }, { key: 'p95', color: '#f59e0b' }, { key: 'p99', color: '#ef4444' }], msAxis, tz)}
+  </section>
+
+  <section>
+    <h2>응답 시간 분포 히트맵</h2>
+    <div class="scroll">
+      <table class="heat">
+        <thead><tr><th>Time</th>${stats.bucketConfig.map(b => `<th>${escapeHtml(b.label)}</th>`).join('')}<th>Total</th></tr></thead>
+        <tbody>${heatRows}</tbody>
+      </table>
+    </div>
+  </section>
+
+  <section>
+    <h2>지연 시간 상위 API (평균)</h2>
+    ${htmlTable(['Target', 'Count', 'Avg', 'p50', 'p95', 'p99', 'Max', 'Error %'],
+      apiView.topSlowApis.map(s => [s.name, s.count.toLocaleString(), formatMs(s.avgTime), formatMs(s.p50), formatMs(s.p95), formatMs(s.p99), formatMs(s.max), formatRate(s.errorRate)]))}
+  </section>
+
+  <section>
+    <h2>호출 빈도 상위 API</h2>
+    ${htmlTable(['Target', 'Count', 'Avg'], apiView.topApis.map(s => [s.name, s.count.toLocaleString(), formatMs(s.avgTime)]))}
+  </section>
+
+  <section>
+    <h2>지연 상위 요청 (Top ${topSlow.length})</h2>
+    <div class="scroll">
+    ${htmlTable(['Timestamp', 'Target', 'Method', 'Status', 'IP', 'Duration'],
+      topSlow.map(log => [formatEntryTime(log, tz), log.statement ? `${log.url}\n${log.statement}` : log.url, log.method, log.status || '-', log.ip, formatMs(log.responseTime)]), 5)}
+    </div>
+  </section>
+</main>
+</body>
+</html>
+`;
+};
+
+// --- CSV ---
+
+// 쉼표, 따옴표, 줄바꿈이 있는 값만 따옴표로 감쌉니다. (상세 목록 CSV 내보내기도 같은 규칙)
+export const csvCell = (value) => {
+  const text = String(value ?? '');
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+const csvMs = (sec: number | undefined) => sec === undefined ? '' : +(sec * 1000).toFixed(3);
+
+const csvPercent = (ratio: number | null) => ratio === null ? '' : +(ratio * 100).toFixed(3);
+
+// SLO 목표 한 줄씩. 판정은 met | missed | noData 그대로 적습니다.
+const csvSloRows = (results: SloResult[]) => [
+  ['slo', 'pattern', 'objective', 'latency_ms', 'target_pct', 'compliance_pct', 'budget_used_pct', 'status'],
+  ...results.flatMap(r => r.objectives.map(o => [
+    r.slo.name, r.slo.pattern || '*', o.kind, o.kind === 'latency' ? r.slo.latencyMs : '',
+    csvPercent(o.target), csvPercent(o.compliance), csvPercent(o.budgetUsed), o.status
+  ]))
+];
+
+// 엔드포인트별 지표를 호출 수 순으로 한 줄씩. 첫 줄은 전체 합계입니다. (CLI 출력, 스프레드시트용)
+// SLO가 있으면 빈 줄 뒤에 SLO 표를 이어 붙입니다.
+export const buildCsvReport = ({ stats, apiView, slo }: ReportInput) => {
+  const total = stats.latency || {};
+  const rows = [
+    ['endpoint', 'count', 'avg_ms', 'p50_ms', 'p90_ms', 'p95_ms', 'p99_ms', 'max_ms', 'error_rate'],
+    ['*', stats.totalRequests, csvMs(stats.avgTime ?? undefined), csvMs(total.p50), csvMs(total.p90), csvMs(total.p95), csvMs(total.p99), csvMs(total.max), stats.errorRate],
+    ...[...apiView.apiLatencyStats].sort((a, b) => b.count - a.count).map(s => [
+      s.name, s.count, csvMs(s.avgTime), csvMs(s.p50), csvMs(s.p90), csvMs(s.p95), csvMs(s.p99), csvMs(s.max),
+      s.errorRate === null ? '' : s.errorRate.toFixed(2)
+    ]),
+    ...(slo?.length ? [[], ...csvSloRows(slo)] : [])
+  ];
+  return rows.map(row => row.map(csvCell).join(',')).join('\n');
+};
+
+export const downloadText = (content: string, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { compileRouteTemplate, createRouteNormalizer, autoTemplatePath } from './routeTemplates';
+
+describe('compileRouteTemplate', () => {
+  it('matches the bare prefix for a trailing /** like Spring', () => {
+    const regex = compileRouteTemplate('/api/pay/**');
+    expect(regex.test('/api/pay')).toBe(true);
+    expect(regex.test('/api/pay/')).toBe(true);
+    expect(regex.test('/api/pay/123/refund')).toBe(true);
+    expect(regex.test('/api/payment')).toBe(false);
+  });
+
+  it('matches zero or more segments for /** in the middle', () => {
+    const regex = compileRouteTemplate('/files/**/meta');
+    expect(regex.test('/files/meta')).toBe(true);
+    expect(regex.test('/files/a/b/meta')).toBe(true);
+    expect(regex.test('/filesx/meta')).toBe(false);
+  });
+
+  it('keeps * and {name} within one segment', () => {
+    expect(compileRouteTemplate('/users/{id}').test('/users/42')).toBe(true);
+    expect(compileRouteTemplate('/users/{id}').test('/users/42/orders')).toBe(false);
+    expect(compileRouteTemplate('/users/{id:\\d{2}}').test('/users/420')).toBe(false);
+    expect(compileRouteTemplate('/static/*.js').test('/static/app.js')).toBe(true);
+    expect(compileRouteTemplate('/static/*.js').test('/static/a/app.js')).toBe(false);
+  });
+});
+
+describe('createRouteNormalizer', () => {
+  it('prefers user templates over automatic rules', () => {
+    const normalize = createRouteNormalizer({ autoTemplate: true, templates: ['/api/pay/**'] });
+    expect(normalize('/api/pay')).toBe('/api/pay/**');
+    expect(normalize('/api/users/123')).toBe('/api/users/{id}');
+  });
+
+  it('replaces id-like segments automatically', () => {
+    expect(autoTemplatePath('/orders/2026-10-01/7f3a9c2e1b')).toBe('/orders/{date}/{hash}');
+    expect(autoTemplatePath('/users/123e4567-e89b-12d3-a456-426614174000')).toBe('/users/{uuid}');
+    expect(autoTemplatePath('com.example.Mapper.select')).toBe('com.example.Mapper.select');
+  });
+});
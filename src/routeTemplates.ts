@@ -0,0 +1,97 @@
+// --- URL Route Templates ---
+// REST 경로의 ID/UUID/해시/날짜 세그먼트를 자리표시자로 바꿔 `/users/123`, `/users/456`을 하나의 엔드포인트로 집계합니다.
+// 사용자가 등록한 Spring @RequestMapping 스타일 템플릿(`/users/{id}`, `/files/**`)이 자동 규칙보다 우선합니다.
+
+export type RouteConfig = {
+  autoTemplate: boolean;
+  templates: string[];
+};
+
+export const DEFAULT_ROUTE_CONFIG: RouteConfig = { autoTemplate: true, templates: [] };
+
+const SEGMENT_RULES = [
+  { placeholder: '{uuid}', test: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i },
+  { placeholder: '{date}', test: /^(19|20)\d{2}-?(0[1-9]|1[0-2])-?(0[1-9]|[12]\d|3[01])$/ },
+  { placeholder: '{id}', test: /^\d+$/ },
+  { placeholder: '{hash}', test: /^(?=.*\d)(?=.*[a-f])[0-9a-f]{8,}$/i },
+];
+
+const templateSegment = (segment: string) => {
+  if (!segment) return segment;
+  const rule = SEGMENT_RULES.find(r => r.test.test(segment));
+  return rule ? rule.placeholder : segment;
+};
+
+// URL 경로에만 적용합니다. (MyBatis 매퍼 ID처럼 '/'로 시작하지 않는 값은 그대로 둡니다)
+export const autoTemplatePath = (path: string) => {
+  if (!path.startsWith('/')) return path;
+  return path.split('/').map(templateSegment).join('/');
+};
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Spring 패턴을 정규식으로 변환합니다: {name} → 한 세그먼트, {name:regex} → regex, * → 세그먼트 일부, ** → 여러 세그먼트
+export const compileRouteTemplate = (template: string) => {
+  let source = '';
+  let i = 0;
+  while (i < template.length) {
+    const ch = template[i];
+    if (ch === '{') {
+      // {name:\d{3}} 처럼 정규식 안의 중괄호를 고려해 짝을 찾습니다.
+      let depth = 1;
+      let j = i + 1;
+      while (j < template.length && depth > 0) {
+        if (template[j] === '{') depth++;
+        else if (template[j] === '}') depth--;
+        j++;
+      }
+      const body = template.slice(i + 1, j - 1);
+      const colon = body.indexOf(':');
+      source += colon >= 0 ? `(?:${body.slice(colon + 1)})` : '[^/]+';
+      i = j;
+    } else if (template.startsWith('/**', i) && (i + 3 === template.length || template[i + 3] === '/')) {
+      // Spring처럼 '/**'는 세그먼트가 없는 경우도 포함합니다. (/api/pay/**는 /api/pay에도 맞음)
+      source += '(?:/.*)?';
+      i += 3;
+    } else if (template.startsWith('**', i)) {
+      source += '.*';
+      i += 2;
+    } else if (ch === '*') {
+      source += '[^/]*';
+      i++;
+    } else {
+      source += escapeRegex(ch);
+      i++;
+    }
+  }
+  return new RegExp(`^${source}/?$`);
+};
+
+export const createRouteNormalizer = (config: RouteConfig = DEFAULT_ROUTE_CONFIG) => {
+  const matchers = config.templates
+    .map(t => t.trim())
+    .filter(Boolean)
+    .map(template => {
+      try { return { template, regex: compileRouteTemplate(template) }; } catch (e) { return null; }
+    })
+    .filter(Boolean);
+
+  return (path: string) => {
+    for (const { template, regex } of matchers) if (regex.test(path)) return template;
+    return config.autoTemplate ? autoTemplatePath(path) : path;
+  };
+};
+
+// --- Local Persistence ---
+const STORAGE_KEY = 'logAnalyzer.routeConfig';
+
+export const loadRouteConfig = (): RouteConfig => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_ROUTE_CONFIG, ...JSON.parse(raw) } : DEFAULT_ROUTE_CONFIG;
+  } catch (e) { return DEFAULT_ROUTE_CONFIG; }
+};
+
+export const saveRouteConfig = (config: RouteConfig) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
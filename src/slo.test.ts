@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateSlos, getSloStatus, normalizeSlo, validateSlo } from './slo';
+import { buildRecordStore, BASE_TIME, MINUTE, TEST_SETTINGS, TestRecord } from './testRecords';
+
+// 응답 시간(초), 상태 코드, 분으로 요청 하나
+const req = (url: string, responseTime: number | null, status: number, minute: number): TestRecord => ({ url, responseTime, status, at: minute * MINUTE });
+
+const paySlo = normalizeSlo({ name: '결제', pattern: '/api/pay/**', latencyMs: 500, latencyTarget: 90, availabilityTarget: 99 }, 0);
+
+describe('evaluateSlos', () => {
+  it('matches the bare prefix of a trailing /** pattern', () => {
+    const store = buildRecordStore([
+      req('/api/pay', 0.1, 200, 0),
+      req('/api/pay/{id}', 0.2, 200, 0),
+      req('/api/users', 0.1, 200, 0),
+    ]);
+    const [result] = evaluateSlos(store, [paySlo], TEST_SETTINGS);
+    expect(result.matched).toBe(2);
+    expect(getSloStatus(result)).toBe('met');
+  });
+
+  it('reports an SLO that matched nothing as no data, not met', () => {
+    const store = buildRecordStore([req('/api/users', 0.1, 200, 0)]);
+    const [result] = evaluateSlos(store, [paySlo], TEST_SETTINGS);
+    expect(result.matched).toBe(0);
+    expect(result.objectives.every(o => o.status === 'noData' && !o.isMet && o.compliance === null)).toBe(true);
+    expect(getSloStatus(result)).toBe('noData');
+  });
+
+  it('computes compliance, budget and burn rate per interval', () => {
+    const rows: TestRecord[] = [];
+    for (let i = 0; i < 10; i++) rows.push(req('/api/pay', 0.1, 200, 0));
+    for (let i = 0; i < 8; i++) rows.push(req('/api/pay', 0.1, 200, 1));
+    rows.push(req('/api/pay', 0.8, 200, 1), req('/api/pay', 0.9, 503, 1));
+    const [result] = evaluateSlos(buildRecordStore(rows), [paySlo], TEST_SETTINGS);
+    const latency = result.objectives.find(o => o.kind === 'latency');
+    const availability = result.objectives.find(o => o.kind === 'availability');
+
+    expect(latency.total).toBe(20);
+    expect(latency.bad).toBe(2);
+    expect(latency.compliance).toBeCloseTo(0.9);
+    expect(latency.status).toBe('met');
+    expect(latency.budgetUsed).toBeCloseTo(1);
+    expect(latency.breachedIntervals.map(i => i.time)).toEqual([BASE_TIME + MINUTE]);
+    expect(latency.breachedIntervals[0].burnRate).toBeCloseTo(2);
+
+    expect(availability.bad).toBe(1);
+    expect(availability.compliance).toBeCloseTo(0.95);
+    expect(availability.status).toBe('missed');
+    expect(getSloStatus(result)).toBe('missed');
+  });
+
+  it('limits latency objectives to requests with a response time', () => {
+    const store = buildRecordStore([req('/api/pay', null, 200, 0)]);
+    const [result] = evaluateSlos(store, [paySlo], TEST_SETTINGS);
+    expect(result.matched).toBe(1);
+    expect(result.objectives.find(o => o.kind === 'latency').status).toBe('noData');
+    expect(result.objectives.find(o => o.kind === 'availability').status).toBe('met');
+    expect(getSloStatus(result)).toBe('noData');
+  });
+
+  it('counts a request exactly at the latency target as bad', () => {
+    // 1.005초 × 1000은 1004.999…라서 곱해서 비교하면 목표 미만으로 셉니다.
+    const slo = normalizeSlo({ name: '경계', pattern: '/api/pay', latencyMs: 1005, latencyTarget: 50 }, 0);
+    const store = buildRecordStore([req('/api/pay', 1.005, 200, 0), req('/api/pay', 1.004, 200, 0)]);
+    const [latency] = evaluateSlos(store, [slo], TEST_SETTINGS)[0].objectives;
+    expect(latency.bad).toBe(1);
+    expect(latency.compliance).toBe(0.5);
+  });
+});
+
+describe('validateSlo', () => {
+  it('requires at least one objective with valid percentages', () => {
+    expect(validateSlo(paySlo)).toBeNull();
+    expect(validateSlo(normalizeSlo({ name: 'x', pattern: '/a' }, 0))).not.toBeNull();
+    expect(validateSlo(normalizeSlo({ name: 'x', availabilityTarget: 100 }, 0))).not.toBeNull();
+    expect(validateSlo(normalizeSlo({ name: 'x', latencyMs: 200 }, 0))).not.toBeNull();
+  });
+});
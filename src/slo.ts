@@ -0,0 +1,216 @@
+import { RecordStore, isInRange, TimeRange } from './recordStore';
+import { AnalysisSettings, formatDurationMs } from './analysisSettings';
+import { compileRouteTemplate } from './routeTemplates';
+import { floorToInterval } from './timestamps';
+
+// --- Service Level Objectives ---
+// "/api/pay 요청의 99%가 500ms 미만, 5xx는 0.1% 미만" 같은 목표를 엔드포인트 템플릿(또는 매퍼 ID) 패턴별로 정의하고,
+// 분석한 기간 전체와 집계 주기마다 준수율을 계산합니다.
+// 에러 예산은 목표가 허용하는 나쁜 요청 수((1 - 목표) × 전체 요청)이고, 번 레이트(burn rate)는 구간의 나쁜 요청 비율을
+// 허용 비율로 나눈 값입니다. 번 레이트 1은 기간 끝에 예산을 정확히 다 쓰는 속도이며, 1을 넘은 구간을 위반 구간으로 봅니다.
+
+export type SloDefinition = {
+  id: string;
+  name: string;
+  pattern: string; // 경로 템플릿 적용 후의 엔드포인트 또는 매퍼 ID 패턴 (Spring 스타일, 비우면 전체)
+  latencyMs: number | null; // 지연 목표: 응답 시간이 latencyMs 미만인 요청이
+  latencyTarget: number | null; // 이 비율(%) 이상
+  availabilityTarget: number | null; // 가용성 목표: 5xx가 아닌 요청이 이 비율(%) 이상
+};
+
+export type SloObjectiveKind = 'latency' | 'availability';
+
+// 판정: 충족, 위반, 대상 요청이 없어 판정할 수 없음
+export type SloStatus = 'met' | 'missed' | 'noData';
+
+export type SloInterval = {
+  time: number; // 구간 시작 (epoch ms)
+  total: number;
+  bad: number;
+  burnRate: number;
+  budgetUsed: number; // 이 구간까지 쓴 예산 누적 (전체 기간 예산 대비, 0~)
+};
+
+export type SloEndpoint = { name: string; total: number; bad: number; compliance: number };
+
+export type SloObjectiveResult = {
+  kind: SloObjectiveKind;
+  target: number; // 0~1
+  total: number;
+  bad: number;
+  compliance: number | null; // 대상 요청이 없으면 null
+  budgetUsed: number; // 쓴 예산 비율 (1이면 모두 씀)
+  isMet: boolean; // 대상 요청이 없으면 false (status가 'noData')
+  status: SloStatus;
+  intervals: SloInterval[];
+  breachedIntervals: SloInterval[]; // 번 레이트가 1을 넘은 구간 (번 레이트 높은 순)
+  breachedEndpoints: SloEndpoint[]; // 준수율이 목표에 못 미친 엔드포인트 (나쁜 요청 많은 순)
+};
+
+export type SloResult = { slo: SloDefinition; matched: number; objectives: SloObjectiveResult[] };
+
+export const SLO_OBJECTIVES: Record<SloObjectiveKind, { label: string; color: string }> = {
+  latency: { label: '지연', color: '#f59e0b' },
+  availability: { label: '가용성', color: '#ef4444' },
+};
+
+const MAX_BREACHED_INTERVALS = 50;
+const MAX_BREACHED_ENDPOINTS = 10;
+
+export const describeObjective = (slo: SloDefinition, kind: SloObjectiveKind) => kind === 'latency'
+  ? `${slo.latencyTarget}%가 ${formatDurationMs(slo.latencyMs)} 미만`
+  : `${slo.availabilityTarget}%가 5xx 아님`;
+
+// 패턴이 비어 있거나 '**'이면 모든 엔드포인트
+const compilePattern = (pattern: string) => {
+  const trimmed = pattern.trim();
+  return trimmed && trimmed !== '**' ? compileRouteTemplate(trimmed) : null;
+};
+
+const isPercent = (value: number | null) => Number.isFinite(value) && value > 0 && value < 100;
+
+// 잘못된 정의면 이유를, 올바르면 null
+export const validateSlo = (slo: SloDefinition) => {
+  if (!slo.name?.trim()) return '이름을 입력해 주세요.';
+  try { compilePattern(slo.pattern || ''); } catch (e) { return `잘못된 패턴입니다: ${slo.pattern}`; }
+  const hasLatency = slo.latencyMs !== null || slo.latencyTarget !== null;
+  const hasAvailability = slo.availabilityTarget !== null;
+  if (!hasLatency && !hasAvailability) return '지연 목표나 가용성 목표 중 하나는 있어야 합니다.';
+  if (hasLatency && !(Number.isFinite(slo.latencyMs) && slo.latencyMs > 0)) return '지연 목표의 응답 시간(ms)이 올바르지 않습니다.';
+  if (hasLatency && !isPercent(slo.latencyTarget)) return '지연 목표 비율은 0보다 크고 100보다 작아야 합니다.';
+  if (hasAvailability && !isPercent(slo.availabilityTarget)) return '가용성 목표 비율은 0보다 크고 100보다 작아야 합니다.';
+  return null;
+};
+
+type Tally = { total: number; bad: number };
+
+const addTally = <K,>(map: Map<K, Tally>, key: K, isBad: boolean) => {
+  let tally = map.get(key);
+  if (!tally) map.set(key, tally = { total: 0, bad: 0 });
+  tally.total++;
+  if (isBad) tally.bad++;
+};
+
+const summarizeObjective = (kind: SloObjectiveKind, targetPercent: number, byInterval: Map<number, Tally>, byEndpoint: Map<number, Tally>, urls: string[]): SloObjectiveResult => {
+  const target = targetPercent / 100;
+  const allowedShare = 1 - target;
+  let total = 0;
+  let bad = 0;
+  for (const t of byInterval.values()) {
+    total += t.total;
+    bad += t.bad;
+  }
+  const budget = total * allowedShare;
+
+  let usedSoFar = 0;
+  const intervals = [...byInterval.entries()].sort((a, b) => a[0] - b[0]).map(([time, t]) => {
+    usedSoFar += t.bad;
+    return { time, total: t.total, bad: t.bad, burnRate: t.bad / t.total / allowedShare, budgetUsed: budget > 0 ? usedSoFar / budget : 0 };
+  });
+  const breachedIntervals = intervals
+    .filter(i => i.burnRate > 1)
+    .sort((a, b) => b.burnRate - a.burnRate || a.time - b.time)
+    .slice(0, MAX_BREACHED_INTERVALS);
+  const breachedEndpoints = [...byEndpoint.entries()]
+    .map(([urlId, t]) => ({ name: urls[urlId], total: t.total, bad: t.bad, compliance: 1 - t.bad / t.total }))
+    .filter(e => e.compliance < target)
+    .sort((a, b) => b.bad - a.bad || a.compliance - b.compliance)
+    .slice(0, MAX_BREACHED_ENDPOINTS);
+
+  const compliance = total > 0 ? 1 - bad / total : null;
+  const status: SloStatus = compliance === null ? 'noData' : compliance >= target ? 'met' : 'missed';
+  return {
+    kind, target, total, bad, compliance,
+    budgetUsed: budget > 0 ? bad / budget : 0,
+    isMet: status === 'met',
+    status,
+    intervals, breachedIntervals, breachedEndpoints
+  };
+};
+
+// 레코드를 한 번 훑어 모든 SLO를 계산합니다. 구간은 히트맵과 같은 집계 주기/시간대로 나누고,
+// range가 있으면 그 시간 범위 안의 요청만 봅니다. 지연 목표는 응답 시간이 있는 요청만 셉니다.
+export const evaluateSlos = (store: RecordStore, slos: SloDefinition[], settings: AnalysisSettings, range: TimeRange | null = null): SloResult[] => {
+  const intervalMs = settings.intervalMinutes * 60000;
+  const intervalKeys = store.timeValues.map(t => Number.isNaN(t) ? NaN : floorToInterval(t, intervalMs, settings.timeZone));
+  const urls = store.dictionaries.url;
+
+  const states = slos.map(slo => {
+    const regex = compilePattern(slo.pattern || '');
+    return {
+      slo,
+      matches: urls.map(url => !regex || regex.test(url)),
+      matched: 0,
+      latencySec: slo.latencyMs / 1000, // 로그에서 읽은 초 값과 그대로 비교합니다. (초 × 1000은 1.001 → 1000.999…처럼 어긋날 수 있음)
+      latency: slo.latencyTarget !== null ? { byInterval: new Map<number, Tally>(), byEndpoint: new Map<number, Tally>() } : null,
+      availability: slo.availabilityTarget !== null ? { byInterval: new Map<number, Tally>(), byEndpoint: new Map<number, Tally>() } : null
+    };
+  });
+
+  for (let i = 0; i < store.length; i++) {
+    const timeId = store.columns.time[i];
+    const key = timeId < 0 ? NaN : intervalKeys[timeId];
+    // 구간을 알 수 없는 요청은 추이와 합계가 어긋나지 않도록 모든 계산에서 뺍니다.
+    if (Number.isNaN(key) || (range && !isInRange(store.timeValues[timeId], range))) continue;
+    const urlId = store.columns.url[i];
+    if (urlId < 0) continue;
+    const rt = store.responseTime[i];
+    const is5xx = store.status[i] >= 500;
+    for (const state of states) {
+      if (!state.matches[urlId]) continue;
+      state.matched++;
+      if (state.latency && !Number.isNaN(rt)) {
+        const isBad = rt >= state.latencySec;
+        addTally(state.latency.byInterval, key, isBad);
+        addTally(state.latency.byEndpoint, urlId, isBad);
+      }
+      if (state.availability) {
+        addTally(state.availability.byInterval, key, is5xx);
+        addTally(state.availability.byEndpoint, urlId, is5xx);
+      }
+    }
+  }
+
+  return states.map(({ slo, matched, latency, availability }) => ({
+    slo,
+    matched,
+    objectives: [
+      ...(latency ? [summarizeObjective('latency', slo.latencyTarget, latency.byInterval, latency.byEndpoint, urls)] : []),
+      ...(availability ? [summarizeObjective('availability', slo.availabilityTarget, availability.byInterval, availability.byEndpoint, urls)] : [])
+    ]
+  }));
+};
+
+export const isSloMet = (result: SloResult) => result.objectives.every(o => o.isMet);
+
+// 목표 중 하나라도 위반이면 위반, 위반은 없고 판정할 수 없는 목표가 있으면 데이터 없음
+export const getSloStatus = (result: SloResult): SloStatus =>
+  result.objectives.some(o => o.status === 'missed') ? 'missed'
+    : result.objectives.some(o => o.status === 'noData') ? 'noData'
+      : 'met';
+
+export const SLO_STATUS_LABELS: Record<SloStatus, string> = { met: '충족', missed: '위반', noData: '데이터 없음' };
+
+// 파일(CLI) 또는 이전 버전 저장분에서 읽은 정의의 빠진 항목을 채웁니다.
+export const normalizeSlo = (raw, index: number): SloDefinition => ({
+  id: raw.id ? String(raw.id) : `slo-${index + 1}`,
+  name: raw.name ?? raw.pattern ?? '',
+  pattern: raw.pattern ?? '',
+  latencyMs: raw.latencyMs ?? null,
+  latencyTarget: raw.latencyTarget ?? null,
+  availabilityTarget: raw.availabilityTarget ?? null
+});
+
+// --- Local Persistence ---
+const STORAGE_KEY = 'logAnalyzer.slos';
+
+export const loadSlos = (): SloDefinition[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw).map(normalizeSlo) : [];
+  } catch (e) { return []; }
+};
+
+export const saveSlos = (slos: SloDefinition[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(slos));
+};
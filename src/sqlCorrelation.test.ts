@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { correlateSql, summarizeSlowRequestSql, readRequestSql, getRequestTimeAnchor } from './sqlCorrelation';
+import { buildRecordStore, TestRecord } from './testRecords';
+
+type Row = TestRecord & { url: string; at: number; responseTime: number };
+
+// 시각은 완료 시각(end)입니다. /slow는 0~3초, /other는 8~10초에 처리
+const REQUESTS: Row[] = [
+  { url: '/slow', at: 3000, responseTime: 3, traceId: 'req-1' },
+  { url: '/fast', at: 2500, responseTime: 0.01, traceId: 'req-2' },
+  { url: '/other', at: 10000, responseTime: 2, traceId: 'req-3' },
+];
+
+// 0~19초 매초 짧은 요청 하나 (시간대 보정을 판단할 만큼 요청 로그의 초를 채웁니다)
+const TICKS: Row[] = Array.from({ length: 20 }, (_, i) => ({ url: '/tick', at: i * 1000, responseTime: 0.01 }));
+
+const OPTIONS = { slowThresholdSec: 1, anchor: 'end' as const };
+
+describe('correlateSql', () => {
+  it('links statements by shared id inside the request window', () => {
+    const sql = buildRecordStore([
+      { url: 'OrderMapper.select', at: 1000, responseTime: 0.5, traceId: 'req-1' },
+      { url: 'OrderMapper.update', at: 2000, responseTime: 0.25, traceId: 'req-1' },
+      { url: 'ItemMapper.select', at: 2400, responseTime: 0.005, traceId: 'req-2' },
+      { url: 'OrderMapper.select', at: 60000, responseTime: 0.1, traceId: 'req-1' },
+    ]);
+    const correlation = correlateSql(buildRecordStore(REQUESTS), sql, OPTIONS);
+    expect(correlation).toMatchObject({ mode: 'id', offsetMs: 0, totalSql: 4, linkedSql: 3 });
+    expect(correlation.byRequest.get(0)).toEqual({ count: 2, time: 0.75, sqlIds: [0, 1] });
+    expect(correlation.byRequest.get(1).sqlIds).toEqual([2]);
+    expect(readRequestSql(correlation, sql, 0).statements.map(s => s.url)).toEqual(['OrderMapper.select', 'OrderMapper.update']);
+  });
+
+  it('falls back to the shortest enclosing slow request without ids', () => {
+    const requests = buildRecordStore([...REQUESTS, { url: '/long', at: 12000, responseTime: 12 }].map(({ traceId, ...row }) => row));
+    const sql = buildRecordStore([
+      { url: 'A.select', at: 1500, responseTime: 0.2 },
+      { url: 'B.select', at: 9500, responseTime: 1 },
+      { url: 'C.select', at: 30000, responseTime: 0.1 },
+    ]);
+    const correlation = correlateSql(requests, sql, OPTIONS);
+    expect(correlation.mode).toBe('time');
+    expect([...correlation.byRequest.entries()].map(([i, link]) => [i, link.sqlIds])).toEqual([[0, [0]], [2, [1]]]);
+  });
+
+  it('shifts statement times when the two logs disagree on the time zone', () => {
+    const requests = buildRecordStore([...REQUESTS, ...TICKS]);
+    const shifted = (rows: Row[]) => rows.map(row => ({ ...row, at: row.at - 9 * 3600000 }));
+    const sql = buildRecordStore(shifted([
+      { url: 'A.select', at: 3000, responseTime: 0.5, traceId: 'req-1' },
+      { url: 'B.select', at: 10000, responseTime: 0.5, traceId: 'req-3' },
+      ...[5000, 6000, 7000, 8000].map(at => ({ url: 'C.select', at, responseTime: 0.001, traceId: 'req-2' })),
+    ]));
+    const correlation = correlateSql(requests, sql, OPTIONS);
+    expect(correlation).toMatchObject({ offsetMs: 9 * 3600000, offsetOverlap: 1, linkedSql: 2 });
+  });
+
+  it('keeps statement times when only a few seconds line up after shifting', () => {
+    // 한 시간 옮기면 첫 SQL만 요청 로그의 초(5초)와 겹칩니다. 우연한 한 번으로는 보정하지 않습니다.
+    const sql = buildRecordStore([5000, 40000, 50000, 60000, 70000].map(at => ({ url: 'A.select', at: at + 3600000, responseTime: 0.1 })));
+    const correlation = correlateSql(buildRecordStore([...REQUESTS, ...TICKS]), sql, OPTIONS);
+    expect(correlation).toMatchObject({ offsetMs: 0, offsetOverlap: 0, linkedSql: 0 });
+  });
+});
+
+describe('summarizeSlowRequestSql', () => {
+  it('sums statement time per slow request and per mapper', () => {
+    const requests = buildRecordStore(REQUESTS);
+    const sql = buildRecordStore([
+      { url: 'OrderMapper.select', at: 1000, responseTime: 0.5, traceId: 'req-1' },
+      { url: 'OrderMapper.select', at: 2000, responseTime: 0.5, traceId: 'req-1' },
+      { url: 'ItemMapper.select', at: 9500, responseTime: 2, traceId: 'req-3' },
+    ]);
+    const summary = summarizeSlowRequestSql(correlateSql(requests, sql, OPTIONS), requests, sql, 1);
+    expect(summary).toMatchObject({ slowCount: 2, linkedCount: 2 });
+    expect(summary.sqlShare).toBeCloseTo(3 / 5);
+    expect(summary.topRequests.map(r => [r.log.url, r.share])).toEqual([['/other', 1], ['/slow', 1 / 3]]);
+    expect(summary.topMappers).toEqual([
+      { mapper: 'ItemMapper.select', count: 1, time: 2, requests: 1 },
+      { mapper: 'OrderMapper.select', count: 2, time: 1, requests: 1 },
+    ]);
+  });
+});
+
+describe('getRequestTimeAnchor', () => {
+  it('treats Tomcat %t as the request start unless the pattern asks for the end', () => {
+    expect(getRequestTimeAnchor('tomcat', null)).toBe('start');
+    expect(getRequestTimeAnchor('nginx', null)).toBe('end');
+    const format = { id: 'f', name: 'f', kind: 'tomcat', pattern: '%h %t %r %s %D', fieldOverrides: {}, durationUnit: null };
+    expect(getRequestTimeAnchor('nginx', format)).toBe('start');
+    expect(getRequestTimeAnchor('nginx', { ...format, pattern: '%h %{end:yyyy-MM-dd HH:mm:ss}t %r %s %D' })).toBe('end');
+  });
+});
@@ -0,0 +1,234 @@
+import { RecordStore, readRecord, getRecordTime } from './recordStore';
+import { CustomFormat } from './customFormats';
+
+// --- Request ↔ SQL Correlation ---
+// 요청 로그(Tomcat/Logback/Nginx)와 MyBatis SQL 로그를 함께 분석한 경우 SQL 실행을 요청에 연결해
+// 느린 요청이 SQL에 쓴 시간과 실행한 문장을 보여줍니다.
+// - 두 로그에 같은 요청/트레이스/스레드 ID가 있으면 ID가 같고 요청 시간 안에 실행된 SQL을 그 요청에 붙입니다.
+// - ID로 이어지지 않으면 느린 요청 중 SQL 실행 구간을 감싸는 가장 짧은 요청에 붙입니다. 동시에 처리된 다른 요청의
+//   SQL일 수 있으므로 화면에는 추정치로 표시합니다.
+
+export type SqlLinkMode = 'id' | 'time';
+
+// 요청 로그의 시각이 요청 시작인지 완료인지. Tomcat %t는 요청 시작, 나머지는 로그를 남긴 완료 시각입니다.
+export type RequestTimeAnchor = 'start' | 'end';
+
+// 요청 하나에 연결된 SQL. time은 실행 시간 합계(초), sqlIds는 SQL 레코드 순번입니다.
+export type RequestSql = { count: number; time: number; sqlIds: number[] };
+
+export type SqlCorrelation = {
+  mode: SqlLinkMode;
+  offsetMs: number; // SQL 시각에 더한 시간대 보정
+  offsetOverlap: number; // 보정 후 SQL 로그의 초 중 요청 로그에도 있는 초의 비율 (0~1, SQL 시각이 없으면 0)
+  totalSql: number;
+  linkedSql: number;
+  byRequest: Map<number, RequestSql>; // 요청 레코드 순번 → 연결된 SQL
+};
+
+export const SQL_LINK_MODES: Record<SqlLinkMode, { label: string; description: string }> = {
+  id: { label: 'ID 일치', description: '요청 로그와 SQL 로그의 요청/트레이스/스레드 ID가 같고 요청 시간 안에 실행된 SQL' },
+  time: { label: '시간 겹침 (추정)', description: 'ID가 없어 요청 시간 구간 안에 실행된 SQL을 연결했습니다. 동시에 처리된 다른 요청의 SQL이 섞일 수 있습니다.' },
+};
+
+const SLACK_MS = 1000; // 두 로그 모두 초 단위 시각일 수 있어 요청 구간을 앞뒤로 1초씩 넓힙니다
+const ID_MODE_MIN_SHARE = 0.5; // SQL의 절반 이상이 요청 로그에 있는 ID를 가지면 ID로 연결
+const MAX_WINDOW_SEC = 600; // 시간 겹침 색인에 올리는 요청 구간의 상한
+const OFFSET_STEP_MS = 30 * 60000;
+const MAX_OFFSET_MS = 14 * 3600000;
+const MIN_OFFSET_HITS = 5; // 보정하려면 옮긴 SQL 시각이 요청 로그의 초와 5초 이상,
+const MIN_OFFSET_SHARE = 0.2; // 그리고 SQL 로그 초의 20% 이상 겹쳐야 합니다
+
+export const getRequestTimeAnchor = (logType: string, customFormat: CustomFormat | null): RequestTimeAnchor => {
+  if (customFormat) return customFormat.kind === 'tomcat' && !/%\{end:/.test(customFormat.pattern) ? 'start' : 'end';
+  return logType === 'tomcat' ? 'start' : 'end';
+};
+
+const toSeconds = (timeValues: number[]) => {
+  const seconds = new Set<number>();
+  for (const t of timeValues) if (!Number.isNaN(t)) seconds.add(Math.floor(t / 1000));
+  return seconds;
+};
+
+// 오프셋이 없는 타임스탬프는 브라우저 시간대로 해석되므로 서버 시간대가 다르면 두 로그가 몇 시간씩 어긋납니다.
+// SQL 시각을 30분 단위로 옮겨 보며 요청 로그의 초와 가장 많이 겹치는 보정값을 고릅니다.
+// 우연히 몇 초 겹친 것으로 시각을 옮기지 않도록 겹친 초의 개수와 비율이 모두 충분할 때만 보정합니다.
+const detectOffset = (requests: RecordStore, sql: RecordStore) => {
+  const requestSeconds = toSeconds(requests.timeValues);
+  const sqlSeconds = toSeconds(sql.timeValues);
+  const score = (offsetMs: number) => {
+    let hits = 0;
+    for (const s of sqlSeconds) if (requestSeconds.has(s + offsetMs / 1000)) hits++;
+    return hits;
+  };
+  const unshifted = score(0);
+  let best = 0;
+  let bestScore = unshifted;
+  for (let offset = -MAX_OFFSET_MS; offset <= MAX_OFFSET_MS; offset += OFFSET_STEP_MS) {
+    const hits = offset === 0 ? 0 : score(offset);
+    if (hits > bestScore) {
+      best = offset;
+      bestScore = hits;
+    }
+  }
+  const overlap = (hits: number) => sqlSeconds.size > 0 ? hits / sqlSeconds.size : 0;
+  // 보정하지 않아도 비슷하게 겹치면 그대로 둡니다.
+  const isShifted = bestScore > unshifted * 2 && bestScore >= MIN_OFFSET_HITS && overlap(bestScore) >= MIN_OFFSET_SHARE;
+  return isShifted ? { offsetMs: best, offsetOverlap: overlap(bestScore) } : { offsetMs: 0, offsetOverlap: overlap(unshifted) };
+};
+
+// 요청이 처리된 구간 [from, to] (epoch ms, 여유 포함). 시각이나 응답 시간이 없으면 null
+const requestWindow = (requests: RecordStore, i: number, anchor: RequestTimeAnchor) => {
+  const time = getRecordTime(requests, i);
+  const rt = requests.responseTime[i];
+  if (Number.isNaN(time) || Number.isNaN(rt)) return null;
+  const ms = rt * 1000;
+  return anchor === 'start' ? { from: time - SLACK_MS, to: time + ms + SLACK_MS } : { from: time - ms - SLACK_MS, to: time + SLACK_MS };
+};
+
+// 요청 구간들 중 SQL 실행 [start, end]를 감싸는 가장 짧은 구간의 요청 (없으면 -1)
+const pickRequest = (candidates: number[], windows: Map<number, { from: number; to: number }>, start: number, end: number) => {
+  let best = -1;
+  let bestSpan = Infinity;
+  for (const i of candidates) {
+    const w = windows.get(i);
+    if (!w || start < w.from || end > w.to) continue;
+    if (w.to - w.from < bestSpan) {
+      best = i;
+      bestSpan = w.to - w.from;
+    }
+  }
+  return best;
+};
+
+const addLink = (byRequest: Map<number, RequestSql>, requestIndex: number, sql: RecordStore, j: number) => {
+  if (!byRequest.has(requestIndex)) byRequest.set(requestIndex, { count: 0, time: 0, sqlIds: [] });
+  const entry = byRequest.get(requestIndex);
+  entry.count++;
+  entry.time += sql.responseTime[j];
+  entry.sqlIds.push(j);
+};
+
+// requests: 요청 로그 레코드, sql: SQL 로그 레코드. 시간 겹침으로 연결할 때는 지연 기준 이상인 요청만 후보로 씁니다.
+export const correlateSql = (requests: RecordStore, sql: RecordStore, { slowThresholdSec, anchor }: { slowThresholdSec: number; anchor: RequestTimeAnchor }): SqlCorrelation => {
+  const { offsetMs, offsetOverlap } = detectOffset(requests, sql);
+  const byRequest = new Map<number, RequestSql>();
+  const windows = new Map<number, { from: number; to: number }>();
+
+  // 요청 ID → 요청 순번 목록, SQL ID(사전 순번) → 같은 ID의 요청 목록
+  const requestIds = requests.columns.traceId;
+  const byId = new Map<string, number[]>();
+  if (requestIds) {
+    for (let i = 0; i < requests.length; i++) {
+      if (requestIds[i] < 0) continue;
+      const id = requests.dictionaries.traceId[requestIds[i]];
+      if (!byId.has(id)) byId.set(id, []);
+      byId.get(id).push(i);
+    }
+  }
+  const sqlCandidates = (sql.dictionaries.traceId || []).map(id => byId.get(id));
+  let idMatched = 0;
+  if (sql.columns.traceId) {
+    for (let j = 0; j < sql.length; j++) if (sql.columns.traceId[j] >= 0 && sqlCandidates[sql.columns.traceId[j]]) idMatched++;
+  }
+  const mode: SqlLinkMode = sql.length > 0 && idMatched >= sql.length * ID_MODE_MIN_SHARE ? 'id' : 'time';
+
+  // 시간 겹침: 느린 요청을 처리 구간에 걸친 초마다 색인합니다.
+  const bySecond = new Map<number, number[]>();
+  if (mode === 'time') {
+    for (let i = 0; i < requests.length; i++) {
+      if (!(requests.responseTime[i] >= slowThresholdSec)) continue;
+      const w = requestWindow(requests, i, anchor);
+      if (!w) continue;
+      windows.set(i, w);
+      const first = Math.floor(w.from / 1000);
+      const last = Math.min(Math.floor(w.to / 1000), first + MAX_WINDOW_SEC);
+      for (let s = first; s <= last; s++) {
+        if (!bySecond.has(s)) bySecond.set(s, []);
+        bySecond.get(s).push(i);
+      }
+    }
+  }
+
+  let linkedSql = 0;
+  for (let j = 0; j < sql.length; j++) {
+    const time = getRecordTime(sql, j);
+    const rt = sql.responseTime[j];
+    if (Number.isNaN(time) || Number.isNaN(rt)) continue;
+    const end = time + offsetMs;
+    const start = end - rt * 1000;
+    let candidates: number[] | undefined;
+    if (mode === 'id') {
+      const sqlId = sql.columns.traceId[j];
+      candidates = sqlId < 0 ? undefined : sqlCandidates[sqlId];
+      candidates?.forEach(i => { if (!windows.has(i)) windows.set(i, requestWindow(requests, i, anchor)); });
+    } else {
+      candidates = bySecond.get(Math.floor(end / 1000));
+    }
+    if (!candidates) continue;
+    const requestIndex = pickRequest(candidates, windows, start, end);
+    if (requestIndex < 0) continue;
+    addLink(byRequest, requestIndex, sql, j);
+    linkedSql++;
+  }
+
+  return { mode, offsetMs, offsetOverlap, totalSql: sql.length, linkedSql, byRequest };
+};
+
+// 요청에 쓴 시간 중 SQL 비율 (동시 실행이나 시각 오차로 100%를 넘으면 100%로 자릅니다)
+export const getSqlShare = (link: RequestSql, responseTime: number | null) =>
+  responseTime ? Math.min(1, link.time / responseTime) : null;
+
+// 상세 보기용: 요청 하나에 연결된 SQL 실행을 시각 순으로
+export const readRequestSql = (correlation: SqlCorrelation, sql: RecordStore, requestIndex: number) => {
+  const link = correlation.byRequest.get(requestIndex);
+  if (!link) return null;
+  const statements = link.sqlIds.map(j => readRecord(sql, j)).sort((a, b) => a.timestamp - b.timestamp);
+  return { ...link, statements };
+};
+
+const TOP_REQUESTS = 20;
+const TOP_MAPPERS = 10;
+
+// 느린 요청 요약: SQL이 연결된 느린 요청 수, SQL 시간이 긴 순의 요청, 느린 요청에서 실행된 매퍼별 합계
+export const summarizeSlowRequestSql = (correlation: SqlCorrelation, requests: RecordStore, sql: RecordStore, slowThresholdSec: number) => {
+  let slowCount = 0;
+  let slowTime = 0;
+  let sqlTime = 0;
+  const linked: { index: number; link: RequestSql }[] = [];
+  const mappers = new Map<string, { count: number; time: number; requests: number }>();
+
+  for (let i = 0; i < requests.length; i++) {
+    const rt = requests.responseTime[i];
+    if (!(rt >= slowThresholdSec)) continue;
+    slowCount++;
+    slowTime += rt;
+    const link = correlation.byRequest.get(i);
+    if (!link) continue;
+    sqlTime += Math.min(link.time, rt);
+    linked.push({ index: i, link });
+    const seen = new Set<string>();
+    for (const j of link.sqlIds) {
+      const mapper = sql.dictionaries.url[sql.columns.url[j]];
+      if (!mappers.has(mapper)) mappers.set(mapper, { count: 0, time: 0, requests: 0 });
+      const entry = mappers.get(mapper);
+      entry.count++;
+      entry.time += sql.responseTime[j];
+      if (!seen.has(mapper)) entry.requests++;
+      seen.add(mapper);
+    }
+  }
+
+  const topRequests = linked
+    .sort((a, b) => b.link.time - a.link.time)
+    .slice(0, TOP_REQUESTS)
+    .map(({ index, link }) => {
+      const log = readRecord(requests, index);
+      return { log, link, share: getSqlShare(link, log.responseTime) };
+    });
+  const topMappers = [...mappers.entries()]
+    .map(([mapper, entry]) => ({ mapper, ...entry }))
+    .sort((a, b) => b.time - a.time)
+    .slice(0, TOP_MAPPERS);
+
+  return { slowCount, linkedCount: linked.length, sqlShare: slowTime > 0 ? sqlTime / slowTime : 0, topRequests, topMappers };
+};
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { parseSqlParams, inlineSqlParams, fingerprintSql, mapperKey, createStatementTracker } from './sqlStatements';
+
+describe('parseSqlParams', () => {
+  it('reads values with their types and bare nulls', () => {
+    expect(parseSqlParams('42(Long), foo, bar(String), null, 2026-10-10 10:00:00.0(Timestamp)')).toEqual([
+      { value: '42', type: 'Long' },
+      { value: 'foo, bar', type: 'String' },
+      { value: 'null', type: null },
+      { value: '2026-10-10 10:00:00.0', type: 'Timestamp' },
+    ]);
+    expect(parseSqlParams('')).toEqual([]);
+  });
+});
+
+describe('inlineSqlParams', () => {
+  it('fills placeholders with literals and leaves ? inside strings alone', () => {
+    const sql = "SELECT * FROM t WHERE id = ? AND name = ? AND note <> '?' AND deleted = ?";
+    const params = parseSqlParams("7(Integer), O'Brien(String), null");
+    expect(inlineSqlParams(sql, params)).toBe("SELECT * FROM t WHERE id = 7 AND name = 'O''Brien' AND note <> '?' AND deleted = NULL");
+  });
+
+  it('keeps extra placeholders when parameters run out', () => {
+    expect(inlineSqlParams('a = ? AND b = ?', [{ value: '1', type: 'Long' }])).toBe('a = 1 AND b = ?');
+  });
+});
+
+describe('fingerprintSql', () => {
+  it('groups queries that differ only in literals and IN list length', () => {
+    const a = fingerprintSql("SELECT *  FROM orders WHERE id IN (1, 2, 3) AND status = 'PAID'");
+    const b = fingerprintSql("select * from orders where id in (?) and status = 'NEW'");
+    expect(a).toBe(b);
+    expect(a).toBe('select * from orders where id in (?+) and status = ?');
+  });
+});
+
+describe('createStatementTracker', () => {
+  it('attaches Preparing/Parameters to the matching execution in order', () => {
+    const tracker = createStatementTracker();
+    expect(tracker.observe('DEBUG c.e.m.OrderMapper.select - ==>  Preparing: SELECT * FROM orders WHERE id = ?')).toBe(true);
+    expect(tracker.observe('DEBUG c.e.m.OrderMapper.select - ==> Parameters: 1(Long)')).toBe(true);
+    tracker.observe('DEBUG c.e.m.OrderMapper.select - ==>  Preparing: SELECT * FROM orders WHERE id = ?');
+    tracker.observe('DEBUG c.e.m.OrderMapper.select - ==> Parameters: 2(Long)');
+    expect(tracker.observe('[SQL_END] [com.example.mapper.OrderMapper.select] [3ms]')).toBe(false);
+
+    expect(tracker.take('com.example.mapper.OrderMapper.select').statement).toBe('SELECT * FROM orders WHERE id = 1');
+    expect(tracker.take('com.example.mapper.OrderMapper.select')).toMatchObject({ statement: 'SELECT * FROM orders WHERE id = 2', sqlParams: ['2'] });
+    expect(tracker.take('com.example.mapper.OrderMapper.select')).toBeNull();
+  });
+
+  it('matches abbreviated logger names by class and method', () => {
+    expect(mapperKey('c.e.m.OrderMapper.select')).toBe(mapperKey('com.example.mapper.OrderMapper.select'));
+  });
+});
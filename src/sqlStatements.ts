@@ -0,0 +1,96 @@
+// --- MyBatis SQL Statements ---
+// MyBatis 디버그 로그의 "==>  Preparing:" / "==> Parameters:" 줄을 [SQL_END] 줄과 연결해
+// 느린 실행마다 실제 SQL을 보여주고, 리터럴을 제거한 SQL 지문(fingerprint)으로 쿼리 형태별 순위를 매깁니다.
+
+const PREPARING = /([\w$.]+)\s*(?:-\s*)?==>\s*Preparing:\s*(.*)$/;
+const PARAMETERS = /([\w$.]+)\s*(?:-\s*)?==>\s*Parameters:\s*(.*)$/;
+
+// 같은 매퍼의 실행이 끝나지 않고 쌓이는 경우(SQL_END 로그가 없는 구간 등)를 대비한 상한
+const MAX_PENDING_PER_MAPPER = 32;
+
+// 쿼리 값 자리에 그대로 넣을 수 있는 파라미터 타입 (나머지는 문자열 리터럴로 감쌉니다)
+const UNQUOTED_TYPES = new Set(['Integer', 'Long', 'Short', 'Byte', 'Double', 'Float', 'BigDecimal', 'BigInteger', 'Boolean']);
+
+export type SqlParam = { value: string; type: string | null };
+
+// logback의 %logger{36}은 패키지를 c.e.m 처럼 줄이므로 "클래스.메서드"만으로 매퍼를 식별합니다.
+export const mapperKey = (mapperId: string) => mapperId.split('.').slice(-2).join('.');
+
+// "42(Long), foo(String), null" → [{ value: '42', type: 'Long' }, { value: 'foo', type: 'String' }, { value: 'null', type: null }]
+export const parseSqlParams = (text: string): SqlParam[] => {
+  const params: SqlParam[] = [];
+  const regex = /(?:null|(.*?)\(([\w.$]+)\))(?:, |$)/g;
+  let match;
+  while ((match = regex.exec(text)) !== null && match[0] !== '') {
+    params.push(match[2] ? { value: match[1], type: match[2] } : { value: 'null', type: null });
+  }
+  return params;
+};
+
+const toSqlLiteral = ({ value, type }: SqlParam) => {
+  if (type === null) return 'NULL';
+  if (UNQUOTED_TYPES.has(type)) return value;
+  return `'${value.replace(/'/g, "''")}'`;
+};
+
+// 자리표시자(?)에 바인딩 값을 채워 EXPLAIN에 바로 붙여넣을 수 있는 SQL을 만듭니다.
+// 문자열 리터럴 안의 '?'는 건드리지 않습니다.
+export const inlineSqlParams = (sql: string, params: SqlParam[]) => {
+  let index = 0;
+  return sql.replace(/'(?:[^']|'')*'|\?/g, token => {
+    if (token !== '?' || index >= params.length) return token;
+    return toSqlLiteral(params[index++]);
+  });
+};
+
+// 문자열/숫자 리터럴을 ?로 바꾸고 IN 목록과 공백을 정규화해 같은 형태의 쿼리를 하나로 묶습니다.
+export const fingerprintSql = (sql: string) => sql
+  .replace(/'(?:[^']|'')*'/g, '?')
+  .replace(/\b\d+(?:\.\d+)?\b/g, '?')
+  .replace(/\b(in|values)\s*\(\s*\?(?:\s*,\s*\?)*\s*\)/gi, (_, keyword) => `${keyword} (?+)`)
+  .replace(/\s+/g, ' ')
+  .trim()
+  .toLowerCase();
+
+type PendingStatement = { sql: string; params: SqlParam[] | null };
+
+// 파서 하나(= 워커 작업 하나)가 보는 줄 순서대로 Preparing/Parameters를 기억했다가 SQL_END에 붙여줍니다.
+// 같은 매퍼가 동시에 실행되면 먼저 준비된 문장부터 순서대로 매칭합니다.
+// 그래서 sql_logback 파일은 구간으로 나누지 않고 한 작업이 처음부터 읽습니다. (isLineOrderDependent)
+export const createStatementTracker = () => {
+  const pending: Record<string, PendingStatement[]> = {};
+
+  // Preparing/Parameters 줄이면 기억하고 true를 돌려줍니다.
+  const observe = (line: string) => {
+    const preparing = line.match(PREPARING);
+    if (preparing) {
+      const key = mapperKey(preparing[1]);
+      const queue = pending[key] || (pending[key] = []);
+      queue.push({ sql: preparing[2].trim(), params: null });
+      if (queue.length > MAX_PENDING_PER_MAPPER) queue.shift();
+      return true;
+    }
+    const parameters = line.match(PARAMETERS);
+    if (parameters) {
+      const queue = pending[mapperKey(parameters[1])];
+      const target = queue && queue.find(s => s.params === null);
+      if (target) target.params = parseSqlParams(parameters[2].trim());
+      return true;
+    }
+    return false;
+  };
+
+  const take = (mapperId: string) => {
+    const statement = pending[mapperKey(mapperId)]?.shift();
+    if (!statement) return null;
+    const params = statement.params || [];
+    return {
+      sql: statement.sql,
+      sqlParams: params.map(p => p.value),
+      statement: inlineSqlParams(statement.sql, params),
+      fingerprint: fingerprintSql(statement.sql)
+    };
+  };
+
+  return { observe, take };
+};
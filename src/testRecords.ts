@@ -0,0 +1,40 @@
+import { createRecordStore, appendRecord } from './recordStore';
+import { DEFAULT_ANALYSIS_SETTINGS } from './analysisSettings';
+
+// --- Test Fixtures ---
+// 테스트에서 레코드 저장소를 만들 때 쓰는 공용 도우미. 시각은 BASE_TIME 기준 ms 오프셋(at)으로 적습니다.
+
+export const BASE_TIME = Date.UTC(2026, 9, 10, 1, 0, 0);
+export const MINUTE = 60000;
+
+// 1분 주기, UTC 기준 설정 (구간 시작 시각을 BASE_TIME + n분으로 바로 비교할 수 있도록)
+export const TEST_SETTINGS = { ...DEFAULT_ANALYSIS_SETTINGS, intervalMinutes: 1, timeZone: 'UTC' };
+
+export type TestRecord = {
+  at?: number;
+  url?: string;
+  rawUrl?: string;
+  method?: string;
+  ip?: string;
+  status?: number;
+  responseTime?: number | null;
+  bytes?: number;
+  source?: string;
+  traceId?: string;
+  statement?: string;
+  userAgent?: string;
+  referer?: string;
+};
+
+// 적지 않은 필드는 GET / 10.0.0.1 / 200 / 10ms로 채웁니다. 원본 줄 위치는 entry번 엔트리의 레코드 순번입니다.
+export const buildRecordStore = (records: TestRecord[], entry = 0) => {
+  const store = createRecordStore();
+  records.forEach(({ at = 0, ...record }, i) => {
+    const timestamp = BASE_TIME + at;
+    appendRecord(store, {
+      url: '/', method: 'GET', ip: '10.0.0.1', status: 200, responseTime: 0.01, rawUrl: record.url,
+      ...record, timestamp, rawTimestamp: String(timestamp)
+    }, { entry, offset: i, length: 1 });
+  });
+  return store;
+};
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { parseTimestamp, floorToInterval, wallClockToInstant, formatInstant, secondOfDay } from './timestamps';
+
+const HOUR = 3600000;
+
+describe('parseTimestamp', () => {
+  it('applies the offset of access log timestamps', () => {
+    expect(parseTimestamp('19/Oct/2026:10:07:31 +0900')).toBe(Date.UTC(2026, 9, 19, 1, 7, 31));
+    expect(parseTimestamp('19/Oct/2026:10:07:31 -0130')).toBe(Date.UTC(2026, 9, 19, 11, 37, 31));
+  });
+
+  it('reads ISO timestamps with fractions, Z and offsets', () => {
+    expect(parseTimestamp('2026-10-19T10:07:31.123+09:00')).toBe(Date.UTC(2026, 9, 19, 1, 7, 31, 123));
+    expect(parseTimestamp('2026-10-19T10:07:31Z')).toBe(Date.UTC(2026, 9, 19, 10, 7, 31));
+    expect(parseTimestamp('2026-10-19 10:07:31,5')).toBe(new Date(2026, 9, 19, 10, 7, 31, 500).getTime());
+  });
+
+  it('returns NaN for unknown values', () => {
+    expect(parseTimestamp('Unknown')).toBeNaN();
+    expect(parseTimestamp('19/Foo/2026:10:07:31 +0900')).toBeNaN();
+    expect(parseTimestamp('')).toBeNaN();
+  });
+});
+
+describe('display time zone', () => {
+  it('floors hourly intervals to the wall clock of the zone', () => {
+    // Asia/Kolkata는 UTC+5:30이라 현지 정시가 UTC 기준 30분에 걸립니다.
+    const t = Date.UTC(2026, 9, 19, 4, 10);
+    expect(floorToInterval(t, HOUR, 'UTC')).toBe(Date.UTC(2026, 9, 19, 4));
+    expect(floorToInterval(t, HOUR, 'Asia/Kolkata')).toBe(Date.UTC(2026, 9, 19, 3, 30));
+    expect(floorToInterval(t, 24 * HOUR, 'Asia/Seoul')).toBe(Date.UTC(2026, 9, 18, 15));
+  });
+
+  it('follows daylight saving changes', () => {
+    expect(wallClockToInstant(2026, 6, 1, 12, 0, 0, 'America/New_York')).toBe(Date.UTC(2026, 6, 1, 16));
+    expect(wallClockToInstant(2026, 0, 1, 12, 0, 0, 'America/New_York')).toBe(Date.UTC(2026, 0, 1, 17));
+  });
+
+  it('formats and splits the day in the chosen zone', () => {
+    const t = Date.UTC(2026, 9, 19, 16, 5, 9);
+    expect(formatInstant(t, 'Asia/Seoul')).toBe('2026-10-20 01:05:09');
+    expect(formatInstant(t, 'UTC', 'minute')).toBe('10-19 16:05');
+    expect(formatInstant(NaN, 'UTC')).toBe('Unknown');
+    expect(secondOfDay(t, 'Asia/Seoul')).toBe(3909);
+  });
+});
@@ -0,0 +1,128 @@
+// --- Timestamps & Display Time Zone ---
+// 로그의 타임스탬프 문자열을 실제 시각(epoch ms)으로 바꾸고, 선택한 표시 시간대 기준으로 구간을 나누거나 포맷합니다.
+// 오프셋이 없는 타임스탬프(logback, ISO 로컬 시각)는 브라우저 시간대에서 기록된 것으로 해석합니다.
+
+const MONTHS = { Jan: 0, Feb: 1, Mar: 2, Apr: 3, May: 4, Jun: 5, Jul: 6, Aug: 7, Sep: 8, Oct: 9, Nov: 10, Dec: 11 };
+
+// "19/Oct/2026:10:07:31 +0900" (nginx $time_local, Tomcat %t)
+const CLF = /^(\d{2})\/([A-Za-z]{3})\/(\d{4}):(\d{2}):(\d{2}):(\d{2})(?:\s*([+-])(\d{2}):?(\d{2}))?/;
+// "2026-10-19 10:07:31", "2026-10-19 10:07:31,123" (logback), "2026-10-19T10:07:31.123+09:00" ($time_iso8601)
+const ISO = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2}):(\d{2})(?:[.,](\d{1,9}))?\s*(?:(Z)|([+-])(\d{2}):?(\d{2}))?/;
+
+const toInstant = (y: number, mo: number, d: number, h: number, mi: number, s: number, ms: number, offsetMinutes: number | null) => offsetMinutes === null
+  ? new Date(y, mo, d, h, mi, s, ms).getTime()
+  : Date.UTC(y, mo, d, h, mi, s, ms) - offsetMinutes * 60000;
+
+const offsetOf = (sign: string | undefined, hh: string | undefined, mm: string | undefined) =>
+  sign ? (sign === '-' ? -1 : 1) * (parseInt(hh) * 60 + parseInt(mm)) : null;
+
+// 지원하지 않는 형태이거나 "Unknown"이면 NaN
+export const parseTimestamp = (raw: string): number => {
+  if (!raw) return NaN;
+  const clf = raw.match(CLF);
+  if (clf) {
+    const month = MONTHS[clf[2]];
+    if (month === undefined) return NaN;
+    return toInstant(+clf[3], month, +clf[1], +clf[4], +clf[5], +clf[6], 0, offsetOf(clf[7], clf[8], clf[9]));
+  }
+  const iso = raw.match(ISO);
+  if (iso) {
+    const ms = iso[7] ? Math.round(parseFloat(`0.${iso[7]}`) * 1000) : 0;
+    const offset = iso[8] ? 0 : offsetOf(iso[9], iso[10], iso[11]);
+    return toInstant(+iso[1], +iso[2] - 1, +iso[3], +iso[4], +iso[5], +iso[6], ms, offset);
+  }
+  return NaN;
+};
+
+// 같은 초의 요청이 연달아 나오므로 직전 문자열의 결과를 재사용합니다.
+export const createTimestampParser = () => {
+  let lastRaw: string | null = null;
+  let lastValue = NaN;
+  return (raw: string) => {
+    if (raw !== lastRaw) {
+      lastRaw = raw;
+      lastValue = parseTimestamp(raw);
+    }
+    return lastValue;
+  };
+};
+
+// --- Display Time Zone ---
+export const LOCAL_TIME_ZONE = 'local';
+
+export const TIME_ZONE_OPTIONS = [
+  { key: LOCAL_TIME_ZONE, label: '브라우저 시간대' },
+  { key: 'UTC', label: 'UTC' },
+  { key: 'Asia/Seoul', label: 'Asia/Seoul (KST)' },
+  { key: 'Asia/Tokyo', label: 'Asia/Tokyo (JST)' },
+  { key: 'Asia/Shanghai', label: 'Asia/Shanghai (CST)' },
+  { key: 'Europe/London', label: 'Europe/London' },
+  { key: 'America/New_York', label: 'America/New_York' },
+  { key: 'America/Los_Angeles', label: 'America/Los_Angeles' },
+];
+
+const zoneFormatters: Record<string, Intl.DateTimeFormat> = {};
+const offsetCache: Record<string, Map<number, number>> = {};
+
+const HOUR_MS = 3600000;
+
+// 해당 시각의 표시 시간대 UTC 오프셋(ms). 오프셋은 정시 단위로만 바뀐다고 보고 시간 단위로 캐시합니다.
+export const getZoneOffsetMs = (epochMs: number, timeZone: string) => {
+  if (!timeZone || timeZone === LOCAL_TIME_ZONE) return -new Date(epochMs).getTimezoneOffset() * 60000;
+  if (timeZone === 'UTC') return 0;
+  const cache = offsetCache[timeZone] || (offsetCache[timeZone] = new Map());
+  const hour = Math.floor(epochMs / HOUR_MS);
+  let offset = cache.get(hour);
+  if (offset === undefined) {
+    const formatter = zoneFormatters[timeZone] || (zoneFormatters[timeZone] = new Intl.DateTimeFormat('en-US', {
+      timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric'
+    }));
+    const parts = Object.fromEntries(formatter.formatToParts(hour * HOUR_MS).map(p => [p.type, p.value]));
+    const wallClock = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+    offset = wallClock - hour * HOUR_MS;
+    cache.set(hour, offset);
+  }
+  return offset;
+};
+
+// 표시 시간대의 벽시계 기준으로 intervalMs 단위로 내린 시각 (1시간 주기는 현지 정시에 맞춰집니다)
+export const floorToInterval = (epochMs: number, intervalMs: number, timeZone: string) => {
+  const offset = getZoneOffsetMs(epochMs, timeZone);
+  return Math.floor((epochMs + offset) / intervalMs) * intervalMs - offset;
+};
+
+// 표시 시간대의 벽시계 시각 → epoch ms (쿼리의 "2026-10-19T14:00" 같은 입력용)
+export const wallClockToInstant = (y: number, mo: number, d: number, h: number, mi: number, s: number, timeZone: string) => {
+  const asUtc = Date.UTC(y, mo, d, h, mi, s);
+  const guess = asUtc - getZoneOffsetMs(asUtc, timeZone);
+  return asUtc - getZoneOffsetMs(guess, timeZone);
+};
+
+// 표시 시간대 기준 자정부터 지난 초
+export const secondOfDay = (epochMs: number, timeZone: string) => {
+  const wall = epochMs + getZoneOffsetMs(epochMs, timeZone);
+  return Math.floor((((wall % 86400000) + 86400000) % 86400000) / 1000);
+};
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+// datetime: "2026-10-19 10:07:31", minute: "10-19 10:05", time: "10:07:31", clock: "10:07"
+export type TimeFormatStyle = 'datetime' | 'minute' | 'time' | 'clock';
+
+export const formatInstant = (epochMs: number, timeZone: string, style: TimeFormatStyle = 'datetime') => {
+  if (epochMs === null || epochMs === undefined || Number.isNaN(epochMs)) return 'Unknown';
+  const wall = new Date(epochMs + getZoneOffsetMs(epochMs, timeZone));
+  const date = `${pad(wall.getUTCMonth() + 1)}-${pad(wall.getUTCDate())}`;
+  const clock = `${pad(wall.getUTCHours())}:${pad(wall.getUTCMinutes())}`;
+  if (style === 'clock') return clock;
+  if (style === 'minute') return `${date} ${clock}`;
+  const seconds = `${clock}:${pad(wall.getUTCSeconds())}`;
+  if (style === 'time') return seconds;
+  return `${wall.getUTCFullYear()}-${date} ${seconds}`;
+};
+
+// 구간이 하루를 넘으면 축 눈금에 날짜도 함께 표시합니다.
+export const spansMultipleDays = (times: number[], timeZone: string) => {
+  if (times.length < 2) return false;
+  return formatInstant(times[0], timeZone, 'datetime').slice(0, 10) !== formatInstant(times[times.length - 1], timeZone, 'datetime').slice(0, 10);
+};
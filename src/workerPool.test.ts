@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { createLineParser, createPartialResult, mergePartialResults, ParserOptions } from './logCore';
+import { aggregateFileSlice, aggregateByteStream } from './lineStream';
+import { compactRecordStore, readRecord } from './recordStore';
+import { openDecompressedStream } from './compressedInput';
+import { UploadEntry } from './fileSources';
+import { splitIntoTasks } from './workerPool';
+
+const toEntry = (name: string, text: string): UploadEntry => {
+  const file = new File([text], name);
+  return { file, path: name, source: name, encoding: 'none', start: 0, end: file.size };
+};
+
+// 웹 앱: 작업마다 워커(파서)를 새로 만들어 구간을 집계하고 작업 순서대로 병합합니다. (analysisWorker와 같은 경로)
+const analyzeLikeWebApp = async (entries: UploadEntry[], options: ParserOptions, slicesPerFile: number, minBytesPerTask: number) => {
+  const partials = [];
+  for (const task of splitIntoTasks(entries, options, slicesPerFile, minBytesPerTask)) {
+    const acc = createPartialResult();
+    await aggregateFileSlice(task, createLineParser(options), acc);
+    partials.push({ ...acc, records: compactRecordStore(acc.records) });
+  }
+  return mergePartialResults(partials);
+};
+
+// CLI: 엔트리마다 스트림 하나로 집계합니다.
+const analyzeLikeCli = async (entries: UploadEntry[], options: ParserOptions) => {
+  const partials = [];
+  for (const [entryIndex, entry] of entries.entries()) {
+    const acc = createPartialResult();
+    await aggregateByteStream(openDecompressedStream(entry), createLineParser(options), acc, entry.source, entryIndex);
+    partials.push({ ...acc, records: compactRecordStore(acc.records) });
+  }
+  return mergePartialResults(partials);
+};
+
+const expectSameResult = (web, cli) => {
+  expect(web.totalRequests).toBe(cli.totalRequests);
+  expect(web.errorCount).toBe(cli.errorCount);
+  expect(web.apiMap).toEqual(cli.apiMap);
+  expect(web.tpsMap).toEqual(cli.tpsMap);
+  expect(web.sqlShapeMap).toEqual(cli.sqlShapeMap);
+  expect(web.diagnostics.lines).toBe(cli.diagnostics.lines);
+  const rows = (result) => Array.from({ length: result.records.length }, (_, i) => readRecord(result.records, i));
+  expect(rows(web)).toEqual(rows(cli));
+};
+
+const ACCESS_LOG = Array.from({ length: 40 }, (_, i) =>
+  `10.0.0.${i % 5} - - [10/Oct/2026:10:00:${String(i).padStart(2, '0')} +0900] "GET /api/items/${i} HTTP/1.1" ${i % 7 === 0 ? 500 : 200} ${100 + i} 0.0${i % 9 + 1}`
+).join('\n') + '\n';
+
+// MyBatis 실행 하나가 Preparing, Parameters, SQL_END 세 줄에 걸칩니다.
+const SQL_LOG = Array.from({ length: 20 }, (_, i) => [
+  `[2026-10-10 10:00:${String(i).padStart(2, '0')}] [http-nio-8080-exec-${i % 3}] DEBUG c.e.m.OrderMapper.select - ==>  Preparing: SELECT * FROM orders WHERE id = ? AND status = ?`,
+  `[2026-10-10 10:00:${String(i).padStart(2, '0')}] [http-nio-8080-exec-${i % 3}] DEBUG c.e.m.OrderMapper.select - ==> Parameters: ${i}(Long), PAID(String)`,
+  `[2026-10-10 10:00:${String(i).padStart(2, '0')}] [http-nio-8080-exec-${i % 3}] INFO  c.e.SqlLogger - [SQL_END] [com.example.mapper.OrderMapper.select] [${10 + i}ms]`,
+].join('\n')).join('\n') + '\n';
+
+describe('web app and CLI parity', () => {
+  it('gives the same result for access logs split into many slices', async () => {
+    const options: ParserOptions = { logType: 'nginx' };
+    const entries = [toEntry('access.log', ACCESS_LOG), toEntry('access.log.1', ACCESS_LOG)];
+    expect(splitIntoTasks(entries, options, 8, 256).length).toBe(16);
+    expectSameResult(await analyzeLikeWebApp(entries, options, 8, 256), await analyzeLikeCli(entries, options));
+  });
+
+  it('keeps MyBatis executions whole by not splitting sql_logback files', async () => {
+    const options: ParserOptions = { logType: 'sql_logback' };
+    const entries = [toEntry('sql.log', SQL_LOG)];
+    expect(splitIntoTasks(entries, options, 8, 256)).toHaveLength(1);
+
+    const web = await analyzeLikeWebApp(entries, options, 8, 256);
+    expectSameResult(web, await analyzeLikeCli(entries, options));
+    expect(web.totalRequests).toBe(20);
+    expect(Object.keys(web.sqlShapeMap)).toHaveLength(1);
+    expect(readRecord(web.records, 3).statement).toBe("SELECT * FROM orders WHERE id = 3 AND status = 'PAID'");
+  });
+});
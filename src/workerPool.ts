@@ -0,0 +1,140 @@
+import { mergePartialResults, PartialResult, ParserOptions, isLineOrderDependent } from './logCore';
+import { UploadEntry } from './fileSources';
+import { Encoding } from './compressedInput';
+
+// --- Worker Pool ---
+// 파일들을 바이트 구간 작업으로 나눠 워커들에 분배하고, 부분 결과를 업로드 순서대로 병합해 돌려줍니다.
+// 진행률은 (압축 파일의 경우 압축된) 읽은 바이트 기준입니다.
+
+const MIN_BYTES_PER_TASK = 1024 * 1024 * 16; // 작은 파일은 작업 하나로 충분
+const MAX_WORKERS = 8;
+
+export class AnalysisCancelledError extends Error {
+  constructor() {
+    super('Analysis cancelled');
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+// entryIndex는 업로드 엔트리 순번으로, 레코드에 원본 줄 위치와 함께 기록됩니다.
+type Task = { file: File; path: string; source: string; encoding: Encoding; start: number; end: number; entryIndex: number };
+
+const getMaxWorkers = () => Math.min(navigator.hardwareConcurrency || 4, MAX_WORKERS);
+
+// 줄 순서에 기대는 로그는 파일을 나누지 않습니다. (여러 파일이면 파일 단위로는 여전히 병렬)
+export const splitIntoTasks = (entries: UploadEntry[], options: ParserOptions, slicesPerFile = getMaxWorkers(), minBytesPerTask = MIN_BYTES_PER_TASK) => {
+  const tasks: Task[] = [];
+  const isWholeFile = isLineOrderDependent(options);
+  entries.forEach(({ file, path, source, encoding, start, end }, entryIndex) => {
+    // 압축 스트림은 중간부터 읽을 수 없으므로 엔트리 하나가 작업 하나입니다.
+    if (encoding !== 'none') {
+      tasks.push({ file, path, source, encoding, start, end, entryIndex });
+      return;
+    }
+    const sliceCount = isWholeFile ? 1 : Math.max(1, Math.min(slicesPerFile, Math.ceil(file.size / minBytesPerTask)));
+    const sliceSize = Math.ceil(file.size / sliceCount);
+    for (let i = 0; i < sliceCount; i++) {
+      const sliceStart = i * sliceSize;
+      tasks.push({ file, path, source, encoding, start: sliceStart, end: Math.min(file.size, sliceStart + sliceSize), entryIndex });
+    }
+  });
+  return tasks;
+};
+
+export const runAnalysis = (entries: UploadEntry[], options: ParserOptions, onProgress: (percent: number) => void) => {
+  const tasks = splitIntoTasks(entries, options);
+  const totalBytes = entries.reduce((acc, e) => acc + (e.end - e.start), 0);
+  const workerCount = Math.max(1, Math.min(getMaxWorkers(), tasks.length));
+  const workers: Worker[] = [];
+  let rejectRun: (err: Error) => void = () => {};
+
+  const terminateAll = () => workers.forEach(w => w.terminate());
+
+  const promise = new Promise<PartialResult>((resolve, reject) => {
+    rejectRun = reject;
+    const partials: PartialResult[] = new Array(tasks.length);
+    const bytesRead: number[] = new Array(tasks.length).fill(0);
+    let nextTask = 0;
+    let remaining = tasks.length;
+
+    if (tasks.length === 0) {
+      resolve(mergePartialResults([]));
+      return;
+    }
+
+    const dispatch = (worker: Worker) => {
+      if (nextTask >= tasks.length) {
+        worker.terminate();
+        return;
+      }
+      const taskId = nextTask++;
+      worker.postMessage({ taskId, ...tasks[taskId], options });
+    };
+
+    for (let i = 0; i < workerCount; i++) {
+      const worker = new Worker(new URL('./analysisWorker.ts', import.meta.url), { type: 'module' });
+      workers.push(worker);
+
+      worker.onmessage = (event: MessageEvent) => {
+        const msg = event.data;
+        if (msg.type === 'progress') {
+          bytesRead[msg.taskId] = msg.bytesRead;
+          const total = bytesRead.reduce((acc, b) => acc + b, 0);
+          onProgress(Math.min(100, Math.round((total / totalBytes) * 100)));
+        } else if (msg.type === 'done') {
+          partials[msg.taskId] = msg.result;
+          if (--remaining === 0) {
+            terminateAll();
+            resolve(mergePartialResults(partials));
+          } else {
+            dispatch(worker);
+          }
+        } else if (msg.type === 'error') {
+          terminateAll();
+          reject(new Error(msg.message));
+        }
+      };
+      worker.onerror = (event: ErrorEvent) => {
+        terminateAll();
+        reject(new Error(event.message || 'Worker failed'));
+      };
+
+      dispatch(worker);
+    }
+  });
+
+  const cancel = () => {
+    terminateAll();
+    rejectRun(new AnalysisCancelledError());
+  };
+
+  return { promise, cancel };
+};
+
+// 여러 분석(예: 요청 로그와 SQL 로그)을 차례로 실행합니다. 진행률은 전체 바이트 기준이고, 취소하면 진행 중인 분석을 멈춥니다.
+export const runAnalyses = (jobs: { entries: UploadEntry[]; options: ParserOptions }[], onProgress: (percent: number) => void) => {
+  const sizes = jobs.map(job => job.entries.reduce((acc, e) => acc + (e.end - e.start), 0));
+  const totalBytes = sizes.reduce((acc, b) => acc + b, 0) || 1;
+  let current: ReturnType<typeof runAnalysis> | null = null;
+  let isCancelled = false;
+
+  const promise = (async () => {
+    const results: PartialResult[] = [];
+    let doneBytes = 0;
+    for (let i = 0; i < jobs.length; i++) {
+      if (isCancelled) throw new AnalysisCancelledError();
+      const base = doneBytes;
+      current = runAnalysis(jobs[i].entries, jobs[i].options, percent => onProgress(Math.round(((base + sizes[i] * percent / 100) / totalBytes) * 100)));
+      results.push(await current.promise);
+      doneBytes += sizes[i];
+    }
+    return results;
+  })();
+
+  const cancel = () => {
+    isCancelled = true;
+    current?.cancel();
+  };
+
+  return { promise, cancel };
+};
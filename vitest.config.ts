@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config'
+
+// 테스트는 순수 로직 모듈만 다루므로 Tailwind(PostCSS) 설정을 읽지 않습니다.
+export default defineConfig({
+  css: { postcss: {} },
+  test: {
+    include: ['src/**/*.test.ts', 'cli/**/*.test.ts'],
+  },
+})